@@ -8,8 +8,12 @@ import MatchPage from './pages/MatchPage';
 import AdminPage from './pages/AdminPage';
 import AboutPage from './pages/AboutPage';
 import HistoryPage from './pages/HistoryPage';
+import ProfilePage from './pages/ProfilePage';
+import LeaderboardPage from './pages/LeaderboardPage';
+import ReplayPage from './pages/ReplayPage';
 import WaitingPage from './pages/WaitingPage';
 import JoinPage from './pages/JoinPage';
+import WatchPage from './pages/WatchPage';
 import SignInPage from './pages/auth/SignInPage';
 import SignUpPage from './pages/auth/SignUpPage';
 import VerifyPage from './pages/auth/VerifyPage';
@@ -30,10 +34,14 @@ function App() {
               <Route path="/admin" element={<AdminPage />} />
               <Route path="/about" element={<AboutPage />} />
               <Route path="/history" element={<HistoryPage />} />
+              <Route path="/profile" element={<ProfilePage />} />
+              <Route path="/leaderboard" element={<LeaderboardPage />} />
+              <Route path="/match/:matchId/replay" element={<ReplayPage />} />
               <Route path="/auth/signin" element={<SignInPage />} />
               <Route path="/auth/signup" element={<SignUpPage />} />
               <Route path="/auth/verify" element={<VerifyPage />} />
               <Route path="/join/:inviteCode" element={<JoinPage />} />
+              <Route path="/watch/:inviteCode" element={<WatchPage />} />
             </Routes>
           </div>
         </AuthProvider>
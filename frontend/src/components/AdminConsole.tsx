@@ -1,6 +1,11 @@
 import { useState } from "react";
 import { Card, Button } from "@/components/ui";
 import { useMatch } from "@/store/server-state/match.queries";
+import { usePersonas } from "@/store/server-state/persona.queries";
+import { PersonaManager } from "./PersonaManager";
+import { PromptPackManager } from "./PromptPackManager";
+import { ModerationQueue } from "./ModerationQueue";
+import { LobbySetupForm } from "./LobbySetupForm";
 // import { useAuth } from "@/contexts/useAuth";
 
 interface HealthCheckResult {
@@ -22,6 +27,7 @@ export function AdminConsole() {
   // Get current match state for debug view
   const currentMatchId = sessionStorage.getItem("currentMatchId");
   const { data: matchState } = useMatch(currentMatchId);
+  const { data: personas } = usePersonas();
 
   // Get all configured endpoints
   const endpoints = {
@@ -269,6 +275,36 @@ export function AdminConsole() {
         </div>
       </Card>
 
+      {/* AI Personas */}
+      <Card>
+        <h2 className="text-xl font-semibold mb-4">🤖 AI Personas</h2>
+        <PersonaManager />
+      </Card>
+
+      {/* Prompt Packs */}
+      <Card>
+        <h2 className="text-xl font-semibold mb-4">📚 Prompt Packs</h2>
+        <PromptPackManager />
+      </Card>
+
+      {/* Moderation */}
+      <Card>
+        <h2 className="text-xl font-semibold mb-4">🛡️ Moderation Queue</h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Flagged content and player reports. Upholding a response report masks it in its match.
+        </p>
+        <ModerationQueue />
+      </Card>
+
+      {/* Custom Match */}
+      <Card>
+        <h2 className="text-xl font-semibold mb-4">🧪 Custom Match</h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Starts an admin_custom match with these settings and persona picks.
+        </p>
+        <LobbySetupForm playerName="Admin" templateType="admin_custom" personas={personas} />
+      </Card>
+
       {/* Admin Actions */}
       <Card>
         <h2 className="text-xl font-semibold mb-4">🛠️ Admin Actions</h2>
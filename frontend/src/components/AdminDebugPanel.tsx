@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Card, Button } from './ui';
 import { useMatch } from '@/store/server-state/match.queries';
 import { useAuth } from '@/contexts/useAuth';
+import { getVotePicks } from '@shared/schemas';
 import type { Participant, Round } from '@shared/schemas';
 
 interface AdminDebugPanelProps {
@@ -150,12 +151,12 @@ export function AdminDebugPanel({ matchId }: AdminDebugPanelProps) {
               <div>
                 <h4 className="font-semibold mb-2">Votes:</h4>
                 <div className="space-y-1 text-xs">
-                  {Object.entries(currentRound.votes).map(([voter, votedFor]) => {
+                  {Object.entries(currentRound.votes).map(([voter, vote]) => {
                     const voterParticipant = match.participants.find((p: Participant) => p.identity === voter);
                     return (
                       <div key={voter}>
                         {voter} ({voterParticipant?.playerName})
-                        {voterParticipant?.isAI && ' 🤖'} → {votedFor}
+                        {voterParticipant?.isAI && ' 🤖'} → {getVotePicks(vote).join(', ')}
                       </div>
                     );
                   })}
@@ -1,7 +1,12 @@
+import { useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { useMatch, useMyIdentity, useCurrentRound, useMatchStatus } from "@/store/server-state/match.queries";
-import { useLeaveMatch } from "@/store/server-state/match.mutations";
+import { useLeaveMatch, useReclaimSeat } from "@/store/server-state/match.mutations";
+import { useMatchHeartbeat } from "@/hooks/useMatchHeartbeat";
 import { useUIStore } from "@/store/ui-state/ui.store";
+import { createSyncEngine } from "@/store/sync-engine/sync";
+import type { MatchSyncEngine } from "@/store/sync-engine/sync";
 import MessageList from "./MessageList";
 import ParticipantBar from "./ParticipantBar";
 import RoundInterface from "./RoundInterface";
@@ -22,13 +27,19 @@ export default function ChatInterface() {
   
   // Mutations
   const leaveMatch = useLeaveMatch();
+  const reclaimSeat = useReclaimSeat();
+
+  // Presence: keeps this seat online for the others
+  const { seatTaken, clearSeatTaken } = useMatchHeartbeat(matchId, !isComplete);
   
   // UI state
   const resetUI = useUIStore(state => state.resetUI);
 
+  // Real-time sync
+  const queryClient = useQueryClient();
+  const syncEngineRef = useRef<MatchSyncEngine | null>(null);
+
   // Set up sync engine when match is loaded
-  // TODO: Fix sync engine connection issues
-  /*
   useEffect(() => {
     if (matchId && !syncEngineRef.current) {
       syncEngineRef.current = createSyncEngine(queryClient, matchId);
@@ -41,8 +52,7 @@ export default function ChatInterface() {
         syncEngineRef.current = null;
       }
     };
-  }, [matchId]); // Only depend on matchId, not match object
-  */
+  }, [matchId, queryClient]); // Only depend on matchId, not match object
 
   // Handle leave match
   const handleLeaveMatch = () => {
@@ -56,6 +66,12 @@ export default function ChatInterface() {
     }
   };
 
+  const handleReclaimSeat = () => {
+    if (matchId) {
+      reclaimSeat.mutate(matchId, { onSuccess: clearSeatTaken });
+    }
+  };
+
   // Handle loading state
   if (isLoading) {
     return (
@@ -120,6 +136,20 @@ export default function ChatInterface() {
         <div className="px-2 sm:px-4 lg:px-0 lg:max-w-4xl lg:mx-auto">
           <ParticipantBar />
         </div>
+
+        {/* An AI player stood in while this player was gone */}
+        {seatTaken && (
+          <Card className="mx-2 sm:mx-4 lg:mx-auto lg:max-w-4xl mt-2 bg-amber-50 border-amber-200" padding="sm">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-amber-800">
+                You were away too long, so an AI player took over your seat.
+              </p>
+              <Button size="sm" onClick={handleReclaimSeat} disabled={reclaimSeat.isPending}>
+                {reclaimSeat.isPending ? "Reclaiming..." : "Reclaim My Seat"}
+              </Button>
+            </div>
+          </Card>
+        )}
       </div>
 
       {/* Main Content - Round Interface */}
@@ -1,12 +1,13 @@
-import { useCallback, useEffect, useMemo } from "react";
-import { FiCheckCircle } from "react-icons/fi";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { FiCheckCircle, FiFlag } from "react-icons/fi";
 import { Card, Button } from "./ui";
-import type { Identity, Match, Round, Participant } from "@shared/schemas";
+import { getRequiredVotePicks } from "@shared/schemas";
+import type { Identity, MatchView, Round, VoteResult } from "@shared/schemas";
 import { useMyIdentity, useCurrentRound, useMatch } from "@/store/server-state/match.queries";
-import { useSubmitVote } from "@/store/server-state/match.mutations";
+import { useReportResponse, useSubmitVote } from "@/store/server-state/match.mutations";
 import { useUIStore } from "@/store/ui-state/ui.store";
 import { useVotingStore } from "@/store/ui-state/voting.store";
-import { calculateCumulativeScores } from "@/utils/scoring";
+import { getMatchScores, getRoundScores } from "@/utils/scoring";
 import toast from "react-hot-toast";
 
 interface HumanOrRobotProps {
@@ -27,10 +28,14 @@ export default function HumanOrRobot({
   const currentRound = useCurrentRound();
   const submitVote = useSubmitVote();
   const setVoteFeedback = useVotingStore(state => state.setVoteFeedback);
+  const reportResponse = useReportResponse();
+  // Keyed by round and identity, so a new round starts with nothing reported
+  const [reported, setReported] = useState<string[]>([]);
   
   // UI state - use individual selectors to avoid re-render issues
-  const selectedResponse = useUIStore(state => state.selectedResponse);
-  const setSelectedResponse = useUIStore(state => state.setSelectedResponse);
+  const selectedResponses = useUIStore(state => state.selectedResponses);
+  const setSelectedResponses = useUIStore(state => state.setSelectedResponses);
+  const toggleSelectedResponse = useUIStore(state => state.toggleSelectedResponse);
   const focusedIndex = useUIStore(state => state.focusedIndex);
   const setFocusedIndex = useUIStore(state => state.setFocusedIndex);
   const isKeyboardNavEnabled = useUIStore(state => state.isKeyboardNavEnabled);
@@ -61,14 +66,20 @@ export default function HumanOrRobot({
   // Filter out my own response for keyboard navigation
   const selectableResponses = orderedResponses.filter(([identity]) => identity !== myIdentity);
 
+  // One pick per other human; a 1v3 match is a single pick. Match views hide
+  // isAI, so the server says how many picks this player needs.
+  const requiredPicks = match?.requiredVotePicks
+    ?? (match && myIdentity ? getRequiredVotePicks(match.participants, myIdentity) : 1);
+  const isVoteReady = selectedResponses.length === requiredPicks;
+
   const handleVote = useCallback(() => {
-    if (!selectedResponse || !matchId || !myIdentity || !currentRound) return;
+    if (!isVoteReady || !matchId || !myIdentity || !currentRound) return;
 
     submitVote.mutate(
       {
         matchId,
         voter: myIdentity,
-        votedFor: selectedResponse,
+        votedFor: requiredPicks === 1 ? selectedResponses[0] : selectedResponses,
         round: currentRound.roundNumber,
       },
       {
@@ -79,31 +90,30 @@ export default function HumanOrRobot({
           }
           
           // Check if we have the updated match data with scores
-          const updatedMatch = response.match as Match | undefined;
+          const updatedMatch = response.match as MatchView | undefined;
           if (updatedMatch && currentRound) {
             const round = updatedMatch.rounds.find((r: Round) => r.roundNumber === currentRound.roundNumber);
             
-            if (round?.scores && match) {
-              // Find the human participant (correct answer)
-              const humanParticipant = match.participants.find((p: Participant) => !p.isAI);
-              if (humanParticipant) {
-                const correctAnswer = humanParticipant.identity;
-                const pointsEarned = round.scores[myIdentity] || 0;
-                const cumulativeScores = calculateCumulativeScores(updatedMatch.rounds);
-                const totalScore = cumulativeScores[myIdentity] || 0;
-                
-                // Set feedback state
-                setVoteFeedback({
-                  votedFor: selectedResponse,
-                  correctAnswer,
-                  pointsEarned,
-                  totalScore,
-                });
-              }
+            if (round?.scores && round.scoring) {
+              // The match view keeps only my own vote results, so the correct
+              // answers are the picks I got right
+              const correctAnswers = round.scoring.voteResults
+                .filter((result: VoteResult) => result.voter === myIdentity && result.correct)
+                .map((result: VoteResult) => result.votedFor);
+              const pointsEarned = getRoundScores(round)[myIdentity] || 0;
+              const totalScore = getMatchScores(updatedMatch)[myIdentity] || 0;
+
+              // Set feedback state
+              setVoteFeedback({
+                votedFor: selectedResponses,
+                correctAnswers,
+                pointsEarned,
+                totalScore,
+              });
             }
           }
           
-          setSelectedResponse(null);
+          setSelectedResponses([]);
         },
         onError: (error) => {
           const errorMessage = error instanceof Error ? error.message : 'Failed to submit vote';
@@ -112,7 +122,26 @@ export default function HumanOrRobot({
         },
       }
     );
-  }, [selectedResponse, matchId, myIdentity, currentRound, submitVote, soundEnabled, setSelectedResponse, match, setVoteFeedback]);
+  }, [isVoteReady, requiredPicks, selectedResponses, matchId, myIdentity, currentRound, submitVote, soundEnabled, setSelectedResponses, setVoteFeedback]);
+
+  const handleReport = useCallback((identity: Identity) => {
+    if (!matchId || !currentRound) return;
+    if (!confirm('Report this response as offensive? An admin will review it.')) return;
+
+    const key = `${currentRound.roundNumber}:${identity}`;
+    reportResponse.mutate(
+      { matchId, roundNumber: currentRound.roundNumber, identity },
+      {
+        onSuccess: () => {
+          setReported((prev) => [...prev, key]);
+          toast.success('Thanks, an admin will take a look');
+        },
+        onError: (error) => {
+          toast.error(error instanceof Error ? error.message : 'Failed to report response');
+        },
+      }
+    );
+  }, [matchId, currentRound, reportResponse]);
 
   // Keyboard navigation
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -132,31 +161,31 @@ export default function HumanOrRobot({
       case ' ': {
         e.preventDefault();
         const [identity] = selectableResponses[focusedIndex];
-        setSelectedResponse(identity);
+        toggleSelectedResponse(identity, requiredPicks);
         break;
       }
       case 'Enter': {
         e.preventDefault();
         if (e.metaKey || e.ctrlKey) {
-          // Cmd+Enter or Ctrl+Enter submits the vote if one is selected
-          if (selectedResponse) {
+          // Cmd+Enter or Ctrl+Enter submits the vote once enough are selected
+          if (isVoteReady) {
             handleVote();
           }
         } else {
-          // Plain Enter selects the focused response
+          // Plain Enter toggles the focused response
           const [identity] = selectableResponses[focusedIndex];
-          setSelectedResponse(identity);
+          toggleSelectedResponse(identity, requiredPicks);
         }
         break;
       }
       case 'v':
-        if (selectedResponse) {
+        if (isVoteReady) {
           e.preventDefault();
           handleVote();
         }
         break;
     }
-  }, [isKeyboardNavEnabled, selectableResponses, focusedIndex, selectedResponse, handleVote, setFocusedIndex, setSelectedResponse]);
+  }, [isKeyboardNavEnabled, selectableResponses, focusedIndex, isVoteReady, requiredPicks, handleVote, setFocusedIndex, toggleSelectedResponse]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -182,7 +211,9 @@ export default function HumanOrRobot({
         
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold">
-            Which response was written by a human?
+            {requiredPicks === 1
+              ? 'Which response was written by a human?'
+              : `Which ${requiredPicks} responses were written by humans?`}
           </h3>
           {isKeyboardNavEnabled && (
             <span className="text-xs text-slate-500">
@@ -194,7 +225,7 @@ export default function HumanOrRobot({
         <div className="space-y-3">
           {orderedResponses.map(([identity, response]) => {
             const isMyResponse = identity === myIdentity;
-            const isSelected = selectedResponse === identity;
+            const isSelected = selectedResponses.includes(identity);
             const isFocused = !isMyResponse && 
               selectableResponses.findIndex(([id]) => id === identity) === focusedIndex;
 
@@ -214,7 +245,7 @@ export default function HumanOrRobot({
                 `}
                 onClick={() => {
                   if (!isMyResponse) {
-                    setSelectedResponse(identity);
+                    toggleSelectedResponse(identity, requiredPicks);
                     const newIndex = selectableResponses.findIndex(([id]) => id === identity);
                     if (newIndex !== -1) setFocusedIndex(newIndex);
                   }
@@ -239,6 +270,24 @@ export default function HumanOrRobot({
                     <p className="text-slate-800 leading-relaxed break-words whitespace-pre-wrap">
                       {response || <span className="text-slate-400">...</span>}
                     </p>
+                    {!isMyResponse && response && currentRound && (
+                      reported.includes(`${currentRound.roundNumber}:${identity}`) ? (
+                        <span className="mt-2 inline-block text-xs text-slate-400">Reported</span>
+                      ) : (
+                        <button
+                          type="button"
+                          className="mt-2 inline-flex items-center gap-1 text-xs text-slate-400 hover:text-red-600"
+                          disabled={reportResponse.isPending}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleReport(identity);
+                          }}
+                        >
+                          <FiFlag size={12} />
+                          Report
+                        </button>
+                      )
+                    )}
                   </div>
 
                   {!isMyResponse && (
@@ -265,15 +314,17 @@ export default function HumanOrRobot({
 
         <div className="flex items-center justify-between pt-4 border-t">
           <div className="text-sm text-slate-600">
-            {selectedResponse ? (
-              <span>You've selected your choice</span>
-            ) : (
+            {isVoteReady ? (
+              <span>You've selected your {requiredPicks === 1 ? 'choice' : 'choices'}</span>
+            ) : requiredPicks === 1 ? (
               <span>Select the response you think was written by a human</span>
+            ) : (
+              <span>Select {requiredPicks - selectedResponses.length} more response{requiredPicks - selectedResponses.length === 1 ? '' : 's'} you think were written by humans</span>
             )}
           </div>
           <Button
             onClick={handleVote}
-            disabled={!selectedResponse || submitVote.isPending}
+            disabled={!isVoteReady || submitVote.isPending}
             className="flex items-center gap-2"
           >
             <FiCheckCircle size={16} />
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui';
+import { useLeaderboard } from '@/store/server-state/leaderboard.queries';
+import { MatchTemplateTypeSchema } from '@shared/schemas';
+import type { LeaderboardEntry, MatchTemplateType, PlayerRating, RatingKind, Season } from '@shared/schemas';
+
+const RATINGS: { kind: RatingKind; label: string; blurb: string }[] = [
+  { kind: 'detection', label: '🔍 Detection', blurb: 'How well players spot the other humans' },
+  { kind: 'disguise', label: '🎭 Disguise', blurb: 'How well players pass as AI' },
+];
+
+const PAST_SEASONS_SHOWN = 3;
+
+// The seasons before this one, newest first: 2026-Q1 comes after 2025-Q4
+function pastSeasons(current: Season, count: number): Season[] {
+  const [year, quarter] = current.split('-Q').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const back = quarter - 2 - i;
+    const q = ((back % 4) + 4) % 4;
+    return `${year + Math.floor(back / 4)}-Q${q + 1}`;
+  });
+}
+
+function ratingOf(player: PlayerRating, kind: RatingKind): number {
+  return kind === 'detection' ? player.detectionRating : player.disguiseRating;
+}
+
+export function Leaderboard() {
+  const [rating, setRating] = useState<RatingKind>('detection');
+  const [season, setSeason] = useState<Season | undefined>();
+  const [templateType, setTemplateType] = useState<MatchTemplateType | undefined>();
+  const { data: board, isLoading, error } = useLeaderboard({ rating, season, templateType });
+
+  const currentSeason = board?.currentSeason;
+  const selectClasses = 'border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white';
+  const blurb = RATINGS.find((r) => r.kind === rating)?.blurb;
+  const mineListed = board?.mine && board.entries.some((e: LeaderboardEntry) => e.userId === board.mine?.userId);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">🏆 Leaderboard</h1>
+        <p className="text-slate-600 mt-1">
+          Ratings start at 1000 and move with every vote in a completed match.
+        </p>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="flex space-x-1">
+            {RATINGS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => setRating(kind)}
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  rating === kind
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              className={selectClasses}
+              value={templateType || ''}
+              onChange={(e) => setTemplateType((e.target.value || undefined) as MatchTemplateType | undefined)}
+            >
+              <option value="">All match types</option>
+              {MatchTemplateTypeSchema.options
+                .filter((type: MatchTemplateType) => type !== 'admin_custom')
+                .map((type: MatchTemplateType) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+            </select>
+            <select
+              className={selectClasses}
+              value={season || ''}
+              onChange={(e) => setSeason(e.target.value || undefined)}
+            >
+              <option value="">This season{currentSeason ? ` (${currentSeason})` : ''}</option>
+              {currentSeason && pastSeasons(currentSeason, PAST_SEASONS_SHOWN).map((past) => (
+                <option key={past} value={past}>{past}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <p className="text-sm text-slate-500 mb-4">{blurb}</p>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-slate-600">Loading leaderboard...</div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">Could not load the leaderboard</div>
+        ) : !board || board.entries.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            No rated matches yet. Finish a match to get on the board.
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-1 w-12">#</th>
+                <th className="py-1">Player</th>
+                <th className="py-1 text-right">Rating</th>
+                <th className="py-1 text-right">Matches</th>
+              </tr>
+            </thead>
+            <tbody>
+              {board.entries.map((entry: LeaderboardEntry) => (
+                <tr
+                  key={entry.userId}
+                  className={`border-t border-slate-100 ${
+                    entry.userId === board.mine?.userId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <td className="py-2 text-slate-500">{entry.rank}</td>
+                  <td className="py-2 font-medium text-slate-900">{entry.displayName}</td>
+                  <td className="py-2 text-right text-slate-900">
+                    {ratingOf(entry, rating)}
+                    {entry.provisional && (
+                      <span className="ml-1 text-slate-400" title="Too few matches for the rating to settle">?</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-slate-600">{entry.matchesRated}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {board?.mine && !mineListed && (
+          <div className="mt-4 pt-4 border-t border-slate-200 text-sm text-slate-700">
+            Your rating: <span className="font-medium">{ratingOf(board.mine, rating)}</span>
+            {board.mine.provisional && ' (provisional)'} over {board.mine.matchesRated} matches
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
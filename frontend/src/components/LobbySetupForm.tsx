@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Button, Input } from '@/components/ui';
+import { useCreateMatchWithTemplate } from '@/store/server-state/match.mutations';
+import { usePromptPacks } from '@/store/server-state/prompt-pack.queries';
+import type { MatchConfigOverride, MatchTemplateType, User } from '@shared/schemas';
+
+interface LobbySetupFormProps {
+  playerName: string;
+  // Fixed template, e.g. admin_custom; otherwise duo_2v2 or classic_1v3 by human count
+  templateType?: MatchTemplateType;
+  // AI users the lobby may seat; persona picks are hidden without them
+  personas?: User[];
+}
+
+const MAX_PARTICIPANTS = 8;
+
+// Settings for a private lobby. The server checks how they fit together and
+// stores the resolved config on the match.
+export function LobbySetupForm({ playerName, templateType, personas }: LobbySetupFormProps) {
+  const navigate = useNavigate();
+  const createMatchWithTemplate = useCreateMatchWithTemplate();
+  const { data: promptPacks = [] } = usePromptPacks();
+
+  const [config, setConfig] = useState({
+    totalRounds: 5,
+    responseTimeLimit: 45,
+    voteTimeLimit: 90,
+    minResponseLength: 1,
+    maxResponseLength: 280,
+    requiredHumans: 2,
+    requiredAI: 2,
+  });
+  const [personaIds, setPersonaIds] = useState<string[]>([]);
+  const [promptPackId, setPromptPackId] = useState('');
+
+  const setNumber = (field: keyof typeof config) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setConfig((current) => ({ ...current, [field]: Number(e.target.value) }));
+  };
+
+  const togglePersona = (userId: string) => {
+    setPersonaIds((current) =>
+      current.includes(userId)
+        ? current.filter((id) => id !== userId)
+        : [...current, userId].slice(-config.requiredAI)
+    );
+  };
+
+  const seats = config.requiredHumans + config.requiredAI;
+  const invalid = seats < 2 || seats > MAX_PARTICIPANTS || config.minResponseLength > config.maxResponseLength;
+
+  const handleCreate = async () => {
+    const override: MatchConfigOverride = {
+      ...config,
+      personaIds: personaIds.length > 0 ? personaIds.slice(0, config.requiredAI) : undefined,
+      promptPackId: promptPackId || undefined,
+    };
+
+    try {
+      const result = await createMatchWithTemplate.mutateAsync({
+        templateType: templateType || (config.requiredHumans > 1 ? 'duo_2v2' : 'classic_1v3'),
+        creatorName: playerName.trim(),
+        config: override,
+      });
+      navigate(result.match.status === 'waiting_for_players' ? '/waiting' : '/match');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create lobby');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 text-left">
+        <Input label="Rounds" type="number" min={1} max={10} value={config.totalRounds} onChange={setNumber('totalRounds')} />
+        <Input label="Humans" type="number" min={1} max={MAX_PARTICIPANTS} value={config.requiredHumans} onChange={setNumber('requiredHumans')} />
+        <Input label="AI players" type="number" min={0} max={MAX_PARTICIPANTS - 1} value={config.requiredAI} onChange={setNumber('requiredAI')} />
+        <Input label="Response time (s)" type="number" min={30} max={300} value={config.responseTimeLimit} onChange={setNumber('responseTimeLimit')} />
+        <Input label="Vote time (s)" type="number" min={30} max={180} value={config.voteTimeLimit} onChange={setNumber('voteTimeLimit')} />
+        <Input label="Min length" type="number" min={1} max={500} value={config.minResponseLength} onChange={setNumber('minResponseLength')} />
+        <Input label="Max length" type="number" min={50} max={500} value={config.maxResponseLength} onChange={setNumber('maxResponseLength')} />
+      </div>
+
+      {promptPacks.length > 0 && (
+        <div className="text-left">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Prompt pack</label>
+          <select
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white"
+            value={promptPackId}
+            onChange={(e) => setPromptPackId(e.target.value)}
+          >
+            <option value="">Surprise me (AI-written prompts)</option>
+            {promptPacks.map((pack) => (
+              <option key={pack.packId} value={pack.packId}>
+                {pack.name} · {pack.difficulty} · {pack.promptCount} prompts
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {personas && personas.length > 0 && config.requiredAI > 0 && (
+        <div className="text-left">
+          <p className="text-sm font-medium text-slate-700 mb-2">
+            Personas ({personaIds.length}/{config.requiredAI} picked, the rest are random)
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {personas.filter((persona) => persona.isActive).map((persona) => (
+              <button
+                key={persona.userId}
+                type="button"
+                onClick={() => togglePersona(persona.userId)}
+                className={`px-3 py-1 rounded-full border text-sm transition-all ${
+                  personaIds.includes(persona.userId)
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                }`}
+              >
+                {persona.displayName}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {invalid && (
+        <p className="text-sm text-red-600">
+          A match needs 2 to {MAX_PARTICIPANTS} players, and the min length can&apos;t exceed the max.
+        </p>
+      )}
+
+      <Button
+        variant="primary"
+        onClick={handleCreate}
+        disabled={invalid || createMatchWithTemplate.isPending || !playerName.trim()}
+      >
+        {createMatchWithTemplate.isPending ? 'Creating...' : 'Create Lobby'}
+      </Button>
+    </div>
+  );
+}
@@ -30,7 +30,7 @@ export default function MatchAccordion({
   hasSubmittedResponse,
 }: MatchAccordionProps) {
   const [expandedRounds, setExpandedRounds] = useState<number[]>([match.currentRound]);
-  const { showFeedback, votedFor, correctAnswer, pointsEarned, totalScore, clearVoteFeedback } = useVotingStore();
+  const { showFeedback, votedFor, correctAnswers, pointsEarned, totalScore, clearVoteFeedback } = useVotingStore();
   
   const allResponsesIn = hasAllResponses(currentRound);
   const hasSubmittedVote = currentRound.votes && currentRound.votes[myIdentity];
@@ -39,7 +39,7 @@ export default function MatchAccordion({
   const isPromptPhase = currentRound.prompt && isMyTurn;
   const isWaitingForOthers = hasSubmittedResponse && !allResponsesIn;
   const isRecognitionPhase = allResponsesIn && isVotingPhase && !hasSubmittedVote;
-  const isShowingFeedback = showFeedback && votedFor && correctAnswer !== null;
+  const isShowingFeedback = showFeedback && votedFor.length > 0 && correctAnswers.length > 0;
 
   // Auto-expand current round
   useEffect(() => {
@@ -155,7 +155,7 @@ export default function MatchAccordion({
                     {isShowingFeedback && (
                       <VoteFeedback
                         votedFor={votedFor}
-                        correctAnswer={correctAnswer}
+                        correctAnswers={correctAnswers}
                         pointsEarned={pointsEarned}
                         totalScore={totalScore}
                         onContinue={() => {
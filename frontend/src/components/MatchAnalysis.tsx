@@ -0,0 +1,85 @@
+import type { AnalysisHighlight, Identity, MatchAnalysis as Analysis } from '@shared/schemas';
+
+interface MatchAnalysisProps {
+  analysis?: Analysis; // Unset on matches completed before analysis existed
+  nameOf: (identity: Identity) => string;
+}
+
+function Highlight({ title, highlight, nameOf }: {
+  title: string;
+  highlight?: AnalysisHighlight;
+  nameOf: (identity: Identity) => string;
+}) {
+  if (!highlight) return null;
+  return (
+    <div className="p-4 rounded-lg bg-slate-50 border border-slate-200">
+      <div className="text-sm font-medium text-slate-600 mb-1">{title}</div>
+      <blockquote className="text-slate-900 italic">“{highlight.response}”</blockquote>
+      <div className="text-sm text-slate-600 mt-1">
+        {nameOf(highlight.identity)}, round {highlight.roundNumber}
+      </div>
+      {highlight.reason && <div className="text-xs text-slate-500 mt-1">{highlight.reason}</div>}
+    </div>
+  );
+}
+
+// The post-match AI report: standout lines, difficulty and themes
+export function MatchAnalysis({ analysis, nameOf }: MatchAnalysisProps) {
+  if (!analysis) return null;
+
+  return (
+    <div data-testid="match-analysis">
+      <h3 className="text-xl font-semibold mb-4">🧠 Match Analysis</h3>
+
+      {analysis.status === 'pending' && (
+        <div className="flex items-center gap-2 text-slate-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          Analysis pending. The AI is looking back over the match...
+        </div>
+      )}
+
+      {analysis.status === 'unavailable' && (
+        <p className="text-slate-500">Analysis unavailable for this match.</p>
+      )}
+
+      {analysis.status === 'ready' && (
+        <div className="space-y-4">
+          {analysis.summary && <p className="text-slate-700">{analysis.summary}</p>}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Highlight
+              title="👤 Most convincing human"
+              highlight={analysis.mostConvincingHuman}
+              nameOf={nameOf}
+            />
+            <Highlight
+              title="🤖 Most human-sounding AI"
+              highlight={analysis.mostHumanAI}
+              nameOf={nameOf}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {analysis.difficulty !== undefined && (
+              <div className="flex items-center gap-2">
+                <span className="text-slate-600">Difficulty:</span>
+                <div className="w-24 h-2 bg-slate-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600"
+                    style={{ width: `${analysis.difficulty * 10}%` }}
+                  ></div>
+                </div>
+                <span className="font-medium">{analysis.difficulty}/10</span>
+              </div>
+            )}
+            {(analysis.themes || []).map((theme: string) => (
+              <span key={theme} className="px-2 py-1 rounded-full bg-purple-100 text-purple-700">
+                {theme}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 
-import type { Identity, Match, Participant, Round } from '@shared/schemas';
+import { getVotePicks } from '@shared/schemas';
+import type { Identity, Match, Participant, PlayerStats, Round } from '@shared/schemas';
 import { Card, Button } from './ui';
 import { useNavigate } from 'react-router-dom';
+import { getMatchScores } from '@/utils/scoring';
+import { MatchAnalysis } from './MatchAnalysis';
 
 interface MatchCompleteProps {
   match: Match;
@@ -11,36 +14,33 @@ interface MatchCompleteProps {
 export default function MatchComplete({ match, myIdentity }: MatchCompleteProps) {
   const navigate = useNavigate();
   
-  // Calculate final scores
+  // Final scores come from the server's match result
   const participantIdentities = match.participants.map((p: Participant) => p.identity);
+  const serverScores = getMatchScores(match);
   const finalScores: Record<Identity, number> = {};
   const votingAccuracy: Record<Identity, { correct: number; total: number }> = {};
   
   // Initialize scores and accuracy for each participant
   participantIdentities.forEach((identity: Identity) => {
-    finalScores[identity] = 0;
+    finalScores[identity] = serverScores[identity] || 0;
     votingAccuracy[identity] = { correct: 0, total: 0 };
   });
+  const myStats = match.result?.playerStats.find((s: PlayerStats) => s.identity === myIdentity);
   
-  // Calculate scores from all rounds
   match.rounds.forEach((round: Round) => {
-    // Add up scores from each round
-    Object.entries(round.scores || {}).forEach(([identity, score]) => {
-      if (participantIdentities.includes(identity as Identity)) {
-        finalScores[identity as Identity] += (typeof score === 'number' ? score : 0);
-      }
-    });
-    
     // Calculate voting accuracy
-    Object.entries(round.votes || {}).forEach(([voter, votedFor]) => {
+    Object.entries(round.votes || {}).forEach(([voter, vote]) => {
       if (participantIdentities.includes(voter as Identity)) {
-        votingAccuracy[voter as Identity].total += 1;
-        
-        // Check if the vote was correct (voted for a human)
-        const votedParticipant = match.participants.find((p: Participant) => p.identity === votedFor);
-        if (votedParticipant && !votedParticipant.isAI) {
-          votingAccuracy[voter as Identity].correct += 1;
-        }
+        // Each pick counts, so multi-human votes are judged pick by pick
+        getVotePicks(vote).forEach((votedFor: Identity) => {
+          votingAccuracy[voter as Identity].total += 1;
+          
+          // Check if the pick was correct (picked a human)
+          const votedParticipant = match.participants.find((p: Participant) => p.identity === votedFor);
+          if (votedParticipant && !votedParticipant.isAI) {
+            votingAccuracy[voter as Identity].correct += 1;
+          }
+        });
       }
     });
   });
@@ -198,9 +198,25 @@ export default function MatchComplete({ match, myIdentity }: MatchCompleteProps)
                   : 'N/A'}
               </span>
             </div>
+            {myStats?.deceptionPoints !== undefined && (
+              <div>
+                <span className="text-slate-600">Deception Points:</span>
+                <span className="ml-2 font-medium">{myStats.deceptionPoints}</span>
+              </div>
+            )}
           </div>
         </div>
         
+        {/* Analysis */}
+        {match.analysis && (
+          <div className="mb-8">
+            <MatchAnalysis
+              analysis={match.analysis}
+              nameOf={(identity: Identity) => getParticipantInfo(identity).displayName}
+            />
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex gap-4">
           <Button
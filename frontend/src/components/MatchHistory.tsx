@@ -1,10 +1,18 @@
 import { Link } from 'react-router-dom';
 import { Card, Button } from '@/components/ui';
 import { useMatchHistory } from '@/store/server-state/match.queries';
-import type { Match, Round, Participant } from '@shared/schemas';
+import { getVotePicks } from '@shared/schemas';
+import type { Identity, MatchView, ParticipantView, Round } from '@shared/schemas';
 
 export function MatchHistory() {
-  const { data: matches = [], isLoading: loading, error } = useMatchHistory();
+  const {
+    matches,
+    isLoading: loading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useMatchHistory();
 
   const formatDate = (dateString: string) => {
     // Handle ISO date string from createdAt
@@ -32,7 +40,7 @@ export function MatchHistory() {
     return 'Date unknown';
   };
 
-  const getMatchProgress = (match: Match) => {
+  const getMatchProgress = (match: MatchView) => {
     if (!match.rounds || match.rounds.length === 0) {
       return { completed: 0, total: 5, status: 'Not started' };
     }
@@ -54,12 +62,13 @@ export function MatchHistory() {
     return { completed: completedRounds, total, status };
   };
 
-  const getPlayerName = (match: Match) => {
-    const humanParticipant = match.participants?.find((p: Participant) => !p.isAI);
-    return humanParticipant?.playerName || 'Unknown Player';
+  // My own seat; other players' identities are hidden until the match ends
+  const getPlayerName = (match: MatchView) => {
+    const me = match.participants?.find((p: ParticipantView) => p.identity === match.viewerIdentity);
+    return me?.playerName || 'Unknown Player';
   };
 
-  const getMatchScore = (match: Match) => {
+  const getMatchScore = (match: MatchView) => {
     if (!match.rounds || match.status !== 'completed') {
       return null;
     }
@@ -69,14 +78,19 @@ export function MatchHistory() {
 
     match.rounds.forEach((round: Round) => {
       if (round.votes) {
-        const humanIdentity = match.participants?.find((p: Participant) => !p.isAI)?.identity;
+        const humanIdentities = match.participants
+          ?.filter((p: ParticipantView) => !p.isAI)
+          .map((p: ParticipantView) => p.identity) || [];
         
-        Object.entries(round.votes).forEach(([voter, votedFor]) => {
-          if (voter !== humanIdentity) {
-            totalVotes++;
-            if (votedFor === humanIdentity) {
-              correctVotes++;
-            }
+        // How well the robots spotted the humans, pick by pick
+        Object.entries(round.votes).forEach(([voter, vote]) => {
+          if (!humanIdentities.includes(voter as Identity)) {
+            getVotePicks(vote).forEach((votedFor: Identity) => {
+              totalVotes++;
+              if (humanIdentities.includes(votedFor)) {
+                correctVotes++;
+              }
+            });
           }
         });
       }
@@ -131,7 +145,7 @@ export function MatchHistory() {
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold">Match History</h2>
         <div className="text-sm text-gray-600">
-          {matches.length} {matches.length === 1 ? 'match' : 'matches'} played
+          {matches.length}{hasNextPage ? '+' : ''} {matches.length === 1 ? 'match' : 'matches'} played
         </div>
       </div>
 
@@ -179,13 +193,20 @@ export function MatchHistory() {
                   </div>
                 </div>
                 
-                <div className="ml-4">
+                <div className="ml-4 flex gap-2">
                   {match.status === 'completed' ? (
-                    <Link to={`/match/${match.matchId}/results`}>
-                      <Button variant="secondary" size="sm">
-                        View Results
-                      </Button>
-                    </Link>
+                    <>
+                      <Link to={`/match/${match.matchId}/replay`}>
+                        <Button variant="ghost" size="sm">
+                          Replay
+                        </Button>
+                      </Link>
+                      <Link to={`/match/${match.matchId}/results`}>
+                        <Button variant="secondary" size="sm">
+                          View Results
+                        </Button>
+                      </Link>
+                    </>
                   ) : (
                     <Button 
                       variant="primary" 
@@ -205,11 +226,15 @@ export function MatchHistory() {
         })}
       </div>
 
-      {matches.length > 10 && (
+      {hasNextPage && (
         <div className="text-center mt-8">
-          <p className="text-sm text-gray-600">
-            Showing your {matches.length} most recent matches
-          </p>
+          <Button
+            variant="secondary"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load older matches'}
+          </Button>
         </div>
       )}
     </div>
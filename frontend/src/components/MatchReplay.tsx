@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, Button } from '@/components/ui';
+import { useMatchReplay } from '@/store/server-state/match.queries';
+import { getVotePicks } from '@shared/schemas';
+import type { Identity, MatchLogEntry, Participant } from '@shared/schemas';
+
+interface ReplayStep {
+  title: string;
+  events: MatchLogEntry[];
+}
+
+// Setup events come first, then one step per round. The completion event
+// belongs to the round that ended the match.
+function groupIntoSteps(events: MatchLogEntry[]): ReplayStep[] {
+  const setup: ReplayStep = { title: 'Setup', events: [] };
+  const rounds = new Map<number, ReplayStep>();
+  let lastRound = 0;
+
+  events.forEach((event) => {
+    if ('roundNumber' in event) {
+      lastRound = Math.max(lastRound, event.roundNumber);
+      if (!rounds.has(event.roundNumber)) {
+        rounds.set(event.roundNumber, { title: `Round ${event.roundNumber}`, events: [] });
+      }
+      rounds.get(event.roundNumber)!.events.push(event);
+    } else if (event.type === 'match_completed' && rounds.has(lastRound)) {
+      rounds.get(lastRound)!.events.push(event);
+    } else {
+      setup.events.push(event);
+    }
+  });
+
+  const roundSteps = [...rounds.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, step]) => step);
+  return setup.events.length > 0 ? [setup, ...roundSteps] : roundSteps;
+}
+
+export function MatchReplay() {
+  const { matchId } = useParams<{ matchId: string }>();
+  const { data: replay, isLoading, error } = useMatchReplay(matchId || null);
+  const [stepIndex, setStepIndex] = useState(0);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading replay...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !replay) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="text-center max-w-md">
+          <h3 className="text-lg font-semibold text-red-600 mb-2">Error Loading Replay</h3>
+          <p className="text-gray-600 mb-4">{error instanceof Error ? error.message : 'Match not found'}</p>
+          <Link to="/history">
+            <Button>Back to History</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const steps = groupIntoSteps(replay.events);
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+  const startedAt = replay.events[0]?.timestamp ?? 0;
+
+  const nameOf = (identity: Identity) => {
+    const participant = replay.match.participants.find((p: Participant) => p.identity === identity);
+    return participant ? `${participant.playerName} (${identity})` : identity;
+  };
+
+  const describe = (event: MatchLogEntry) => {
+    switch (event.type) {
+      case 'match_created':
+        return `Match created with ${event.participants.length} players, ${event.totalRounds} rounds`;
+      case 'participant_joined':
+        return `${event.playerName} joined`;
+      case 'round_started':
+        return `Prompt: "${event.prompt}"`;
+      case 'response_submitted':
+        return event.expired
+          ? `${nameOf(event.identity)} ran out of time`
+          : `${nameOf(event.identity)}: "${event.response}"`;
+      case 'robot_response_generated':
+        return `${nameOf(event.identity)}: "${event.response}" (${event.model}, ${event.latencyMs}ms${event.fallback ? ', fallback' : ''})`;
+      case 'vote_cast': {
+        const picks = getVotePicks(event.votedFor).map(nameOf).join(', ');
+        const model = event.model ? ` (${event.model}, ${event.latencyMs}ms)` : '';
+        return `${nameOf(event.voter)} voted for ${picks}${model}`;
+      }
+      case 'round_transitioned':
+        return event.toStatus === 'voting'
+          ? 'Voting opened'
+          : `Round complete: ${event.scoring?.successfullyDeceived ?? 0} votes missed the humans`;
+      case 'seat_substituted':
+        return `${nameOf(event.identity)} went quiet; an AI player took over the seat`;
+      case 'seat_reclaimed':
+        return `${nameOf(event.identity)} reclaimed their seat`;
+      case 'match_completed':
+        return event.result?.winner
+          ? `Match complete, winner ${nameOf(event.result.winner)}`
+          : 'Match complete';
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-3xl mx-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Match Replay</h2>
+        <Link to="/history" className="text-sm text-blue-600 hover:underline">
+          Back to History
+        </Link>
+      </div>
+
+      {steps.length === 0 ? (
+        <Card className="text-center">
+          <p className="text-gray-600">No events were recorded for this match.</p>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {steps.map((s, index) => (
+              <Button
+                key={s.title}
+                size="sm"
+                variant={s === step ? 'primary' : 'secondary'}
+                onClick={() => setStepIndex(index)}
+              >
+                {s.title}
+              </Button>
+            ))}
+          </div>
+
+          <Card>
+            <h3 className="font-semibold mb-3">{step.title}</h3>
+            <ol className="space-y-2">
+              {step.events.map((event) => (
+                <li key={event.timestamp} className="flex gap-3 text-sm">
+                  <span className="text-gray-500 w-16 shrink-0 text-right">
+                    +{((event.timestamp - startedAt) / 1000).toFixed(1)}s
+                  </span>
+                  <span>{describe(event)}</span>
+                </li>
+              ))}
+            </ol>
+          </Card>
+
+          <div className="flex justify-between">
+            <Button
+              variant="secondary"
+              onClick={() => setStepIndex(steps.indexOf(step) - 1)}
+              disabled={steps.indexOf(step) === 0}
+            >
+              Previous
+            </Button>
+            <Button
+              onClick={() => setStepIndex(steps.indexOf(step) + 1)}
+              disabled={steps.indexOf(step) === steps.length - 1}
+            >
+              Next
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MatchReplay;
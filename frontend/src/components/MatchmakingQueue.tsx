@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Card, Button } from '@/components/ui';
+import { useMatchmakingStatus } from '@/store/server-state/match.queries';
+import { useEnqueueMatchmaking, useLeaveMatchmaking } from '@/store/server-state/match.mutations';
+
+interface MatchmakingQueueProps {
+  playerName: string;
+  userId: string;
+}
+
+// Queue for a duo match with strangers. The server groups waiting players
+// and, for those who allow it, fills out the table with AI after a minute.
+export function MatchmakingQueue({ playerName, userId }: MatchmakingQueueProps) {
+  const navigate = useNavigate();
+  const [allowAIBackfill, setAllowAIBackfill] = useState(true);
+  const { data: ticket } = useMatchmakingStatus();
+  const enqueue = useEnqueueMatchmaking();
+  const leave = useLeaveMatchmaking();
+
+  // Matched players go straight to their seat
+  useEffect(() => {
+    if (ticket?.status === 'matched' && ticket.matchId) {
+      sessionStorage.setItem('currentMatchId', ticket.matchId);
+      sessionStorage.setItem('currentUserId', userId);
+      sessionStorage.setItem('matchTemplateType', ticket.matchedTemplateType || ticket.templateType);
+      sessionStorage.removeItem('inviteCode');
+      navigate('/match');
+    }
+  }, [ticket, userId, navigate]);
+
+  const handleFind = () => {
+    enqueue.mutate(
+      { templateType: 'duo_2v2', displayName: playerName.trim(), allowAIBackfill },
+      { onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to find a match') }
+    );
+  };
+
+  const handleLeave = () => {
+    leave.mutate(undefined, {
+      onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to leave the queue'),
+    });
+  };
+
+  if (ticket?.status === 'queued') {
+    return (
+      <Card className="text-center space-y-3">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600 mx-auto"></div>
+        <h2 className="text-xl font-semibold text-slate-800">Finding players...</h2>
+        <p className="text-slate-600">
+          {ticket.position === 1 ? "You're next in line" : `You're #${ticket.position} in line`}
+          {' '}· {ticket.waiting} of {ticket.requiredHumans} players waiting
+        </p>
+        <p className="text-sm text-slate-500">
+          Estimated wait: about {Math.max(1, Math.ceil((ticket.estimatedWaitSeconds ?? 0) / 60))} min
+          {ticket.allowAIBackfill && ' (AI players fill in if nobody turns up)'}
+        </p>
+        <Button variant="secondary" onClick={handleLeave} disabled={leave.isPending}>
+          Leave Queue
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="text-center space-y-3">
+      <h2 className="text-xl font-semibold text-slate-800">Play with Strangers</h2>
+      <p className="text-slate-600">Join the queue and we&apos;ll pair you with another human.</p>
+      <label className="flex items-center justify-center gap-2 text-sm text-slate-600">
+        <input
+          type="checkbox"
+          checked={allowAIBackfill}
+          onChange={(e) => setAllowAIBackfill(e.target.checked)}
+        />
+        Start with AI players if nobody joins within a minute
+      </label>
+      <Button
+        variant="primary"
+        onClick={handleFind}
+        disabled={enqueue.isPending || !playerName.trim()}
+      >
+        🔍 Find Players
+      </Button>
+    </Card>
+  );
+}
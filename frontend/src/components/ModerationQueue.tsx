@@ -0,0 +1,98 @@
+import { useState } from "react";
+import type { ModerationReport, ModerationReportStatus } from "@shared/schemas";
+import { Button } from "@/components/ui";
+import { useModerationReports } from "@/store/server-state/moderation.queries";
+import { useResolveModerationReport } from "@/store/server-state/moderation.mutations";
+
+const STATUSES: ModerationReportStatus[] = ["open", "upheld", "dismissed"];
+
+const CONTENT_LABELS: Record<string, string> = {
+  response: "Response",
+  display_name: "Display name",
+  prompt: "Prompt",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  filter: "word filter",
+  ai: "AI check",
+  player_report: "player report",
+};
+
+// Where the reported text came from, as far as the report says
+function describeOrigin(report: ModerationReport): string {
+  if (report.matchId) {
+    return `Match ${report.matchId.slice(0, 8)} · round ${report.roundNumber} · ${report.identity}`;
+  }
+  if (report.packId) return `Pack ${report.packId}`;
+  return report.userId ? `User ${report.userId}` : "";
+}
+
+export function ModerationQueue() {
+  const [status, setStatus] = useState<ModerationReportStatus>("open");
+  const { data: reports = [], isLoading, error } = useModerationReports(status);
+  const resolveReport = useResolveModerationReport();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {STATUSES.map((option: ModerationReportStatus) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={option === status ? "primary" : "secondary"}
+            onClick={() => setStatus(option)}
+          >
+            {option.charAt(0).toUpperCase() + option.slice(1)}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading && <div className="text-sm text-slate-500">Loading reports...</div>}
+      {error && <div className="text-sm text-red-600">{error.message}</div>}
+      {resolveReport.error && (
+        <div className="text-sm text-red-600">{resolveReport.error.message}</div>
+      )}
+      {!isLoading && reports.length === 0 && (
+        <div className="text-sm text-slate-500">Nothing {status} in the queue.</div>
+      )}
+
+      {reports.map((report: ModerationReport) => (
+        <div key={report.reportId} className="border border-slate-200 rounded-lg p-3">
+          <div className="flex justify-between items-center text-xs text-slate-500">
+            <span>
+              {CONTENT_LABELS[report.contentType]} · {SOURCE_LABELS[report.source]}
+            </span>
+            <span>{new Date(report.createdAt).toLocaleString()}</span>
+          </div>
+          <p className="my-2 text-slate-900">"{report.content}"</p>
+          <div className="text-xs text-slate-500">
+            {describeOrigin(report)}
+            {report.categories.length > 0 && <span className="ml-2">{report.categories.join(", ")}</span>}
+            {report.reason && <span className="ml-2 italic">"{report.reason}"</span>}
+          </div>
+
+          {report.status === "open" && (
+            <div className="flex gap-2 mt-3">
+              <Button
+                size="sm"
+                variant="danger"
+                disabled={resolveReport.isPending}
+                onClick={() => resolveReport.mutate({ reportId: report.reportId, status: "upheld" })}
+              >
+                {report.contentType === "response" && report.matchId ? "Uphold & mask" : "Uphold"}
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={resolveReport.isPending}
+                onClick={() => resolveReport.mutate({ reportId: report.reportId, status: "dismissed" })}
+              >
+                Dismiss
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
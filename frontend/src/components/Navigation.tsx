@@ -51,6 +51,16 @@ export function Navigation() {
             >
               📊 Match History
             </Link>
+            <Link
+              to="/leaderboard"
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                pathname === "/leaderboard"
+                  ? "bg-blue-100 text-blue-700"
+                  : "text-slate-600 hover:text-slate-900"
+              }`}
+            >
+              🏆 Leaderboard
+            </Link>
             <Link
               to="/about"
               className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -77,7 +87,16 @@ export function Navigation() {
         </div>
 
         <div className="flex items-center space-x-4">
-          <span className="text-sm text-slate-600">{user.email}</span>
+          <Link
+            to="/profile"
+            className={`text-sm transition-colors ${
+              pathname === "/profile"
+                ? "text-blue-700"
+                : "text-slate-600 hover:text-slate-900"
+            }`}
+          >
+            {user.email}
+          </Link>
           <Button variant="ghost" size="sm" onClick={handleSignOut}>
             Sign Out
           </Button>
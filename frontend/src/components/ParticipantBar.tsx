@@ -1,9 +1,9 @@
-import type { Identity } from "@shared/schemas";
 import {
   useParticipants,
   useMyIdentity,
   useMatch,
 } from "@/store/server-state/match.queries";
+import type { Presence } from "@shared/schemas";
 
 export default function ParticipantBar() {
   const participants = useParticipants();
@@ -11,43 +11,42 @@ export default function ParticipantBar() {
   const matchId = sessionStorage.getItem('currentMatchId');
   const { data: match } = useMatch(matchId);
 
-  const getIdentityColor = (identity: Identity) => {
-    const colors: Record<Identity, string> = {
-      A: "bg-blue-500",
-      B: "bg-green-500",
-      C: "bg-purple-500",
-      D: "bg-orange-500",
-      E: "bg-pink-500",
-      F: "bg-yellow-500",
-      G: "bg-indigo-500",
-      H: "bg-red-500",
-    };
-    return colors[identity];
-  };
+  const seatColors = [
+    "bg-blue-500",
+    "bg-green-500",
+    "bg-purple-500",
+    "bg-orange-500",
+    "bg-pink-500",
+    "bg-yellow-500",
+    "bg-indigo-500",
+    "bg-red-500",
+  ];
 
-  // Create a full participant list showing all necessary slots based on participants in the template (4 for MVP)
+  // The match view lists my seat first and the others by name without their
+  // identities, so seats are shown in that order and padded with empty ones
+  // up to the template's size
   const allSlots: Array<{
-    identity: Identity;
+    key: string;
+    color: string;
     isConnected: boolean;
+    presence?: Presence;
     isMe: boolean;
     displayName: string;
   }> = (() => {
-    // Generate identities based on match total participants
     const totalParticipants = match?.totalParticipants || participants.length || 4;
-    const identities = Array.from(
-      { length: totalParticipants },
-      (_, i) => String.fromCharCode(65 + i) as Identity
-    );
-    return identities;
-  })().map((identity) => {
-    const participant = participants.find((p) => p.identity === identity);
-    return {
-      identity,
-      isConnected: participant?.isConnected ?? false,
-      isMe: identity === myIdentity,
-      displayName: participant?.displayName || "Empty Seat",
-    };
-  });
+    return Array.from({ length: Math.max(totalParticipants, participants.length) }, (_, i) => {
+      const participant = participants[i];
+      const isMe = !!participant?.identity && participant.identity === myIdentity;
+      return {
+        key: isMe ? "me" : `seat-${i}`,
+        color: seatColors[i % seatColors.length],
+        isConnected: participant?.isConnected ?? false,
+        presence: participant?.presence,
+        isMe,
+        displayName: participant?.displayName || participant?.playerName || "Empty Seat",
+      };
+    });
+  })();
 
   return (
     <div className="bg-white border-b border-gray-200 px-4 py-3">
@@ -60,9 +59,9 @@ export default function ParticipantBar() {
         </div>
 
         <div className="flex gap-3 mt-2">
-          {allSlots.map(({ identity, isConnected, isMe, displayName }) => (
+          {allSlots.map(({ key, color, isConnected, presence, isMe, displayName }) => (
             <div
-              key={identity}
+              key={key}
               className={`
                 flex items-center gap-2 px-3 py-2 rounded-lg border
                 ${
@@ -76,7 +75,7 @@ export default function ParticipantBar() {
               <div
                 className={`
                 w-3 h-3 rounded-full
-                ${isConnected ? getIdentityColor(identity) : "bg-gray-300"}
+                ${presence === "away" ? "bg-amber-400" : isConnected ? color : "bg-gray-300"}
               `}
               />
 
@@ -95,8 +94,16 @@ export default function ParticipantBar() {
                 </span>
               )}
 
+              {presence === "away" && (
+                <span className="text-xs text-amber-600">Away</span>
+              )}
+
               {!isConnected && (
-                <span className="text-xs text-gray-400">Waiting...</span>
+                <span className="text-xs text-gray-400">
+                  {presence === "offline" && match?.status !== "waiting_for_players"
+                    ? "Disconnected"
+                    : "Waiting..."}
+                </span>
               )}
             </div>
           ))}
@@ -1,6 +1,6 @@
 import { Card } from "./ui";
 import { useMatch, useCurrentRound } from "@/store/server-state/match.queries";
-import type { Identity } from "@shared/schemas";
+import type { Identity, Participant } from "@shared/schemas";
 
 interface ParticipantWaitingStatusProps {
   myIdentity: Identity;
@@ -32,6 +32,11 @@ export default function ParticipantWaitingStatus({ myIdentity }: ParticipantWait
   }));
   
   const waitingCount = totalParticipants - respondedCount;
+
+  // The view hides who holds which identity, so quiet players are named instead
+  const quietPlayers = match.participants.filter(
+    (p: Participant) => p.presence === 'away' || p.presence === 'offline'
+  );
   
   return (
     <Card className="text-center">
@@ -82,6 +87,16 @@ export default function ParticipantWaitingStatus({ myIdentity }: ParticipantWait
           </div>
         </div>
         
+        {quietPlayers.length > 0 && (
+          <div className="mt-4 text-sm text-amber-700">
+            {quietPlayers.map((p: Participant) => (
+              <div key={p.displayName || p.playerName}>
+                {p.displayName || p.playerName} {p.presence === 'away' ? 'is away' : 'has disconnected'}
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="mt-6 space-y-2">
           <div className="text-sm text-slate-500">
             {respondedCount}/{totalParticipants} responses received
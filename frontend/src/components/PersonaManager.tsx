@@ -0,0 +1,382 @@
+import { useState } from "react";
+import type { PersonaFields, User } from "@shared/schemas";
+import { Button, Input } from "@/components/ui";
+import {
+  usePersonas,
+  usePersonaVersions,
+} from "@/store/server-state/persona.queries";
+import {
+  useClonePersona,
+  useCreatePersona,
+  useRestorePersonaVersion,
+  useSetPersonaActive,
+  useTryPersona,
+  useUpdatePersona,
+} from "@/store/server-state/persona.mutations";
+
+// OpenAI-compatible models depend on the server's configuration, so any id can be typed
+const BEDROCK_MODELS = ["claude-3-haiku", "claude-3-sonnet", "claude-3-opus"];
+
+const SAMPLE_PROMPT = "What's the best sound to wake up to?";
+
+const NEW_PERSONA: PersonaFields = {
+  displayName: "",
+  personality: "",
+  systemPrompt: "",
+  styleNotes: "",
+  voteStyle: "",
+  maxResponseLength: 150,
+  modelConfig: {
+    provider: "bedrock",
+    model: "claude-3-haiku",
+    temperature: 0.85,
+    maxTokens: 150,
+  },
+};
+
+const textareaClasses =
+  "w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+function toForm(persona: User): PersonaFields {
+  return {
+    displayName: persona.displayName,
+    personality: persona.personality || "",
+    systemPrompt: persona.systemPrompt || "",
+    styleNotes: persona.styleNotes || "",
+    voteStyle: persona.voteStyle || "",
+    maxResponseLength: persona.maxResponseLength || 150,
+    modelConfig: { ...NEW_PERSONA.modelConfig, ...persona.modelConfig },
+  };
+}
+
+// Blank text fields fall back to the built-in personality on the server
+function toRequest(form: PersonaFields): PersonaFields {
+  return {
+    ...form,
+    systemPrompt: form.systemPrompt || undefined,
+    styleNotes: form.styleNotes || undefined,
+    voteStyle: form.voteStyle || undefined,
+  };
+}
+
+export function PersonaManager() {
+  const { data: personas = [], isLoading, error } = usePersonas();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaFields>(NEW_PERSONA);
+  const [samplePrompt, setSamplePrompt] = useState(SAMPLE_PROMPT);
+
+  const selected = personas.find((p) => p.userId === selectedId) || null;
+  const { data: history } = usePersonaVersions(selectedId);
+
+  const createPersona = useCreatePersona();
+  const updatePersona = useUpdatePersona();
+  const setActive = useSetPersonaActive();
+  const clonePersona = useClonePersona();
+  const restoreVersion = useRestorePersonaVersion();
+  const tryPersona = useTryPersona();
+
+  const mutationError = [createPersona, updatePersona, clonePersona, restoreVersion]
+    .map((m) => m.error)
+    .find(Boolean);
+
+  const select = (persona: User | null) => {
+    setSelectedId(persona?.userId || null);
+    setForm(persona ? toForm(persona) : NEW_PERSONA);
+    tryPersona.reset();
+  };
+
+  const updateField = <K extends keyof PersonaFields>(
+    field: K,
+    value: PersonaFields[K]
+  ) => setForm((prev: PersonaFields) => ({ ...prev, [field]: value }));
+
+  const updateModel = (changes: Partial<PersonaFields["modelConfig"]>) =>
+    setForm((prev: PersonaFields) => ({
+      ...prev,
+      modelConfig: { ...prev.modelConfig, ...changes },
+    }));
+
+  const save = async () => {
+    if (selected) {
+      const saved = await updatePersona.mutateAsync({
+        userId: selected.userId,
+        updates: {
+          ...toRequest(form),
+          expectedVersion: selected.personaVersion || 1,
+        },
+      });
+      select(saved);
+    } else {
+      const created = await createPersona.mutateAsync(toRequest(form));
+      select(created);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Persona list */}
+      <div className="space-y-2">
+        <Button size="sm" fullWidth onClick={() => select(null)}>
+          + New Persona
+        </Button>
+        {isLoading && (
+          <div className="text-sm text-slate-500">Loading personas...</div>
+        )}
+        {error && (
+          <div className="text-sm text-red-600">{error.message}</div>
+        )}
+        {personas.map((persona) => (
+          <button
+            key={persona.userId}
+            onClick={() => select(persona)}
+            className={`w-full text-left border rounded-lg p-3 ${
+              persona.userId === selectedId
+                ? "border-blue-500 bg-blue-50"
+                : "border-slate-200 hover:bg-slate-50"
+            }`}
+          >
+            <div className="flex justify-between items-center">
+              <span className="font-medium">{persona.displayName}</span>
+              <span className="text-xs text-slate-500">
+                v{persona.personaVersion || 1}
+              </span>
+            </div>
+            <div className="text-xs text-slate-500">
+              {persona.personality} · {persona.modelConfig?.model}
+              {!persona.isActive && (
+                <span className="ml-2 text-amber-600">disabled</span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Editor */}
+      <div className="md:col-span-2 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Display name"
+            value={form.displayName}
+            onChange={(e) => updateField("displayName", e.target.value)}
+          />
+          <Input
+            label="Personality"
+            value={form.personality}
+            onChange={(e) => updateField("personality", e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            System prompt
+          </label>
+          <textarea
+            rows={4}
+            className={textareaClasses}
+            value={form.systemPrompt}
+            onChange={(e) => updateField("systemPrompt", e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Style notes
+          </label>
+          <textarea
+            rows={2}
+            className={textareaClasses}
+            value={form.styleNotes}
+            onChange={(e) => updateField("styleNotes", e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Voting style
+          </label>
+          <textarea
+            rows={2}
+            className={textareaClasses}
+            value={form.voteStyle}
+            onChange={(e) => updateField("voteStyle", e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-5 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Provider
+            </label>
+            <select
+              className={textareaClasses}
+              value={form.modelConfig.provider}
+              onChange={(e) =>
+                updateModel({
+                  provider: e.target
+                    .value as PersonaFields["modelConfig"]["provider"],
+                })
+              }
+            >
+              <option value="bedrock">Bedrock</option>
+              <option value="openai">OpenAI-compatible</option>
+            </select>
+          </div>
+          <div>
+            <Input
+              label="Model"
+              list="persona-models"
+              value={form.modelConfig.model}
+              onChange={(e) => updateModel({ model: e.target.value })}
+            />
+            <datalist id="persona-models">
+              {BEDROCK_MODELS.map((model) => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </div>
+          <Input
+            label="Temperature"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={form.modelConfig.temperature ?? ""}
+            onChange={(e) =>
+              updateModel({ temperature: Number(e.target.value) })
+            }
+          />
+          <Input
+            label="Max tokens"
+            type="number"
+            min={1}
+            max={4096}
+            value={form.modelConfig.maxTokens ?? ""}
+            onChange={(e) => updateModel({ maxTokens: Number(e.target.value) })}
+          />
+          <Input
+            label="Max characters"
+            type="number"
+            min={20}
+            max={500}
+            value={form.maxResponseLength ?? ""}
+            onChange={(e) =>
+              updateField("maxResponseLength", Number(e.target.value))
+            }
+          />
+        </div>
+
+        {mutationError && (
+          <div className="text-sm text-red-600">{mutationError.message}</div>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            onClick={save}
+            disabled={
+              !form.displayName ||
+              !form.personality ||
+              createPersona.isPending ||
+              updatePersona.isPending
+            }
+          >
+            {selected
+              ? `Save as v${(selected.personaVersion || 1) + 1}`
+              : "Create Persona"}
+          </Button>
+          {selected && (
+            <>
+              <Button
+                variant="secondary"
+                onClick={() =>
+                  setActive.mutate({
+                    userId: selected.userId,
+                    isActive: !selected.isActive,
+                  })
+                }
+                disabled={setActive.isPending}
+              >
+                {selected.isActive ? "Disable" : "Enable"}
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={async () =>
+                  select(await clonePersona.mutateAsync({ userId: selected.userId }))
+                }
+                disabled={clonePersona.isPending}
+              >
+                Clone
+              </Button>
+            </>
+          )}
+        </div>
+
+        {/* Try it */}
+        <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+          <h3 className="font-medium">🧪 Try It</h3>
+          <Input
+            label="Sample prompt"
+            value={samplePrompt}
+            onChange={(e) => setSamplePrompt(e.target.value)}
+          />
+          <Button
+            size="sm"
+            onClick={() =>
+              tryPersona.mutate({ persona: toRequest(form), prompt: samplePrompt })
+            }
+            disabled={!form.personality || !samplePrompt || tryPersona.isPending}
+          >
+            {tryPersona.isPending ? "Generating..." : "Generate Response"}
+          </Button>
+          {tryPersona.data && (
+            <div className="p-3 rounded bg-white border text-sm">
+              {tryPersona.data}
+            </div>
+          )}
+          {tryPersona.error && (
+            <div className="text-sm text-red-600">
+              {tryPersona.error.message}
+            </div>
+          )}
+        </div>
+
+        {/* Version history */}
+        {selected && history && history.versions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Version History</h3>
+            {history.versions.map((version) => (
+              <div
+                key={version.version}
+                className="flex justify-between items-center border rounded-lg p-3"
+              >
+                <div className="text-sm">
+                  <span className="font-medium">v{version.version}</span>
+                  <span className="text-slate-500 ml-2">
+                    {new Date(version.savedAt).toLocaleString()}
+                  </span>
+                  <div className="text-xs text-slate-500 truncate max-w-md">
+                    {version.systemPrompt || "(built-in prompt)"}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={async () =>
+                    select(
+                      await restoreVersion.mutateAsync({
+                        userId: selected.userId,
+                        version: version.version,
+                      })
+                    )
+                  }
+                  disabled={restoreVersion.isPending}
+                >
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
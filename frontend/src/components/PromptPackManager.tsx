@@ -0,0 +1,250 @@
+import { useState } from "react";
+import type { PromptDifficulty, PromptPack } from "@shared/schemas";
+import { Button, Input } from "@/components/ui";
+import { useAdminPromptPacks } from "@/store/server-state/prompt-pack.queries";
+import {
+  useCreatePromptPack,
+  useDeletePromptPack,
+  useUpdatePromptPack,
+} from "@/store/server-state/prompt-pack.mutations";
+
+// Tags and prompts are edited as text: comma-separated and one per line
+interface PackForm {
+  name: string;
+  description: string;
+  theme: string;
+  tags: string;
+  difficulty: PromptDifficulty;
+  locale: string;
+  prompts: string;
+}
+
+const NEW_PACK: PackForm = {
+  name: "",
+  description: "",
+  theme: "",
+  tags: "",
+  difficulty: "medium",
+  locale: "en",
+  prompts: "",
+};
+
+const textareaClasses =
+  "w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+function toForm(pack: PromptPack): PackForm {
+  return {
+    name: pack.name,
+    description: pack.description || "",
+    theme: pack.theme || "",
+    tags: pack.tags.join(", "),
+    difficulty: pack.difficulty,
+    locale: pack.locale,
+    prompts: pack.prompts.join("\n"),
+  };
+}
+
+function toRequest(form: PackForm) {
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || undefined,
+    theme: form.theme.trim() || undefined,
+    tags: form.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+    difficulty: form.difficulty,
+    locale: form.locale.trim(),
+    prompts: form.prompts.split("\n").map((prompt) => prompt.trim()).filter(Boolean),
+  };
+}
+
+export function PromptPackManager() {
+  const { data: packs = [], isLoading, error } = useAdminPromptPacks();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<PackForm>(NEW_PACK);
+
+  const selected = packs.find((p) => p.packId === selectedId) || null;
+  const readOnly = !!selected?.isBuiltIn;
+
+  const createPack = useCreatePromptPack();
+  const updatePack = useUpdatePromptPack();
+  const deletePack = useDeletePromptPack();
+
+  const mutationError = [createPack, updatePack, deletePack]
+    .map((m) => m.error)
+    .find(Boolean);
+
+  const select = (pack: PromptPack | null) => {
+    setSelectedId(pack?.packId || null);
+    setForm(pack ? toForm(pack) : NEW_PACK);
+  };
+
+  const updateField = <K extends keyof PackForm>(field: K, value: PackForm[K]) =>
+    setForm((prev: PackForm) => ({ ...prev, [field]: value }));
+
+  const save = async () => {
+    if (selected) {
+      select(await updatePack.mutateAsync({ packId: selected.packId, updates: toRequest(form) }));
+    } else {
+      select(await createPack.mutateAsync(toRequest(form)));
+    }
+  };
+
+  const remove = async () => {
+    if (!selected || !confirm(`Delete the "${selected.name}" prompt pack?`)) return;
+    await deletePack.mutateAsync(selected.packId);
+    select(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Pack list */}
+      <div className="space-y-2">
+        <Button size="sm" fullWidth onClick={() => select(null)}>
+          + New Pack
+        </Button>
+        {isLoading && (
+          <div className="text-sm text-slate-500">Loading prompt packs...</div>
+        )}
+        {error && <div className="text-sm text-red-600">{error.message}</div>}
+        {packs.map((pack) => (
+          <button
+            key={pack.packId}
+            onClick={() => select(pack)}
+            className={`w-full text-left border rounded-lg p-3 ${
+              pack.packId === selectedId
+                ? "border-blue-500 bg-blue-50"
+                : "border-slate-200 hover:bg-slate-50"
+            }`}
+          >
+            <div className="flex justify-between items-center">
+              <span className="font-medium">{pack.name}</span>
+              <span className="text-xs text-slate-500">
+                {pack.prompts.length} prompts
+              </span>
+            </div>
+            <div className="text-xs text-slate-500">
+              {pack.difficulty} · {pack.locale}
+              {pack.isBuiltIn && <span className="ml-2">built-in</span>}
+              {!pack.isActive && (
+                <span className="ml-2 text-amber-600">disabled</span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Editor */}
+      <div className="md:col-span-2 space-y-4">
+        {readOnly && (
+          <p className="text-sm text-slate-500">
+            The built-in pack is read-only; create a new pack to play different prompts.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Name"
+            value={form.name}
+            disabled={readOnly}
+            onChange={(e) => updateField("name", e.target.value)}
+          />
+          <Input
+            label="Theme (steers AI-written prompts)"
+            value={form.theme}
+            disabled={readOnly}
+            onChange={(e) => updateField("theme", e.target.value)}
+          />
+        </div>
+
+        <Input
+          label="Description"
+          value={form.description}
+          disabled={readOnly}
+          onChange={(e) => updateField("description", e.target.value)}
+        />
+
+        <div className="grid grid-cols-3 gap-3">
+          <Input
+            label="Tags (comma-separated)"
+            value={form.tags}
+            disabled={readOnly}
+            onChange={(e) => updateField("tags", e.target.value)}
+          />
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Difficulty
+            </label>
+            <select
+              className={textareaClasses}
+              value={form.difficulty}
+              disabled={readOnly}
+              onChange={(e) =>
+                updateField("difficulty", e.target.value as PromptDifficulty)
+              }
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
+          </div>
+          <Input
+            label="Locale"
+            value={form.locale}
+            disabled={readOnly}
+            onChange={(e) => updateField("locale", e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Prompts (one per line)
+          </label>
+          <textarea
+            rows={8}
+            className={textareaClasses}
+            value={form.prompts}
+            disabled={readOnly}
+            onChange={(e) => updateField("prompts", e.target.value)}
+          />
+        </div>
+
+        {mutationError && (
+          <div className="text-sm text-red-600">{mutationError.message}</div>
+        )}
+
+        {!readOnly && (
+          <div className="flex gap-3">
+            <Button
+              onClick={save}
+              disabled={!form.name.trim() || createPack.isPending || updatePack.isPending}
+            >
+              {selected ? "Save Pack" : "Create Pack"}
+            </Button>
+            {selected && (
+              <>
+                <Button
+                  variant="secondary"
+                  onClick={() =>
+                    updatePack.mutate({
+                      packId: selected.packId,
+                      updates: { isActive: !selected.isActive },
+                    })
+                  }
+                  disabled={updatePack.isPending}
+                >
+                  {selected.isActive ? "Disable" : "Enable"}
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={remove}
+                  disabled={deletePack.isPending}
+                >
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
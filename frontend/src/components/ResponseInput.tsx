@@ -34,6 +34,7 @@ export default function ResponseInputV2() {
   
   // Timer configuration
   const timeLimit = match?.responseTimeLimit || 45; // Default 45 seconds
+  const maxLength = match?.config?.maxResponseLength || 150; // Private lobbies set their own
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -112,7 +113,7 @@ export default function ResponseInputV2() {
     setLocalTyping(e.target.value.length > 0);
   };
 
-  const remainingChars = 150 - response.length;
+  const remainingChars = maxLength - response.length;
   const isSubmitting = submitResponse.isPending;
 
   return (
@@ -148,7 +149,7 @@ export default function ResponseInputV2() {
             onKeyDown={handleKeyPress}
             placeholder="Write a short response... Be authentic!"
             className="w-full h-32 px-4 py-3 border border-slate-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-slate-900 bg-slate-50 placeholder-slate-500 disabled:opacity-50"
-            maxLength={150}
+            maxLength={maxLength}
             disabled={isSubmitting || grammarCorrection.isPending}
           />
           
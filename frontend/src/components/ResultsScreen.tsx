@@ -1,8 +1,10 @@
 
 import { Card, Button } from '@/components/ui';
+import type { AudienceResults, AudienceRoundResult, Identity, MatchAnalysis as Analysis } from '@shared/schemas';
+import { MatchAnalysis } from './MatchAnalysis';
 
-interface ParticipantResult {
-  identity: 'A' | 'B' | 'C' | 'D';
+export interface ParticipantResult {
+  identity: Identity;
   label: string;
   isAI: boolean;
   messageCount: number;
@@ -10,9 +12,11 @@ interface ParticipantResult {
 
 interface ResultsScreenProps {
   participants: ParticipantResult[];
-  userVotes: ('A' | 'B' | 'C' | 'D')[];
-  currentUserIdentity: 'A' | 'B' | 'C' | 'D';
+  userVotes: Identity[];
+  currentUserIdentity?: Identity; // Absent for spectators
   sessionMode: 'production' | 'testing';
+  audience?: AudienceResults;
+  analysis?: Analysis;
   onPlayAgain: () => void;
 }
 
@@ -21,6 +25,8 @@ export function ResultsScreen({
   userVotes, 
   currentUserIdentity,
   sessionMode,
+  audience,
+  analysis,
   onPlayAgain 
 }: ResultsScreenProps) {
   // Calculate accuracy
@@ -152,6 +158,55 @@ export function ResultsScreen({
         </div>
       </Card>
 
+      {/* Analysis */}
+      {analysis && (
+        <Card className="p-6">
+          <MatchAnalysis
+            analysis={analysis}
+            nameOf={(identity: Identity) =>
+              participants.find((p) => p.identity === identity)?.label || `Player ${identity}`
+            }
+          />
+        </Card>
+      )}
+
+      {/* Audience */}
+      {audience && audience.spectators > 0 && (
+        <Card className="p-6">
+          <h3 className="text-xl font-semibold text-slate-900 mb-4">
+            👀 How the audience did
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mb-4">
+            <div>
+              <div className="text-2xl font-bold text-blue-600">{audience.spectators}</div>
+              <div className="text-sm text-slate-600">Spectators guessed</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-blue-600">{audience.accuracy}%</div>
+              <div className="text-sm text-slate-600">Audience accuracy</div>
+            </div>
+            {audience.yourAccuracy !== undefined && (
+              <div>
+                <div className="text-2xl font-bold text-green-600">{audience.yourAccuracy}%</div>
+                <div className="text-sm text-slate-600">Your guesses</div>
+              </div>
+            )}
+          </div>
+          <div className="space-y-1">
+            {audience.rounds.map((round: AudienceRoundResult) => (
+              <div key={round.roundNumber} className="flex justify-between text-sm text-slate-600">
+                <span>Round {round.roundNumber}</span>
+                <span>
+                  {round.guesses > 0
+                    ? `${round.guesses} guess${round.guesses === 1 ? '' : 'es'} • ${round.accuracy}% found a human`
+                    : 'No guesses'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Session Info */}
       <Card className="p-4">
         <div className="text-center text-sm text-slate-500">
@@ -0,0 +1,40 @@
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Card, Button } from '@/components/ui';
+import { useMatchHistory } from '@/store/server-state/match.queries';
+import { useReclaimSeat } from '@/store/server-state/match.mutations';
+
+// A signed-in player's unfinished match, so they can pick it up on this device.
+// Reclaiming also takes the seat back from an AI player that stood in for them.
+export function ResumeMatchCard() {
+  const navigate = useNavigate();
+  const { matches } = useMatchHistory();
+  const reclaimSeat = useReclaimSeat();
+
+  const unfinished = matches.find((match) => match.status !== 'completed');
+  if (!unfinished) return null;
+
+  const handleRejoin = () => {
+    reclaimSeat.mutate(unfinished.matchId, {
+      onSuccess: ({ match }) =>
+        navigate(match.status === 'waiting_for_players' ? '/waiting' : '/match'),
+      onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to rejoin match'),
+    });
+  };
+
+  return (
+    <Card className="bg-blue-50 border-blue-200">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Match in progress</h2>
+          <p className="text-sm text-slate-600">
+            Round {unfinished.currentRound} of {unfinished.totalRounds}
+          </p>
+        </div>
+        <Button onClick={handleRejoin} disabled={reclaimSeat.isPending}>
+          {reclaimSeat.isPending ? 'Rejoining...' : 'Rejoin'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
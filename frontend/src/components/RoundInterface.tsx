@@ -7,7 +7,7 @@ import {
   useRoundResponses,
   useHasParticipantResponded,
 } from "@/store/server-state/match.queries";
-import { calculateCumulativeScores } from "@/utils/scoring";
+import { getMatchScores } from "@/utils/scoring";
 import CompactScoreboard from "./CompactScoreboard";
 import MatchAccordion from "./MatchAccordion";
 
@@ -28,8 +28,8 @@ export default function RoundInterface() {
   const currentRoundNumber = match.currentRound;
   const totalRounds = match.totalRounds;
   
-  // Calculate cumulative scores
-  const cumulativeScores = calculateCumulativeScores(match.rounds);
+  // Server-computed running totals
+  const cumulativeScores = getMatchScores(match);
 
   return (
     <div className="flex flex-col h-full max-h-screen overflow-hidden">
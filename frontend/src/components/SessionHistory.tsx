@@ -1,75 +1,21 @@
 
-import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Card, Button } from '@/components/ui';
-import { useAuth } from '@/contexts/useAuth';
-
-interface MatchHistoryRecord {
-  matchId: string;
-  status: 'completed' | 'in_progress';
-  humanParticipant: string;
-  robotParticipants: string[];
-  rounds: RoundSummary[];
-  createdAt: number;
-  completedAt?: number;
-  duration?: number;
-  result?: 'correct' | 'incorrect';
-}
-
-interface RoundSummary {
-  round: number;
-  prompt: string;
-  responses: Array<{
-    participantId: string;
-    participantType: 'human' | 'robot';
-    response: string;
-    robotType?: string;
-  }>;
-  humanGuess?: string;
-  startedAt: number;
-  completedAt?: number;
-}
-
-interface MatchHistoryResponse {
-  matches: MatchHistoryRecord[];
-  timestamp: number;
-}
+import { useMatchHistory } from '@/store/server-state/match.queries';
+import type { MatchView, ParticipantView, Round } from '@shared/schemas';
 
 export function SessionHistory() {
-  const [matches, setMatches] = useState<MatchHistoryRecord[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
-
-  useEffect(() => {
-    async function fetchMatchHistory() {
-      if (!user) return;
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        const response = await fetch(import.meta.env.VITE_MATCH_HISTORY_API!);
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch match history: ${response.statusText}`);
-        }
-
-        const data: MatchHistoryResponse = await response.json();
-        setMatches(data.matches || []);
-      } catch (err) {
-        console.error('Error fetching match history:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load match history');
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchMatchHistory();
-  }, [user]);
-
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString('en-US', {
+  const {
+    matches,
+    isLoading: loading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useMatchHistory();
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -78,6 +24,12 @@ export function SessionHistory() {
     });
   };
 
+  // Completed matches only; updatedAt is the last write, the final vote
+  const getDuration = (match: MatchView) => {
+    if (match.status !== 'completed') return undefined;
+    return new Date(match.updatedAt).getTime() - new Date(match.createdAt).getTime();
+  };
+
   const formatDuration = (duration?: number) => {
     if (!duration) return 'Unknown';
     const minutes = Math.floor(duration / 60000);
@@ -102,7 +54,9 @@ export function SessionHistory() {
         <Card className="text-center p-12">
           <div className="text-4xl mb-4">⚠️</div>
           <h1 className="text-2xl font-bold text-red-600 mb-4">Error Loading History</h1>
-          <p className="text-slate-600 mb-8">{error}</p>
+          <p className="text-slate-600 mb-8">
+            {error instanceof Error ? error.message : 'Failed to load match history'}
+          </p>
           <div className="space-x-4">
             <Button onClick={() => window.location.reload()} variant="primary">
               Try Again
@@ -163,106 +117,109 @@ export function SessionHistory() {
       </div>
 
       <div className="grid gap-6">
-        {matches.map((match) => (
-          <Card key={match.matchId} className="p-6">
-            <div className="flex justify-between items-start mb-4">
-              <div>
-                <h3 className="text-xl font-semibold text-slate-900 mb-2">
-                  Match {match.matchId.slice(-8)}
-                </h3>
-                <div className="flex items-center space-x-4 text-sm text-slate-600">
-                  <span>{formatDate(match.createdAt)}</span>
-                  {match.duration && (
-                    <span>Duration: {formatDuration(match.duration)}</span>
-                  )}
+        {matches.map((match) => {
+          const me = match.participants.find((p: ParticipantView) => p.identity === match.viewerIdentity);
+          const others = match.participants.filter((p: ParticipantView) => p !== me);
+          const duration = getDuration(match);
+
+          return (
+            <Card key={match.matchId} className="p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-slate-900 mb-2">
+                    Match {match.matchId.slice(-8)}
+                  </h3>
+                  <div className="flex items-center space-x-4 text-sm text-slate-600">
+                    <span>{formatDate(match.createdAt)}</span>
+                    {!!duration && (
+                      <span>Duration: {formatDuration(duration)}</span>
+                    )}
+                  </div>
                 </div>
-              </div>
-              <div className="text-right">
-                <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
-                  match.status === 'completed' 
-                    ? 'bg-green-100 text-green-700' 
-                    : 'bg-yellow-100 text-yellow-700'
-                }`}>
-                  {match.status === 'completed' ? 'Completed' : 'In Progress'}
-                </span>
-                {match.result && (
-                  <div className={`mt-2 text-sm font-medium ${
-                    match.result === 'correct' 
-                      ? 'text-green-600' 
-                      : 'text-red-600'
+                <div className="text-right">
+                  <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
+                    match.status === 'completed' 
+                      ? 'bg-green-100 text-green-700' 
+                      : 'bg-yellow-100 text-yellow-700'
                   }`}>
-                    {match.result === 'correct' ? '✅ Correct Guess' : '❌ Incorrect Guess'}
-                  </div>
-                )}
-              </div>
-            </div>
-
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium text-slate-700 mb-2">Participants</h4>
-                <div className="flex space-x-2 text-sm">
-                  <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded">
-                    👤 {match.humanParticipant}
+                    {match.status === 'completed' ? 'Completed' : 'In Progress'}
                   </span>
-                  {match.robotParticipants.map((robot, idx) => (
-                    <span key={idx} className="bg-gray-100 text-gray-700 px-2 py-1 rounded">
-                      🤖 {robot}
-                    </span>
-                  ))}
                 </div>
               </div>
 
-              {match.rounds.length > 0 && (
+              <div className="space-y-4">
                 <div>
-                  <h4 className="font-medium text-slate-700 mb-3">Rounds ({match.rounds.length})</h4>
-                  <div className="space-y-3">
-                    {match.rounds.map((round) => (
-                      <div key={round.round} className="bg-slate-50 p-4 rounded-lg">
-                        <div className="flex justify-between items-start mb-2">
-                          <h5 className="font-medium text-slate-800">
-                            Round {round.round}
-                          </h5>
-                          {round.humanGuess && (
-                            <span className="text-xs text-slate-500">
-                              Guessed: {round.humanGuess}
-                            </span>
-                          )}
-                        </div>
-                        <p className="text-sm text-slate-600 mb-3 italic">
-                          &quot;{round.prompt}&quot;
-                        </p>
-                        {round.responses.length > 0 && (
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
-                            {round.responses.map((response, idx) => (
-                              <div key={idx} className="bg-white p-2 rounded border">
-                                <div className="flex justify-between items-center mb-1">
-                                  <span className={`font-medium ${
-                                    response.participantType === 'human' 
-                                      ? 'text-blue-600' 
-                                      : 'text-gray-600'
-                                  }`}>
-                                    {response.participantType === 'human' ? '👤' : '🤖'} {response.participantId}
-                                  </span>
-                                  {response.robotType && (
-                                    <span className="text-gray-400">({response.robotType})</span>
-                                  )}
-                                </div>
-                                <p className="text-gray-700">{response.response}</p>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
+                  <h4 className="font-medium text-slate-700 mb-2">Participants</h4>
+                  <div className="flex space-x-2 text-sm">
+                    <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded">
+                      👤 {me?.playerName || 'You'}
+                    </span>
+                    {/* Who was a robot stays hidden until the match is completed */}
+                    {others.map((participant: ParticipantView, idx: number) => (
+                      <span key={idx} className="bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                        {participant.isAI === undefined ? '❔' : participant.isAI ? '🤖' : '👤'} {participant.playerName}
+                      </span>
                     ))}
                   </div>
                 </div>
-              )}
-            </div>
-          </Card>
-        ))}
+
+                {match.rounds.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-slate-700 mb-3">Rounds ({match.rounds.length})</h4>
+                    <div className="space-y-3">
+                      {match.rounds.map((round: Round) => {
+                        const responses = Object.entries(round.responses as Record<string, string>);
+                        return (
+                          <div key={round.roundNumber} className="bg-slate-50 p-4 rounded-lg">
+                            <div className="flex justify-between items-start mb-2">
+                              <h5 className="font-medium text-slate-800">
+                                Round {round.roundNumber}
+                              </h5>
+                            </div>
+                            <p className="text-sm text-slate-600 mb-3 italic">
+                              &quot;{round.prompt}&quot;
+                            </p>
+                            {responses.length > 0 && (
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                                {responses.map(([identity, response]) => (
+                                  <div key={identity} className="bg-white p-2 rounded border">
+                                    <div className="flex justify-between items-center mb-1">
+                                      <span className={`font-medium ${
+                                        identity === match.viewerIdentity
+                                          ? 'text-blue-600' 
+                                          : 'text-gray-600'
+                                      }`}>
+                                        {identity === match.viewerIdentity ? 'You' : `Player ${identity}`}
+                                      </span>
+                                    </div>
+                                    <p className="text-gray-700">{response}</p>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </Card>
+          );
+        })}
       </div>
 
       <div className="mt-8 text-center">
+        {hasNextPage && (
+          <Button
+            variant="secondary"
+            className="mr-4"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load older matches'}
+          </Button>
+        )}
         <Link to="/match">
           <Button variant="primary" className="mr-4">
             Play New Match
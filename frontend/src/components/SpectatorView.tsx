@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Card, Button } from '@/components/ui';
+import { useAudienceResults, useMatch } from '@/store/server-state/match.queries';
+import { useSpectateMatch, useSubmitAudienceGuess } from '@/store/server-state/match.mutations';
+import { createSyncEngine } from '@/store/sync-engine/sync';
+import type { MatchSyncEngine } from '@/store/sync-engine/sync';
+import type { AudienceRoundResult, Identity, ParticipantView, Round } from '@shared/schemas';
+import { ResultsScreen } from './ResultsScreen';
+import type { ParticipantResult } from './ResultsScreen';
+
+// Watching a match from a /watch link. Spectators see each round's responses
+// once voting opens and may guess who is human; guesses never score.
+export function SpectatorView() {
+  const { inviteCode } = useParams<{ inviteCode: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { mutate: spectate, error: spectateError } = useSpectateMatch();
+  const submitGuess = useSubmitAudienceGuess();
+
+  const [matchId, setMatchId] = useState<string | null>(null);
+  const [picks, setPicks] = useState<Identity[]>([]);
+  const [guesses, setGuesses] = useState<Record<number, Identity[]>>({});
+
+  const { data: match, error } = useMatch(matchId);
+  const isComplete = match?.status === 'completed';
+  const { data: audience } = useAudienceResults(matchId, isComplete);
+
+  useEffect(() => {
+    if (inviteCode) {
+      spectate(inviteCode, { onSuccess: (data) => setMatchId(data.match.matchId) });
+    }
+  }, [inviteCode, spectate]);
+
+  // Spectators get pushed updates too, redacted like the match view
+  const syncEngineRef = useRef<MatchSyncEngine | null>(null);
+  useEffect(() => {
+    if (matchId && !syncEngineRef.current) {
+      syncEngineRef.current = createSyncEngine(queryClient, matchId);
+      syncEngineRef.current.connect();
+    }
+
+    return () => {
+      if (syncEngineRef.current) {
+        syncEngineRef.current.disconnect();
+        syncEngineRef.current = null;
+      }
+    };
+  }, [matchId, queryClient]);
+
+  const currentRound = match?.rounds.find((r: Round) => r.roundNumber === match.currentRound);
+  const roundNumber = currentRound?.roundNumber;
+
+  // A new round starts a new guess
+  useEffect(() => {
+    setPicks([]);
+  }, [roundNumber]);
+
+  const failure = spectateError || error;
+  if (failure) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="text-center max-w-md">
+          <h3 className="text-lg font-semibold text-red-600 mb-2">Can't Watch This Match</h3>
+          <p className="text-gray-600 mb-4">
+            {failure instanceof Error ? failure.message : 'Match not found'}
+          </p>
+          <Link to="/dashboard">
+            <Button variant="primary">Back to Dashboard</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!match || !currentRound) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Finding the match...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isComplete) {
+    const lastGuess = [...(audience?.rounds || [])]
+      .reverse()
+      .find((round: AudienceRoundResult) => round.yourGuess)?.yourGuess
+      ?? guesses[Math.max(0, ...Object.keys(guesses).map(Number))]
+      ?? [];
+    const participants: ParticipantResult[] = match.participants
+      .filter((p: ParticipantView) => p.identity)
+      .map((p: ParticipantView) => ({
+        identity: p.identity!,
+        label: p.displayName || p.playerName || `Player ${p.identity}`,
+        isAI: !!p.isAI,
+        messageCount: match.rounds.filter((r: Round) => r.responses[p.identity!]).length,
+      }));
+    const humans = participants.filter((p: ParticipantResult) => !p.isAI).length;
+
+    return (
+      <ResultsScreen
+        participants={participants}
+        // Whoever the last guess didn't name as human was taken for a robot
+        userVotes={participants.map((p: ParticipantResult) => p.identity).filter((identity: Identity) => !lastGuess.includes(identity))}
+        sessionMode={humans > 1 ? 'production' : 'testing'}
+        audience={audience}
+        analysis={match.analysis}
+        onPlayAgain={() => navigate('/dashboard')}
+      />
+    );
+  }
+
+  const requiredPicks = match.requiredVotePicks ?? 1;
+  const responses = currentRound.responses as Record<Identity, string>;
+  const order: Identity[] = currentRound.presentationOrder?.length === Object.keys(responses).length
+    ? currentRound.presentationOrder
+    : (Object.keys(responses).sort() as Identity[]);
+  const myGuess = guesses[currentRound.roundNumber];
+
+  const togglePick = (identity: Identity) => {
+    setPicks((current) => {
+      if (current.includes(identity)) return current.filter((pick) => pick !== identity);
+      return requiredPicks === 1 ? [identity] : [...current, identity].slice(-requiredPicks);
+    });
+  };
+
+  const handleGuess = () => {
+    if (!matchId || picks.length !== requiredPicks) return;
+    submitGuess.mutate(
+      { matchId, round: currentRound.roundNumber, guess: requiredPicks === 1 ? picks[0] : picks },
+      {
+        onSuccess: ({ guess }) => setGuesses((current) => ({ ...current, [currentRound.roundNumber]: guess })),
+        onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to submit guess'),
+      }
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-blue-600">👀 Spectating</span>
+          <span className="text-sm text-slate-500">
+            Round {match.currentRound} of {match.totalRounds}
+          </span>
+        </div>
+        <h2 className="text-xl font-semibold text-slate-900">{currentRound.prompt}</h2>
+      </Card>
+
+      {currentRound.status === 'voting' ? (
+        <Card className="p-6 space-y-3">
+          <p className="text-slate-600">
+            Which {requiredPicks === 1 ? 'response is' : `${requiredPicks} responses are`} from a human?
+            Your guess doesn't affect the players' scores.
+          </p>
+          {order.map((identity) => (
+            <button
+              key={identity}
+              onClick={() => togglePick(identity)}
+              className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
+                picks.includes(identity) ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'
+              }`}
+            >
+              {responses[identity]}
+            </button>
+          ))}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-500">
+              {myGuess ? 'Guess in. You can change it until voting closes.' : `${picks.length}/${requiredPicks} picked`}
+            </span>
+            <Button
+              variant="primary"
+              onClick={handleGuess}
+              disabled={picks.length !== requiredPicks || submitGuess.isPending}
+            >
+              {myGuess ? 'Change Guess' : 'Submit Guess'}
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <Card className="p-6 text-center text-slate-600">
+          The players are writing their responses. They appear here once voting opens.
+        </Card>
+      )}
+    </div>
+  );
+}
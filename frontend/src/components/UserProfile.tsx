@@ -2,33 +2,70 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/useAuth';
 import { Card, Button, Input } from '@/components/ui';
+import { useMyProfile, useMyStats } from '@/store/server-state/user.queries';
+import { useUpdateProfile } from '@/store/server-state/user.mutations';
+import { AvatarColorSchema } from '@shared/schemas';
+import type { AvatarColor, MatchStatsEntry, StatsTotals } from '@shared/schemas';
 
-interface UserStats {
-  gamesPlayed: number;
-  averageAccuracy: number;
-  bestAccuracy: number;
-  totalCorrectGuesses: number;
-  favoriteMode: 'production' | 'testing';
+// Spelled out so Tailwind keeps the classes
+const AVATAR_CLASSES: Record<AvatarColor, string> = {
+  blue: 'bg-blue-500',
+  green: 'bg-green-500',
+  purple: 'bg-purple-500',
+  orange: 'bg-orange-500',
+  pink: 'bg-pink-500',
+  yellow: 'bg-yellow-500',
+  indigo: 'bg-indigo-500',
+  red: 'bg-red-500',
+};
+
+// Rates are fractions; unset until there is something to divide by
+function percent(rate?: number): string {
+  return rate === undefined ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+function seconds(ms?: number): string {
+  return ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Recent form against the career figure: up, down or level
+function trend(recent: MatchStatsEntry[], field: 'voteAccuracy' | 'deceptionRate', career?: number) {
+  const rates = recent.map((m) => m[field]).filter((rate): rate is number => rate !== undefined);
+  if (rates.length === 0 || career === undefined) return null;
+  const delta = rates.reduce((sum, rate) => sum + rate, 0) / rates.length - career;
+  if (Math.abs(delta) < 0.05) return <span className="text-slate-400">→</span>;
+  return delta > 0
+    ? <span className="text-green-600">↑</span>
+    : <span className="text-red-600">↓</span>;
 }
 
+const RECENT_FORM = 5;
+
 export function UserProfile() {
   const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
-  const [displayName, setDisplayName] = useState(user?.email?.split('@')[0] || '');
+  const [displayName, setDisplayName] = useState('');
+  const [avatarColor, setAvatarColor] = useState<AvatarColor>('blue');
+  const { data: profile } = useMyProfile(!!user);
+  const { data: stats, isLoading, error } = useMyStats(!!user);
+  const updateProfile = useUpdateProfile();
+
+  // Until they save a name, players go by the start of their email
+  const savedName = profile?.displayName || user?.email?.split('@')[0] || '';
+  const savedColor = profile?.avatarColor || 'blue';
 
-  // Mock stats for now - will be replaced with real data
-  const [stats] = useState<UserStats>({
-    gamesPlayed: 12,
-    averageAccuracy: 73,
-    bestAccuracy: 100,
-    totalCorrectGuesses: 18,
-    favoriteMode: 'production'
-  });
+  const handleEditProfile = () => {
+    setDisplayName(savedName);
+    setAvatarColor(savedColor);
+    updateProfile.reset();
+    setIsEditing(true);
+  };
 
   const handleSaveProfile = () => {
-    // TODO: Save to backend
-    setIsEditing(false);
-    console.log('Saving profile:', { displayName });
+    updateProfile.mutate(
+      { displayName: displayName.trim(), avatarColor },
+      { onSuccess: () => setIsEditing(false) }
+    );
   };
 
   if (!user) {
@@ -40,13 +77,28 @@ export function UserProfile() {
       {/* Profile Info */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-2xl font-bold text-slate-900">Profile</h2>
-          <Button
-            variant={isEditing ? 'primary' : 'secondary'}
-            onClick={isEditing ? handleSaveProfile : () => setIsEditing(true)}
-          >
-            {isEditing ? 'Save Changes' : 'Edit Profile'}
-          </Button>
+          <div className="flex items-center gap-3">
+            <div
+              className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold ${AVATAR_CLASSES[isEditing ? avatarColor : savedColor]}`}
+            >
+              {(isEditing ? displayName : savedName)[0]?.toUpperCase()}
+            </div>
+            <h2 className="text-2xl font-bold text-slate-900">Profile</h2>
+          </div>
+          <div className="flex gap-2">
+            {isEditing && (
+              <Button variant="secondary" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              variant={isEditing ? 'primary' : 'secondary'}
+              onClick={isEditing ? handleSaveProfile : handleEditProfile}
+              disabled={updateProfile.isPending || (isEditing && !displayName.trim())}
+            >
+              {isEditing ? (updateProfile.isPending ? 'Saving...' : 'Save Changes') : 'Edit Profile'}
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -68,14 +120,44 @@ export function UserProfile() {
                 value={displayName}
                 onChange={(e) => setDisplayName(e.target.value)}
                 placeholder="Enter display name"
+                maxLength={100}
               />
             ) : (
               <div className="text-slate-900 bg-slate-50 p-3 rounded-lg">
-                {displayName || 'Not set'}
+                {savedName || 'Not set'}
               </div>
             )}
           </div>
         </div>
+
+        {isEditing && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              Avatar Colour
+            </label>
+            <div className="flex gap-2">
+              {AvatarColorSchema.options.map((color: AvatarColor) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={color}
+                  onClick={() => setAvatarColor(color)}
+                  className={`w-8 h-8 rounded-full ${AVATAR_CLASSES[color]} ${
+                    color === avatarColor ? 'ring-2 ring-offset-2 ring-slate-700' : ''
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {updateProfile.error && (
+          <div className="mt-4 text-sm text-red-600">{updateProfile.error.message}</div>
+        )}
+
+        <p className="mt-4 text-sm text-slate-500">
+          Matches you create or join while signed in use this display name.
+        </p>
       </Card>
 
       {/* Game Stats */}
@@ -84,44 +166,95 @@ export function UserProfile() {
           🎮 Game Statistics
         </h3>
 
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <div className="text-center p-4 bg-blue-50 rounded-lg">
-            <div className="text-2xl font-bold text-blue-600">
-              {stats.gamesPlayed}
-            </div>
-            <div className="text-sm text-slate-600">Games Played</div>
+        {isLoading && <div className="text-slate-500">Loading stats...</div>}
+        {error && <div className="text-red-600">{error.message}</div>}
+        {stats && stats.gamesPlayed === 0 && (
+          <div className="text-slate-500">
+            Finish a match to start your stats.
           </div>
+        )}
 
-          <div className="text-center p-4 bg-green-50 rounded-lg">
-            <div className="text-2xl font-bold text-green-600">
-              {stats.averageAccuracy}%
-            </div>
-            <div className="text-sm text-slate-600">Avg Accuracy</div>
-          </div>
+        {stats && stats.gamesPlayed > 0 && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-blue-50 rounded-lg">
+                <div className="text-2xl font-bold text-blue-600">
+                  {stats.gamesPlayed}
+                </div>
+                <div className="text-sm text-slate-600">
+                  Games Played ({stats.wins} won)
+                </div>
+              </div>
 
-          <div className="text-center p-4 bg-purple-50 rounded-lg">
-            <div className="text-2xl font-bold text-purple-600">
-              {stats.bestAccuracy}%
-            </div>
-            <div className="text-sm text-slate-600">Best Game</div>
-          </div>
+              <div className="text-center p-4 bg-green-50 rounded-lg">
+                <div className="text-2xl font-bold text-green-600">
+                  {percent(stats.voteAccuracy)}{' '}
+                  {trend(stats.recentMatches.slice(0, RECENT_FORM), 'voteAccuracy', stats.voteAccuracy)}
+                </div>
+                <div className="text-sm text-slate-600">Vote Accuracy</div>
+              </div>
+
+              <div className="text-center p-4 bg-purple-50 rounded-lg">
+                <div className="text-2xl font-bold text-purple-600">
+                  {percent(stats.deceptionRate)}{' '}
+                  {trend(stats.recentMatches.slice(0, RECENT_FORM), 'deceptionRate', stats.deceptionRate)}
+                </div>
+                <div className="text-sm text-slate-600">
+                  Deception Rate ({stats.timesVotedAsHuman} times spotted)
+                </div>
+              </div>
 
-          <div className="text-center p-4 bg-orange-50 rounded-lg">
-            <div className="text-2xl font-bold text-orange-600">
-              {stats.totalCorrectGuesses}
+              <div className="text-center p-4 bg-orange-50 rounded-lg">
+                <div className="text-2xl font-bold text-orange-600">
+                  {seconds(stats.averageResponseTime)}
+                </div>
+                <div className="text-sm text-slate-600">Avg Response Time</div>
+              </div>
             </div>
-            <div className="text-sm text-slate-600">AIs Caught</div>
-          </div>
-        </div>
 
-        <div className="mt-6 p-4 bg-slate-50 rounded-lg">
-          <div className="flex items-center justify-between">
-            <span className="text-slate-600">Favorite Mode:</span>
-            <span className="font-semibold text-slate-900">
-              {stats.favoriteMode === 'production' ? '🎯 Game Mode (2H+2AI)' : '🧪 Testing Mode (1H+3AI)'}
-            </span>
-          </div>
-        </div>
+            {/* Per-template breakdown */}
+            <table className="w-full mt-6 text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1">Match Type</th>
+                  <th className="py-1">Games</th>
+                  <th className="py-1">Wins</th>
+                  <th className="py-1">Accuracy</th>
+                  <th className="py-1">Deception</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(stats.byTemplate).map(([templateType, totals]: [string, StatsTotals]) => (
+                  <tr key={templateType} className="border-t border-slate-100">
+                    <td className="py-1 font-medium text-slate-900">{templateType}</td>
+                    <td className="py-1">{totals.gamesPlayed}</td>
+                    <td className="py-1">{totals.wins}</td>
+                    <td className="py-1">{percent(totals.voteAccuracy)}</td>
+                    <td className="py-1">{percent(totals.deceptionRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {/* Recent matches, oldest on the left */}
+            <div className="mt-6">
+              <div className="text-sm font-medium text-slate-700 mb-2">
+                Vote accuracy over your last {stats.recentMatches.length} matches
+              </div>
+              <div className="flex items-end gap-1 h-24 p-2 bg-slate-50 rounded-lg">
+                {[...stats.recentMatches].reverse().map((match: MatchStatsEntry) => (
+                  <div
+                    key={match.matchId}
+                    title={`${new Date(match.completedAt).toLocaleDateString()}: ${percent(match.voteAccuracy)} accuracy, ${match.score} points${match.won ? ', won' : ''}`}
+                    className={`flex-1 rounded-t ${match.won ? 'bg-green-500' : 'bg-blue-400'}`}
+                    style={{ height: `${Math.max(4, (match.voteAccuracy ?? 0) * 100)}%` }}
+                  />
+                ))}
+              </div>
+              <div className="text-xs text-slate-500 mt-1">Green bars are wins</div>
+            </div>
+          </>
+        )}
       </Card>
 
       {/* Game Preferences */}
@@ -4,8 +4,8 @@ import { Card } from "./ui";
 import type { Identity } from "@shared/schemas";
 
 interface VoteFeedbackProps {
-  votedFor: Identity;
-  correctAnswer: Identity;
+  votedFor: Identity[];
+  correctAnswers: Identity[];
   pointsEarned: number;
   totalScore: number;
   onContinue: () => void;
@@ -13,12 +13,13 @@ interface VoteFeedbackProps {
 
 export default function VoteFeedback({
   votedFor,
-  correctAnswer,
+  correctAnswers,
   pointsEarned,
   totalScore,
   onContinue,
 }: VoteFeedbackProps) {
-  const isCorrect = votedFor === correctAnswer;
+  const correctPicks = votedFor.filter((identity) => correctAnswers.includes(identity)).length;
+  const isCorrect = correctPicks === votedFor.length;
   const [showPoints, setShowPoints] = useState(false);
   const [animatedScore, setAnimatedScore] = useState(totalScore - pointsEarned);
 
@@ -71,11 +72,19 @@ export default function VoteFeedback({
         <h3 className={`text-2xl font-bold mb-2 ${
           isCorrect ? 'text-green-600' : 'text-red-600'
         }`}>
-          {isCorrect ? 'Correct!' : 'Incorrect'}
+          {isCorrect ? 'Correct!' : votedFor.length > 1 && correctPicks > 0 ? 'Partly Correct' : 'Incorrect'}
         </h3>
 
         <p className="text-slate-600 mb-4">
-          The human response was from <span className="font-semibold">Participant {correctAnswer}</span>
+          {votedFor.length === 1 ? (
+            isCorrect
+              ? <>Participant <span className="font-semibold">{votedFor[0]}</span> is human</>
+              : <>Participant <span className="font-semibold">{votedFor[0]}</span> is a robot</>
+          ) : (
+            <>You found {correctPicks} of {votedFor.length} humans{correctAnswers.length > 0 && <>: <span className="font-semibold">
+              {correctAnswers.map((identity) => `Participant ${identity}`).join(', ')}
+            </span></>}</>
+          )}
         </p>
 
         {/* Points Animation */}
@@ -83,9 +92,9 @@ export default function VoteFeedback({
           showPoints ? 'opacity-100 transform translate-y-0' : 'opacity-0 transform -translate-y-4'
         }`}>
           <div className={`text-3xl font-bold mb-4 ${
-            isCorrect ? 'text-green-600' : 'text-slate-400'
+            pointsEarned > 0 ? 'text-green-600' : 'text-slate-400'
           }`}>
-            {isCorrect ? `+${pointsEarned}` : '+0'} points
+            {pointsEarned > 0 ? `+${pointsEarned}` : '+0'} points
           </div>
         </div>
 
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, Button } from '@/components/ui';
 import { useMatch } from '@/store/server-state/match.queries';
+import { useMatchHeartbeat } from '@/hooks/useMatchHeartbeat';
 import type { Match, Participant } from '@shared/schemas';
 
 export function WaitingRoom() {
@@ -11,6 +12,7 @@ export function WaitingRoom() {
   const [copied, setCopied] = useState(false);
   
   const { data: match, isLoading, error } = useMatch(matchId || '');
+  useMatchHeartbeat(matchId);
 
   useEffect(() => {
     if (!matchId) {
@@ -31,6 +33,13 @@ export function WaitingRoom() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Spectators watch with the same code, without taking a seat
+  const copyWatchLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/watch/${inviteCode}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
   const copyInviteCode = () => {
     if (inviteCode) {
       navigator.clipboard.writeText(inviteCode);
@@ -142,6 +151,15 @@ export function WaitingRoom() {
                 {copied ? 'Copied!' : 'Copy Link'}
               </Button>
             </div>
+            <div className="mt-3">
+              <Button
+                onClick={copyWatchLink}
+                variant="ghost"
+                size="sm"
+              >
+                👀 Copy spectator link
+              </Button>
+            </div>
           </Card>
         )}
 
@@ -4,14 +4,22 @@ import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import { Card, Input } from "./ui";
+import { MatchmakingQueue } from "./MatchmakingQueue";
+import { ResumeMatchCard } from "./ResumeMatchCard";
+import { useMyProfile } from "@/store/server-state/user.queries";
+import { LobbySetupForm } from "./LobbySetupForm";
 
 export default function WelcomeDashboard() {
   const { user } = useAuth();
   const createMatchWithTemplate = useCreateMatchWithTemplate();
   const navigate = useNavigate();
-  const [playerName, setPlayerName] = useState(
-    user?.email?.split("@")[0] || ""
-  );
+  const { data: profile } = useMyProfile(!!user?.sub);
+  // Signed-in players start from their saved display name, which the server
+  // uses for them anyway
+  const [typedName, setTypedName] = useState<string | null>(null);
+  const playerName =
+    typedName ?? (profile?.displayName || user?.email?.split("@")[0] || "");
+  const [showLobbySetup, setShowLobbySetup] = useState(false);
 
   const handleSelectTemplate = async (template: "classic_1v3" | "duo_2v2") => {
     if (!playerName.trim()) {
@@ -23,7 +31,6 @@ export default function WelcomeDashboard() {
       const result = await createMatchWithTemplate.mutateAsync({
         templateType: template,
         creatorName: playerName.trim(),
-        creatorUserId: user?.sub
       });
 
       // Navigate based on match status
@@ -66,18 +73,32 @@ export default function WelcomeDashboard() {
           </p>
         </Card>
 
+        {/* A signed-in player's unfinished match, from any device */}
+        {user?.sub && <ResumeMatchCard />}
+
         {/* Player Name */}
         <Card className="text-center">
           <div className="space-y-4 max-w-sm mx-auto">
-            <h2 className="text-xl font-semibold text-slate-800 mb-2">
-              Enter Your Name
-            </h2>
-            <Input
-              value={playerName}
-              onChange={(e) => setPlayerName(e.target.value)}
-              placeholder="Enter your name"
-              className="w-full text-center"
-            />
+            {profile?.displayName ? (
+              <p className="text-slate-700">
+                Playing as <span className="font-semibold">{profile.displayName}</span>{" "}
+                <Link to="/profile" className="text-sm text-blue-600 hover:underline">
+                  (change)
+                </Link>
+              </p>
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold text-slate-800 mb-2">
+                  Enter Your Name
+                </h2>
+                <Input
+                  value={playerName}
+                  onChange={(e) => setTypedName(e.target.value)}
+                  placeholder="Enter your name"
+                  className="w-full text-center"
+                />
+              </>
+            )}
           </div>
         </Card>
 
@@ -133,6 +154,31 @@ export default function WelcomeDashboard() {
           )}
         </Card>
 
+        {/* Private Lobby */}
+        <Card>
+          <button
+            onClick={() => setShowLobbySetup(!showLobbySetup)}
+            className="w-full flex items-center justify-between text-left"
+          >
+            <h2 className="text-xl font-semibold text-slate-800">
+              ⚙️ Private Lobby
+            </h2>
+            <span className="text-sm text-slate-500">
+              {showLobbySetup ? "Hide" : "Customize rounds, timers and players"}
+            </span>
+          </button>
+          {showLobbySetup && (
+            <div className="mt-4">
+              <LobbySetupForm playerName={playerName} />
+            </div>
+          )}
+        </Card>
+
+        {/* Public matchmaking follows the account, so it needs sign-in */}
+        {user?.sub && (
+          <MatchmakingQueue playerName={playerName} userId={user.sub} />
+        )}
+
         {/* Quick Links */}
         <div className="flex gap-4 text-center">
           <Link
@@ -144,6 +190,15 @@ export default function WelcomeDashboard() {
             </span>
           </Link>
 
+          <Link
+            to="/leaderboard"
+            className="flex-1 p-3 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <span className="text-blue-600 hover:text-blue-800 font-medium">
+              🏆 Leaderboard
+            </span>
+          </Link>
+
           <Link
             to="/about"
             className="flex-1 p-3 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
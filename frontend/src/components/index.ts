@@ -4,6 +4,7 @@ export { ResultsScreen } from './ResultsScreen';
 export { UserProfile } from './UserProfile';
 export { AdminConsole } from './AdminConsole';
 export { AdminDebugPanel } from './AdminDebugPanel';
+export { PersonaManager } from './PersonaManager';
 export { WaitingRoom } from './WaitingRoom';
 
 // Chat components
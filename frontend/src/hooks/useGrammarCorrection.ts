@@ -1,6 +1,6 @@
 import { useMutation } from '@tanstack/react-query';
 
-const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || '';
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
 
 interface GrammarCorrectionRequest {
   text: string;
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { playerToken } from '@/store/server-state/match.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Matches HEARTBEAT_INTERVAL_SECONDS in lambda/src/services/presence.ts
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Tell the server this player still has the match open, so others see them
+ * online. `seatTaken` turns true when an AI player took over the seat while
+ * they were gone; reclaiming it resumes the heartbeat.
+ */
+export function useMatchHeartbeat(matchId: string | null, enabled = true) {
+  const [seatTaken, setSeatTaken] = useState(false);
+
+  useEffect(() => {
+    if (!matchId || !enabled || seatTaken) return;
+
+    const beat = async () => {
+      try {
+        const response = await fetch(`${API_URL}/matches/${matchId}/heartbeat`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${await playerToken()}`,
+          },
+        });
+        if (response.status === 409) {
+          // A 409 can also mean a busy match; only a taken seat says seatTaken
+          const body = await response.json().catch(() => ({}));
+          if (body.seatTaken) {
+            setSeatTaken(true);
+          }
+        }
+      } catch (error) {
+        console.warn('Heartbeat failed:', error);
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [matchId, enabled, seatTaken]);
+
+  return { seatTaken, clearSeatTaken: () => setSeatTaken(false) };
+}
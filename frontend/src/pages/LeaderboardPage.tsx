@@ -0,0 +1,14 @@
+import { Leaderboard } from '../components/Leaderboard';
+import ProtectedRoute from '../components/auth/ProtectedRoute';
+
+export default function LeaderboardPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-slate-50" data-page="leaderboard">
+        <div className="py-8 px-4">
+          <Leaderboard />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
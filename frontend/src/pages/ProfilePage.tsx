@@ -0,0 +1,14 @@
+import { UserProfile } from '../components/UserProfile';
+import ProtectedRoute from '../components/auth/ProtectedRoute';
+
+export default function ProfilePage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-slate-50" data-page="profile">
+        <div className="py-8 px-4">
+          <UserProfile />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,14 @@
+import { MatchReplay } from '../components/MatchReplay';
+import ProtectedRoute from '../components/auth/ProtectedRoute';
+
+export default function ReplayPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-slate-50" data-page="replay">
+        <div className="py-8 px-4">
+          <MatchReplay />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
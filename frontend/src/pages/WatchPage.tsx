@@ -0,0 +1,11 @@
+import { SpectatorView } from '@/components/SpectatorView';
+
+export default function WatchPage() {
+  return (
+    <div className="min-h-screen bg-slate-50" data-page="watch">
+      <div className="py-8 px-4">
+        <SpectatorView />
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,10 @@ export { default as MatchPage } from './MatchPage';
 export { default as AdminPage } from './AdminPage';
 export { default as AboutPage } from './AboutPage';
 export { default as HistoryPage } from './HistoryPage';
+export { default as ProfilePage } from './ProfilePage';
+export { default as LeaderboardPage } from './LeaderboardPage';
+export { default as ReplayPage } from './ReplayPage';
+export { default as WatchPage } from './WatchPage';
 export { default as SignInPage } from './auth/SignInPage';
 export { default as SignUpPage } from './auth/SignUpPage';
 export { default as VerifyPage } from './auth/VerifyPage';
\ No newline at end of file
@@ -7,6 +7,7 @@ import {
 } from 'amazon-cognito-identity-js';
 import type { ISignUpResult, NodeCallback } from 'amazon-cognito-identity-js';
 import type { SignUpFormData, SignInFormData, AuthError, AuthUser } from '../types/auth';
+import { localAuthService } from './local-auth';
 
 
 interface CognitoError extends Error {
@@ -17,18 +18,30 @@ interface CognitoError extends Error {
 const userPoolId = import.meta.env.VITE_COGNITO_USER_POOL_ID;
 const clientId = import.meta.env.VITE_COGNITO_CLIENT_ID;
 
-if (!userPoolId || !clientId) {
+// Local backend mode signs players in without Cognito
+const useLocalAuth = import.meta.env.VITE_LOCAL_AUTH === 'true';
+
+if (!useLocalAuth && (!userPoolId || !clientId)) {
   console.error('Cognito configuration missing:', { userPoolId, clientId });
   throw new Error('Cognito is not properly configured. Please check environment variables.');
 }
 
 // Use existing v1 Cognito pool - reuse same user pool
-const userPool = new CognitoUserPool({
-  UserPoolId: userPoolId,
-  ClientId: clientId,
-});
+const userPool = useLocalAuth
+  ? null
+  : new CognitoUserPool({
+      UserPoolId: userPoolId,
+      ClientId: clientId,
+    });
 
-export const cognitoService = {
+function getUserPool(): CognitoUserPool {
+  if (!userPool) {
+    throw new Error('Cognito is disabled in local auth mode');
+  }
+  return userPool;
+}
+
+const cognitoPoolService = {
   signUp: async ({ email, password }: SignUpFormData): Promise<void> => {
     return new Promise((resolve, reject) => {
       const attributeList = [
@@ -50,7 +63,7 @@ export const cognitoService = {
         resolve();
       };
 
-      userPool.signUp(email, password, attributeList, [], callback);
+      getUserPool().signUp(email, password, attributeList, [], callback);
     });
   },
 
@@ -58,7 +71,7 @@ export const cognitoService = {
     return new Promise((resolve, reject) => {
       const cognitoUser = new CognitoUser({
         Username: email,
-        Pool: userPool,
+        Pool: getUserPool(),
       });
 
       cognitoUser.confirmRegistration(code, true, (err: Error | undefined) => {
@@ -84,7 +97,7 @@ export const cognitoService = {
 
       const cognitoUser = new CognitoUser({
         Username: email,
-        Pool: userPool,
+        Pool: getUserPool(),
       });
 
       cognitoUser.authenticateUser(authenticationDetails, {
@@ -104,7 +117,7 @@ export const cognitoService = {
 
   getCurrentUser: async (): Promise<AuthUser | null> => {
     return new Promise((resolve) => {
-      const cognitoUser = userPool.getCurrentUser();
+      const cognitoUser = getUserPool().getCurrentUser();
       
       if (!cognitoUser) {
         resolve(null);
@@ -142,7 +155,7 @@ export const cognitoService = {
   },
 
   signOut: (): void => {
-    const cognitoUser = userPool.getCurrentUser();
+    const cognitoUser = getUserPool().getCurrentUser();
     if (cognitoUser) {
       cognitoUser.signOut();
     }
@@ -150,7 +163,7 @@ export const cognitoService = {
 
   getIdToken: async (): Promise<string | null> => {
     return new Promise((resolve) => {
-      const cognitoUser = userPool.getCurrentUser();
+      const cognitoUser = getUserPool().getCurrentUser();
       
       if (!cognitoUser) {
         resolve(null);
@@ -167,4 +180,6 @@ export const cognitoService = {
       });
     });
   },
-};
\ No newline at end of file
+};
+
+export const cognitoService = useLocalAuth ? localAuthService : cognitoPoolService;
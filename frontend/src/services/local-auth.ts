@@ -0,0 +1,45 @@
+import type { SignUpFormData, SignInFormData, AuthUser } from '../types/auth';
+
+// Stand-in for Cognito when running against the local backend (VITE_LOCAL_AUTH=true).
+// Any email and password signs in, and the user id is derived from the email so
+// the same address maps to the same player across reloads.
+
+const STORAGE_KEY = 'robot-orchestra-local-user';
+
+function localUserId(email: string): string {
+  let hash = 0;
+  for (let i = 0; i < email.length; i++) {
+    hash = (hash * 31 + email.charCodeAt(i)) >>> 0;
+  }
+  return `local-${hash.toString(16)}`;
+}
+
+export const localAuthService = {
+  signUp: async (data: SignUpFormData): Promise<void> => {
+    void data; // No registration step locally
+  },
+
+  confirmSignUp: async (email: string, code: string): Promise<void> => {
+    void email;
+    void code;
+  },
+
+  signIn: async ({ email }: SignInFormData): Promise<void> => {
+    const user: AuthUser = { email, sub: localUserId(email), role: 'user' };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+  },
+
+  getCurrentUser: async (): Promise<AuthUser | null> => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AuthUser) : null;
+  },
+
+  signOut: (): void => {
+    window.localStorage.removeItem(STORAGE_KEY);
+  },
+
+  getIdToken: async (): Promise<string | null> => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? `local.${(JSON.parse(stored) as AuthUser).sub}` : null;
+  },
+};
@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Leaderboard, MatchTemplateType, RatingKind, Season } from '@shared/schemas';
+import { playerToken } from './match.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+export interface LeaderboardFilter {
+  rating: RatingKind;
+  season?: Season; // Unset for the current season
+  templateType?: MatchTemplateType; // Unset for the overall board
+}
+
+// Query keys factory
+export const leaderboardKeys = {
+  all: ['leaderboards'] as const,
+  board: (filter: LeaderboardFilter) => [...leaderboardKeys.all, filter] as const,
+};
+
+async function fetchLeaderboard(filter: LeaderboardFilter): Promise<Leaderboard> {
+  const params = new URLSearchParams({ rating: filter.rating });
+  if (filter.season) params.set('season', filter.season);
+  if (filter.templateType) params.set('templateType', filter.templateType);
+
+  const response = await fetch(`${API_URL}/leaderboards?${params}`, {
+    headers: {
+      'Authorization': `Bearer ${await playerToken()}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch leaderboard: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// One leaderboard, with the signed-in player's own standing when they're on it
+export function useLeaderboard(filter: LeaderboardFilter) {
+  return useQuery({
+    queryKey: leaderboardKeys.board(filter),
+    queryFn: () => fetchLeaderboard(filter),
+    staleTime: 1000 * 60,
+  });
+}
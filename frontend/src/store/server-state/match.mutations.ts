@@ -1,20 +1,31 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   validateRequest,
+  AudienceGuessRequestSchema,
   CreateMatchRequestSchema,
+  EnqueueMatchmakingRequestSchema,
+  ReportResponseRequestSchema,
   SubmitResponseRequestSchema,
   SubmitVoteRequestSchema,
 } from '@shared/schemas';
 import type {
+  EnqueueMatchmakingRequest,
   Match,
   Identity,
+  MatchConfigOverride,
+  MatchmakingStatus,
+  MatchTemplateType,
+  ModerationReportStatus,
+  ReportResponseRequest,
   Round,
+  SpectateMatchResponse,
   SubmitResponseResponse,
   SubmitVoteResponse,
+  Vote,
 } from '@shared/schemas';
-import { matchKeys } from './match.queries';
+import { matchKeys, playerToken, spectatorTokenKey } from './match.queries';
 
-const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || '';
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
 
 // Create a match with template (multi-human support)
 export function useCreateMatchWithTemplate() {
@@ -22,22 +33,22 @@ export function useCreateMatchWithTemplate() {
 
   return useMutation({
     mutationFn: async (params: {
-      templateType: 'classic_1v3' | 'duo_2v2' | 'admin_custom';
+      templateType: MatchTemplateType;
       creatorName: string;
-      creatorUserId?: string;
-    }): Promise<{ match: Match }> => {
-      // For now, use a mock userId if not provided
-      const userId = params.creatorUserId || `user-${Date.now()}`;
-      
+      config?: MatchConfigOverride; // Private lobby settings
+    }): Promise<{ match: Match; token?: string }> => {
+      // The server seats signed-in players as themselves and everyone else
+      // as a new guest, so no userId is sent
       const response = await fetch(`${API_URL}/matches/create-with-template`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await playerToken()}`,
         },
         body: JSON.stringify({
           templateType: params.templateType,
-          creatorUserId: userId,
           creatorName: params.creatorName,
+          config: params.config,
         }),
       });
 
@@ -48,15 +59,16 @@ export function useCreateMatchWithTemplate() {
 
       return response.json();
     },
-    onSuccess: (data, variables) => {
+    onSuccess: (data) => {
       const match = data.match;
       if (match?.matchId) {
         // Store match ID in session
         sessionStorage.setItem('currentMatchId', match.matchId);
-        
-        // Store the userId for identity lookup
-        const userId = variables.creatorUserId || `user-${Date.now()}`;
-        sessionStorage.setItem('currentUserId', userId);
+
+        // Guests act for their seat with the token the server issued
+        if (data.token) {
+          sessionStorage.setItem('authToken', data.token);
+        }
         
         // Store template type for UI purposes
         sessionStorage.setItem('matchTemplateType', match.templateType || 'classic_1v3');
@@ -84,7 +96,7 @@ export function useCreateMatch() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (playerName: string): Promise<Match> => {
+    mutationFn: async (playerName: string): Promise<Match & { token?: string }> => {
       const requestData = validateRequest(CreateMatchRequestSchema, { playerName });
       
       const response = await fetch(`${API_URL}/matches`, {
@@ -101,12 +113,15 @@ export function useCreateMatch() {
 
       const data = await response.json();
       // The API returns the match directly, not wrapped in a response object
-      return data as Match;
+      return data as Match & { token?: string };
     },
-    onSuccess: (match) => {
+    onSuccess: ({ token, ...match }) => {
       if (match?.matchId) {
         // Store match ID in session
         sessionStorage.setItem('currentMatchId', match.matchId);
+        if (token) {
+          sessionStorage.setItem('authToken', token);
+        }
         
         // Invalidate and refetch match queries
         queryClient.invalidateQueries({ queryKey: matchKeys.all });
@@ -142,7 +157,7 @@ export function useSubmitResponse() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sessionStorage.getItem('authToken') || ''}`,
+          'Authorization': `Bearer ${await playerToken()}`,
         },
         body: JSON.stringify(requestData),
       });
@@ -203,7 +218,7 @@ export function useSubmitVote() {
     mutationFn: async (params: {
       matchId: string;
       voter: Identity;
-      votedFor: Identity;
+      votedFor: Vote;
       round: number;
     }): Promise<SubmitVoteResponse> => {
       const requestData = validateRequest(SubmitVoteRequestSchema, {
@@ -216,7 +231,7 @@ export function useSubmitVote() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sessionStorage.getItem('authToken') || ''}`,
+          'Authorization': `Bearer ${await playerToken()}`,
         },
         body: JSON.stringify(requestData),
       });
@@ -280,15 +295,14 @@ export function useJoinMatch() {
     mutationFn: async (params: {
       inviteCode: string;
       displayName: string;
-      userId: string;
-    }): Promise<{ match: Match }> => {
+    }): Promise<{ match: Match; token?: string }> => {
       const response = await fetch(`${API_URL}/matches/join/${params.inviteCode}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await playerToken()}`,
         },
         body: JSON.stringify({
-          userId: params.userId,
           displayName: params.displayName,
         }),
       });
@@ -308,6 +322,11 @@ export function useJoinMatch() {
         
         // Clear any pending invite code
         sessionStorage.removeItem('pendingInviteCode');
+
+        // Guests act for their seat with the token the server issued
+        if (data.token) {
+          sessionStorage.setItem('authToken', data.token);
+        }
         
         // Invalidate and refetch match queries
         queryClient.invalidateQueries({ queryKey: matchKeys.all });
@@ -322,6 +341,186 @@ export function useJoinMatch() {
   });
 }
 
+// Take back your seat in a match, e.g. on another device after signing in,
+// or after an AI player stood in while you were gone
+export function useReclaimSeat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (matchId: string): Promise<{ match: Match; token: string }> => {
+      const response = await fetch(`${API_URL}/matches/${matchId}/reclaim`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await playerToken()}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to reclaim seat: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const match = data.match;
+      sessionStorage.setItem('currentMatchId', match.matchId);
+      sessionStorage.setItem('authToken', data.token);
+      sessionStorage.setItem('matchTemplateType', match.templateType || 'classic_1v3');
+
+      queryClient.invalidateQueries({ queryKey: matchKeys.all });
+      queryClient.setQueryData(matchKeys.detail(match.matchId), match);
+    },
+  });
+}
+
+// Watch a match by its invite code, without taking a seat
+export function useSpectateMatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inviteCode: string): Promise<SpectateMatchResponse> => {
+      const response = await fetch(`${API_URL}/matches/${inviteCode}/spectate`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await playerToken()}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to watch match: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      // Guests watch and guess with the spectator token; signed-in users
+      // keep using their own
+      sessionStorage.setItem(spectatorTokenKey(data.match.matchId), data.token);
+      queryClient.setQueryData(matchKeys.detail(data.match.matchId), data.match);
+    },
+  });
+}
+
+// Submit an audience guess; it never counts towards the players' scores
+export function useSubmitAudienceGuess() {
+  return useMutation({
+    mutationFn: async (params: {
+      matchId: string;
+      guess: Vote;
+      round: number;
+    }): Promise<{ success: boolean; round: number; guess: Identity[] }> => {
+      const requestData = validateRequest(AudienceGuessRequestSchema, {
+        guess: params.guess,
+        round: params.round,
+      });
+
+      const response = await fetch(`${API_URL}/matches/${params.matchId}/audience`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await playerToken(params.matchId)}`,
+        },
+        body: JSON.stringify(requestData),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to submit guess: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+  });
+}
+
+// Report another player's response for an admin to review; reporting the
+// same response again is harmless
+export function useReportResponse() {
+  return useMutation({
+    mutationFn: async (
+      params: { matchId: string } & ReportResponseRequest
+    ): Promise<{ reportId: string; status: ModerationReportStatus }> => {
+      const requestData = validateRequest(ReportResponseRequestSchema, {
+        roundNumber: params.roundNumber,
+        identity: params.identity,
+        reason: params.reason,
+      });
+
+      const response = await fetch(`${API_URL}/matches/${params.matchId}/reports`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await playerToken()}`,
+        },
+        body: JSON.stringify(requestData),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to report response: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+  });
+}
+
+// Queue for a public match; joining again replaces the earlier ticket
+export function useEnqueueMatchmaking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: EnqueueMatchmakingRequest): Promise<MatchmakingStatus> => {
+      const requestData = validateRequest(EnqueueMatchmakingRequestSchema, params);
+
+      const response = await fetch(`${API_URL}/matchmaking`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await playerToken()}`,
+        },
+        body: JSON.stringify(requestData),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to find a match: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(matchKeys.matchmaking(), status);
+    },
+  });
+}
+
+// Leave the matchmaking queue
+export function useLeaveMatchmaking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`${API_URL}/matchmaking`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${await playerToken()}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to leave the queue: ${response.statusText}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(matchKeys.matchmaking(), null);
+    },
+  });
+}
+
 // Leave match
 export function useLeaveMatch() {
   const queryClient = useQueryClient();
@@ -1,8 +1,10 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { MatchSchema } from '@shared/schemas';
-import type { Match, Identity, Participant, Round } from '@shared/schemas';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AudienceResultsSchema, MatchmakingStatusSchema, MatchReplaySchema, MatchViewSchema } from '@shared/schemas';
+import type { AudienceResults, MatchmakingStatus, MatchView, MatchReplay, MatchHistoryPage, Identity, ParticipantView, Round } from '@shared/schemas';
+import { useSyncStatus } from '../sync-engine/sync-status.store';
+import { cognitoService } from '@/services/cognito';
 
-const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || '';
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
 
 // Query keys factory
 export const matchKeys = {
@@ -12,13 +14,31 @@ export const matchKeys = {
   details: () => [...matchKeys.all, 'detail'] as const,
   detail: (id: string) => [...matchKeys.details(), id] as const,
   history: () => [...matchKeys.all, 'history'] as const,
+  replay: (id: string) => [...matchKeys.all, 'replay', id] as const,
+  audience: (id: string) => [...matchKeys.all, 'audience', id] as const,
+  matchmaking: () => [...matchKeys.all, 'matchmaking'] as const,
 };
 
+// Spectator tokens only work for the match being watched, so each is kept
+// under its own key rather than replacing the guest's seat token
+export function spectatorTokenKey(matchId: string): string {
+  return `spectatorToken:${matchId}`;
+}
+
+// The server finds the caller's seat from this token: the Cognito ID token
+// when signed in, otherwise the spectator token for `matchId` or the guest
+// token from creating or joining the match
+export async function playerToken(matchId?: string): Promise<string> {
+  const idToken = await cognitoService.getIdToken().catch(() => null);
+  const spectatorToken = matchId ? sessionStorage.getItem(spectatorTokenKey(matchId)) : null;
+  return idToken || spectatorToken || sessionStorage.getItem('authToken') || '';
+}
+
 // Fetch match from API
-async function fetchMatch(matchId: string): Promise<Match> {
+async function fetchMatch(matchId: string): Promise<MatchView> {
   const response = await fetch(`${API_URL}/matches/${matchId}`, {
     headers: {
-      'Authorization': `Bearer ${sessionStorage.getItem('authToken') || ''}`,
+      'Authorization': `Bearer ${await playerToken(matchId)}`,
     },
   });
   
@@ -40,7 +60,7 @@ async function fetchMatch(matchId: string): Promise<Match> {
   
   // Validate with Zod schema
   try {
-    return MatchSchema.parse(data);
+    return MatchViewSchema.parse(data);
   } catch (error) {
     console.error('Match validation failed:', error);
     console.error('Raw data:', data);
@@ -49,15 +69,20 @@ async function fetchMatch(matchId: string): Promise<Match> {
     }
     // Temporarily return the raw data to see if the app works
     console.warn('Using raw data without validation');
-    return data as Match;
+    return data as MatchView;
   }
 }
 
-// Fetch match history
-async function fetchMatchHistory(): Promise<Match[]> {
-  const response = await fetch(`${API_URL}/matches/history`, {
+const HISTORY_PAGE_SIZE = 10;
+
+// Fetch one page of the caller's match history
+async function fetchMatchHistory(cursor?: string): Promise<MatchHistoryPage> {
+  const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(`${API_URL}/matches/history?${params}`, {
     headers: {
-      'Authorization': `Bearer ${sessionStorage.getItem('authToken') || ''}`,
+      'Authorization': `Bearer ${await playerToken()}`,
     },
   });
   
@@ -66,40 +91,123 @@ async function fetchMatchHistory(): Promise<Match[]> {
   }
   
   const data = await response.json();
-  return data.matches || [];
+  return { matches: data.matches || [], count: data.count || 0, cursor: data.cursor };
+}
+
+// Fetch a match with its event log
+async function fetchMatchReplay(matchId: string): Promise<MatchReplay> {
+  const response = await fetch(`${API_URL}/matches/${matchId}/replay`, {
+    headers: {
+      'Authorization': `Bearer ${await playerToken(matchId)}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch match replay: ${response.statusText}`);
+  }
+
+  return MatchReplaySchema.parse(await response.json());
+}
+
+// How the audience guessed, available once the match is completed
+async function fetchAudienceResults(matchId: string): Promise<AudienceResults> {
+  const response = await fetch(`${API_URL}/matches/${matchId}/audience`, {
+    headers: {
+      'Authorization': `Bearer ${await playerToken(matchId)}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audience results: ${response.statusText}`);
+  }
+
+  return AudienceResultsSchema.parse(await response.json());
+}
+
+// The caller's matchmaking ticket, or null when they aren't queued
+export async function fetchMatchmakingStatus(): Promise<MatchmakingStatus | null> {
+  const response = await fetch(`${API_URL}/matchmaking`, {
+    headers: {
+      'Authorization': `Bearer ${await playerToken()}`,
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch matchmaking status: ${response.statusText}`);
+  }
+
+  return MatchmakingStatusSchema.parse(await response.json());
 }
 
 // Main match query hook
 export function useMatch(matchId: string | null) {
+  const realtimeConnected = useSyncStatus(
+    (state) => !!matchId && state.connectedMatchId === matchId
+  );
+
   return useQuery({
     queryKey: matchKeys.detail(matchId || ''),
     queryFn: () => fetchMatch(matchId!),
     enabled: !!matchId,
-    refetchInterval: 4000, // Poll every 4 seconds
+    refetchInterval: realtimeConnected ? false : 4000, // Poll every 4 seconds unless pushed
     staleTime: 0, // Always consider data stale for real-time updates
   });
 }
 
-// Match history query hook
+// Match history query hook; further pages load with fetchNextPage
 export function useMatchHistory() {
-  return useQuery({
+  const query = useInfiniteQuery({
     queryKey: matchKeys.history(),
-    queryFn: fetchMatchHistory,
+    queryFn: ({ pageParam }) => fetchMatchHistory(pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor,
     staleTime: 1000 * 60 * 5, // Consider fresh for 5 minutes
   });
+
+  const matches: MatchView[] = query.data?.pages.flatMap((page) => page.matches) ?? [];
+  return { ...query, matches };
+}
+
+// Match replay query hook; the log of a finished match doesn't change
+export function useMatchReplay(matchId: string | null) {
+  return useQuery({
+    queryKey: matchKeys.replay(matchId || ''),
+    queryFn: () => fetchMatchReplay(matchId!),
+    enabled: !!matchId,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+// Audience results query hook; pass enabled once the match is completed
+export function useAudienceResults(matchId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: matchKeys.audience(matchId || ''),
+    queryFn: () => fetchAudienceResults(matchId!),
+    enabled: !!matchId && enabled,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+// Matchmaking status hook; polls while the caller waits to be matched
+export function useMatchmakingStatus(enabled = true) {
+  return useQuery({
+    queryKey: matchKeys.matchmaking(),
+    queryFn: fetchMatchmakingStatus,
+    enabled,
+    refetchInterval: (query) => (query.state.data?.status === 'queued' ? 3000 : false),
+    staleTime: 0,
+  });
 }
 
 // Derived data hooks
 export function useMyIdentity(): Identity | null {
   const matchId = sessionStorage.getItem('currentMatchId');
-  const userId = sessionStorage.getItem('currentUserId');
   const { data: match } = useMatch(matchId);
-  
-  if (!match || !userId) return null;
-  
-  // Find participant by userId instead of !p.isAI
-  const myParticipant = match.participants.find((p: Participant) => p.userId === userId);
-  return myParticipant?.identity || null;
+
+  return match?.viewerIdentity || null;
 }
 
 export function useCurrentRound(): Round | null {
@@ -148,8 +256,9 @@ export function usePrefetchNextRound() {
   };
 }
 
-// Get all participants with their current status
-export function useParticipants(): Participant[] {
+// Get all participants with their current status. Other players' seats and
+// whether they are AI stay hidden until the match is completed.
+export function useParticipants(): ParticipantView[] {
   const matchId = sessionStorage.getItem('currentMatchId');
   const { data: match } = useMatch(matchId);
   
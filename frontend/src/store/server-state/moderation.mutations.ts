@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ModerationReport, ResolveModerationReportRequest } from '@shared/schemas';
+import { adminHeaders } from './persona.queries';
+import { moderationKeys } from './moderation.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Upholding a response report also masks the response in its match
+export function useResolveModerationReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reportId, status }: { reportId: string } & ResolveModerationReportRequest) => {
+      const response = await fetch(`${API_URL}/admin/moderation/${encodeURIComponent(reportId)}`, {
+        method: 'PUT',
+        headers: await adminHeaders(),
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to resolve report: ${response.statusText}`);
+      }
+
+      return response.json() as Promise<ModerationReport>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: moderationKeys.all });
+    },
+  });
+}
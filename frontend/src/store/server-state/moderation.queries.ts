@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ModerationReport, ModerationReportStatus } from '@shared/schemas';
+import { adminHeaders } from './persona.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Query keys factory
+export const moderationKeys = {
+  all: ['moderation'] as const,
+  reports: (status: ModerationReportStatus) => [...moderationKeys.all, 'reports', status] as const,
+};
+
+async function fetchReports(status: ModerationReportStatus): Promise<ModerationReport[]> {
+  const response = await fetch(`${API_URL}/admin/moderation?status=${status}`, {
+    headers: await adminHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch moderation reports: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.reports || [];
+}
+
+// The review queue, newest first
+export function useModerationReports(status: ModerationReportStatus) {
+  return useQuery({
+    queryKey: moderationKeys.reports(status),
+    queryFn: () => fetchReports(status),
+    refetchInterval: 30 * 1000,
+  });
+}
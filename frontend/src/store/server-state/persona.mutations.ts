@@ -0,0 +1,109 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreatePersonaRequest,
+  PersonaFields,
+  UpdatePersonaRequest,
+  User,
+} from '@shared/schemas';
+import { adminHeaders, personaKeys } from './persona.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+async function sendPersonaRequest(path: string, method: string, body?: unknown): Promise<User> {
+  const response = await fetch(`${API_URL}/admin/personas${path}`, {
+    method,
+    headers: await adminHeaders(),
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Persona request failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Every persona mutation refreshes the list and that persona's history
+function usePersonaMutation<TVariables>(
+  mutationFn: (variables: TVariables) => Promise<User>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (persona) => {
+      queryClient.invalidateQueries({ queryKey: personaKeys.list() });
+      queryClient.invalidateQueries({ queryKey: personaKeys.versions(persona.userId) });
+    },
+  });
+}
+
+export function useCreatePersona() {
+  return usePersonaMutation((data: CreatePersonaRequest) =>
+    sendPersonaRequest('', 'POST', data)
+  );
+}
+
+// Fails with a conflict if expectedVersion is no longer the latest
+export function useUpdatePersona() {
+  return usePersonaMutation(({ userId, updates }: { userId: string; updates: UpdatePersonaRequest }) =>
+    sendPersonaRequest(`/${userId}`, 'PUT', updates)
+  );
+}
+
+export function useSetPersonaActive() {
+  return usePersonaMutation(({ userId, isActive }: { userId: string; isActive: boolean }) =>
+    sendPersonaRequest(`/${userId}/${isActive ? 'enable' : 'disable'}`, 'POST')
+  );
+}
+
+export function useClonePersona() {
+  return usePersonaMutation(({ userId, displayName }: { userId: string; displayName?: string }) =>
+    sendPersonaRequest(`/${userId}/clone`, 'POST', { displayName })
+  );
+}
+
+export function useRestorePersonaVersion() {
+  return usePersonaMutation(({ userId, version }: { userId: string; version: number }) =>
+    sendPersonaRequest(`/${userId}/versions/${version}/restore`, 'POST')
+  );
+}
+
+// Run the ai-service robot_response task with unsaved persona fields
+export function useTryPersona() {
+  return useMutation({
+    mutationKey: ['persona-try'],
+    mutationFn: async ({ persona, prompt }: { persona: PersonaFields; prompt: string }): Promise<string> => {
+      const response = await fetch(`${API_URL}/ai/generate`, {
+        method: 'POST',
+        headers: await adminHeaders(),
+        body: JSON.stringify({
+          task: 'robot_response',
+          model: persona.modelConfig.model,
+          inputs: {
+            personality: persona.personality,
+            persona: {
+              name: persona.displayName,
+              systemPrompt: persona.systemPrompt,
+              styleNotes: persona.styleNotes,
+              maxResponseLength: persona.maxResponseLength,
+            },
+            prompt,
+          },
+          options: {
+            temperature: persona.modelConfig.temperature,
+            maxTokens: persona.modelConfig.maxTokens,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Persona test request failed');
+      }
+
+      const data = await response.json();
+      return data.result.response;
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { useQuery } from '@tanstack/react-query';
+import type { PersonaVersion, User } from '@shared/schemas';
+import { cognitoService } from '@/services/cognito';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Query keys factory
+export const personaKeys = {
+  all: ['personas'] as const,
+  list: () => [...personaKeys.all, 'list'] as const,
+  versions: (userId: string) => [...personaKeys.all, 'versions', userId] as const,
+};
+
+export interface PersonaVersions {
+  currentVersion: number;
+  versions: PersonaVersion[];
+}
+
+// Admin routes take the signed-in user's Cognito token, never a match token
+export async function adminHeaders(): Promise<Record<string, string>> {
+  const idToken = await cognitoService.getIdToken().catch(() => null);
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${idToken || ''}`,
+  };
+}
+
+async function fetchPersonas(): Promise<User[]> {
+  const response = await fetch(`${API_URL}/admin/personas`, {
+    headers: await adminHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch personas: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.personas || [];
+}
+
+async function fetchPersonaVersions(userId: string): Promise<PersonaVersions> {
+  const response = await fetch(`${API_URL}/admin/personas/${userId}/versions`, {
+    headers: await adminHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch persona versions: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// All AI personas, disabled ones included
+export function usePersonas() {
+  return useQuery({
+    queryKey: personaKeys.list(),
+    queryFn: fetchPersonas,
+  });
+}
+
+// Saved versions for one persona, newest first
+export function usePersonaVersions(userId: string | null) {
+  return useQuery({
+    queryKey: personaKeys.versions(userId || ''),
+    queryFn: () => fetchPersonaVersions(userId!),
+    enabled: !!userId,
+  });
+}
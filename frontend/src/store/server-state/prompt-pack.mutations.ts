@@ -0,0 +1,58 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreatePromptPackRequest,
+  PromptPack,
+  UpdatePromptPackRequest,
+} from '@shared/schemas';
+import { adminHeaders } from './persona.queries';
+import { promptPackKeys } from './prompt-pack.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+async function sendPromptPackRequest<T>(path: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}/admin/prompt-packs${path}`, {
+    method,
+    headers: await adminHeaders(),
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Prompt pack request failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Every pack mutation refreshes both the admin list and the lobby picker
+function usePromptPackMutation<TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promptPackKeys.all });
+    },
+  });
+}
+
+export function useCreatePromptPack() {
+  return usePromptPackMutation((data: CreatePromptPackRequest) =>
+    sendPromptPackRequest<PromptPack>('', 'POST', data)
+  );
+}
+
+// Also enables or disables a pack through isActive
+export function useUpdatePromptPack() {
+  return usePromptPackMutation(({ packId, updates }: { packId: string; updates: UpdatePromptPackRequest }) =>
+    sendPromptPackRequest<PromptPack>(`/${packId}`, 'PUT', updates)
+  );
+}
+
+export function useDeletePromptPack() {
+  return usePromptPackMutation((packId: string) =>
+    sendPromptPackRequest<{ deleted: string }>(`/${packId}`, 'DELETE')
+  );
+}
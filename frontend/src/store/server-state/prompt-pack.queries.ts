@@ -0,0 +1,53 @@
+import { useQuery } from '@tanstack/react-query';
+import type { PromptPack, PromptPackSummary } from '@shared/schemas';
+import { adminHeaders } from './persona.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Query keys factory
+export const promptPackKeys = {
+  all: ['prompt-packs'] as const,
+  available: () => [...promptPackKeys.all, 'available'] as const,
+  admin: () => [...promptPackKeys.all, 'admin'] as const,
+};
+
+async function fetchAvailablePromptPacks(): Promise<PromptPackSummary[]> {
+  const response = await fetch(`${API_URL}/prompt-packs`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch prompt packs: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.packs || [];
+}
+
+async function fetchAdminPromptPacks(): Promise<PromptPack[]> {
+  const response = await fetch(`${API_URL}/admin/prompt-packs`, {
+    headers: await adminHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch prompt packs: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.packs || [];
+}
+
+// Active packs a lobby can pick, without their prompts
+export function usePromptPacks() {
+  return useQuery({
+    queryKey: promptPackKeys.available(),
+    queryFn: fetchAvailablePromptPacks,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Every pack with its prompts, disabled ones included
+export function useAdminPromptPacks() {
+  return useQuery({
+    queryKey: promptPackKeys.admin(),
+    queryFn: fetchAdminPromptPacks,
+  });
+}
@@ -0,0 +1,34 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PlayerProfile, UpdateProfileRequest } from '@shared/schemas';
+import { playerToken } from './match.queries';
+import { userKeys } from './user.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Save the signed-in player's display name or avatar colour
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (updates: UpdateProfileRequest): Promise<PlayerProfile> => {
+      const response = await fetch(`${API_URL}/users/me`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await playerToken()}`,
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to save profile: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(userKeys.me(), profile);
+    },
+  });
+}
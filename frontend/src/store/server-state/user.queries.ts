@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query';
+import type { CareerStats, PlayerProfile } from '@shared/schemas';
+import { playerToken } from './match.queries';
+
+const API_URL = import.meta.env.VITE_MATCH_SERVICE_API || import.meta.env.VITE_API_URL || '';
+
+// Query keys factory
+export const userKeys = {
+  all: ['users'] as const,
+  me: () => [...userKeys.all, 'me'] as const,
+  stats: () => [...userKeys.me(), 'stats'] as const,
+};
+
+async function fetchMyProfile(): Promise<PlayerProfile> {
+  const response = await fetch(`${API_URL}/users/me`, {
+    headers: {
+      'Authorization': `Bearer ${await playerToken()}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch profile: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+async function fetchMyStats(): Promise<CareerStats> {
+  const response = await fetch(`${API_URL}/users/me/stats`, {
+    headers: {
+      'Authorization': `Bearer ${await playerToken()}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch stats: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// The signed-in player's saved profile; displayName is unset until they save one
+export function useMyProfile(enabled = true) {
+  return useQuery({
+    queryKey: userKeys.me(),
+    queryFn: fetchMyProfile,
+    enabled,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+// The signed-in player's career stats; they change only as matches complete
+export function useMyStats(enabled = true) {
+  return useQuery({
+    queryKey: userKeys.stats(),
+    queryFn: fetchMyStats,
+    enabled,
+    staleTime: 1000 * 60,
+  });
+}
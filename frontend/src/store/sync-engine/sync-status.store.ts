@@ -0,0 +1,20 @@
+import { create } from 'zustand';
+
+// Which match (if any) currently has a live realtime connection.
+// useMatch polls only while this doesn't match the match it is showing.
+interface SyncStatusState {
+  connectedMatchId: string | null;
+  setConnected: (matchId: string) => void;
+  setDisconnected: (matchId: string) => void;
+}
+
+export const useSyncStatus = create<SyncStatusState>((set) => ({
+  connectedMatchId: null,
+
+  setConnected: (matchId) => set({ connectedMatchId: matchId }),
+
+  setDisconnected: (matchId) =>
+    set((state) =>
+      state.connectedMatchId === matchId ? { connectedMatchId: null } : state
+    ),
+}));
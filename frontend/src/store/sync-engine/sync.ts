@@ -1,80 +1,121 @@
 import { QueryClient } from '@tanstack/react-query';
-import type { Match } from '@shared/schemas';
-import { matchKeys } from '../server-state/match.queries';
+import { RealtimeEventSchema } from '@shared/schemas';
+import type { Identity, MatchView, RealtimeEvent } from '@shared/schemas';
+import { matchKeys, playerToken } from '../server-state/match.queries';
 import { useUIStore } from '../ui-state/ui.store';
+import { useSyncStatus } from './sync-status.store';
+
+const WS_URL = import.meta.env.VITE_WS_URL || '';
+const MAX_RECONNECT_DELAY = 30000;
 
 export class MatchSyncEngine {
   private queryClient: QueryClient;
   private matchId: string;
-  private eventSource: EventSource | null = null;
+  private socket: WebSocket | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
-  // Reconnect configuration - to be implemented
-  // private reconnectAttempts = 0;
-  // private maxReconnectAttempts = 5;
-  // private reconnectDelay = 1000;
+  private shouldReconnect = false;
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 6;
+  private reconnectDelay = 1000;
 
   constructor(queryClient: QueryClient, matchId: string) {
     this.queryClient = queryClient;
     this.matchId = matchId;
   }
 
-  // Start listening for real-time updates (SSE or WebSocket)
+  // Start listening for real-time updates. Without a WebSocket URL, or once
+  // reconnects are exhausted, useMatch keeps polling instead.
   connect() {
-    // For now, we'll use polling via React Query
-    // In the future, this would establish SSE/WebSocket connection
-    console.log(`Sync engine connected for match ${this.matchId}`);
-    
-    // Example SSE implementation (commented out for now):
-    /*
-    this.eventSource = new EventSource(
-      `${import.meta.env.VITE_API_URL}/matches/${this.matchId}/events`
-    );
-    
-    this.eventSource.onmessage = (event) => {
-      try {
-        const realtimeEvent = validateRealtimeEvent(JSON.parse(event.data));
-        this.handleRealtimeEvent(realtimeEvent);
-      } catch (error) {
-        console.error('Failed to parse event:', error);
-      }
+    if (!WS_URL) {
+      console.log('VITE_WS_URL not set, using polling for match updates');
+      return;
+    }
+    this.shouldReconnect = true;
+    void this.openSocket();
+  }
+
+  private async openSocket() {
+    // Browsers can't set headers on a WebSocket, so the token rides in the
+    // query. The server projects each state sync for the user behind it.
+    const token = await playerToken(this.matchId);
+    if (!this.shouldReconnect) return; // Disconnected while the token was loading
+
+    const viewer = token ? `&token=${encodeURIComponent(token)}` : '';
+    const socket = new WebSocket(`${WS_URL}?matchId=${encodeURIComponent(this.matchId)}${viewer}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`Sync engine connected for match ${this.matchId}`);
+      this.reconnectAttempts = 0;
+      useSyncStatus.getState().setConnected(this.matchId);
+      // Catch up on anything that changed while we were disconnected
+      this.queryClient.invalidateQueries({ queryKey: matchKeys.detail(this.matchId) });
     };
-    
-    this.eventSource.onerror = () => {
-      this.handleConnectionError();
+
+    socket.onmessage = (message) => {
+      this.handleMessage(message.data);
     };
-    */
+
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        useSyncStatus.getState().setDisconnected(this.matchId);
+        this.handleConnectionError();
+      }
+    };
+  }
+
+  private handleMessage(data: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      console.error('Failed to parse event:', error);
+      return;
+    }
+
+    const result = RealtimeEventSchema.safeParse(parsed);
+    if (!result.success) {
+      // Unknown or newer payload shape - fall back to a fresh fetch
+      console.warn('Unrecognised realtime event, refetching match:', parsed);
+      this.queryClient.invalidateQueries({ queryKey: matchKeys.detail(this.matchId) });
+      return;
+    }
+
+    this.handleRealtimeEvent(result.data);
   }
 
   // Handle real-time events
-  // TODO: Implement when SSE/WebSocket is ready
-  /*
   private handleRealtimeEvent(event: RealtimeEvent) {
     switch (event.type) {
       case 'match_state_sync':
         this.processMatchUpdate(event.match);
         break;
-        
+
       case 'participant_submitted':
         this.handleParticipantSubmitted(event.identity, event.roundNumber);
         break;
-        
+
       case 'round_transition':
         this.handleRoundTransition(event.fromRound, event.toRound);
         break;
-        
+
       case 'reveal_identities':
-        this.handleIdentityReveal(event.identities);
+        this.handleIdentityReveal();
+        break;
+
+      case 'error':
+        console.error('Realtime error:', event.message);
         break;
-        
+
       default:
         console.log('Unhandled event type:', event);
     }
   }
-  */
 
   // Process match updates
-  processMatchUpdate(newMatch: Match) {
-    const oldMatch = this.queryClient.getQueryData<Match>(
+  processMatchUpdate(newMatch: MatchView) {
+    const oldMatch = this.queryClient.getQueryData<MatchView>(
       matchKeys.detail(this.matchId)
     );
 
@@ -111,45 +152,20 @@ export class MatchSyncEngine {
     }
   }
 
-  // Handle participant submission - to be implemented
-  // private handleParticipantSubmitted(_identity: string, _roundNumber: number) {
-  //   // Update local cache optimistically
-  //   const match = this.queryClient.getQueryData<Match>(
-  //     matchKeys.detail(this.matchId)
-  //   );
-  //   
-  //   if (match) {
-  //     const updatedMatch = {
-  //       ...match,
-  //       rounds: match.rounds.map((r: Round) => 
-  //         r.roundNumber === _roundNumber
-  //           ? { ...r, responses: { ...r.responses, [_identity]: '...' } }
-  //           : r
-  //       ),
-  //     };
-  //     
-  //     this.queryClient.setQueryData(matchKeys.detail(this.matchId), updatedMatch);
-  //   }
-  // }
-
-  // Handle round transition - to be implemented
-  // private handleRoundTransition(_fromRound: number, _toRound: number) {
-  //   console.log(`Transitioning from round ${_fromRound} to ${_toRound}`);
-  //   
-  //   // The full match update will follow, but we can prepare UI
-  //   const uiStore = useUIStore.getState();
-  //   uiStore.resetUI();
-  // }
-
-  // Handle identity reveal - to be implemented
-  // private handleIdentityReveal(_identities: Record<string, unknown>) {
-  //   console.log('Identities revealed:', _identities);
-  //   
-  //   // This would trigger the match completion UI
-  //   if (useUIStore.getState().soundEnabled) {
-  //     this.playSound('match-complete');
-  //   }
-  // }
+  // Every event is followed by a match_state_sync, so these only log for now
+  private handleParticipantSubmitted(identity: Identity, roundNumber: number) {
+    console.log(`Participant ${identity} submitted for round ${roundNumber}`);
+  }
+
+  private handleRoundTransition(fromRound: number, toRound: number) {
+    console.log(`Transitioning from round ${fromRound} to ${toRound}`);
+  }
+
+  private handleIdentityReveal() {
+    if (useUIStore.getState().soundEnabled) {
+      this.playSound('match-complete');
+    }
+  }
 
   // Handle match completion
   private onMatchComplete() {
@@ -176,37 +192,45 @@ export class MatchSyncEngine {
     console.log(`Playing sound: ${soundName}`);
   }
 
-  // Handle connection errors
-  // TODO: Implement when SSE/WebSocket is ready
-  /*
+  // Reconnect with exponential backoff; polling covers the gap
   private handleConnectionError() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`Reconnecting... Attempt ${this.reconnectAttempts}`);
-      
-      this.reconnectTimeout = setTimeout(() => {
-        this.connect();
-      }, this.reconnectDelay * this.reconnectAttempts);
-    } else {
-      console.error('Max reconnection attempts reached');
-      // Could show error UI
+    if (!this.shouldReconnect) return;
+
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.error('Max reconnection attempts reached, staying on polling');
+      return;
     }
+
+    const delay = Math.min(
+      this.reconnectDelay * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY
+    );
+    this.reconnectAttempts++;
+    console.log(`Reconnecting in ${delay}ms... Attempt ${this.reconnectAttempts}`);
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      void this.openSocket();
+    }, delay);
   }
-  */
 
   // Disconnect and cleanup
   disconnect() {
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
+    this.shouldReconnect = false;
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
     }
-    
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
-    
-    // this.reconnectAttempts = 0;
+
+    this.reconnectAttempts = 0;
+    useSyncStatus.getState().setDisconnected(this.matchId);
     console.log(`Sync engine disconnected for match ${this.matchId}`);
   }
 }
@@ -4,8 +4,8 @@ import type { Identity } from '@shared/schemas';
 
 // UI-only state that doesn't need server sync
 interface UIState {
-  // Response selection UI
-  selectedResponse: Identity | null;
+  // Response selection UI (one pick per other human in the match)
+  selectedResponses: Identity[];
   focusedIndex: number;
   
   // Menu/Modal states
@@ -25,7 +25,8 @@ interface UIState {
   typingTimeout: NodeJS.Timeout | null;
   
   // Actions
-  setSelectedResponse: (identity: Identity | null) => void;
+  setSelectedResponses: (identities: Identity[]) => void;
+  toggleSelectedResponse: (identity: Identity, maxPicks: number) => void;
   setFocusedIndex: (index: number) => void;
   toggleMenu: () => void;
   setActiveModal: (modal: UIState['activeModal']) => void;
@@ -38,7 +39,7 @@ interface UIState {
 }
 
 const initialState = {
-  selectedResponse: null,
+  selectedResponses: [] as Identity[],
   focusedIndex: 0,
   isMenuOpen: false,
   activeModal: null,
@@ -55,7 +56,15 @@ export const useUIStore = create<UIState>()(
     (set, get) => ({
       ...initialState,
       
-      setSelectedResponse: (identity) => set({ selectedResponse: identity }),
+      setSelectedResponses: (identities) => set({ selectedResponses: identities }),
+      
+      toggleSelectedResponse: (identity, maxPicks) => set((state) => {
+        if (state.selectedResponses.includes(identity)) {
+          return { selectedResponses: state.selectedResponses.filter((id) => id !== identity) };
+        }
+        // Once the limit is reached the oldest pick makes room for the new one
+        return { selectedResponses: [...state.selectedResponses, identity].slice(-maxPicks) };
+      }),
       
       setFocusedIndex: (index) => set({ focusedIndex: index }),
       
@@ -118,7 +127,7 @@ export const useUIStore = create<UIState>()(
         }
         
         set({
-          selectedResponse: null,
+          selectedResponses: [],
           focusedIndex: 0,
           isMenuOpen: false,
           activeModal: null,
@@ -134,8 +143,8 @@ export const useUIStore = create<UIState>()(
 );
 
 // Selector hooks for better performance
-export const useSelectedResponse = () => useUIStore(state => state.selectedResponse);
-export const useSetSelectedResponse = () => useUIStore(state => state.setSelectedResponse);
+export const useSelectedResponses = () => useUIStore(state => state.selectedResponses);
+export const useToggleSelectedResponse = () => useUIStore(state => state.toggleSelectedResponse);
 export const useFocusedIndex = () => useUIStore(state => state.focusedIndex);
 export const useSetFocusedIndex = () => useUIStore(state => state.setFocusedIndex);
 export const useIsKeyboardNavEnabled = () => useUIStore(state => state.isKeyboardNavEnabled);
@@ -4,15 +4,15 @@ import type { Identity } from '@shared/schemas';
 interface VotingState {
   // Voting feedback state
   showFeedback: boolean;
-  votedFor: Identity | null;
-  correctAnswer: Identity | null;
+  votedFor: Identity[];
+  correctAnswers: Identity[];
   pointsEarned: number;
   totalScore: number;
   
   // Actions
   setVoteFeedback: (params: {
-    votedFor: Identity;
-    correctAnswer: Identity;
+    votedFor: Identity[];
+    correctAnswers: Identity[];
     pointsEarned: number;
     totalScore: number;
   }) => void;
@@ -22,8 +22,8 @@ interface VotingState {
 export const useVotingStore = create<VotingState>((set) => ({
   // Initial state
   showFeedback: false,
-  votedFor: null,
-  correctAnswer: null,
+  votedFor: [],
+  correctAnswers: [],
   pointsEarned: 0,
   totalScore: 0,
   
@@ -35,8 +35,8 @@ export const useVotingStore = create<VotingState>((set) => ({
   
   clearVoteFeedback: () => set({
     showFeedback: false,
-    votedFor: null,
-    correctAnswer: null,
+    votedFor: [],
+    correctAnswers: [],
     pointsEarned: 0,
     totalScore: 0,
   }),
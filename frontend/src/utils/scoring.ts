@@ -1,15 +1,23 @@
-import type { Round, Identity } from '@shared/schemas';
+import type { Match, Round, Identity } from '@shared/schemas';
+
+// Scores are computed by the server's scoring engine. Rounds scored before the
+// engine existed only carry the flat scores map.
+export function getRoundScores(round: Round): Record<string, number> {
+  return round.scoring?.totals ?? round.scores ?? {};
+}
+
+// Final scores once the match has a result, otherwise the running total of scored rounds
+export function getMatchScores(match: Pick<Match, 'rounds' | 'result'>): Record<Identity, number> {
+  if (match.result) {
+    return match.result.finalScores as Record<Identity, number>;
+  }
 
-export function calculateCumulativeScores(rounds: Round[]): Record<Identity, number> {
   const cumulativeScores: Record<string, number> = {};
-  
-  for (const round of rounds) {
-    if (round.scores) {
-      for (const [participant, score] of Object.entries(round.scores)) {
-        cumulativeScores[participant] = (cumulativeScores[participant] || 0) + (score as number);
-      }
+  for (const round of match.rounds) {
+    for (const [participant, score] of Object.entries(getRoundScores(round))) {
+      cumulativeScores[participant] = (cumulativeScores[participant] || 0) + (score as number);
     }
   }
-  
+
   return cumulativeScores as Record<Identity, number>;
-}
\ No newline at end of file
+}
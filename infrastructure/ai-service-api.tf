@@ -12,7 +12,10 @@ resource "aws_lambda_function" "ai_service" {
 
   environment {
     variables = {
-      NODE_OPTIONS = "--enable-source-maps"
+      NODE_OPTIONS               = "--enable-source-maps"
+      OPENAI_COMPATIBLE_BASE_URL = var.openai_compatible_base_url
+      OPENAI_COMPATIBLE_MODELS   = var.openai_compatible_models
+      OPENAI_COMPATIBLE_API_KEY  = var.openai_api_key
     }
   }
 
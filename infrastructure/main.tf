@@ -65,6 +65,13 @@ resource "aws_cognito_user_pool" "main" {
   tags = local.tags
 }
 
+# Members may use the admin routes (personas, prompt packs, moderation)
+resource "aws_cognito_user_group" "admins" {
+  name         = "admins"
+  user_pool_id = aws_cognito_user_pool.main.id
+  description  = "Robot Orchestra administrators"
+}
+
 # Cognito User Pool Client
 resource "aws_cognito_user_pool_client" "main" {
   name         = "${local.project_name}-client"
@@ -114,6 +121,49 @@ resource "aws_dynamodb_table" "matches" {
     type = "N"
   }
 
+  # Joining by invite code
+  global_secondary_index {
+    name            = "inviteCode-index"
+    hash_key        = "inviteCode"
+    projection_type = "KEYS_ONLY"
+  }
+
+  attribute {
+    name = "inviteCode"
+    type = "S"
+  }
+
+  # Match records by status, newest first (deadline sweep, admin stats)
+  global_secondary_index {
+    name            = "status-createdAt-index"
+    hash_key        = "status"
+    range_key       = "createdAt"
+    projection_type = "KEYS_ONLY"
+  }
+
+  attribute {
+    name = "status"
+    type = "S"
+  }
+
+  attribute {
+    name = "createdAt"
+    type = "S"
+  }
+
+  # A player's matches, newest first, from the seat rows written beside each match
+  global_secondary_index {
+    name            = "seatUserId-createdAt-index"
+    hash_key        = "seatUserId"
+    range_key       = "createdAt"
+    projection_type = "KEYS_ONLY"
+  }
+
+  attribute {
+    name = "seatUserId"
+    type = "S"
+  }
+
   # TTL for automatic match cleanup (30 days)
   ttl {
     attribute_name = "expiresAt"
@@ -158,6 +208,178 @@ resource "aws_dynamodb_table" "users" {
     type = "S"
   }
 
+  # Global secondary index for finding who holds a display name (lowercased)
+  global_secondary_index {
+    name            = "displayNameKey-index"
+    hash_key        = "displayNameKey"
+    projection_type = "KEYS_ONLY"
+  }
+
+  attribute {
+    name = "displayNameKey"
+    type = "S"
+  }
+
+  tags = local.tags
+}
+
+# Spectators' audience guesses, one per spectator per round. Kept out of the
+# matches table so a large audience never contends with the players' writes.
+resource "aws_dynamodb_table" "audience" {
+  name         = "${local.project_name}-audience"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "matchId"
+  range_key    = "guessKey" # "<roundNumber>#<spectatorId>"
+
+  attribute {
+    name = "matchId"
+    type = "S"
+  }
+
+  attribute {
+    name = "guessKey"
+    type = "S"
+  }
+
+  tags = local.tags
+}
+
+# Matchmaking tickets, one per player. Only waiting tickets carry `queue`, so
+# the queue index lists exactly who is waiting for each template.
+resource "aws_dynamodb_table" "matchmaking" {
+  name         = "${local.project_name}-matchmaking"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "userId"
+
+  attribute {
+    name = "userId"
+    type = "S"
+  }
+
+  attribute {
+    name = "queue"
+    type = "S"
+  }
+
+  attribute {
+    name = "enqueuedAt"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name            = "queue-enqueuedAt-index"
+    hash_key        = "queue"
+    range_key       = "enqueuedAt"
+    projection_type = "ALL"
+  }
+
+  tags = local.tags
+}
+
+# Prompt library: one item per pack, prompts inline. The built-in pack lives
+# in code (prompt-library.ts), not here.
+resource "aws_dynamodb_table" "prompt_packs" {
+  name         = "${local.project_name}-prompt-packs"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "packId"
+
+  attribute {
+    name = "packId"
+    type = "S"
+  }
+
+  tags = local.tags
+}
+
+# Career stats: one item per human player, rewritten as each of their
+# matches completes (player-stats.ts)
+resource "aws_dynamodb_table" "player_stats" {
+  name         = "${local.project_name}-player-stats"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "userId"
+
+  attribute {
+    name = "userId"
+    type = "S"
+  }
+
+  tags = local.tags
+}
+
+# Skill ratings: one item per player per board, where a board is a season's
+# overall or per-template leaderboard (rating-service.ts). Each rating has an
+# index over its board so leaderboards read top-down.
+resource "aws_dynamodb_table" "ratings" {
+  name         = "${local.project_name}-ratings"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "userId"
+  range_key    = "board"
+
+  attribute {
+    name = "userId"
+    type = "S"
+  }
+
+  attribute {
+    name = "board"
+    type = "S"
+  }
+
+  attribute {
+    name = "detectionRating"
+    type = "N"
+  }
+
+  attribute {
+    name = "disguiseRating"
+    type = "N"
+  }
+
+  global_secondary_index {
+    name            = "board-detectionRating-index"
+    hash_key        = "board"
+    range_key       = "detectionRating"
+    projection_type = "ALL"
+  }
+
+  global_secondary_index {
+    name            = "board-disguiseRating-index"
+    hash_key        = "board"
+    range_key       = "disguiseRating"
+    projection_type = "ALL"
+  }
+
+  tags = local.tags
+}
+
+# Moderation review queue: flagged content and player reports, listed by status
+resource "aws_dynamodb_table" "moderation" {
+  name         = "${local.project_name}-moderation"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "reportId"
+
+  attribute {
+    name = "reportId"
+    type = "S"
+  }
+
+  attribute {
+    name = "status"
+    type = "S"
+  }
+
+  attribute {
+    name = "createdAt"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name            = "status-createdAt-index"
+    hash_key        = "status"
+    range_key       = "createdAt"
+    projection_type = "ALL"
+  }
+
   tags = local.tags
 }
 
@@ -52,6 +52,48 @@ resource "aws_api_gateway_resource" "matches_join_invite_code" {
   path_part   = "{inviteCode}"
 }
 
+# API Gateway resource for /matchmaking
+resource "aws_api_gateway_resource" "matchmaking" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_rest_api.match_api.root_resource_id
+  path_part   = "matchmaking"
+}
+
+# API Gateway resource for /prompt-packs
+resource "aws_api_gateway_resource" "prompt_packs" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_rest_api.match_api.root_resource_id
+  path_part   = "prompt-packs"
+}
+
+# API Gateway resource for /users
+resource "aws_api_gateway_resource" "users" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_rest_api.match_api.root_resource_id
+  path_part   = "users"
+}
+
+# API Gateway resource for /users/me
+resource "aws_api_gateway_resource" "users_me" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.users.id
+  path_part   = "me"
+}
+
+# API Gateway resource for /users/me/stats
+resource "aws_api_gateway_resource" "users_me_stats" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.users_me.id
+  path_part   = "stats"
+}
+
+# API Gateway resource for /leaderboards
+resource "aws_api_gateway_resource" "leaderboards" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_rest_api.match_api.root_resource_id
+  path_part   = "leaderboards"
+}
+
 # API Gateway resource for /matches/{matchId}
 resource "aws_api_gateway_resource" "match_by_id" {
   rest_api_id = aws_api_gateway_rest_api.match_api.id
@@ -73,6 +115,238 @@ resource "aws_api_gateway_resource" "match_votes" {
   path_part   = "votes"
 }
 
+# API Gateway resource for /matches/{matchId}/replay
+resource "aws_api_gateway_resource" "match_replay" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.match_by_id.id
+  path_part   = "replay"
+}
+
+# API Gateway resource for /matches/{matchId}/spectate ({matchId} may be an invite code)
+resource "aws_api_gateway_resource" "match_spectate" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.match_by_id.id
+  path_part   = "spectate"
+}
+
+# API Gateway resource for /matches/{matchId}/audience
+resource "aws_api_gateway_resource" "match_audience" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.match_by_id.id
+  path_part   = "audience"
+}
+
+# ANY /matches/{matchId}/spectate - match-service routes the method and answers CORS preflight itself
+resource "aws_api_gateway_method" "any_match_spectate" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_spectate.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# ANY /matches/{matchId}/audience - POST a guess, GET the results
+resource "aws_api_gateway_method" "any_match_audience" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_audience.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# API Gateway resource for /matches/{matchId}/heartbeat
+resource "aws_api_gateway_resource" "match_heartbeat" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.match_by_id.id
+  path_part   = "heartbeat"
+}
+
+# ANY /matches/{matchId}/heartbeat - POST while a player's client has the match open
+resource "aws_api_gateway_method" "any_match_heartbeat" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_heartbeat.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /matches/{matchId}/heartbeat
+resource "aws_api_gateway_integration" "any_match_heartbeat_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_heartbeat.id
+  http_method = aws_api_gateway_method.any_match_heartbeat.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# API Gateway resource for /matches/{matchId}/reclaim
+resource "aws_api_gateway_resource" "match_reclaim" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.match_by_id.id
+  path_part   = "reclaim"
+}
+
+# ANY /matches/{matchId}/reclaim - POST to take back a seat, e.g. from another device
+resource "aws_api_gateway_method" "any_match_reclaim" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_reclaim.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /matches/{matchId}/reclaim
+resource "aws_api_gateway_integration" "any_match_reclaim_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_reclaim.id
+  http_method = aws_api_gateway_method.any_match_reclaim.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# API Gateway resource for /matches/{matchId}/reports
+resource "aws_api_gateway_resource" "match_reports" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.match_by_id.id
+  path_part   = "reports"
+}
+
+# ANY /matches/{matchId}/reports - POST to report another player's response for review
+resource "aws_api_gateway_method" "any_match_reports" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_reports.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /matches/{matchId}/reports
+resource "aws_api_gateway_integration" "any_match_reports_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_reports.id
+  http_method = aws_api_gateway_method.any_match_reports.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# ANY /matchmaking - POST to queue, GET the caller's ticket, DELETE to leave
+resource "aws_api_gateway_method" "any_matchmaking" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.matchmaking.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /matchmaking
+resource "aws_api_gateway_integration" "any_matchmaking_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.matchmaking.id
+  http_method = aws_api_gateway_method.any_matchmaking.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# ANY /prompt-packs - packs a lobby can pick
+resource "aws_api_gateway_method" "any_prompt_packs" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.prompt_packs.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /prompt-packs
+resource "aws_api_gateway_integration" "any_prompt_packs_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.prompt_packs.id
+  http_method = aws_api_gateway_method.any_prompt_packs.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# ANY /users/me - the caller's profile (GET, PATCH)
+resource "aws_api_gateway_method" "any_users_me" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.users_me.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /users/me
+resource "aws_api_gateway_integration" "any_users_me_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.users_me.id
+  http_method = aws_api_gateway_method.any_users_me.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# ANY /users/me/stats - the caller's career stats
+resource "aws_api_gateway_method" "any_users_me_stats" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.users_me_stats.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /users/me/stats
+resource "aws_api_gateway_integration" "any_users_me_stats_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.users_me_stats.id
+  http_method = aws_api_gateway_method.any_users_me_stats.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# ANY /leaderboards - skill rating leaderboards, by season and template type
+resource "aws_api_gateway_method" "any_leaderboards" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.leaderboards.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /leaderboards
+resource "aws_api_gateway_integration" "any_leaderboards_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.leaderboards.id
+  http_method = aws_api_gateway_method.any_leaderboards.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# Integration for ANY /matches/{matchId}/spectate
+resource "aws_api_gateway_integration" "any_match_spectate_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_spectate.id
+  http_method = aws_api_gateway_method.any_match_spectate.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
+# Integration for ANY /matches/{matchId}/audience
+resource "aws_api_gateway_integration" "any_match_audience_lambda" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_audience.id
+  http_method = aws_api_gateway_method.any_match_audience.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
 ############################
 # API Gateway Methods
 ############################
@@ -133,6 +407,14 @@ resource "aws_api_gateway_method" "post_votes" {
   authorization = "NONE"
 }
 
+# GET /matches/{matchId}/replay - Match Replay
+resource "aws_api_gateway_method" "get_match_replay" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_replay.id
+  http_method   = "GET"
+  authorization = "NONE"
+}
+
 # CORS OPTIONS methods
 resource "aws_api_gateway_method" "options_matches" {
   rest_api_id   = aws_api_gateway_rest_api.match_api.id
@@ -183,6 +465,13 @@ resource "aws_api_gateway_method" "options_votes" {
   authorization = "NONE"
 }
 
+resource "aws_api_gateway_method" "options_replay" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.match_replay.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
 ############################
 # Lambda Integrations
 ############################
@@ -257,6 +546,16 @@ resource "aws_api_gateway_integration" "post_votes_lambda" {
   uri                     = aws_lambda_function.match_service.invoke_arn
 }
 
+# Lambda integration for GET /matches/{matchId}/replay -> Match Service Lambda
+resource "aws_api_gateway_integration" "get_match_replay_lambda" {
+  rest_api_id             = aws_api_gateway_rest_api.match_api.id
+  resource_id             = aws_api_gateway_resource.match_replay.id
+  http_method             = aws_api_gateway_method.get_match_replay.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.match_service.invoke_arn
+}
+
 # CORS integrations
 resource "aws_api_gateway_integration" "options_matches_cors" {
   rest_api_id = aws_api_gateway_rest_api.match_api.id
@@ -349,6 +648,19 @@ resource "aws_api_gateway_integration" "options_votes_cors" {
   }
 }
 
+resource "aws_api_gateway_integration" "options_replay_cors" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_replay.id
+  http_method = aws_api_gateway_method.options_replay.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = jsonencode({
+      statusCode = 200
+    })
+  }
+}
+
 ############################
 # Method Responses
 ############################
@@ -436,6 +748,18 @@ resource "aws_api_gateway_method_response" "post_votes_response" {
   }
 }
 
+# GET /matches/{matchId}/replay responses
+resource "aws_api_gateway_method_response" "get_match_replay_response" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_replay.id
+  http_method = aws_api_gateway_method.get_match_replay.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Origin" = true
+  }
+}
+
 # CORS responses
 resource "aws_api_gateway_method_response" "options_matches_response" {
   rest_api_id = aws_api_gateway_rest_api.match_api.id
@@ -528,6 +852,19 @@ resource "aws_api_gateway_method_response" "options_votes_response" {
   }
 }
 
+resource "aws_api_gateway_method_response" "options_replay_response" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_replay.id
+  http_method = aws_api_gateway_method.options_replay.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+}
+
 ############################
 # Integration Responses
 ############################
@@ -624,6 +961,19 @@ resource "aws_api_gateway_integration_response" "post_votes_response" {
   depends_on = [aws_api_gateway_integration.post_votes_lambda]
 }
 
+resource "aws_api_gateway_integration_response" "get_match_replay_response" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_replay.id
+  http_method = aws_api_gateway_method.get_match_replay.http_method
+  status_code = aws_api_gateway_method_response.get_match_replay_response.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Origin" = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.get_match_replay_lambda]
+}
+
 # CORS integration responses
 resource "aws_api_gateway_integration_response" "options_matches_cors_response" {
   rest_api_id = aws_api_gateway_rest_api.match_api.id
@@ -730,6 +1080,21 @@ resource "aws_api_gateway_integration_response" "options_votes_cors_response" {
   depends_on = [aws_api_gateway_integration.options_votes_cors]
 }
 
+resource "aws_api_gateway_integration_response" "options_replay_cors_response" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.match_replay.id
+  http_method = aws_api_gateway_method.options_replay.http_method
+  status_code = aws_api_gateway_method_response.options_replay_response.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.options_replay_cors]
+}
+
 ############################
 # API Gateway Deployment
 ############################
@@ -743,6 +1108,17 @@ resource "aws_api_gateway_deployment" "match_api" {
     aws_api_gateway_integration.get_match_lambda,
     aws_api_gateway_integration.post_responses_lambda,
     aws_api_gateway_integration.post_votes_lambda,
+    aws_api_gateway_integration.get_match_replay_lambda,
+    aws_api_gateway_integration.any_match_spectate_lambda,
+    aws_api_gateway_integration.any_match_audience_lambda,
+    aws_api_gateway_integration.any_matchmaking_lambda,
+    aws_api_gateway_integration.any_prompt_packs_lambda,
+    aws_api_gateway_integration.any_match_heartbeat_lambda,
+    aws_api_gateway_integration.any_match_reclaim_lambda,
+    aws_api_gateway_integration.any_match_reports_lambda,
+    aws_api_gateway_integration.any_users_me_lambda,
+    aws_api_gateway_integration.any_users_me_stats_lambda,
+    aws_api_gateway_integration.any_leaderboards_lambda,
     aws_api_gateway_integration.options_matches_cors,
     aws_api_gateway_integration.options_matches_history_cors,
     aws_api_gateway_integration.options_matches_create_with_template_cors,
@@ -750,6 +1126,7 @@ resource "aws_api_gateway_deployment" "match_api" {
     aws_api_gateway_integration.options_match_cors,
     aws_api_gateway_integration.options_responses_cors,
     aws_api_gateway_integration.options_votes_cors,
+    aws_api_gateway_integration.options_replay_cors,
     aws_api_gateway_integration_response.get_matches_history_response,
     aws_api_gateway_integration_response.post_matches_response,
     aws_api_gateway_integration_response.post_matches_create_with_template_response,
@@ -757,13 +1134,15 @@ resource "aws_api_gateway_deployment" "match_api" {
     aws_api_gateway_integration_response.get_match_response,
     aws_api_gateway_integration_response.post_responses_response,
     aws_api_gateway_integration_response.post_votes_response,
+    aws_api_gateway_integration_response.get_match_replay_response,
     aws_api_gateway_integration_response.options_matches_cors_response,
     aws_api_gateway_integration_response.options_matches_history_cors_response,
     aws_api_gateway_integration_response.options_matches_create_with_template_cors_response,
     aws_api_gateway_integration_response.options_matches_join_cors_response,
     aws_api_gateway_integration_response.options_match_cors_response,
     aws_api_gateway_integration_response.options_responses_cors_response,
-    aws_api_gateway_integration_response.options_votes_cors_response
+    aws_api_gateway_integration_response.options_votes_cors_response,
+    aws_api_gateway_integration_response.options_replay_cors_response
   ]
 
   rest_api_id = aws_api_gateway_rest_api.match_api.id
@@ -778,6 +1157,18 @@ resource "aws_api_gateway_deployment" "match_api" {
       aws_api_gateway_resource.match_by_id.id,
       aws_api_gateway_resource.match_responses.id,
       aws_api_gateway_resource.match_votes.id,
+      aws_api_gateway_resource.match_replay.id,
+      aws_api_gateway_resource.match_spectate.id,
+      aws_api_gateway_resource.match_audience.id,
+      aws_api_gateway_resource.matchmaking.id,
+      aws_api_gateway_resource.prompt_packs.id,
+      aws_api_gateway_resource.match_heartbeat.id,
+      aws_api_gateway_resource.match_reclaim.id,
+      aws_api_gateway_resource.match_reports.id,
+      aws_api_gateway_resource.users.id,
+      aws_api_gateway_resource.users_me.id,
+      aws_api_gateway_resource.users_me_stats.id,
+      aws_api_gateway_resource.leaderboards.id,
       aws_api_gateway_method.get_matches_history.id,
       aws_api_gateway_method.post_matches.id,
       aws_api_gateway_method.post_matches_create_with_template.id,
@@ -785,6 +1176,17 @@ resource "aws_api_gateway_deployment" "match_api" {
       aws_api_gateway_method.get_match.id,
       aws_api_gateway_method.post_responses.id,
       aws_api_gateway_method.post_votes.id,
+      aws_api_gateway_method.get_match_replay.id,
+      aws_api_gateway_method.any_match_spectate.id,
+      aws_api_gateway_method.any_match_audience.id,
+      aws_api_gateway_method.any_matchmaking.id,
+      aws_api_gateway_method.any_prompt_packs.id,
+      aws_api_gateway_method.any_match_heartbeat.id,
+      aws_api_gateway_method.any_match_reclaim.id,
+      aws_api_gateway_method.any_match_reports.id,
+      aws_api_gateway_method.any_users_me.id,
+      aws_api_gateway_method.any_users_me_stats.id,
+      aws_api_gateway_method.any_leaderboards.id,
       aws_api_gateway_integration.get_matches_history_lambda.id,
       aws_api_gateway_integration.post_matches_lambda.id,
       aws_api_gateway_integration.post_matches_create_with_template_lambda.id,
@@ -792,6 +1194,17 @@ resource "aws_api_gateway_deployment" "match_api" {
       aws_api_gateway_integration.get_match_lambda.id,
       aws_api_gateway_integration.post_responses_lambda.id,
       aws_api_gateway_integration.post_votes_lambda.id,
+      aws_api_gateway_integration.get_match_replay_lambda.id,
+      aws_api_gateway_integration.any_match_spectate_lambda.id,
+      aws_api_gateway_integration.any_match_audience_lambda.id,
+      aws_api_gateway_integration.any_matchmaking_lambda.id,
+      aws_api_gateway_integration.any_prompt_packs_lambda.id,
+      aws_api_gateway_integration.any_match_heartbeat_lambda.id,
+      aws_api_gateway_integration.any_match_reclaim_lambda.id,
+      aws_api_gateway_integration.any_match_reports_lambda.id,
+      aws_api_gateway_integration.any_users_me_lambda.id,
+      aws_api_gateway_integration.any_users_me_stats_lambda.id,
+      aws_api_gateway_integration.any_leaderboards_lambda.id,
     ]))
   }
 
@@ -960,8 +1373,18 @@ resource "aws_iam_policy" "dynamodb_access" {
         ]
         Resource = [
           aws_dynamodb_table.matches.arn,
+          "${aws_dynamodb_table.matches.arn}/index/*",
           aws_dynamodb_table.users.arn,
-          "${aws_dynamodb_table.users.arn}/index/*"
+          "${aws_dynamodb_table.users.arn}/index/*",
+          aws_dynamodb_table.audience.arn,
+          aws_dynamodb_table.matchmaking.arn,
+          "${aws_dynamodb_table.matchmaking.arn}/index/*",
+          aws_dynamodb_table.prompt_packs.arn,
+          aws_dynamodb_table.player_stats.arn,
+          aws_dynamodb_table.ratings.arn,
+          "${aws_dynamodb_table.ratings.arn}/index/*",
+          aws_dynamodb_table.moderation.arn,
+          "${aws_dynamodb_table.moderation.arn}/index/*"
         ]
       }
     ]
@@ -995,6 +1418,13 @@ resource "aws_cloudwatch_log_group" "match_service_logs" {
   tags              = local.tags
 }
 
+# Signs the per-match guest tokens that match-service hands out on create/join
+# and that match-service and realtime-service verify
+resource "random_password" "player_token_secret" {
+  length  = 48
+  special = false
+}
+
 # Lambda function for match service
 resource "aws_lambda_function" "match_service" {
   function_name = "${local.project_name}-match-service"
@@ -1016,6 +1446,21 @@ resource "aws_lambda_function" "match_service" {
       USERS_TABLE_NAME = aws_dynamodb_table.users.name
       SQS_QUEUE_URL = aws_sqs_queue.robot_responses.url
       AI_SERVICE_FUNCTION_NAME = aws_lambda_function.ai_service.function_name
+      CONNECTIONS_TABLE_NAME = aws_dynamodb_table.connections.name
+      AUDIENCE_TABLE_NAME = aws_dynamodb_table.audience.name
+      MATCHMAKING_TABLE_NAME = aws_dynamodb_table.matchmaking.name
+      PROMPT_PACKS_TABLE_NAME = aws_dynamodb_table.prompt_packs.name
+      PLAYER_STATS_TABLE_NAME = aws_dynamodb_table.player_stats.name
+      RATINGS_TABLE_NAME = aws_dynamodb_table.ratings.name
+      MODERATION_TABLE_NAME = aws_dynamodb_table.moderation.name
+      MODERATION_AI_ENABLED = tostring(var.moderation_ai_enabled)
+      MODERATION_RESPONSE_ACTION = var.moderation_response_action
+      MODERATION_DISPLAY_NAME_ACTION = var.moderation_display_name_action
+      WEBSOCKET_ENDPOINT = "https://${aws_apigatewayv2_api.realtime.id}.execute-api.${var.aws_region}.amazonaws.com/${aws_apigatewayv2_stage.realtime.name}"
+      PLAYER_TOKEN_SECRET = random_password.player_token_secret.result
+      COGNITO_USER_POOL_ID = aws_cognito_user_pool.main.id
+      COGNITO_CLIENT_ID = aws_cognito_user_pool_client.main.id
+      COGNITO_ADMIN_GROUP = aws_cognito_user_group.admins.name
     }
   }
 
@@ -1232,6 +1677,30 @@ resource "aws_lambda_permission" "match_service_sqs" {
   source_arn    = aws_sqs_queue.state_updates.arn
 }
 
+# Scheduled sweep that moves on rounds past their response or vote deadline,
+# disconnects or AI-substitutes players who stopped sending heartbeats, and
+# groups or AI-backfills the matchmaking queues
+resource "aws_cloudwatch_event_rule" "round_deadlines" {
+  name                = "${local.project_name}-round-deadlines"
+  description         = "Enforce round deadlines for stalled matches"
+  schedule_expression = "rate(1 minute)"
+
+  tags = local.tags
+}
+
+resource "aws_cloudwatch_event_target" "round_deadlines_match_service" {
+  rule = aws_cloudwatch_event_rule.round_deadlines.name
+  arn  = aws_lambda_function.match_service.arn
+}
+
+resource "aws_lambda_permission" "match_service_round_deadlines" {
+  statement_id  = "AllowExecutionFromRoundDeadlines"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.match_service.function_name
+  principal     = "events.amazonaws.com"
+  source_arn    = aws_cloudwatch_event_rule.round_deadlines.arn
+}
+
 ############################
 # Outputs
 ############################
@@ -1415,6 +1884,162 @@ resource "aws_api_gateway_integration_response" "options_admin_stats" {
   }
 }
 
+# API Gateway resource for /admin/personas
+resource "aws_api_gateway_resource" "admin_personas" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.admin.id
+  path_part   = "personas"
+}
+
+# API Gateway resource for /admin/personas/{proxy+} (edit, versions, clone, enable/disable)
+resource "aws_api_gateway_resource" "admin_personas_proxy" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.admin_personas.id
+  path_part   = "{proxy+}"
+}
+
+# ANY /admin/personas - admin-service routes the method and answers CORS preflight itself
+resource "aws_api_gateway_method" "any_admin_personas" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.admin_personas.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# ANY /admin/personas/{proxy+}
+resource "aws_api_gateway_method" "any_admin_personas_proxy" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.admin_personas_proxy.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /admin/personas
+resource "aws_api_gateway_integration" "any_admin_personas" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.admin_personas.id
+  http_method = aws_api_gateway_method.any_admin_personas.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.admin_service.invoke_arn
+}
+
+# Integration for ANY /admin/personas/{proxy+}
+resource "aws_api_gateway_integration" "any_admin_personas_proxy" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.admin_personas_proxy.id
+  http_method = aws_api_gateway_method.any_admin_personas_proxy.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.admin_service.invoke_arn
+}
+
+# API Gateway resource for /admin/prompt-packs
+resource "aws_api_gateway_resource" "admin_prompt_packs" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.admin.id
+  path_part   = "prompt-packs"
+}
+
+# API Gateway resource for /admin/prompt-packs/{proxy+}
+resource "aws_api_gateway_resource" "admin_prompt_packs_proxy" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.admin_prompt_packs.id
+  path_part   = "{proxy+}"
+}
+
+# ANY /admin/prompt-packs
+resource "aws_api_gateway_method" "any_admin_prompt_packs" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.admin_prompt_packs.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# ANY /admin/prompt-packs/{proxy+}
+resource "aws_api_gateway_method" "any_admin_prompt_packs_proxy" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.admin_prompt_packs_proxy.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /admin/prompt-packs
+resource "aws_api_gateway_integration" "any_admin_prompt_packs" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.admin_prompt_packs.id
+  http_method = aws_api_gateway_method.any_admin_prompt_packs.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.admin_service.invoke_arn
+}
+
+# Integration for ANY /admin/prompt-packs/{proxy+}
+resource "aws_api_gateway_integration" "any_admin_prompt_packs_proxy" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.admin_prompt_packs_proxy.id
+  http_method = aws_api_gateway_method.any_admin_prompt_packs_proxy.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.admin_service.invoke_arn
+}
+
+# API Gateway resource for /admin/moderation
+resource "aws_api_gateway_resource" "admin_moderation" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.admin.id
+  path_part   = "moderation"
+}
+
+# API Gateway resource for /admin/moderation/{proxy+}
+resource "aws_api_gateway_resource" "admin_moderation_proxy" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  parent_id   = aws_api_gateway_resource.admin_moderation.id
+  path_part   = "{proxy+}"
+}
+
+# ANY /admin/moderation
+resource "aws_api_gateway_method" "any_admin_moderation" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.admin_moderation.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# ANY /admin/moderation/{proxy+}
+resource "aws_api_gateway_method" "any_admin_moderation_proxy" {
+  rest_api_id   = aws_api_gateway_rest_api.match_api.id
+  resource_id   = aws_api_gateway_resource.admin_moderation_proxy.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+# Integration for ANY /admin/moderation
+resource "aws_api_gateway_integration" "any_admin_moderation" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.admin_moderation.id
+  http_method = aws_api_gateway_method.any_admin_moderation.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.admin_service.invoke_arn
+}
+
+# Integration for ANY /admin/moderation/{proxy+}
+resource "aws_api_gateway_integration" "any_admin_moderation_proxy" {
+  rest_api_id = aws_api_gateway_rest_api.match_api.id
+  resource_id = aws_api_gateway_resource.admin_moderation_proxy.id
+  http_method = aws_api_gateway_method.any_admin_moderation_proxy.http_method
+
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = aws_lambda_function.admin_service.invoke_arn
+}
+
 ############################
 # Admin Service Lambda
 ############################
@@ -1451,6 +2076,12 @@ resource "aws_iam_role_policy_attachment" "admin_service_lambda_dynamodb" {
   policy_arn = aws_iam_policy.dynamodb_access.arn
 }
 
+# Attach AI service invoke policy to admin service Lambda, for AI moderation
+resource "aws_iam_role_policy_attachment" "admin_service_lambda_invoke_ai" {
+  role       = aws_iam_role.admin_service_lambda.name
+  policy_arn = aws_iam_policy.match_service_invoke_ai_service.arn
+}
+
 # CloudWatch Log Group for Admin Service Lambda
 resource "aws_cloudwatch_log_group" "admin_service_logs" {
   name              = "/aws/lambda/${local.project_name}-admin-service"
@@ -1476,13 +2107,27 @@ resource "aws_lambda_function" "admin_service" {
       NODE_ENV = "production"
       DYNAMODB_TABLE_NAME = aws_dynamodb_table.matches.name
       USERS_TABLE_NAME = aws_dynamodb_table.users.name
+      PROMPT_PACKS_TABLE_NAME = aws_dynamodb_table.prompt_packs.name
+      MODERATION_TABLE_NAME = aws_dynamodb_table.moderation.name
+      # Prompt pack prompts are moderated on save, optionally by the ai-service
+      AI_SERVICE_FUNCTION_NAME = aws_lambda_function.ai_service.function_name
+      MODERATION_AI_ENABLED = tostring(var.moderation_ai_enabled)
+      MODERATION_PROMPT_ACTION = var.moderation_prompt_action
+      # Persona edits are checked against the same models the ai-service serves
+      OPENAI_COMPATIBLE_BASE_URL = var.openai_compatible_base_url
+      OPENAI_COMPATIBLE_MODELS = var.openai_compatible_models
+      # Admin routes need a Cognito ID token from a member of the admins group
+      COGNITO_USER_POOL_ID = aws_cognito_user_pool.main.id
+      COGNITO_CLIENT_ID = aws_cognito_user_pool_client.main.id
+      COGNITO_ADMIN_GROUP = aws_cognito_user_group.admins.name
     }
   }
 
   depends_on = [
     aws_cloudwatch_log_group.admin_service_logs,
     aws_iam_role_policy_attachment.admin_service_lambda_basic,
-    aws_iam_role_policy_attachment.admin_service_lambda_dynamodb
+    aws_iam_role_policy_attachment.admin_service_lambda_dynamodb,
+    aws_iam_role_policy_attachment.admin_service_lambda_invoke_ai
   ]
 
   tags = local.tags
@@ -0,0 +1,243 @@
+# Realtime match events over WebSocket
+# Clients connect per match; match-service pushes RealtimeEvent payloads
+
+############################
+# Connections Table
+############################
+
+resource "aws_dynamodb_table" "connections" {
+  name         = "${local.project_name}-connections"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "connectionId"
+
+  attribute {
+    name = "connectionId"
+    type = "S"
+  }
+
+  # Global secondary index for finding everyone watching a match
+  global_secondary_index {
+    name            = "matchId-index"
+    hash_key        = "matchId"
+    projection_type = "ALL"
+  }
+
+  attribute {
+    name = "matchId"
+    type = "S"
+  }
+
+  # Stale connections expire if $disconnect is never delivered
+  ttl {
+    attribute_name = "ttl"
+    enabled        = true
+  }
+
+  tags = local.tags
+}
+
+############################
+# WebSocket API
+############################
+
+resource "aws_apigatewayv2_api" "realtime" {
+  name                       = "${local.project_name}-realtime"
+  protocol_type              = "WEBSOCKET"
+  route_selection_expression = "$request.body.action"
+
+  tags = local.tags
+}
+
+resource "aws_apigatewayv2_integration" "realtime" {
+  api_id           = aws_apigatewayv2_api.realtime.id
+  integration_type = "AWS_PROXY"
+  integration_uri  = aws_lambda_function.realtime_service.invoke_arn
+}
+
+resource "aws_apigatewayv2_route" "realtime_connect" {
+  api_id    = aws_apigatewayv2_api.realtime.id
+  route_key = "$connect"
+  target    = "integrations/${aws_apigatewayv2_integration.realtime.id}"
+}
+
+resource "aws_apigatewayv2_route" "realtime_disconnect" {
+  api_id    = aws_apigatewayv2_api.realtime.id
+  route_key = "$disconnect"
+  target    = "integrations/${aws_apigatewayv2_integration.realtime.id}"
+}
+
+resource "aws_apigatewayv2_route" "realtime_default" {
+  api_id    = aws_apigatewayv2_api.realtime.id
+  route_key = "$default"
+  target    = "integrations/${aws_apigatewayv2_integration.realtime.id}"
+}
+
+resource "aws_apigatewayv2_stage" "realtime" {
+  api_id      = aws_apigatewayv2_api.realtime.id
+  name        = "prod"
+  auto_deploy = true
+
+  tags = local.tags
+}
+
+############################
+# Realtime Service Lambda
+############################
+
+resource "aws_iam_role" "realtime_service_lambda" {
+  name = "${local.project_name}-realtime-service-lambda"
+
+  assume_role_policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Action = "sts:AssumeRole"
+        Effect = "Allow"
+        Principal = {
+          Service = "lambda.amazonaws.com"
+        }
+      }
+    ]
+  })
+
+  tags = local.tags
+}
+
+# Lambda basic execution policy
+resource "aws_iam_role_policy_attachment" "realtime_service_lambda_basic" {
+  role       = aws_iam_role.realtime_service_lambda.name
+  policy_arn = "arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole"
+}
+
+# Connections table access plus posting back to connected clients
+resource "aws_iam_policy" "realtime_connections" {
+  name = "${local.project_name}-realtime-connections"
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:GetItem",
+          "dynamodb:PutItem",
+          "dynamodb:DeleteItem",
+          "dynamodb:Query"
+        ]
+        Resource = [
+          aws_dynamodb_table.connections.arn,
+          "${aws_dynamodb_table.connections.arn}/index/*"
+        ]
+      },
+      {
+        Effect   = "Allow"
+        Action   = ["execute-api:ManageConnections"]
+        Resource = "${aws_apigatewayv2_api.realtime.execution_arn}/*"
+      }
+    ]
+  })
+
+  tags = local.tags
+}
+
+resource "aws_iam_role_policy_attachment" "realtime_service_connections" {
+  role       = aws_iam_role.realtime_service_lambda.name
+  policy_arn = aws_iam_policy.realtime_connections.arn
+}
+
+# Looks up whether a connecting user is an admin
+resource "aws_iam_policy" "realtime_users_read" {
+  name = "${local.project_name}-realtime-users-read"
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect   = "Allow"
+        Action   = ["dynamodb:GetItem"]
+        Resource = aws_dynamodb_table.users.arn
+      }
+    ]
+  })
+
+  tags = local.tags
+}
+
+resource "aws_iam_role_policy_attachment" "realtime_service_users_read" {
+  role       = aws_iam_role.realtime_service_lambda.name
+  policy_arn = aws_iam_policy.realtime_users_read.arn
+}
+
+# Match service publishes events
+resource "aws_iam_role_policy_attachment" "match_service_realtime_connections" {
+  role       = aws_iam_role.match_service_lambda.name
+  policy_arn = aws_iam_policy.realtime_connections.arn
+}
+
+# CloudWatch Log Group for Realtime Service Lambda
+resource "aws_cloudwatch_log_group" "realtime_service_logs" {
+  name              = "/aws/lambda/${local.project_name}-realtime-service"
+  retention_in_days = 7
+  tags              = local.tags
+}
+
+resource "aws_lambda_function" "realtime_service" {
+  function_name = "${local.project_name}-realtime-service"
+  role          = aws_iam_role.realtime_service_lambda.arn
+  handler       = "realtime-service.handler"
+  runtime       = "nodejs20.x"
+  timeout       = 10
+  memory_size   = 256
+
+  # Placeholder code - will be replaced by deployment script
+  filename         = "realtime-service-placeholder.zip"
+  source_code_hash = data.archive_file.realtime_service_placeholder.output_base64sha256
+
+  environment {
+    variables = {
+      NODE_ENV               = "production"
+      CONNECTIONS_TABLE_NAME = aws_dynamodb_table.connections.name
+      USERS_TABLE_NAME       = aws_dynamodb_table.users.name
+      PLAYER_TOKEN_SECRET    = random_password.player_token_secret.result
+      COGNITO_USER_POOL_ID   = aws_cognito_user_pool.main.id
+      COGNITO_CLIENT_ID      = aws_cognito_user_pool_client.main.id
+    }
+  }
+
+  depends_on = [
+    aws_cloudwatch_log_group.realtime_service_logs,
+    aws_iam_role_policy_attachment.realtime_service_lambda_basic,
+    aws_iam_role_policy_attachment.realtime_service_connections,
+    aws_iam_role_policy_attachment.realtime_service_users_read
+  ]
+
+  tags = local.tags
+}
+
+# Create placeholder Lambda deployment package for realtime service
+data "archive_file" "realtime_service_placeholder" {
+  type        = "zip"
+  output_path = "realtime-service-placeholder.zip"
+
+  source {
+    content = jsonencode({
+      exports = {
+        handler = "function(event, context) { return { statusCode: 200, body: 'Placeholder - deploy with deploy-lambdas.sh' }; }"
+      }
+    })
+    filename = "realtime-service.js"
+  }
+}
+
+resource "aws_lambda_permission" "realtime_service_apigateway" {
+  statement_id  = "AllowExecutionFromRealtimeAPI"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.realtime_service.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_apigatewayv2_api.realtime.execution_arn}/*/*"
+}
+
+output "realtime_ws_endpoint" {
+  description = "WebSocket endpoint for realtime match events"
+  value       = aws_apigatewayv2_stage.realtime.invoke_url
+}
@@ -90,6 +90,10 @@ echo "📤 Uploading Lambda functions in parallel..."
     aws lambda update-function-code \
         --function-name robot-orchestra-admin-service \
         --zip-file fileb://lambda-deployment.zip &
+    
+    aws lambda update-function-code \
+        --function-name robot-orchestra-realtime-service \
+        --zip-file fileb://lambda-deployment.zip &
 } 
 
 # Wait for all uploads to complete
@@ -100,6 +104,7 @@ aws lambda wait function-updated --function-name robot-orchestra-match-service &
 aws lambda wait function-updated --function-name robot-orchestra-robot-worker &
 aws lambda wait function-updated --function-name robot-orchestra-ai-service &
 aws lambda wait function-updated --function-name robot-orchestra-admin-service &
+aws lambda wait function-updated --function-name robot-orchestra-realtime-service &
 wait
 
 echo "✅ Lambda deployment complete!"
@@ -111,6 +116,7 @@ aws lambda get-function --function-name robot-orchestra-match-service --query 'C
 aws lambda get-function --function-name robot-orchestra-robot-worker --query 'Configuration.{Function: FunctionName, Runtime: Runtime, LastModified: LastModified, CodeSize: CodeSize}' --output table
 aws lambda get-function --function-name robot-orchestra-ai-service --query 'Configuration.{Function: FunctionName, Runtime: Runtime, LastModified: LastModified, CodeSize: CodeSize}' --output table
 aws lambda get-function --function-name robot-orchestra-admin-service --query 'Configuration.{Function: FunctionName, Runtime: Runtime, LastModified: LastModified, CodeSize: CodeSize}' --output table
+aws lambda get-function --function-name robot-orchestra-realtime-service --query 'Configuration.{Function: FunctionName, Runtime: Runtime, LastModified: LastModified, CodeSize: CodeSize}' --output table
 
 # Validate deployments with test invocations
 echo ""
@@ -14,6 +14,7 @@ MATCH_API_ENDPOINT=$(terraform output -raw match_api_endpoint 2>/dev/null || ech
 COGNITO_USER_POOL_ID=$(terraform output -raw cognito_user_pool_id 2>/dev/null || echo "")
 COGNITO_CLIENT_ID=$(terraform output -raw cognito_client_id 2>/dev/null || echo "")
 WEBSITE_URL=$(terraform output -raw website_url 2>/dev/null || echo "")
+REALTIME_WS_ENDPOINT=$(terraform output -raw realtime_ws_endpoint 2>/dev/null || echo "")
 
 # Validate outputs
 if [ -z "$MATCH_API_ENDPOINT" ] || [ -z "$COGNITO_USER_POOL_ID" ] || [ -z "$COGNITO_CLIENT_ID" ] || [ -z "$WEBSITE_URL" ]; then
@@ -34,6 +35,9 @@ cat > "$ENV_FILE" << EOF
 VITE_MATCH_SERVICE_API=${MATCH_API_ENDPOINT}
 VITE_MATCH_HISTORY_API=${HISTORY_ENDPOINT}
 
+# Realtime match events (polling is used when empty)
+VITE_WS_URL=${REALTIME_WS_ENDPOINT}
+
 # Cognito Configuration
 VITE_COGNITO_USER_POOL_ID=${COGNITO_USER_POOL_ID}
 VITE_COGNITO_CLIENT_ID=${COGNITO_CLIENT_ID}
@@ -50,6 +54,7 @@ echo ""
 echo "🔗 API Endpoints configured:"
 echo "  Match Service: ${MATCH_API_ENDPOINT}"
 echo "  Match History: ${HISTORY_ENDPOINT}"
+echo "  Realtime:      ${REALTIME_WS_ENDPOINT:-not configured}"
 echo ""
 echo "Next steps:"
 echo "1. Run 'npm run build' in frontend/ to rebuild with new environment"
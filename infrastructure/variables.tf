@@ -43,4 +43,40 @@ variable "openai_api_key" {
   description = "OpenAI API key for AI persona responses"
   type        = string
   sensitive   = true
-}
\ No newline at end of file
+}
+
+variable "openai_compatible_base_url" {
+  description = "Base URL of an OpenAI-compatible chat completions API (e.g. https://api.openai.com/v1). Leave empty to serve only Bedrock models."
+  type        = string
+  default     = ""
+}
+
+variable "openai_compatible_models" {
+  description = "Comma-separated model ids served from openai_compatible_base_url"
+  type        = string
+  default     = ""
+}
+
+variable "moderation_ai_enabled" {
+  description = "Also check player-written text with the ai-service moderate task, on top of the local word filter"
+  type        = bool
+  default     = false
+}
+
+variable "moderation_response_action" {
+  description = "What happens to a response that fails moderation: reject, mask or flag"
+  type        = string
+  default     = "mask"
+}
+
+variable "moderation_display_name_action" {
+  description = "What happens to a display name that fails moderation: reject, mask or flag"
+  type        = string
+  default     = "reject"
+}
+
+variable "moderation_prompt_action" {
+  description = "What happens to a prompt pack prompt that fails moderation: reject, mask or flag"
+  type        = string
+  default     = "reject"
+}
@@ -1,10 +1,36 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { ScanCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { createDocumentClient } from './src/utils/aws-clients';
+import { PersonaService } from './src/services/persona-service';
+import { BuiltInPackError, PromptLibrary } from './src/services/prompt-library';
+import { createDefaultModelRegistry } from './src/services/model-providers';
+import { getMatchRepository } from './src/services/match-repository';
+import { isAdminCaller } from './src/services/match-projection';
+import { authenticateRequest } from './src/services/player-auth';
+import {
+  MASKED_RESPONSE,
+  ModerationService,
+  ModerationVerdict,
+  ReportResolvedError,
+} from './src/services/moderation-service';
+import { MatchStatus, MatchStatusSchema } from './shared/schemas/match.schema';
+import {
+  ClonePersonaRequestSchema,
+  CreatePersonaRequestSchema,
+  ModelConfig,
+  UpdatePersonaRequestSchema,
+} from './shared/schemas/user.schema';
+import {
+  CreatePromptPackRequestSchema,
+  UpdatePromptPackRequestSchema,
+} from './shared/schemas/prompt-pack.schema';
+import {
+  ModerationReportStatusSchema,
+  ResolveModerationReportRequestSchema,
+} from './shared/schemas/moderation.schema';
 
 // Initialize AWS clients
-const dynamoClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
+const docClient = createDocumentClient({
   marshallOptions: {
     removeUndefinedValues: true,
   },
@@ -13,10 +39,13 @@ const docClient = DynamoDBDocumentClient.from(dynamoClient, {
 // Get environment variables
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'robot-orchestra-matches';
 
+// Only used to check persona model choices; admin-service never calls a model
+const modelRegistry = createDefaultModelRegistry();
+
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 };
 
 export const handler = async (
@@ -34,15 +63,22 @@ export const handler = async (
   }
 
   try {
-    // Check for admin authorization (in production, verify against Cognito admin group)
-    const authHeader = event.headers.Authorization || event.headers.authorization;
-    if (!authHeader) {
+    // Every admin route needs a verified token from an admin
+    const caller = await authenticateRequest(event);
+    if (!caller || caller.matchId) {
       return {
         statusCode: 401,
         headers: CORS_HEADERS,
         body: JSON.stringify({ error: 'Unauthorized' }),
       };
     }
+    if (!(await isAdminCaller(caller))) {
+      return {
+        statusCode: 403,
+        headers: CORS_HEADERS,
+        body: JSON.stringify({ error: 'Admins only' }),
+      };
+    }
 
     const path = event.path;
     const method = event.httpMethod;
@@ -110,20 +146,16 @@ export const handler = async (
 
     // GET /admin/stats - Get match statistics
     if (path === '/admin/stats' && method === 'GET') {
-      const scanResult = await docClient.send(new ScanCommand({
-        TableName: TABLE_NAME,
-        ProjectionExpression: '#status, createdAt',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-      }));
-
-      const matches = scanResult.Items || [];
+      const matches = getMatchRepository();
+      const counts = await Promise.all(
+        MatchStatusSchema.options.map(async (status) => [status, await matches.countByStatus(status)] as const)
+      );
+      const byStatus = Object.fromEntries(counts) as Record<MatchStatus, number>;
       const stats = {
-        totalMatches: matches.length,
-        activeMatches: matches.filter(m => m.status === 'round_active').length,
-        completedMatches: matches.filter(m => m.status === 'completed').length,
-        abandonedMatches: matches.filter(m => m.status === 'abandoned').length,
+        totalMatches: counts.reduce((total, [, count]) => total + count, 0),
+        activeMatches: byStatus.round_active,
+        completedMatches: byStatus.completed,
+        abandonedMatches: 0, // No status marks a match abandoned yet
       };
 
       return {
@@ -133,6 +165,18 @@ export const handler = async (
       };
     }
 
+    if (path === '/admin/personas' || path.startsWith('/admin/personas/')) {
+      return await handlePersonaRoute(path, method, event.body);
+    }
+
+    if (path === '/admin/prompt-packs' || path.startsWith('/admin/prompt-packs/')) {
+      return await handlePromptPackRoute(path, method, event.body);
+    }
+
+    if (path === '/admin/moderation' || path.startsWith('/admin/moderation/')) {
+      return await handleModerationRoute(path, method, event.queryStringParameters, event.body);
+    }
+
     return {
       statusCode: 404,
       headers: CORS_HEADERS,
@@ -146,4 +190,264 @@ export const handler = async (
       body: JSON.stringify({ error: 'Internal server error' }),
     };
   }
-};
\ No newline at end of file
+};
+
+// Persona authoring routes under /admin/personas
+async function handlePersonaRoute(
+  path: string,
+  method: string,
+  rawBody: string | null
+): Promise<APIGatewayProxyResult> {
+  const body = JSON.parse(rawBody || '{}');
+
+  // GET /admin/personas - List all personas
+  if (path === '/admin/personas' && method === 'GET') {
+    const personas = await PersonaService.listPersonas();
+    return jsonResponse(200, { personas });
+  }
+
+  // POST /admin/personas - Create a persona
+  if (path === '/admin/personas' && method === 'POST') {
+    const parsed = CreatePersonaRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse(400, { error: 'Invalid persona', details: parsed.error.flatten() });
+    }
+    const modelError = checkModelConfig(parsed.data.modelConfig);
+    if (modelError) return jsonResponse(400, { error: modelError });
+    const persona = await PersonaService.createPersona(parsed.data);
+    return jsonResponse(201, persona);
+  }
+
+  const restoreMatch = path.match(/^\/admin\/personas\/([^\/]+)\/versions\/(\d+)\/restore$/);
+  const actionMatch = path.match(/^\/admin\/personas\/([^\/]+)\/(versions|disable|enable|clone)$/);
+  const personaMatch = path.match(/^\/admin\/personas\/([^\/]+)$/);
+
+  try {
+    // POST /admin/personas/{userId}/versions/{version}/restore - Roll back to a saved version
+    if (restoreMatch && method === 'POST') {
+      const persona = await PersonaService.restoreVersion(restoreMatch[1], Number(restoreMatch[2]));
+      return persona ? jsonResponse(200, persona) : jsonResponse(404, { error: 'Persona version not found' });
+    }
+
+    if (actionMatch) {
+      const [, userId, action] = actionMatch;
+
+      // GET /admin/personas/{userId}/versions - Version history, newest first
+      if (action === 'versions' && method === 'GET') {
+        const persona = await PersonaService.getPersona(userId);
+        if (!persona) return jsonResponse(404, { error: 'Persona not found' });
+        return jsonResponse(200, {
+          currentVersion: persona.personaVersion || 1,
+          versions: [...(persona.personaHistory || [])].reverse(),
+        });
+      }
+
+      // POST /admin/personas/{userId}/disable|enable
+      if ((action === 'disable' || action === 'enable') && method === 'POST') {
+        const persona = await PersonaService.setActive(userId, action === 'enable');
+        return persona ? jsonResponse(200, persona) : jsonResponse(404, { error: 'Persona not found' });
+      }
+
+      // POST /admin/personas/{userId}/clone
+      if (action === 'clone' && method === 'POST') {
+        const parsed = ClonePersonaRequestSchema.safeParse(body);
+        if (!parsed.success) {
+          return jsonResponse(400, { error: 'Invalid clone request', details: parsed.error.flatten() });
+        }
+        const persona = await PersonaService.clonePersona(userId, parsed.data.displayName);
+        return persona ? jsonResponse(201, persona) : jsonResponse(404, { error: 'Persona not found' });
+      }
+    }
+
+    if (personaMatch) {
+      const userId = personaMatch[1];
+
+      // GET /admin/personas/{userId}
+      if (method === 'GET') {
+        const persona = await PersonaService.getPersona(userId);
+        return persona ? jsonResponse(200, persona) : jsonResponse(404, { error: 'Persona not found' });
+      }
+
+      // PUT /admin/personas/{userId} - Save an edit as a new version
+      if (method === 'PUT') {
+        const parsed = UpdatePersonaRequestSchema.safeParse(body);
+        if (!parsed.success) {
+          return jsonResponse(400, { error: 'Invalid persona', details: parsed.error.flatten() });
+        }
+        const modelError = checkModelConfig(parsed.data.modelConfig);
+        if (modelError) return jsonResponse(400, { error: modelError });
+        const persona = await PersonaService.updatePersona(userId, parsed.data);
+        return persona ? jsonResponse(200, persona) : jsonResponse(404, { error: 'Persona not found' });
+      }
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return jsonResponse(409, { error: 'Persona was changed by someone else; reload and try again' });
+    }
+    throw error;
+  }
+
+  return jsonResponse(404, { error: 'Not found' });
+}
+
+// Prompt library routes under /admin/prompt-packs
+async function handlePromptPackRoute(
+  path: string,
+  method: string,
+  rawBody: string | null
+): Promise<APIGatewayProxyResult> {
+  const body = JSON.parse(rawBody || '{}');
+
+  // GET /admin/prompt-packs - Every pack with its prompts, inactive ones included
+  if (path === '/admin/prompt-packs' && method === 'GET') {
+    const packs = await PromptLibrary.listPacks();
+    return jsonResponse(200, { packs });
+  }
+
+  // POST /admin/prompt-packs - Create a pack
+  if (path === '/admin/prompt-packs' && method === 'POST') {
+    const parsed = CreatePromptPackRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse(400, { error: 'Invalid prompt pack', details: parsed.error.flatten() });
+    }
+    const reviewed = await reviewPrompts(parsed.data.prompts);
+    if ('error' in reviewed) return jsonResponse(400, { error: reviewed.error });
+    const pack = await PromptLibrary.createPack({ ...parsed.data, prompts: reviewed.prompts });
+    await queueFlaggedPrompts(reviewed.verdicts, pack.packId);
+    return jsonResponse(201, pack);
+  }
+
+  const packMatch = path.match(/^\/admin\/prompt-packs\/([^\/]+)$/);
+  if (!packMatch) {
+    return jsonResponse(404, { error: 'Not found' });
+  }
+  const packId = packMatch[1];
+
+  try {
+    // GET /admin/prompt-packs/{packId}
+    if (method === 'GET') {
+      const pack = await PromptLibrary.getPack(packId);
+      return pack ? jsonResponse(200, pack) : jsonResponse(404, { error: 'Prompt pack not found' });
+    }
+
+    // PUT /admin/prompt-packs/{packId} - Edit fields, or enable/disable with isActive
+    if (method === 'PUT') {
+      const parsed = UpdatePromptPackRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return jsonResponse(400, { error: 'Invalid prompt pack', details: parsed.error.flatten() });
+      }
+      const reviewed = await reviewPrompts(parsed.data.prompts);
+      if ('error' in reviewed) return jsonResponse(400, { error: reviewed.error });
+      const pack = await PromptLibrary.updatePack(packId, { ...parsed.data, prompts: reviewed.prompts });
+      if (pack) await queueFlaggedPrompts(reviewed.verdicts, packId);
+      return pack ? jsonResponse(200, pack) : jsonResponse(404, { error: 'Prompt pack not found' });
+    }
+
+    // DELETE /admin/prompt-packs/{packId}
+    if (method === 'DELETE') {
+      const deleted = await PromptLibrary.deletePack(packId);
+      return deleted ? jsonResponse(200, { deleted: packId }) : jsonResponse(404, { error: 'Prompt pack not found' });
+    }
+  } catch (error) {
+    if (error instanceof BuiltInPackError) {
+      return jsonResponse(400, { error: error.message });
+    }
+    throw error;
+  }
+
+  return jsonResponse(404, { error: 'Not found' });
+}
+
+// Moderate a pack's prompts before they're saved; an unchanged pack has none
+async function reviewPrompts(
+  prompts?: string[]
+): Promise<{ prompts?: string[]; verdicts: ModerationVerdict[] } | { error: string }> {
+  if (!prompts) return { verdicts: [] };
+
+  const verdicts: ModerationVerdict[] = [];
+  for (const [index, prompt] of prompts.entries()) {
+    const verdict = await ModerationService.review('prompt', prompt);
+    if (verdict.action === 'reject') {
+      return { error: `Prompt ${index + 1} contains language that isn't allowed` };
+    }
+    verdicts.push(verdict);
+  }
+  return { prompts: verdicts.map((verdict) => verdict.text), verdicts };
+}
+
+async function queueFlaggedPrompts(verdicts: ModerationVerdict[], packId: string): Promise<void> {
+  for (const verdict of verdicts) {
+    await ModerationService.queueIfFlagged('prompt', verdict, { packId });
+  }
+}
+
+// Review queue routes under /admin/moderation
+async function handleModerationRoute(
+  path: string,
+  method: string,
+  query: Record<string, string | undefined> | null,
+  rawBody: string | null
+): Promise<APIGatewayProxyResult> {
+  // GET /admin/moderation?status= - Reports in one state, newest first; open by default
+  if (path === '/admin/moderation' && method === 'GET') {
+    const status = ModerationReportStatusSchema.safeParse(query?.status ?? 'open');
+    if (!status.success) {
+      return jsonResponse(400, { error: `status must be one of ${ModerationReportStatusSchema.options.join(', ')}` });
+    }
+    const reports = await ModerationService.listReports(status.data);
+    return jsonResponse(200, { reports });
+  }
+
+  // PUT /admin/moderation/{reportId} - Dismiss a report, or uphold it and mask
+  // the response it's about
+  const reportMatch = path.match(/^\/admin\/moderation\/([^\/]+)$/);
+  if (reportMatch && method === 'PUT') {
+    const parsed = ResolveModerationReportRequestSchema.safeParse(JSON.parse(rawBody || '{}'));
+    if (!parsed.success) {
+      return jsonResponse(400, { error: 'Invalid resolution', details: parsed.error.flatten() });
+    }
+
+    try {
+      const report = await ModerationService.resolveReport(decodeURIComponent(reportMatch[1]), parsed.data.status);
+      if (!report) return jsonResponse(404, { error: 'Report not found' });
+
+      const { matchId, roundNumber, identity } = report;
+      if (report.status === 'upheld' && report.contentType === 'response' && matchId && roundNumber && identity) {
+        await getMatchRepository().update(matchId, (match) => {
+          const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+          if (!round?.responses[identity]) return false;
+          round.responses[identity] = MASKED_RESPONSE;
+          match.updatedAt = new Date().toISOString();
+          return true;
+        });
+      }
+      return jsonResponse(200, report);
+    } catch (error) {
+      if (error instanceof ReportResolvedError) {
+        return jsonResponse(409, { error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  return jsonResponse(404, { error: 'Not found' });
+}
+
+// A persona's model must be one the registry serves, from the provider it names
+function checkModelConfig(modelConfig?: ModelConfig): string | null {
+  if (!modelConfig) return null;
+  const model = modelRegistry.get(modelConfig.model);
+  if (!model || model.provider !== modelConfig.provider) {
+    const available = modelRegistry.listModels().map((m) => `${m.provider}/${m.id}`).join(', ');
+    return `Unknown model ${modelConfig.provider}/${modelConfig.model}. Available: ${available}`;
+  }
+  return null;
+}
+
+function jsonResponse(statusCode: number, body: unknown): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: CORS_HEADERS,
+    body: JSON.stringify(body),
+  };
+}
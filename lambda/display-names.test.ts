@@ -0,0 +1,28 @@
+import { displayNameKey, displayNameProblem } from './src/services/display-names';
+
+describe('display names', () => {
+  it('accepts ordinary names, including ones that merely contain a blocked word', () => {
+    expect(displayNameProblem('Ann')).toBeNull();
+    expect(displayNameProblem('Charles Dickens')).toBeNull();
+    expect(displayNameProblem('Scunthorpe United')).toBeNull();
+  });
+
+  it('holds names to the user schema limits', () => {
+    expect(displayNameProblem('   ')).toBe('Display name must be between 1 and 100 characters');
+    expect(displayNameProblem('x'.repeat(101))).toBe('Display name must be between 1 and 100 characters');
+  });
+
+  it('rejects blocked words, plurals and lookalike spellings', () => {
+    expect(displayNameProblem('big shit')).toBe("Display name contains a word that isn't allowed");
+    expect(displayNameProblem('Bitches')).not.toBeNull();
+    expect(displayNameProblem('sh1t_happens')).not.toBeNull();
+  });
+
+  it('rejects names that pass for staff', () => {
+    expect(displayNameProblem('Site Admin')).toBe('Display name is reserved');
+  });
+
+  it('keys names that differ only in case and spacing together', () => {
+    expect(displayNameKey('  Ann  Lee ')).toBe(displayNameKey('ann lee'));
+  });
+});
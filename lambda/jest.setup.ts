@@ -1,7 +1,7 @@
 // Set up test environment
 process.env.USERS_TABLE_NAME = 'test-users-table';
-process.env.MATCHES_TABLE_NAME = 'test-matches-table';
 process.env.AWS_REGION = 'us-east-1';
+process.env.PLAYER_TOKEN_SECRET = 'test-player-token-secret';
 
 // Mock Zod for schema imports
 jest.mock('zod', () => {
@@ -117,6 +117,10 @@ jest.mock('@aws-sdk/lib-dynamodb', () => ({
       send: jest.fn(async (command: any) => {
         // Handle different command types
         if (command.constructor.name === 'PutCommand') {
+          // Event log entries (timestamp > 0) and seat rows (< 0) share the match's key
+          if (command.input.Item.timestamp !== undefined && command.input.Item.timestamp !== 0) {
+            return {};
+          }
           mockDataStore[command.input.Item.matchId] = command.input.Item;
           if (command.input.Item.inviteCode) {
             inviteCodeToMatchId[command.input.Item.inviteCode] = command.input.Item.matchId;
@@ -170,5 +174,8 @@ jest.mock('@aws-sdk/lib-dynamodb', () => ({
   GetCommand: jest.fn((input: any) => ({ input, constructor: { name: 'GetCommand' } })),
   UpdateCommand: jest.fn((input: any) => ({ input, constructor: { name: 'UpdateCommand' } })),
   ScanCommand: jest.fn((input: any) => ({ input, constructor: { name: 'ScanCommand' } })),
-  QueryCommand: jest.fn((input: any) => ({ input, constructor: { name: 'QueryCommand' } }))
+  QueryCommand: jest.fn((input: any) => ({ input, constructor: { name: 'QueryCommand' } })),
+  DeleteCommand: jest.fn((input: any) => ({ input, constructor: { name: 'DeleteCommand' } })),
+  BatchWriteCommand: jest.fn((input: any) => ({ input, constructor: { name: 'BatchWriteCommand' } })),
+  TransactWriteCommand: jest.fn((input: any) => ({ input, constructor: { name: 'TransactWriteCommand' } }))
 }));
\ No newline at end of file
@@ -0,0 +1,1554 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { LocalRuntime, startLocalRuntime } from './src/local/local-runtime';
+
+// Seeded as an admin so tests can look behind the player's view of a match
+const ADMIN_USER_ID = 'admin-1';
+const ADMIN_TOKEN = `local.${ADMIN_USER_ID}`;
+
+function apiEvent(
+  httpMethod: string,
+  pathWithQuery: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): APIGatewayProxyEvent {
+  const [path, query] = pathWithQuery.split('?');
+  return {
+    httpMethod,
+    path,
+    body: body ? JSON.stringify(body) : null,
+    headers,
+    queryStringParameters: query ? Object.fromEntries(new URLSearchParams(query)) : null,
+  } as unknown as APIGatewayProxyEvent;
+}
+
+describe('Local runtime', () => {
+  let runtime: LocalRuntime;
+
+  beforeAll(async () => {
+    runtime = await startLocalRuntime();
+  });
+
+  beforeEach(() => {
+    runtime.reset();
+    runtime.docClient.seed('robot-orchestra-users', [
+      { userId: ADMIN_USER_ID, userType: 'human', displayName: 'Admin', isActive: true, isAdmin: true },
+    ]);
+  });
+
+  async function request(httpMethod: string, path: string, body?: unknown, token?: string) {
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+    const result = await runtime.handleApiRequest(apiEvent(httpMethod, path, body, headers));
+    await runtime.drain();
+    return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+  }
+
+  async function startDuo() {
+    const { body: created } = await request('POST', '/matches/create-with-template', {
+      templateType: 'duo_2v2',
+      creatorName: 'Ann',
+    }, 'local.user-ann');
+    const { body: joined } = await request('POST', `/matches/join/${created.match.inviteCode}`, {
+      displayName: 'Ben',
+    }, 'local.user-ben');
+    return { matchId: created.match.matchId, annToken: created.token, benToken: joined.token };
+  }
+
+  it('plays a full classic match end to end without AWS', async () => {
+    const created = await request('POST', '/matches', { playerName: 'Alice' });
+    expect(created.statusCode).toBe(201);
+    const matchId = created.body.matchId;
+
+    for (let round = 1; round <= 5; round++) {
+      const responded = await request('POST', `/matches/${matchId}/responses`, {
+        identity: 'A',
+        response: `Human answer for round ${round}`,
+        round,
+      }, created.body.token);
+      expect(responded.statusCode).toBe(200);
+
+      const { body: inVoting } = await request('GET', `/matches/${matchId}`);
+      const current = inVoting.rounds[round - 1];
+      expect(Object.keys(current.responses).sort()).toEqual(['A', 'B', 'C', 'D']);
+      expect(current.status).toBe('voting');
+
+      const voted = await request('POST', `/matches/${matchId}/votes`, {
+        voter: 'A',
+        votedFor: 'B',
+        round,
+      }, created.body.token);
+      expect(voted.statusCode).toBe(200);
+    }
+
+    const { body: finished } = await request('GET', `/matches/${matchId}`);
+    expect(finished.status).toBe('completed');
+    expect(finished.rounds).toHaveLength(5);
+    expect(finished.rounds[0].scoring.humanIdentities).toEqual(['A']);
+    expect(finished.result.completedRounds).toBe(5);
+    expect(runtime.queue.deadLetters).toHaveLength(0);
+  });
+
+  it('uses the deterministic fake model for robot responses', async () => {
+    const { body: match } = await request('POST', '/matches', { playerName: 'Bob' });
+    const { body: stored } = await request('GET', `/matches/${match.matchId}`, undefined, ADMIN_TOKEN);
+
+    expect(stored.rounds[0].responses.B).toEqual(expect.any(String));
+    expect(stored.rounds[0].responses.B).not.toMatch(/^Local fake model output/);
+  });
+
+  it('binds each robot to a seeded AI user', async () => {
+    const { body: created } = await request('POST', '/matches', { playerName: 'Jo' });
+    const { body: match } = await request('GET', `/matches/${created.matchId}`, undefined, ADMIN_TOKEN);
+    const robots = match.participants.filter((p: any) => p.isAI);
+
+    expect(new Set(robots.map((p: any) => p.userId)).size).toBe(3);
+    for (const robot of robots) {
+      expect(robot.userId).toBe(`ai-${robot.playerName.toLowerCase()}`);
+    }
+  });
+
+  it('collects robot votes from the model through the robot queue', async () => {
+    const { body: match } = await request('POST', '/matches', { playerName: 'Fay' });
+    await request('POST', `/matches/${match.matchId}/responses`, {
+      identity: 'A',
+      response: 'honestly no idea lol',
+      round: 1,
+    }, match.token);
+    await request('POST', `/matches/${match.matchId}/votes`, { voter: 'A', votedFor: 'B', round: 1 }, match.token);
+
+    const { body: stored } = await request('GET', `/matches/${match.matchId}`, undefined, ADMIN_TOKEN);
+    const round = stored.rounds[0];
+    expect(round.status).toBe('complete');
+    for (const robot of ['B', 'C', 'D']) {
+      expect(round.votes[robot]).toEqual(expect.any(String));
+      expect(round.votes[robot]).not.toBe(robot);
+    }
+    expect(stored.currentRound).toBe(2);
+  });
+
+  it('serves the ai-service routes with the fake model', async () => {
+    const { statusCode, body } = await request('POST', '/ai/generate', {
+      task: 'grammar_correction',
+      inputs: { text: 'hello world' },
+    });
+
+    expect(statusCode).toBe(200);
+    expect(body.result).toEqual({ corrected: 'hello world', changes: [], confidence: 1 });
+  });
+
+  describe('match views', () => {
+    const hidden = (participant: any) =>
+      !('identity' in participant) && !('isAI' in participant) && !('userId' in participant) && !('personality' in participant);
+
+    it('hides which seats are robots until the match is completed', async () => {
+      const { body: created } = await request('POST', '/matches', { playerName: 'Lou' });
+      expect(created.viewerIdentity).toBe('A');
+      expect(created.participants[0]).toMatchObject({ identity: 'A', isAI: false, playerName: 'Lou' });
+      expect(created.participants.slice(1).every(hidden)).toBe(true);
+
+      const { body: anonymous } = await request('GET', `/matches/${created.matchId}`);
+      expect(anonymous.viewerIdentity).toBeUndefined();
+      expect(anonymous.participants).toHaveLength(4);
+      expect(anonymous.participants.every(hidden)).toBe(true);
+
+      for (let round = 1; round <= 5; round++) {
+        await request('POST', `/matches/${created.matchId}/responses`, { identity: 'A', response: `Answer ${round}`, round }, created.token);
+        await request('POST', `/matches/${created.matchId}/votes`, { voter: 'A', votedFor: 'B', round }, created.token);
+      }
+
+      const { body: finished } = await request('GET', `/matches/${created.matchId}`);
+      expect(finished.status).toBe('completed');
+      expect(finished.participants.map((p: any) => [p.identity, p.isAI])).toEqual([
+        ['A', false],
+        ['B', true],
+        ['C', true],
+        ['D', true],
+      ]);
+      expect(finished.rounds[0].scoring.humanIdentities).toEqual(['A']);
+    });
+
+    it('keeps a lobby\'s persona picks from players until the match is completed', async () => {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Pia',
+        config: { totalRounds: 1, personaIds: ['ai-sundown'] },
+      }, 'local.user-pia');
+      expect(created.match.config.personaIds).toBeUndefined();
+      expect(created.match.config.totalRounds).toBe(1);
+
+      const matchId = created.match.matchId;
+      const { body: player } = await request('GET', `/matches/${matchId}`, undefined, created.token);
+      expect(player.config).not.toHaveProperty('personaIds');
+      const { body: anonymous } = await request('GET', `/matches/${matchId}`);
+      expect(anonymous.config).not.toHaveProperty('personaIds');
+      const { body: admin } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(admin.config.personaIds).toEqual(['ai-sundown']);
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, created.token);
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const robot = voting.participants.find((p: any) => p.isAI).identity;
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: robot, round: 1 }, created.token);
+      const { body: finished } = await request('GET', `/matches/${matchId}`, undefined, created.token);
+      expect(finished.status).toBe('completed');
+      expect(finished.config.personaIds).toEqual(['ai-sundown']);
+    });
+
+    it('shows a player their own seat by their match token', async () => {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Mo',
+      }, 'local.user-mo');
+      const seat = created.match.viewerIdentity;
+      expect(seat).toEqual(expect.any(String));
+
+      const { body: match } = await request('GET', `/matches/${created.match.matchId}`, undefined, created.token);
+      expect(match.viewerIdentity).toBe(seat);
+      expect(match.participants[0]).toMatchObject({ identity: seat, userId: 'user-mo', isAI: false });
+      expect(match.participants.slice(1).every(hidden)).toBe(true);
+
+      const { body: history } = await request('GET', '/matches/history', undefined, created.token);
+      expect(history.matches[0].viewerIdentity).toBe(seat);
+      expect(history.matches[0].participants.slice(1).every(hidden)).toBe(true);
+    });
+
+    it('hides other seats\' votes and scores, and their responses until voting opens', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      const view = async (token: string) => (await request('GET', `/matches/${matchId}`, undefined, token)).body;
+      const ann = (await view(annToken)).viewerIdentity;
+      const ben = (await view(benToken)).viewerIdentity;
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, annToken);
+      expect((await view(annToken)).rounds[0].responses).toEqual({ [ann]: 'Warm toast' });
+      expect((await view(benToken)).rounds[0].responses).toEqual({});
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold tea', round: 1 }, benToken);
+      const voting = (await view(benToken)).rounds[0];
+      expect(voting.status).toBe('voting');
+      expect(Object.keys(voting.responses)).toHaveLength(4);
+
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: ben, round: 1 }, annToken);
+      expect((await view(benToken)).rounds[0].votes).toEqual({});
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: ann, round: 1 }, benToken);
+
+      const scored = (await view(annToken)).rounds[0];
+      expect(scored.status).toBe('complete');
+      expect(scored.votes).toEqual({ [ann]: ben });
+      expect(Object.keys(scored.scores)).toEqual([ann]);
+      expect(scored.scoring.voteResults).toEqual([expect.objectContaining({ voter: ann, votedFor: ben })]);
+      expect(Object.keys(scored.scoring.totals)).toEqual([ann]);
+      expect(Object.keys(scored.scoring.bonusPoints)).not.toContain(ben);
+      for (const field of ['humanIdentity', 'humanIdentities', 'successfullyDeceived', 'deceptionPoints', 'penaltyPoints']) {
+        expect(scored.scoring).not.toHaveProperty(field);
+      }
+
+      const { body: spectating } = await request('POST', `/matches/${matchId}/spectate`);
+      const watched = (await view(spectating.token)).rounds[0];
+      expect(Object.keys(watched.responses)).toHaveLength(4);
+      expect(watched.votes).toEqual({});
+      expect(watched.scores).toEqual({});
+      expect(watched.scoring.voteResults).toEqual([]);
+    });
+
+    it('only tells a seat and admins about its own submissions', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      const annEvents: any[] = [];
+      const benEvents: any[] = [];
+      const adminEvents: any[] = [];
+      await runtime.realtime.connect(matchId, (event) => annEvents.push(event), annToken);
+      await runtime.realtime.connect(matchId, (event) => benEvents.push(event), benToken);
+      await runtime.realtime.connect(matchId, (event) => adminEvents.push(event), ADMIN_TOKEN);
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, annToken);
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold tea', round: 1 }, benToken);
+
+      const submitted = (events: any[]) =>
+        events.filter((e) => e.type === 'participant_submitted').map((e) => e.identity);
+      const { body: ann } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      const { body: ben } = await request('GET', `/matches/${matchId}`, undefined, benToken);
+      expect(submitted(annEvents)).toEqual([ann.viewerIdentity]);
+      expect(submitted(benEvents)).toEqual([ben.viewerIdentity]);
+      expect(submitted(adminEvents)).toEqual(expect.arrayContaining([ann.viewerIdentity, ben.viewerIdentity]));
+      expect(submitted(adminEvents).length).toBeGreaterThan(2);
+    });
+
+    it('projects realtime state for each connection', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Ned' });
+      const player: any[] = [];
+      const admin: any[] = [];
+      await runtime.realtime.connect(match.matchId, (event) => player.push(event), match.token);
+      await runtime.realtime.connect(match.matchId, (event) => admin.push(event), ADMIN_TOKEN);
+
+      await request('POST', `/matches/${match.matchId}/responses`, { identity: 'A', response: 'toast', round: 1 }, match.token);
+      await request('POST', `/matches/${match.matchId}/votes`, { voter: 'A', votedFor: 'C', round: 1 }, match.token);
+
+      const playerSync = player.filter((e) => e.type === 'match_state_sync').pop().match;
+      expect(playerSync.viewerIdentity).toBe('A');
+      expect(playerSync.participants.slice(1).every(hidden)).toBe(true);
+      const scoring = playerSync.rounds[0].scoring;
+      expect(scoring.humanIdentities).toBeUndefined();
+      expect(scoring.voteResults.map((r: any) => r.voter)).toEqual(['A']);
+
+      const adminSync = admin.filter((e) => e.type === 'match_state_sync').pop().match;
+      expect(adminSync.participants.filter((p: any) => p.isAI)).toHaveLength(3);
+      expect(adminSync.rounds[0].scoring.voteResults).toHaveLength(4);
+    });
+  });
+
+  describe('spectators', () => {
+    async function startClassic() {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Viv',
+      }, 'local.user-viv');
+      return { ...created.match, token: created.token };
+    }
+
+    it('watches by invite code and sees responses only once voting opens', async () => {
+      const match = await startClassic();
+      const spectating = await request('POST', `/matches/${match.inviteCode.toLowerCase()}/spectate`);
+      expect(spectating.statusCode).toBe(200);
+      expect(spectating.body.spectatorId).toMatch(/^spectator-/);
+      expect(spectating.body.match).toMatchObject({ matchId: match.matchId, requiredVotePicks: 1 });
+      expect(spectating.body.match.viewerIdentity).toBeUndefined();
+      const token = spectating.body.token;
+
+      const { body: responding } = await request('GET', `/matches/${match.matchId}`, undefined, token);
+      expect(responding.rounds[0].status).toBe('responding');
+      expect(responding.rounds[0].responses).toEqual({});
+
+      await request('POST', `/matches/${match.matchId}/responses`, { response: 'Hello', round: 1 }, match.token);
+      const { body: voting } = await request('GET', `/matches/${match.matchId}`, undefined, token);
+      expect(voting.rounds[0].status).toBe('voting');
+      expect(Object.keys(voting.rounds[0].responses)).toHaveLength(4);
+      expect(voting.rounds[0].votes).toEqual({});
+
+      expect((await request('POST', `/matches/${match.matchId}/spectate`, undefined, match.token)).statusCode).toBe(409);
+      expect((await request('POST', '/matches/NOPE00/spectate')).statusCode).toBe(404);
+    });
+
+    it('only takes guesses from spectators while a round is voting', async () => {
+      const match = await startClassic();
+      const { body: spectating } = await request('POST', `/matches/${match.inviteCode}/spectate`);
+      const guess = (body: unknown, token?: string) =>
+        request('POST', `/matches/${match.matchId}/audience`, body, token);
+
+      expect((await guess({ round: 1, guess: 'A' }, spectating.token)).statusCode).toBe(400);
+      await request('POST', `/matches/${match.matchId}/responses`, { response: 'Hello', round: 1 }, match.token);
+
+      expect((await guess({ round: 1, guess: 'A' })).statusCode).toBe(401);
+      expect((await guess({ round: 1, guess: 'A' }, match.token)).statusCode).toBe(403);
+      expect((await guess({ round: 2, guess: 'A' }, spectating.token)).statusCode).toBe(400);
+      expect((await guess({ round: 1, guess: ['A', 'B'] }, spectating.token)).statusCode).toBe(400);
+      expect((await guess({ round: 1, guess: 'A' }, spectating.token)).statusCode).toBe(200);
+    });
+
+    it('scores the audience against the reveal once the match is completed', async () => {
+      const match = await startClassic();
+      const seat = match.viewerIdentity;
+      const robot = ['A', 'B', 'C', 'D'].find((identity) => identity !== seat);
+      const { body: spectating } = await request('POST', `/matches/${match.inviteCode}/spectate`);
+
+      for (let round = 1; round <= 5; round++) {
+        await request('POST', `/matches/${match.matchId}/responses`, { response: `Answer ${round}`, round }, match.token);
+        if (round <= 2) {
+          const picked = round === 1 ? seat : robot;
+          await request('POST', `/matches/${match.matchId}/audience`, { round, guess: picked }, spectating.token);
+        }
+        if (round === 5) {
+          const early = await request('GET', `/matches/${match.matchId}/audience`, undefined, spectating.token);
+          expect(early.statusCode).toBe(403);
+        }
+        await request('POST', `/matches/${match.matchId}/votes`, { votedFor: robot, round }, match.token);
+      }
+
+      const { statusCode, body: results } = await request(
+        'GET', `/matches/${match.matchId}/audience`, undefined, spectating.token
+      );
+      expect(statusCode).toBe(200);
+      expect(results).toMatchObject({ matchId: match.matchId, spectators: 1, accuracy: 50, yourAccuracy: 50 });
+      expect(results.rounds[0]).toMatchObject({ guesses: 1, accuracy: 100, picks: { [seat]: 1 }, yourGuess: [seat] });
+      expect(results.rounds[2]).toMatchObject({ guesses: 0, accuracy: 0, picks: {} });
+
+      const { body: anonymous } = await request('GET', `/matches/${match.matchId}/audience`);
+      expect(anonymous.yourAccuracy).toBeUndefined();
+    });
+  });
+
+  describe('matchmaking', () => {
+    const later = (seconds: number) => ({ now: () => new Date(Date.now() + seconds * 1000) });
+
+    function queue(userId: string, options: Record<string, unknown> = {}) {
+      return request(
+        'POST',
+        '/matchmaking',
+        { templateType: 'duo_2v2', displayName: userId.replace('user-', ''), ...options },
+        `local.${userId}`
+      );
+    }
+
+    it('groups queued players into a match once enough are waiting', async () => {
+      const first = await queue('user-amy');
+      expect(first.body).toMatchObject({
+        status: 'queued',
+        position: 1,
+        waiting: 1,
+        requiredHumans: 2,
+        estimatedWaitSeconds: 30,
+      });
+
+      const second = await queue('user-bo');
+      expect(second.body).toMatchObject({ status: 'matched', matchedTemplateType: 'duo_2v2' });
+
+      const { body: amy } = await request('GET', '/matchmaking', undefined, 'local.user-amy');
+      expect(amy).toMatchObject({ status: 'matched', matchId: second.body.matchId });
+
+      const { body: match } = await request('GET', `/matches/${amy.matchId}`, undefined, 'local.user-amy');
+      expect(match.status).toBe('waiting');
+      expect(match.participants).toHaveLength(4);
+      expect(match.viewerIdentity).toEqual(expect.any(String));
+    });
+
+    it('backfills with AI after the timeout, only for players who allow it', async () => {
+      await queue('user-cy', { allowAIBackfill: true });
+      await queue('user-di', { templateType: 'trio_3v3' });
+
+      await runtime.sweepDeadlines(later(30));
+      expect((await request('GET', '/matchmaking', undefined, 'local.user-cy')).body.status).toBe('queued');
+
+      await runtime.sweepDeadlines(later(61));
+      const { body: cy } = await request('GET', '/matchmaking', undefined, 'local.user-cy');
+      expect(cy).toMatchObject({ status: 'matched', templateType: 'duo_2v2', matchedTemplateType: 'classic_1v3' });
+      const { body: match } = await request('GET', `/matches/${cy.matchId}`, undefined, 'local.user-cy');
+      expect(match.participants).toHaveLength(4);
+
+      const { body: di } = await request('GET', '/matchmaking', undefined, 'local.user-di');
+      expect(di).toMatchObject({ status: 'queued', position: 1, estimatedWaitSeconds: 60 });
+    });
+
+    it('needs a signed-in player and a multi-human template, and lets players leave', async () => {
+      const { body: guest } = await request('POST', '/matches', { playerName: 'Eve' });
+      expect((await request('POST', '/matchmaking', { templateType: 'duo_2v2', displayName: 'Eve' })).statusCode).toBe(401);
+      expect((await request('POST', '/matchmaking', { templateType: 'duo_2v2', displayName: 'Eve' }, guest.token)).statusCode).toBe(401);
+      expect((await queue('user-eve', { templateType: 'classic_1v3' })).statusCode).toBe(400);
+      expect((await queue('user-eve', { displayName: ' ' })).statusCode).toBe(400);
+
+      await queue('user-eve');
+      expect((await request('DELETE', '/matchmaking', undefined, 'local.user-eve')).statusCode).toBe(200);
+      expect((await request('GET', '/matchmaking', undefined, 'local.user-eve')).statusCode).toBe(404);
+    });
+  });
+
+  describe('lobby config', () => {
+    const lobby = {
+      totalRounds: 3,
+      responseTimeLimit: 60,
+      minResponseLength: 5,
+      maxResponseLength: 60,
+      requiredHumans: 2,
+      requiredAI: 1,
+      personaIds: ['ai-sundown'],
+    };
+    // Players don't see the persona picks until the match is over
+    const { personaIds: _personaIds, ...shownLobby } = lobby;
+
+    it('plays a private lobby with the settings it was created with', async () => {
+      const { statusCode, body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorName: 'Ann',
+        config: lobby,
+      }, 'local.user-ann');
+      expect(statusCode).toBe(200);
+      expect(created.match).toMatchObject({
+        totalRounds: 3,
+        totalParticipants: 3,
+        responseTimeLimit: 60,
+        voteTimeLimit: 90,
+        waitingFor: { humans: 1, ai: 1 },
+        config: { ...shownLobby, voteTimeLimit: 90 },
+      });
+
+      const { body: joined } = await request('POST', `/matches/join/${created.match.inviteCode}`, {
+        displayName: 'Ben',
+      }, 'local.user-ben');
+      const matchId = created.match.matchId;
+      const { body: started } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(started.participants.filter((p: any) => p.isAI).map((p: any) => p.userId)).toEqual(['ai-sundown']);
+
+      const tooShort = await request('POST', `/matches/${matchId}/responses`, { response: 'hi', round: 1 }, created.token);
+      expect(tooShort).toMatchObject({
+        statusCode: 400,
+        body: { error: 'Responses must be between 5 and 60 characters' },
+      });
+      const tooLong = await request('POST', `/matches/${matchId}/responses`, { response: 'x'.repeat(61), round: 1 }, joined.token);
+      expect(tooLong.statusCode).toBe(400);
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, created.token);
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold pizza', round: 1 }, joined.token);
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(voting.rounds[0].status).toBe('voting');
+      expect(Object.keys(voting.rounds[0].responses)).toHaveLength(3);
+    });
+
+    it('rejects settings that do not fit together', async () => {
+      const create = (templateType: string, config: unknown, token?: string) =>
+        request('POST', '/matches/create-with-template', {
+          templateType,
+          creatorName: 'Ann',
+          config,
+        }, token);
+
+      await expect(create('duo_2v2', { maxResponseLength: 600 })).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: 'Invalid match config' },
+      });
+      await expect(create('duo_2v2', { minResponseLength: 200, maxResponseLength: 100 })).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: 'minResponseLength cannot be more than maxResponseLength' },
+      });
+      await expect(create('duo_2v2', { requiredHumans: 4, requiredAI: 5 })).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: 'A match needs between 2 and 8 participants' },
+      });
+      await expect(create('duo_2v2', { personaIds: ['ai-nobody'] })).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: 'Unknown persona: ai-nobody' },
+      });
+
+      await expect(create('admin_custom', { requiredAI: 5 })).resolves.toMatchObject({ statusCode: 403 });
+      const custom = await create('admin_custom', { requiredAI: 5 }, ADMIN_TOKEN);
+      expect(custom.statusCode).toBe(200);
+      expect(custom.body.match.totalParticipants).toBe(6);
+      expect(custom.body.match.participants).toHaveLength(6);
+    });
+  });
+
+  describe('match history', () => {
+    it('pages through only the caller\'s own matches, newest first', async () => {
+      const created: string[] = [];
+      for (const name of ['Pat 1', 'Pat 2', 'Pat 3']) {
+        const { body } = await request('POST', '/matches/create-with-template', {
+          templateType: 'classic_1v3',
+          creatorName: name,
+        }, 'local.user-pat');
+        created.push(body.match.matchId);
+      }
+      await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Sam',
+      }, 'local.user-sam');
+
+      const { body: first } = await request('GET', '/matches/history?limit=2', undefined, 'local.user-pat');
+      expect(first.matches).toHaveLength(2);
+      expect(first.cursor).toEqual(expect.any(String));
+
+      const { body: second } = await request(
+        'GET',
+        `/matches/history?limit=2&cursor=${first.cursor}`,
+        undefined,
+        'local.user-pat'
+      );
+      expect(second.cursor).toBeUndefined();
+
+      const seen = [...first.matches, ...second.matches];
+      expect(seen.map((m: any) => m.matchId).sort()).toEqual([...created].sort());
+      expect(seen.every((m: any) => m.participants[0].userId === 'user-pat')).toBe(true);
+      const createdAt = seen.map((m: any) => m.createdAt);
+      expect(createdAt).toEqual([...createdAt].sort().reverse());
+    });
+
+    it('lists a match for players who joined it by invite code', async () => {
+      const { matchId, benToken } = await startDuo();
+      const { body: history } = await request('GET', '/matches/history', undefined, benToken);
+      expect(history.matches.map((m: any) => m.matchId)).toEqual([matchId]);
+    });
+
+    it('rejects anonymous callers, bad limits and bad cursors', async () => {
+      expect((await request('GET', '/matches/history')).statusCode).toBe(401);
+      expect((await request('GET', '/matches/history?limit=500', undefined, 'local.user-pat')).statusCode).toBe(400);
+      expect((await request('GET', '/matches/history?cursor=nope', undefined, 'local.user-pat')).statusCode).toBe(400);
+    });
+  });
+
+  describe('player stats', () => {
+    // A one-round classic match where the player votes for a robot
+    async function playClassic(userId: string, templateType = 'classic_1v3') {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType,
+        creatorName: 'Sal',
+        config: { totalRounds: 1 },
+      }, `local.${userId}`);
+      const matchId = created.match.matchId;
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, created.token);
+
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const robot = voting.participants.find((p: any) => p.isAI).identity;
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: robot, round: 1 }, created.token);
+      return matchId;
+    }
+
+    it('starts new players at zero and needs a caller', async () => {
+      await expect(request('GET', '/users/me/stats')).resolves.toMatchObject({ statusCode: 401 });
+      const { statusCode, body } = await request('GET', '/users/me/stats', undefined, 'local.user-sal');
+      expect(statusCode).toBe(200);
+      expect(body).toMatchObject({ userId: 'user-sal', gamesPlayed: 0, byTemplate: {}, recentMatches: [] });
+      expect(body.voteAccuracy).toBeUndefined();
+    });
+
+    it('adds each completed match to the player\'s totals', async () => {
+      const first = await playClassic('user-sal');
+      const { body: once } = await request('GET', '/users/me/stats', undefined, 'local.user-sal');
+      expect(once).toMatchObject({
+        gamesPlayed: 1,
+        votesCast: 1,
+        correctVotes: 0,
+        voteAccuracy: 0,
+        votesFaced: 3,
+        responsesTimed: 1,
+        byTemplate: { classic_1v3: { gamesPlayed: 1 } },
+        recentMatches: [{ matchId: first, templateType: 'classic_1v3' }],
+      });
+      expect(once.deceptionRate).toBeCloseTo(1 - once.timesVotedAsHuman / 3);
+      expect(once.averageResponseTime).toEqual(expect.any(Number));
+
+      const second = await playClassic('user-sal', 'solo_1v5');
+      const { body: twice } = await request('GET', '/users/me/stats', undefined, 'local.user-sal');
+      expect(twice).toMatchObject({
+        gamesPlayed: 2,
+        votesCast: 2,
+        votesFaced: 8,
+        byTemplate: { classic_1v3: { gamesPlayed: 1 }, solo_1v5: { gamesPlayed: 1 } },
+      });
+      expect(twice.recentMatches.map((m: any) => m.matchId)).toEqual([second, first]);
+
+      // Robots don't get career stats
+      const players = runtime.docClient.items('robot-orchestra-player-stats').map((item) => item.userId);
+      expect(players).toEqual(['user-sal']);
+    });
+
+    it('keeps the first vote a player casts in a round', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, annToken);
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold tea', round: 1 }, benToken);
+      const { body: ann } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      const others = Object.keys(ann.rounds[0].responses).filter((identity) => identity !== ann.viewerIdentity);
+
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: others[0], round: 1 }, annToken);
+      const changed = await request('POST', `/matches/${matchId}/votes`, { votedFor: others[1], round: 1 }, annToken);
+      expect(changed).toMatchObject({ statusCode: 409, body: { error: 'You have already voted in this round' } });
+    });
+
+    it('keeps the first response a player gives and closes answers once voting opens', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, annToken);
+      const changed = await request('POST', `/matches/${matchId}/responses`, { response: 'Burnt toast', round: 1 }, annToken);
+      expect(changed).toMatchObject({ statusCode: 409, body: { error: 'You have already responded in this round' } });
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold tea', round: 1 }, benToken);
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(voting.rounds[0].status).toBe('voting');
+      const ann = voting.participants.find((p: any) => p.playerName === 'Ann').identity;
+      expect(voting.rounds[0].responses[ann]).toBe('Warm toast');
+
+      const late = await request('POST', `/matches/${matchId}/responses`, { response: 'Burnt toast', round: 1 }, annToken);
+      expect(late).toMatchObject({ statusCode: 400, body: { error: 'Round 1 is not accepting responses' } });
+    });
+
+    it('turns away repeat and late votes without recounting the match', async () => {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Sal',
+        config: { totalRounds: 1 },
+      }, 'local.user-sal');
+      const matchId = created.match.matchId;
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, created.token);
+
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const [first, second] = voting.participants.filter((p: any) => p.isAI).map((p: any) => p.identity);
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: first, round: 1 }, created.token);
+
+      const again = await request('POST', `/matches/${matchId}/votes`, { votedFor: second, round: 1 }, created.token);
+      expect(again).toMatchObject({ statusCode: 400, body: { error: 'Round 1 is not accepting votes' } });
+      const { body: completed } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(completed.rounds[0].votes[created.match.viewerIdentity]).toBe(first);
+
+      const { body: stats } = await request('GET', '/users/me/stats', undefined, 'local.user-sal');
+      expect(stats).toMatchObject({ gamesPlayed: 1, votesCast: 1 });
+    });
+  });
+
+  describe('leaderboards', () => {
+    // A one-round duo where Ann spots Ben and Ben picks a robot
+    async function playDuo() {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorName: 'Ann',
+        config: { totalRounds: 1 },
+      }, 'local.user-ann');
+      const { body: joined } = await request('POST', `/matches/join/${created.match.inviteCode}`, {
+        displayName: 'Ben',
+      }, 'local.user-ben');
+      const matchId = created.match.matchId;
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Warm toast', round: 1 }, created.token);
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold tea', round: 1 }, joined.token);
+
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const ben = voting.participants.find((p: any) => p.userId === 'user-ben').identity;
+      const robot = voting.participants.find((p: any) => p.isAI).identity;
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: ben, round: 1 }, created.token);
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: robot, round: 1 }, joined.token);
+      return matchId;
+    }
+
+    it('rates completed matches on the overall and template boards', async () => {
+      await playDuo();
+
+      const { body: detection } = await request('GET', '/leaderboards', undefined, 'local.user-ben');
+      expect(detection.rating).toBe('detection');
+      expect(detection.season).toBe(detection.currentSeason);
+      expect(detection.entries.map((e: any) => [e.rank, e.displayName])).toEqual([[1, 'Ann'], [2, 'Ben']]);
+      expect(detection.entries[0]).toMatchObject({ matchesRated: 1, provisional: true });
+      expect(detection.entries[0].detectionRating).toBeGreaterThan(1000);
+      expect(detection.entries[1].detectionRating).toBeLessThan(1000);
+      expect(detection.mine).toMatchObject({ userId: 'user-ben', displayName: 'Ben' });
+
+      const { body: duo } = await request('GET', '/leaderboards?rating=disguise&templateType=duo_2v2&limit=1');
+      expect(duo).toMatchObject({ rating: 'disguise', templateType: 'duo_2v2' });
+      expect(duo.entries).toHaveLength(1);
+      expect(duo.mine).toBeUndefined();
+
+      const { body: classic } = await request('GET', '/leaderboards?templateType=classic_1v3');
+      expect(classic.entries).toEqual([]);
+    });
+
+    it('rates each match once, even when an older one completes again', async () => {
+      const first = await playDuo();
+      await playDuo();
+      const { body: match } = await request('GET', `/matches/${first}`, undefined, ADMIN_TOKEN);
+      // Loaded once the runtime is up, so it writes to the local tables
+      const { RatingService } = await import('./src/services/rating-service');
+      await RatingService.recordCompletedMatch(match);
+
+      const { body: board } = await request('GET', '/leaderboards', undefined, 'local.user-ann');
+      expect(board.mine.matchesRated).toBe(2);
+    });
+
+    it('keeps each season apart and rejects bad queries', async () => {
+      await playDuo();
+      const { body: past } = await request('GET', '/leaderboards?season=2020-Q1');
+      expect(past.entries).toEqual([]);
+
+      for (const query of ['rating=speed', 'season=2026', 'templateType=chess', 'limit=0']) {
+        expect((await request('GET', `/leaderboards?${query}`)).statusCode).toBe(400);
+      }
+    });
+  });
+
+  describe('profiles', () => {
+    const annToken = 'local.user-ann';
+
+    it('saves a display name and avatar colour for signed-in players only', async () => {
+      await expect(request('GET', '/users/me')).resolves.toMatchObject({ statusCode: 401 });
+      const { body: duo } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorName: 'Guest',
+      });
+      await expect(request('PATCH', '/users/me', { displayName: 'Guest' }, duo.token)).resolves.toMatchObject({
+        statusCode: 401,
+      });
+
+      const { body: blank } = await request('GET', '/users/me', undefined, annToken);
+      expect(blank).toEqual({ userId: 'user-ann' });
+
+      const saved = await request('PATCH', '/users/me', { displayName: ' Ann Lee ', avatarColor: 'green' }, annToken);
+      expect(saved).toMatchObject({
+        statusCode: 200,
+        body: { userId: 'user-ann', displayName: 'Ann Lee', avatarColor: 'green' },
+      });
+      const { body: loaded } = await request('GET', '/users/me', undefined, annToken);
+      expect(loaded).toMatchObject({ displayName: 'Ann Lee', avatarColor: 'green' });
+    });
+
+    it('rejects names that are invalid, blocked or held by someone else', async () => {
+      await request('PATCH', '/users/me', { displayName: 'Ann Lee' }, annToken);
+
+      await expect(request('PATCH', '/users/me', { avatarColor: 'plaid' }, annToken)).resolves.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(request('PATCH', '/users/me', { displayName: 'shit' }, 'local.user-ben')).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: "Display name contains a word that isn't allowed" },
+      });
+      await expect(request('PATCH', '/users/me', { displayName: 'ann  LEE' }, 'local.user-ben')).resolves.toMatchObject({
+        statusCode: 409,
+        body: { error: 'That display name is taken' },
+      });
+
+      // Keeping your own name is not a clash
+      await expect(request('PATCH', '/users/me', { displayName: 'Ann Lee' }, annToken)).resolves.toMatchObject({
+        statusCode: 200,
+      });
+    });
+
+    it('gives a name to one of two players saving it at once, and frees names that are changed', async () => {
+      const saves = await Promise.all(['user-ann', 'user-ben'].map((userId) =>
+        request('PATCH', '/users/me', { displayName: 'Cy Ray' }, `local.${userId}`)
+      ));
+      expect(saves.map((save) => save.statusCode).sort()).toEqual([200, 409]);
+      const [winner, loser] = saves[0].statusCode === 200 ? ['user-ann', 'user-ben'] : ['user-ben', 'user-ann'];
+
+      await request('PATCH', '/users/me', { displayName: 'Cy Ray Jr' }, `local.${winner}`);
+      await expect(request('PATCH', '/users/me', { displayName: 'cy ray' }, `local.${loser}`)).resolves.toMatchObject({
+        statusCode: 200,
+        body: { displayName: 'cy ray' },
+      });
+      await expect(request('PATCH', '/users/me', { displayName: 'Cy Ray' }, `local.${winner}`)).resolves.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it('seats signed-in players under their saved name', async () => {
+      await request('PATCH', '/users/me', { displayName: 'Ann Lee' }, annToken);
+      await request('PATCH', '/users/me', { displayName: 'Ben Ito' }, 'local.user-ben');
+
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorName: 'Whatever',
+      }, annToken);
+      expect(created.match.participants[0].playerName).toBe('Ann Lee');
+
+      await request('POST', `/matches/join/${created.match.inviteCode}`, {}, 'local.user-ben');
+      const { body: started } = await request('GET', `/matches/${created.match.matchId}`, undefined, ADMIN_TOKEN);
+      const names = started.participants.filter((p: any) => !p.isAI).map((p: any) => p.playerName);
+      expect(names.sort()).toEqual(['Ann Lee', 'Ben Ito']);
+
+      const { body: classic } = await request('POST', '/matches', { playerName: 'Whatever' }, annToken);
+      expect(classic.participants.find((p: any) => !p.isAI).playerName).toBe('Ann Lee');
+      await expect(request('POST', '/matches', { playerName: 'big sh1t' })).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: "Display name isn't allowed" },
+      });
+    });
+  });
+
+  describe('player tokens', () => {
+    it('acts for the seat behind the token and rejects any other', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      const { body: annView } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      const { body: benView } = await request('GET', `/matches/${matchId}`, undefined, benToken);
+
+      const impersonated = await request('POST', `/matches/${matchId}/responses`, {
+        identity: annView.viewerIdentity,
+        response: 'not my seat',
+        round: 1,
+      }, benToken);
+      expect(impersonated.statusCode).toBe(403);
+
+      const anonymous = await request('POST', `/matches/${matchId}/responses`, { response: 'who am I', round: 1 });
+      expect(anonymous.statusCode).toBe(401);
+
+      const own = await request('POST', `/matches/${matchId}/responses`, { response: 'mine', round: 1 }, benToken);
+      expect(own.statusCode).toBe(200);
+      const { body: stored } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(stored.rounds[0].responses[benView.viewerIdentity]).toBe('mine');
+      expect(stored.rounds[0].responses[annView.viewerIdentity]).toBeUndefined();
+    });
+
+    it('seats signed-in users as themselves and everyone else as a fresh guest', async () => {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorUserId: 'user-ben',
+        creatorName: 'Ann',
+      }, 'local.user-ann');
+      expect(created.match.viewerIdentity).toEqual(expect.any(String));
+
+      const joined = await request('POST', `/matches/join/${created.match.inviteCode}`, {
+        userId: 'user-ann',
+        displayName: 'Not Ann',
+      });
+      expect(joined.statusCode).toBe(200);
+
+      const { body: stored } = await request('GET', `/matches/${created.match.matchId}`, undefined, ADMIN_TOKEN);
+      const humans = stored.participants.filter((p: any) => !p.isAI).map((p: any) => p.userId);
+      expect(humans[0]).toBe('user-ann');
+      expect(humans[1]).toMatch(/^guest-/);
+
+      const { body: classic } = await request('POST', '/matches', { playerName: 'Ann' }, 'local.user-ann');
+      const { body: history } = await request('GET', '/matches/history', undefined, 'local.user-ann');
+      expect(history.matches.map((m: any) => m.matchId)).toContain(classic.matchId);
+    });
+  });
+
+  describe('concurrent writes', () => {
+    // Requests run side by side and only settle the queues afterwards, so
+    // each handler reads the match before the other has written it
+    async function together(...calls: Array<[string, string, unknown, string]>) {
+      const results = await Promise.all(
+        calls.map(([method, path, body, token]) =>
+          runtime.handleApiRequest(apiEvent(method, path, body, { Authorization: `Bearer ${token}` }))
+        )
+      );
+      await runtime.drain();
+      return results.map((result) => result.statusCode);
+    }
+
+    it('keeps both humans\' responses and votes when they land at once', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      const { body: ann } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      const { body: ben } = await request('GET', `/matches/${matchId}`, undefined, benToken);
+      const annSeat = ann.viewerIdentity;
+      const benSeat = ben.viewerIdentity;
+
+      await expect(together(
+        ['POST', `/matches/${matchId}/responses`, { response: 'from Ann', round: 1 }, annToken],
+        ['POST', `/matches/${matchId}/responses`, { response: 'from Ben', round: 1 }, benToken],
+      )).resolves.toEqual([200, 200]);
+
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(voting.rounds[0].responses[annSeat]).toBe('from Ann');
+      expect(voting.rounds[0].responses[benSeat]).toBe('from Ben');
+      expect(voting.rounds[0].status).toBe('voting');
+
+      await expect(together(
+        ['POST', `/matches/${matchId}/votes`, { votedFor: benSeat, round: 1 }, annToken],
+        ['POST', `/matches/${matchId}/votes`, { votedFor: annSeat, round: 1 }, benToken],
+      )).resolves.toEqual([200, 200]);
+
+      const { body: scored } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(scored.rounds[0].votes[annSeat]).toBe(benSeat);
+      expect(scored.rounds[0].votes[benSeat]).toBe(annSeat);
+      expect(scored.rounds[0].status).toBe('complete');
+      expect(scored.currentRound).toBe(2);
+      expect(scored.rounds).toHaveLength(2);
+    });
+
+    it('seats only one player when two take the last seat at once', async () => {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorName: 'Ann',
+      }, 'local.user-ann');
+      const join = (displayName: string) =>
+        runtime.handleApiRequest(apiEvent('POST', `/matches/join/${created.match.inviteCode}`, { displayName }));
+
+      const results = await Promise.all([join('Ben'), join('Cat')]);
+      await runtime.drain();
+      expect(results.map((r) => r.statusCode).sort()).toEqual([200, 400]);
+
+      const { body: stored } = await request('GET', `/matches/${created.match.matchId}`, undefined, ADMIN_TOKEN);
+      expect(stored.participants.filter((p: any) => !p.isAI)).toHaveLength(2);
+      expect(stored.participants).toHaveLength(4);
+    });
+  });
+
+  describe('match replay', () => {
+    it('logs each step of a round in order', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Gus' });
+      await request('POST', `/matches/${match.matchId}/responses`, {
+        identity: 'A',
+        response: 'a kettle, every time',
+        round: 1,
+      }, match.token);
+      await request('POST', `/matches/${match.matchId}/votes`, { voter: 'A', votedFor: 'B', round: 1 }, match.token);
+
+      const { statusCode, body: replay } = await request(
+        'GET',
+        `/matches/${match.matchId}/replay`,
+        undefined,
+        ADMIN_TOKEN
+      );
+      expect(statusCode).toBe(200);
+      expect(replay.match.matchId).toBe(match.matchId);
+
+      const types = replay.events.map((e: any) => e.type);
+      const firstIndex = (type: string) => types.indexOf(type);
+      expect(types[0]).toBe('match_created');
+      expect(firstIndex('round_started')).toBeLessThan(firstIndex('response_submitted'));
+      expect(firstIndex('response_submitted')).toBeLessThan(firstIndex('vote_cast'));
+      expect(types.filter((t: string) => t === 'vote_cast')).toHaveLength(4);
+      expect(replay.events.filter((e: any) => e.type === 'round_started').map((e: any) => e.roundNumber))
+        .toEqual([1, 2]);
+
+      const timestamps = replay.events.map((e: any) => e.timestamp);
+      expect([...timestamps].sort((a, b) => a - b)).toEqual(timestamps);
+      expect(new Set(timestamps).size).toBe(timestamps.length);
+    });
+
+    it('records the model and latency behind robot responses and votes', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Hal' });
+      await request('POST', `/matches/${match.matchId}/responses`, {
+        identity: 'A',
+        response: 'rain on the roof',
+        round: 1,
+      }, match.token);
+      await request('POST', `/matches/${match.matchId}/votes`, { voter: 'A', votedFor: 'C', round: 1 }, match.token);
+
+      const { body: replay } = await request('GET', `/matches/${match.matchId}/replay`, undefined, ADMIN_TOKEN);
+      const robotEvents = replay.events.filter(
+        (e: any) => e.type === 'robot_response_generated' || (e.type === 'vote_cast' && e.voter !== 'A')
+      );
+      for (const event of robotEvents) {
+        expect(event.model).toBe('claude-3-haiku');
+        expect(event.latencyMs).toBeGreaterThanOrEqual(0);
+      }
+
+      // Robots answer again once the human has, so the last answer logged is the one kept
+      const stored = replay.match.rounds[0].responses;
+      for (const robot of ['B', 'C', 'D']) {
+        const generated = robotEvents.filter(
+          (e: any) => e.type === 'robot_response_generated' && e.identity === robot
+        );
+        expect(generated[generated.length - 1].response).toBe(stored[robot]);
+        expect(robotEvents.filter((e: any) => e.type === 'vote_cast' && e.voter === robot)).toHaveLength(1);
+      }
+    });
+
+    it('holds the log back from players until the match is completed', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Jay' });
+      const { statusCode } = await request('GET', `/matches/${match.matchId}/replay`);
+      expect(statusCode).toBe(403);
+    });
+
+    it('keeps log entries out of match history', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Ivy' });
+      const { body: history } = await request('GET', '/matches/history', undefined, match.token);
+
+      expect(history.matches.map((m: any) => m.matchId)).toEqual([match.matchId]);
+    });
+
+    it('returns 404 for unknown matches', async () => {
+      const { statusCode } = await request('GET', '/matches/no-such-match/replay');
+      expect(statusCode).toBe(404);
+    });
+  });
+
+  describe('match analysis', () => {
+    it('reports on each completed match and pushes the report to clients', async () => {
+      const { body: match } = await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Ida',
+        config: { totalRounds: 1 },
+      }, 'local.user-ida');
+      const matchId = match.match.matchId;
+      const received: any[] = [];
+      await runtime.realtime.connect(matchId, (event) => received.push(event));
+
+      await request('POST', `/matches/${matchId}/responses`, { response: 'burnt toast', round: 1 }, match.token);
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(voting.analysis).toBeUndefined();
+      const robot = voting.participants.find((p: any) => p.isAI).identity;
+      await request('POST', `/matches/${matchId}/votes`, { votedFor: robot, round: 1 }, match.token);
+
+      const { body: completed } = await request('GET', `/matches/${matchId}`, undefined, match.token);
+      const human = completed.participants.find((p: any) => !p.isAI).identity;
+      expect(completed.analysis).toMatchObject({
+        status: 'ready',
+        requestedAt: completed.completedAt,
+        mostConvincingHuman: { identity: human, roundNumber: 1, response: 'burnt toast' },
+        mostHumanAI: { roundNumber: 1, response: expect.any(String) },
+        difficulty: expect.any(Number),
+        themes: ['local play'],
+      });
+      const ai = completed.participants.find((p: any) => p.identity === completed.analysis.mostHumanAI.identity);
+      expect(ai.isAI).toBe(true);
+
+      const syncs = received.filter((e) => e.type === 'match_state_sync');
+      expect(syncs.map((e) => e.match.analysis?.status).slice(-2)).toEqual(['pending', 'ready']);
+    });
+  });
+
+  describe('moderation', () => {
+    async function admin(httpMethod: string, path: string, body?: unknown) {
+      const result = await runtime.handleApiRequest(
+        apiEvent(httpMethod, path, body, { Authorization: `Bearer ${ADMIN_TOKEN}` })
+      );
+      return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+    }
+
+    it('masks blocked words in responses and queues player reports for review', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Toast, burnt as shit', round: 1 }, annToken);
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Cold tea at dawn', round: 1 }, benToken);
+
+      const { body: voting } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const ann = voting.participants.find((p: any) => p.userId === 'user-ann').identity;
+      const ben = voting.participants.find((p: any) => p.userId === 'user-ben').identity;
+      expect(voting.rounds[0].responses[ann]).toBe('Toast, burnt as ****');
+
+      const own = await request('POST', `/matches/${matchId}/reports`, { roundNumber: 1, identity: ben }, benToken);
+      expect(own.statusCode).toBe(400);
+      const report = { roundNumber: 1, identity: ann, reason: 'rude' };
+      const reported = await request('POST', `/matches/${matchId}/reports`, report, benToken);
+      expect(reported.statusCode).toBe(201);
+      expect(reported.body).toEqual({ reportId: expect.any(String), status: 'open' });
+      const again = await request('POST', `/matches/${matchId}/reports`, report, benToken);
+      expect(again.body.reportId).toBe(reported.body.reportId);
+
+      const { body: queue } = await admin('GET', '/admin/moderation');
+      expect(queue.reports).toEqual([
+        expect.objectContaining({
+          contentType: 'response',
+          content: 'Toast, burnt as ****',
+          source: 'player_report',
+          matchId,
+          identity: ann,
+          userId: 'user-ann',
+          reportedBy: 'user-ben',
+          reason: 'rude',
+        }),
+      ]);
+
+      const reportPath = `/admin/moderation/${encodeURIComponent(reported.body.reportId)}`;
+      const upheld = await admin('PUT', reportPath, { status: 'upheld' });
+      expect(upheld.body).toMatchObject({ status: 'upheld', resolvedAt: expect.any(String) });
+      await expect(admin('PUT', reportPath, { status: 'dismissed' })).resolves.toMatchObject({ statusCode: 409 });
+      await expect(admin('GET', '/admin/moderation')).resolves.toMatchObject({ body: { reports: [] } });
+
+      const { body: masked } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(masked.rounds[0].responses[ann]).toBe('[removed by moderation]');
+      const { body: replay } = await request('GET', `/matches/${matchId}/replay`, undefined, ADMIN_TOKEN);
+      const logged = replay.events.find((e: any) => e.type === 'response_submitted' && e.identity === ann);
+      expect(logged.response).toBe('[removed by moderation]');
+    });
+
+    it('rejects blocked guest names and prompts', async () => {
+      const { body: created } = await request('POST', '/matches/create-with-template', {
+        templateType: 'duo_2v2',
+        creatorName: 'Ann',
+      });
+      const joined = await request('POST', `/matches/join/${created.match.inviteCode}`, {
+        displayName: 'big sh1t',
+      });
+      expect(joined).toMatchObject({ statusCode: 400, body: { error: "Display name isn't allowed" } });
+
+      const pack = await admin('POST', '/admin/prompt-packs', {
+        name: 'Rude',
+        prompts: ['What makes you smile?', 'Who is the biggest prick you know?'],
+      });
+      expect(pack).toMatchObject({ statusCode: 400, body: { error: "Prompt 2 contains language that isn't allowed" } });
+    });
+  });
+
+  describe('persona authoring', () => {
+    async function admin(httpMethod: string, path: string, body?: unknown) {
+      const result = await runtime.handleApiRequest(
+        apiEvent(httpMethod, path, body, { Authorization: `Bearer ${ADMIN_TOKEN}` })
+      );
+      return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+    }
+
+    const draft = {
+      displayName: 'Poet',
+      personality: 'poet',
+      systemPrompt: 'You answer in short free verse.',
+      styleNotes: 'No rhymes.',
+      maxResponseLength: 120,
+      modelConfig: { provider: 'bedrock', model: 'claude-3-haiku', temperature: 0.9 },
+    };
+
+    it('turns away everyone but admins', async () => {
+      await expect(request('GET', '/admin/personas')).resolves.toMatchObject({ statusCode: 401 });
+      const { annToken } = await startDuo();
+      for (const path of ['/admin/personas', '/admin/prompt-packs', '/admin/moderation']) {
+        await expect(request('GET', path, undefined, annToken)).resolves.toMatchObject({ statusCode: 401 });
+        await expect(request('GET', path, undefined, 'local.user-ann')).resolves.toMatchObject({ statusCode: 403 });
+      }
+    });
+
+    it('creates personas and lists them with the seeded ones', async () => {
+      const created = await admin('POST', '/admin/personas', draft);
+      expect(created.statusCode).toBe(201);
+      expect(created.body).toMatchObject({ userType: 'ai', isActive: true, personaVersion: 1 });
+
+      const { body } = await admin('GET', '/admin/personas');
+      expect(body.personas.map((p: any) => p.displayName)).toContain('Poet');
+      expect(body.personas.map((p: any) => p.userId)).toContain('ai-sundown');
+    });
+
+    it('rejects invalid personas', async () => {
+      const { statusCode, body } = await admin('POST', '/admin/personas', { ...draft, maxResponseLength: 5 });
+      expect(statusCode).toBe(400);
+      expect(body.details.fieldErrors.maxResponseLength).toBeDefined();
+    });
+
+    it('rejects models the ai-service cannot serve', async () => {
+      const { statusCode, body } = await admin('POST', '/admin/personas', {
+        ...draft,
+        modelConfig: { provider: 'openai', model: 'claude-3-haiku' },
+      });
+      expect(statusCode).toBe(400);
+      expect(body.error).toContain('bedrock/claude-3-haiku');
+    });
+
+    it('versions edits and restores an earlier version', async () => {
+      const { body: persona } = await admin('POST', '/admin/personas', draft);
+      const path = `/admin/personas/${persona.userId}`;
+
+      const edited = await admin('PUT', path, { styleNotes: 'Always rhyme.', expectedVersion: 1 });
+      expect(edited.statusCode).toBe(200);
+      expect(edited.body.personaVersion).toBe(2);
+      expect(edited.body.styleNotes).toBe('Always rhyme.');
+
+      const stale = await admin('PUT', path, { styleNotes: 'Lost update', expectedVersion: 1 });
+      expect(stale.statusCode).toBe(409);
+
+      const { body: history } = await admin('GET', `${path}/versions`);
+      expect(history.currentVersion).toBe(2);
+      expect(history.versions).toEqual([expect.objectContaining({ version: 1, styleNotes: 'No rhymes.' })]);
+
+      const restored = await admin('POST', `${path}/versions/1/restore`);
+      expect(restored.body.personaVersion).toBe(3);
+      expect(restored.body.styleNotes).toBe('No rhymes.');
+
+      const missing = await admin('POST', `${path}/versions/9/restore`);
+      expect(missing.statusCode).toBe(404);
+    });
+
+    it('clones personas disabled and keeps disabled personas out of matches', async () => {
+      const cloned = await admin('POST', '/admin/personas/ai-sundown/clone', {});
+      expect(cloned.statusCode).toBe(201);
+      expect(cloned.body).toMatchObject({ displayName: 'Sundown (copy)', isActive: false, personaVersion: 1 });
+      expect(cloned.body.userId).not.toBe('ai-sundown');
+
+      for (const name of ['sundown', 'bandit', 'maverick']) {
+        const disabled = await admin('POST', `/admin/personas/ai-${name}/disable`);
+        expect(disabled.body.isActive).toBe(false);
+      }
+
+      const { body: created } = await request('POST', '/matches', { playerName: 'Kit' });
+      const { body: match } = await request('GET', `/matches/${created.matchId}`, undefined, ADMIN_TOKEN);
+      const robotUserIds = match.participants.filter((p: any) => p.isAI).map((p: any) => p.userId);
+      expect(robotUserIds.sort()).toEqual(['ai-beast', 'ai-boomer', 'ai-buzz']);
+    });
+
+    it('returns 404 for users that are not personas', async () => {
+      const { statusCode } = await admin('GET', '/admin/personas/nobody');
+      expect(statusCode).toBe(404);
+    });
+  });
+
+  describe('prompt packs', () => {
+    async function admin(httpMethod: string, path: string, body?: unknown) {
+      const result = await runtime.handleApiRequest(
+        apiEvent(httpMethod, path, body, { Authorization: `Bearer ${ADMIN_TOKEN}` })
+      );
+      return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+    }
+
+    const space = {
+      name: 'Space',
+      theme: 'life aboard a space station',
+      tags: ['space', 'sci-fi'],
+      difficulty: 'medium',
+      prompts: ['What would you miss most about Earth?', 'What would you name your spaceship?'],
+    };
+
+    it('lets admins author packs and lobbies list them without their prompts', async () => {
+      const created = await admin('POST', '/admin/prompt-packs', space);
+      expect(created.statusCode).toBe(201);
+      expect(created.body).toMatchObject({ ...space, locale: 'en', isActive: true });
+      const packId = created.body.packId;
+
+      await expect(admin('POST', '/admin/prompt-packs', { name: '' })).resolves.toMatchObject({ statusCode: 400 });
+      await expect(admin('PUT', '/admin/prompt-packs/classic', { name: 'Mine' })).resolves.toMatchObject({
+        statusCode: 400,
+        body: { error: 'Built-in prompt packs are read-only' },
+      });
+
+      const { body: listed } = await request('GET', '/prompt-packs');
+      expect(listed.packs.map((p: any) => p.packId)).toEqual(['classic', packId]);
+      expect(listed.packs[1]).toMatchObject({ name: 'Space', promptCount: 2 });
+      expect(listed.packs[1].prompts).toBeUndefined();
+
+      const disabled = await admin('PUT', `/admin/prompt-packs/${packId}`, { isActive: false });
+      expect(disabled.body.isActive).toBe(false);
+      const { body: afterDisable } = await request('GET', '/prompt-packs');
+      expect(afterDisable.packs.map((p: any) => p.packId)).toEqual(['classic']);
+
+      await expect(admin('DELETE', `/admin/prompt-packs/${packId}`)).resolves.toMatchObject({ statusCode: 200 });
+      await expect(admin('GET', `/admin/prompt-packs/${packId}`)).resolves.toMatchObject({ statusCode: 404 });
+    });
+
+    it('draws prompts a player has not seen yet, then asks the AI', async () => {
+      const { body: pack } = await admin('POST', '/admin/prompt-packs', space);
+      const play = async () => {
+        const { statusCode, body } = await request('POST', '/matches/create-with-template', {
+          templateType: 'classic_1v3',
+          creatorName: 'Sal',
+          config: { promptPackId: pack.packId },
+        }, 'local.user-sal');
+        expect(statusCode).toBe(200);
+        return body.match.rounds[0].prompt;
+      };
+
+      const first = await play();
+      const second = await play();
+      expect(space.prompts).toContain(first);
+      expect(space.prompts).toContain(second);
+      expect(second).not.toBe(first);
+
+      // Both pack prompts seen: the fake model makes one up
+      const third = await play();
+      expect(space.prompts).not.toContain(third);
+      expect(third).toEqual(expect.any(String));
+    });
+
+    it('rejects lobbies naming a pack that is missing or disabled', async () => {
+      const { body: pack } = await admin('POST', '/admin/prompt-packs', space);
+      await admin('PUT', `/admin/prompt-packs/${pack.packId}`, { isActive: false });
+
+      for (const promptPackId of ['no-such-pack', pack.packId]) {
+        const { statusCode, body } = await request('POST', '/matches/create-with-template', {
+          templateType: 'duo_2v2',
+          creatorName: 'Sal',
+          config: { promptPackId },
+        }, 'local.user-sal');
+        expect(statusCode).toBe(400);
+        expect(body.error).toBe(`Unknown prompt pack: ${promptPackId}`);
+      }
+    });
+  });
+
+  describe('presence', () => {
+    // Backdate a player's last heartbeat, since heartbeats use the real clock
+    async function goQuiet(matchId: string, userId: string, seconds: number) {
+      const { body: match } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const seat = match.participants.findIndex((p: any) => p.userId === userId);
+      await runtime.docClient.send(
+        new UpdateCommand({
+          TableName: 'robot-orchestra-matches',
+          Key: { matchId, timestamp: 0 },
+          UpdateExpression: `SET participants[${seat}].lastSeen = :lastSeen`,
+          ExpressionAttributeValues: { ':lastSeen': new Date(Date.now() - seconds * 1000).toISOString() },
+        })
+      );
+    }
+
+    const presenceOf = (match: any, name: string) =>
+      match.participants.find((p: any) => p.playerName === name);
+
+    it('shows quiet players as away, then disconnects them until they check in', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+
+      await goQuiet(matchId, 'user-ben', 40);
+      const { body: away } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      expect(presenceOf(away, 'Ben')).toMatchObject({ presence: 'away', isConnected: true });
+
+      await goQuiet(matchId, 'user-ben', 70);
+      await runtime.sweepDeadlines();
+      const { body: gone } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      expect(presenceOf(gone, 'Ben')).toMatchObject({ presence: 'offline', isConnected: false });
+      expect(presenceOf(gone, 'Ann')).toMatchObject({ presence: 'online', isConnected: true });
+
+      const beat = await request('POST', `/matches/${matchId}/heartbeat`, undefined, benToken);
+      expect(beat.statusCode).toBe(200);
+      const { body: back } = await request('GET', `/matches/${matchId}`, undefined, annToken);
+      expect(presenceOf(back, 'Ben')).toMatchObject({ presence: 'online', isConnected: true });
+    });
+
+    it('lets an AI persona finish for a player gone too long, until they reclaim the seat', async () => {
+      const { matchId, annToken, benToken } = await startDuo();
+      await request('POST', `/matches/${matchId}/responses`, { response: 'Tea, always', round: 1 }, annToken);
+
+      await goQuiet(matchId, 'user-ben', 200);
+      await runtime.sweepDeadlines();
+      const { body: substituted } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      const standIn = presenceOf(substituted, 'Ben');
+      expect(standIn).toMatchObject({ isAI: true, substitutedFor: { userId: 'user-ben', displayName: 'Ben' } });
+      expect(standIn.userId).toMatch(/^ai-/);
+      // Ben was the last human to answer, so the robots, stand-in included, answered
+      expect(substituted.rounds[0].status).toBe('voting');
+      expect(substituted.rounds[0].responses[standIn.identity]).toEqual(expect.any(String));
+
+      const refused = await request('POST', `/matches/${matchId}/heartbeat`, undefined, benToken);
+      expect(refused).toMatchObject({ statusCode: 409, body: { seatTaken: true } });
+      const { body: history } = await request('GET', '/matches/history', undefined, 'local.user-ben');
+      expect(history.matches.map((m: any) => m.matchId)).toContain(matchId);
+
+      // Back on another device, signed in
+      const reclaimed = await request('POST', `/matches/${matchId}/reclaim`, undefined, 'local.user-ben');
+      expect(reclaimed.statusCode).toBe(200);
+      expect(reclaimed.body.token).toEqual(expect.any(String));
+      expect(reclaimed.body.match.viewerIdentity).toBe(standIn.identity);
+
+      const { body: restored } = await request('GET', `/matches/${matchId}`, undefined, ADMIN_TOKEN);
+      expect(presenceOf(restored, 'Ben')).toMatchObject({ isAI: false, userId: 'user-ben', isConnected: true });
+      expect(presenceOf(restored, 'Ben').substitutedFor).toBeUndefined();
+      expect((await request('POST', `/matches/${matchId}/reclaim`, undefined, 'local.user-cy')).statusCode).toBe(403);
+    });
+
+    it('keeps seats for humans when nobody is left or the template never substitutes', async () => {
+      const duo = await startDuo();
+      await goQuiet(duo.matchId, 'user-ann', 200);
+      await goQuiet(duo.matchId, 'user-ben', 200);
+      const { body: solo } = await request('POST', '/matches/create-with-template', {
+        templateType: 'classic_1v3',
+        creatorName: 'Cy',
+      }, 'local.user-cy');
+      await goQuiet(solo.match.matchId, 'user-cy', 200);
+
+      await runtime.sweepDeadlines();
+      const { body: abandoned } = await request('GET', `/matches/${duo.matchId}`, undefined, ADMIN_TOKEN);
+      expect(abandoned.participants.filter((p: any) => p.substitutedFor)).toHaveLength(0);
+      expect(presenceOf(abandoned, 'Ann').isConnected).toBe(false);
+      const { body: single } = await request('GET', `/matches/${solo.match.matchId}`, undefined, ADMIN_TOKEN);
+      expect(presenceOf(single, 'Cy')).toMatchObject({ isAI: false, isConnected: false });
+    });
+  });
+
+  describe('round deadlines', () => {
+    const later = (minutes: number) => ({ now: () => new Date(Date.now() + minutes * 60 * 1000) });
+
+    it('leaves rounds alone before their deadline', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Gus' });
+      await runtime.sweepDeadlines();
+
+      const { body: stored } = await request('GET', `/matches/${match.matchId}`);
+      expect(stored.rounds[0].status).toBe('responding');
+      expect(stored.rounds[0].responses.A).toBeUndefined();
+    });
+
+    it('moves a stalled match through responding and voting', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Hal' });
+      expect(match.rounds[0].startTime).toEqual(expect.any(String));
+
+      // The human never answers
+      await runtime.sweepDeadlines(later(5));
+      const { body: voting } = await request('GET', `/matches/${match.matchId}`);
+      const round = voting.rounds[0];
+      expect(round.responses.A).toBe('(No response)');
+      expect(round.responses.B).not.toBe('(No response)');
+      expect(round.status).toBe('voting');
+      expect(round.votingStartTime).toEqual(expect.any(String));
+
+      // Nobody who answered was asked to vote, so voting closes empty
+      await runtime.sweepDeadlines(later(10));
+      const { body: advanced } = await request('GET', `/matches/${match.matchId}`, undefined, ADMIN_TOKEN);
+      expect(advanced.rounds[0].status).toBe('complete');
+      expect(advanced.rounds[0].scores).toEqual({ A: 0, B: 0, C: 0, D: 0 });
+      expect(advanced.currentRound).toBe(2);
+      expect(advanced.rounds[1].startTime).toEqual(expect.any(String));
+
+      // Later rounds only ask the robots once every human has answered,
+      // so the deadline is what sets them going
+      await runtime.sweepDeadlines(later(15));
+      const { body: second } = await request('GET', `/matches/${match.matchId}`);
+      expect(second.rounds[1].responses.A).toBe('(No response)');
+      expect(second.rounds[1].responses.C).not.toBe('(No response)');
+      expect(second.rounds[1].status).toBe('voting');
+    });
+
+    it('holds robots to their own allowance rather than the round deadline', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Jan' });
+      await request('POST', `/matches/${match.matchId}/responses`, {
+        response: 'Just in time',
+        round: 1,
+      }, match.token);
+      // Rewind to a robot still thinking when the round's own deadline passes
+      await runtime.docClient.send(
+        new UpdateCommand({
+          TableName: 'robot-orchestra-matches',
+          Key: { matchId: match.matchId, timestamp: 0 },
+          UpdateExpression: 'SET #status = :active, rounds[0].#status = :responding, rounds[0].robotsStartTime = :asked '
+            + 'REMOVE rounds[0].responses.B, rounds[0].votingStartTime',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':active': 'round_active',
+            ':responding': 'responding',
+            ':asked': later(5).now().toISOString(),
+          },
+        })
+      );
+
+      await runtime.sweepDeadlines(later(5));
+      const { body: thinking } = await request('GET', `/matches/${match.matchId}`, undefined, ADMIN_TOKEN);
+      expect(thinking.rounds[0].status).toBe('responding');
+      expect(thinking.rounds[0].responses.B).toBeUndefined();
+
+      await runtime.sweepDeadlines(later(7));
+      const { body: expired } = await request('GET', `/matches/${match.matchId}`, undefined, ADMIN_TOKEN);
+      expect(expired.rounds[0].responses.B).toBe('(No response)');
+      expect(expired.rounds[0].status).toBe('voting');
+    });
+
+    it('scores the votes received when voting closes', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Ida' });
+      await request('POST', `/matches/${match.matchId}/responses`, {
+        identity: 'A',
+        response: 'I would rather not say',
+        round: 1,
+      }, match.token);
+      // Drop the robots' vote tasks so only the human's vote arrives
+      await runtime.docClient.send(
+        new UpdateCommand({
+          TableName: 'robot-orchestra-matches',
+          Key: { matchId: match.matchId, timestamp: 0 },
+          UpdateExpression: 'SET rounds[0].votes.#A = :vote',
+          ExpressionAttributeNames: { '#A': 'A' },
+          ExpressionAttributeValues: { ':vote': 'B' },
+        })
+      );
+
+      await runtime.sweepDeadlines(later(5));
+      const { body: stored } = await request('GET', `/matches/${match.matchId}`, undefined, ADMIN_TOKEN);
+      expect(stored.rounds[0].status).toBe('complete');
+      expect(stored.rounds[0].scoring.voteResults).toEqual([
+        { voter: 'A', votedFor: 'B', correct: false, points: 0 },
+      ]);
+      expect(stored.currentRound).toBe(2);
+    });
+  });
+
+  describe('realtime events', () => {
+    it('pushes submissions and the voting transition to connected clients', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Cara' });
+      const received: any[] = [];
+      await runtime.realtime.connect(match.matchId, (event) => received.push(event), match.token);
+
+      await request('POST', `/matches/${match.matchId}/responses`, {
+        identity: 'A',
+        response: 'Something human',
+        round: 1,
+      }, match.token);
+
+      expect(received).toContainEqual({
+        type: 'participant_submitted',
+        matchId: match.matchId,
+        identity: 'A',
+        roundNumber: 1,
+      });
+      const lastSync = received.filter((e) => e.type === 'match_state_sync').pop();
+      expect(lastSync.match.rounds[0].status).toBe('voting');
+    });
+
+    it('announces the next round and the final reveal', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Dev' });
+      const received: any[] = [];
+      await runtime.realtime.connect(match.matchId, (event) => received.push(event));
+
+      for (let round = 1; round <= 5; round++) {
+        await request('POST', `/matches/${match.matchId}/responses`, {
+          identity: 'A',
+          response: `Answer ${round}`,
+          round,
+        }, match.token);
+        await request('POST', `/matches/${match.matchId}/votes`, {
+          voter: 'A',
+          votedFor: 'C',
+          round,
+        }, match.token);
+      }
+
+      const transitions = received.filter((e) => e.type === 'round_transition');
+      expect(transitions.map((e) => e.toRound)).toEqual([2, 3, 4, 5]);
+      const reveal = received.find((e) => e.type === 'reveal_identities');
+      expect(reveal.identities.A).toEqual({ isAI: false, playerName: 'Dev' });
+    });
+
+    it('removes the connection on disconnect', async () => {
+      const { body: match } = await request('POST', '/matches', { playerName: 'Eve' });
+      const connectionId = await runtime.realtime.connect(match.matchId, () => undefined);
+      await runtime.realtime.disconnect(connectionId);
+
+      expect(runtime.docClient.items('robot-orchestra-connections')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { InMemoryDocumentClient } from './src/local/in-memory-document-client';
+import { InMemoryMatchRepository } from './src/local/in-memory-match-repository';
+import {
+  DynamoMatchRepository,
+  InvalidCursorError,
+  MATCH_TABLE_INDEXES,
+  MatchConflictError,
+  MatchRepository,
+} from './src/services/match-repository';
+
+const TABLE_NAME = 'test-matches-table';
+
+interface TestMatch {
+  matchId: string;
+  version?: number;
+  createdAt: string;
+  status: string;
+  inviteCode?: string;
+  participants: { identity: string; userId?: string; substitutedFor?: { userId: string } }[];
+  responses: Record<string, string>;
+}
+
+// Later matches are newer: match-2 was created after match-1
+function testMatch(matchId: string, overrides: Partial<TestMatch> = {}): TestMatch {
+  return {
+    matchId,
+    createdAt: `2025-01-0${matchId.replace(/\D/g, '') || 1}T12:00:00.000Z`,
+    status: 'round_active',
+    participants: [{ identity: 'A', userId: 'user-1' }, { identity: 'B' }],
+    responses: {},
+    ...overrides,
+  };
+}
+
+interface Store {
+  repository: MatchRepository;
+  // Writes a record the way it was stored before versioning
+  seedLegacy(match: TestMatch): void;
+}
+
+const stores: [string, () => Store][] = [
+  ['DynamoDB', () => {
+    const docClient = new InMemoryDocumentClient({
+      [TABLE_NAME]: { partitionKey: 'matchId', sortKey: 'timestamp', indexes: MATCH_TABLE_INDEXES },
+    });
+    return {
+      repository: new DynamoMatchRepository(docClient, TABLE_NAME),
+      seedLegacy: (match) => docClient.seed(TABLE_NAME, [{ ...match, timestamp: 0 }]),
+    };
+  }],
+  ['in-memory', () => {
+    const repository = new InMemoryMatchRepository();
+    return { repository, seedLegacy: (match) => repository.seed([match]) };
+  }],
+];
+
+describe.each(stores)('%s match repository', (_, createStore) => {
+  let store: Store;
+  let repository: MatchRepository;
+
+  beforeEach(async () => {
+    store = createStore();
+    repository = store.repository;
+    await repository.create(testMatch('match-1'));
+  });
+
+  function respond(identity: string, response: string) {
+    return (match: TestMatch) => {
+      match.responses[identity] = response;
+      return true;
+    };
+  }
+
+  it('creates matches at version 1 and refuses to overwrite one', async () => {
+    await expect(repository.get<TestMatch>('match-1')).resolves.toEqual({
+      ...testMatch('match-1'),
+      version: 1,
+    });
+    await expect(
+      repository.create(testMatch('match-1', { responses: { A: 'gone' } }))
+    ).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+  });
+
+  it('bumps the version on every write and skips writes that change nothing', async () => {
+    const update = await repository.update('match-1', respond('A', 'first'));
+    expect(update).toEqual({
+      match: { ...testMatch('match-1'), version: 2, responses: { A: 'first' } },
+      saved: true,
+    });
+
+    const skipped = await repository.update<TestMatch>('match-1', () => false);
+    expect(skipped?.saved).toBe(false);
+    await expect(repository.get('match-1')).resolves.toMatchObject({ version: 2 });
+  });
+
+  it('reapplies a change on top of a write that landed after its read', async () => {
+    const attempts: number[] = [];
+    const update = await repository.update<TestMatch>('match-1', async (match) => {
+      attempts.push(match.version!);
+      if (attempts.length === 1) {
+        // Another handler records its response between our read and write
+        await repository.update('match-1', respond('B', 'robot'));
+      }
+      match.responses.A = 'human';
+      return true;
+    });
+
+    expect(attempts).toEqual([1, 2]);
+    expect(update?.match).toMatchObject({
+      version: 3,
+      responses: { A: 'human', B: 'robot' },
+    });
+  });
+
+  it('keeps every change when writers race', async () => {
+    await Promise.all(
+      ['A', 'B', 'C', 'D'].map((identity) =>
+        repository.update('match-1', respond(identity, `from ${identity}`))
+      )
+    );
+
+    const stored = await repository.get<TestMatch>('match-1');
+    expect(stored?.responses).toEqual({
+      A: 'from A',
+      B: 'from B',
+      C: 'from C',
+      D: 'from D',
+    });
+    expect(stored?.version).toBe(5);
+  });
+
+  it('versions records written before versioning on their first update', async () => {
+    store.seedLegacy(testMatch('legacy', { responses: { A: 'old' } }));
+
+    const update = await repository.update('legacy', respond('B', 'new'));
+    expect(update?.match).toMatchObject({
+      version: 1,
+      responses: { A: 'old', B: 'new' },
+    });
+  });
+
+  it('gives up when the match never stops changing', async () => {
+    await expect(
+      repository.update<TestMatch>('match-1', async (match) => {
+        await repository.update('match-1', respond('B', 'again'));
+        match.responses.A = 'never lands';
+        return true;
+      })
+    ).rejects.toBeInstanceOf(MatchConflictError);
+
+    const stored = await repository.get<TestMatch>('match-1');
+    expect(stored?.responses.A).toBeUndefined();
+  });
+
+  it('resolves to null for a missing match', async () => {
+    await expect(repository.get('missing')).resolves.toBeNull();
+    await expect(repository.update('missing', respond('A', 'hi'))).resolves.toBeNull();
+  });
+
+  it('lists matches by status and by seated user, and finds invite codes', async () => {
+    await repository.create(testMatch('match-2', { status: 'completed', inviteCode: 'ABC123' }));
+    await repository.create(
+      testMatch('match-3', { status: 'waiting', participants: [{ identity: 'A', userId: 'user-2' }] })
+    );
+
+    const ids = (matches: TestMatch[]) => matches.map((m) => m.matchId);
+    expect(ids(await repository.listByStatus<TestMatch>(['round_active', 'waiting']))).toEqual([
+      'match-3',
+      'match-1',
+    ]);
+    await expect(repository.countByStatus('completed')).resolves.toBe(1);
+    expect(ids((await repository.listByUser<TestMatch>('user-1')).matches)).toEqual(['match-2', 'match-1']);
+    await expect(repository.findByInviteCode('ABC123')).resolves.toMatchObject({ matchId: 'match-2' });
+    await expect(repository.findByInviteCode('NOPE00')).resolves.toBeNull();
+  });
+
+  it('pages through a user\'s matches, including ones they joined later', async () => {
+    await repository.create(testMatch('match-2'));
+    await repository.create(testMatch('match-3', { participants: [{ identity: 'A', userId: 'user-2' }] }));
+    await repository.update<TestMatch>('match-3', (match) => {
+      match.participants.push({ identity: 'B', userId: 'user-1' });
+      return true;
+    });
+
+    const first = await repository.listByUser<TestMatch>('user-1', { limit: 2 });
+    expect(first.matches.map((m) => m.matchId)).toEqual(['match-3', 'match-2']);
+    expect(first.cursor).toEqual(expect.any(String));
+
+    const second = await repository.listByUser<TestMatch>('user-1', { limit: 2, cursor: first.cursor });
+    expect(second.matches.map((m) => m.matchId)).toEqual(['match-1']);
+    expect(second.cursor).toBeUndefined();
+
+    await expect(repository.listByUser('user-1', { cursor: 'not a cursor' })).rejects.toBeInstanceOf(
+      InvalidCursorError
+    );
+  });
+
+  it('lists a match once after a stand-in hands the seat back', async () => {
+    await repository.create(testMatch('match-2'));
+    await repository.update<TestMatch>('match-2', (match) => {
+      match.participants[0] = { identity: 'A', userId: 'ai-1', substitutedFor: { userId: 'user-1' } };
+      return true;
+    });
+    await repository.update<TestMatch>('match-2', (match) => {
+      match.participants[0] = { identity: 'A', userId: 'user-1' };
+      return true;
+    });
+
+    const listed: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await repository.listByUser<TestMatch>('user-1', { limit: 1, cursor });
+      listed.push(...page.matches.map((m) => m.matchId));
+      cursor = page.cursor;
+    } while (cursor);
+    expect(listed).toEqual(['match-2', 'match-1']);
+    expect((await repository.listByUser('ai-1')).matches).toEqual([]);
+  });
+
+  it('deletes a match along with its seats', async () => {
+    await repository.create(testMatch('match-2', { inviteCode: 'ABC123' }));
+    await repository.delete('match-2');
+    await repository.delete('missing');
+
+    await expect(repository.get('match-2')).resolves.toBeNull();
+    await expect(repository.findByInviteCode('ABC123')).resolves.toBeNull();
+    expect((await repository.listByUser<TestMatch>('user-1')).matches.map((m) => m.matchId)).toEqual(['match-1']);
+  });
+});
@@ -28,6 +28,7 @@ jest.mock('@aws-sdk/lib-dynamodb', () => ({
   GetCommand: jest.fn((params) => ({ input: params })),
   UpdateCommand: jest.fn((params) => ({ input: params })),
   PutCommand: jest.fn((params) => ({ input: params })),
+  QueryCommand: jest.fn((params) => ({ input: params })),
 }));
 
 jest.mock('@aws-sdk/client-sqs', () => ({
@@ -39,11 +40,18 @@ jest.mock('@aws-sdk/client-sqs', () => ({
 process.env.DYNAMODB_TABLE_NAME = 'test-matches-table';
 process.env.SQS_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue';
 process.env.AI_SERVICE_FUNCTION_NAME = 'test-ai-service';
+process.env.LOCAL_AUTH = 'true'; // Signed-in callers present local.<userId>
+
 
 // Now import handler after mocks are set up
 import { handler } from './match-service';
+import { issueGuestToken } from './src/services/player-auth';
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 
+function bearer(token: string) {
+  return { Authorization: `Bearer ${token}` };
+}
+
 describe('Match Service Lambda', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -84,6 +92,15 @@ describe('Match Service Lambda', () => {
         resource: '',
       };
 
+      // Mock the AI users query the robots are bound to
+      mockDocClient.send.mockResolvedValueOnce({
+        Items: [
+          { userId: 'ai-sundown', displayName: 'Sundown', personality: 'sundown', userType: 'ai', isActive: true },
+          { userId: 'ai-bandit', displayName: 'Bandit', personality: 'bandit', userType: 'ai', isActive: true },
+          { userId: 'ai-maverick', displayName: 'Maverick', personality: 'maverick', userType: 'ai', isActive: true },
+        ],
+      });
+
       // Mock DynamoDB put operation
       mockDocClient.send.mockResolvedValueOnce({});
       
@@ -118,25 +135,12 @@ describe('Match Service Lambda', () => {
             playerName: 'TestPlayer',
             isConnected: true,
           },
-          {
-            identity: 'B',
-            isAI: true,
-            playerName: 'Sundown',
-            isConnected: true,
-          },
-          {
-            identity: 'C',
-            isAI: true,
-            playerName: 'Bandit',
-            isConnected: true,
-          },
-          {
-            identity: 'D',
-            isAI: true,
-            playerName: 'Maverick',
-            isConnected: true,
-          },
+          { isConnected: true },
+          { isConnected: true },
+          { isConnected: true },
         ],
+        viewerIdentity: 'A',
+        token: expect.any(String),
         rounds: [
           {
             roundNumber: 1,
@@ -151,6 +155,23 @@ describe('Match Service Lambda', () => {
         updatedAt: expect.any(String),
       });
 
+      // The creator can't tell which seats are robots
+      for (const other of body.participants.slice(1)) {
+        expect(other).not.toHaveProperty('identity');
+        expect(other).not.toHaveProperty('isAI');
+        expect(other).not.toHaveProperty('userId');
+      }
+
+      // Each robot plays a different AI user's persona
+      const putCall = mockDocClient.send.mock.calls.find(([command]) => command.input.Item?.participants);
+      const robots = putCall![0].input.Item.participants.slice(1);
+      expect(robots.map((p: any) => p.identity)).toEqual(['B', 'C', 'D']);
+      expect(robots.map((p: any) => p.userId).sort()).toEqual(['ai-bandit', 'ai-maverick', 'ai-sundown']);
+      for (const robot of robots) {
+        expect(robot.userId).toBe(`ai-${robot.personality}`);
+        expect(robot.playerName.toLowerCase()).toBe(robot.personality);
+      }
+
       // Verify DynamoDB was called
       expect(mockDocClient.send).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -191,42 +212,37 @@ describe('Match Service Lambda', () => {
   });
 
   describe('GET /matches/{matchId} - Get Match', () => {
-    it('should return match details from DynamoDB', async () => {
-      const matchId = 'match-123';
-      const mockMatch = {
-        matchId,
-        status: 'round_active',
-        currentRound: 1,
-        totalRounds: 5,
-        participants: [
-          { identity: 'A', playerName: 'TestPlayer', isConnected: true },
-          { identity: 'B', isAI: true, isConnected: true },
-          { identity: 'C', isAI: true, isConnected: true },
-          { identity: 'D', isAI: true, isConnected: true },
-        ],
-        rounds: [{
-          roundNumber: 1,
-          prompt: 'What sound does loneliness make?',
-          responses: { A: 'Silence' },
-          votes: {},
-          scores: {},
-          status: 'responding',
-        }],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      // Mock DynamoDB get operation
-      mockDocClient.send.mockResolvedValueOnce({
-        Item: mockMatch,
-      });
-
-      const event: APIGatewayProxyEvent = {
+    const matchId = 'match-123';
+    const mockMatch = {
+      matchId,
+      status: 'round_active',
+      currentRound: 1,
+      totalRounds: 5,
+      participants: [
+        { identity: 'A', playerName: 'TestPlayer', isConnected: true, userId: 'user-1' },
+        { identity: 'B', isAI: true, isConnected: true },
+        { identity: 'C', isAI: true, isConnected: true },
+        { identity: 'D', isAI: true, isConnected: true },
+      ],
+      rounds: [{
+        roundNumber: 1,
+        prompt: 'What sound does loneliness make?',
+        responses: { A: 'Silence' },
+        votes: {},
+        scores: {},
+        status: 'responding',
+      }],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    function getMatchEvent(token: string): APIGatewayProxyEvent {
+      return {
         httpMethod: 'GET',
         path: `/matches/${matchId}`,
         pathParameters: { matchId },
         body: null,
-        headers: {},
+        headers: bearer(token),
         multiValueHeaders: {},
         isBase64Encoded: false,
         queryStringParameters: null,
@@ -235,12 +251,29 @@ describe('Match Service Lambda', () => {
         requestContext: {} as any,
         resource: '',
       };
+    }
 
-      const response = await handler(event) as APIGatewayProxyResult;
+    it('should return match details from DynamoDB with other seats redacted', async () => {
+      // Mock DynamoDB get operation
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: mockMatch,
+      });
+
+      const response = await handler(getMatchEvent(issueGuestToken(matchId, 'user-1'))) as APIGatewayProxyResult;
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
-      expect(body).toEqual(mockMatch);
+      expect(body).toEqual({
+        ...mockMatch,
+        participants: [
+          { ...mockMatch.participants[0], presence: 'online' },
+          { isConnected: true, presence: 'online' },
+          { isConnected: true, presence: 'online' },
+          { isConnected: true, presence: 'online' },
+        ],
+        viewerIdentity: 'A',
+        requiredVotePicks: 1,
+      });
 
       // Verify DynamoDB was called correctly
       expect(mockDocClient.send).toHaveBeenCalledWith(
@@ -253,6 +286,36 @@ describe('Match Service Lambda', () => {
       );
     });
 
+    it('should return the full match to admins', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: mockMatch,
+      });
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: { userId: 'admin-1', isAdmin: true },
+      });
+
+      const response = await handler(getMatchEvent('local.admin-1')) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        ...mockMatch,
+        participants: mockMatch.participants.map((p) => ({ ...p, presence: 'online' })),
+      });
+    });
+
+    it('should never treat a guest token as an admin', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: mockMatch,
+      });
+
+      // Guests choose their own userId, so one claiming an admin's is not looked up
+      const response = await handler(getMatchEvent(issueGuestToken(matchId, 'admin-1'))) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).participants.some((p: any) => 'isAI' in p)).toBe(false);
+      expect(mockDocClient.send).toHaveBeenCalledTimes(1);
+    });
+
     it('should return 404 if match not found', async () => {
       // Mock DynamoDB get operation returning no item
       mockDocClient.send.mockResolvedValueOnce({ Item: null });
@@ -289,7 +352,7 @@ describe('Match Service Lambda', () => {
         currentRound: 1,
         totalRounds: 5,
         participants: [
-          { identity: 'A', playerName: 'TestPlayer', isConnected: true },
+          { identity: 'A', playerName: 'TestPlayer', isConnected: true, userId: 'user-1' },
           { identity: 'B', isAI: true, isConnected: true },
           { identity: 'C', isAI: true, isConnected: true },
           { identity: 'D', isAI: true, isConnected: true },
@@ -311,7 +374,7 @@ describe('Match Service Lambda', () => {
         Item: mockMatch,
       });
 
-      // Mock DynamoDB update operation
+      // Mock DynamoDB conditional write
       mockDocClient.send.mockResolvedValueOnce({});
       
       // Mock DynamoDB get operation (for verifying human response in triggerRobotResponses)
@@ -337,7 +400,7 @@ describe('Match Service Lambda', () => {
           response: 'The echo of empty rooms',
           round: 1,
         }),
-        headers: {},
+        headers: bearer(issueGuestToken(matchId, 'user-1')),
         multiValueHeaders: {},
         isBase64Encoded: false,
         queryStringParameters: null,
@@ -353,13 +416,18 @@ describe('Match Service Lambda', () => {
       const body = JSON.parse(response.body);
       expect(body.success).toBe(true);
 
-      // Verify DynamoDB update was called with timestamp key
+      // Verify the match record was written back only if still unversioned
       expect(mockDocClient.send).toHaveBeenCalledWith(
         expect.objectContaining({
           input: expect.objectContaining({
             TableName: 'test-matches-table',
-            Key: { matchId, timestamp: 0 },
-            UpdateExpression: expect.stringContaining('rounds = :rounds'),
+            Item: expect.objectContaining({
+              matchId,
+              timestamp: 0,
+              version: 1,
+              rounds: [expect.objectContaining({ responses: { A: 'The echo of empty rooms' } })],
+            }),
+            ConditionExpression: 'attribute_exists(matchId) AND attribute_not_exists(#version)',
           }),
         })
       );
@@ -397,7 +465,105 @@ describe('Match Service Lambda', () => {
 
       expect(response.statusCode).toBe(400);
       const body = JSON.parse(response.body);
-      expect(body.error).toBe('matchId, identity, response, and round are required');
+      expect(body.error).toBe('matchId, response, and round are required');
+    });
+  });
+
+  describe('Player authentication', () => {
+    const matchId = 'match-123';
+    const mockMatch = {
+      matchId,
+      status: 'round_active',
+      currentRound: 1,
+      totalRounds: 5,
+      participants: [
+        { identity: 'A', playerName: 'Ann', isConnected: true, userId: 'user-ann' },
+        { identity: 'B', playerName: 'Ben', isConnected: true, userId: 'user-ben' },
+        { identity: 'C', isAI: true, isConnected: true },
+        { identity: 'D', isAI: true, isConnected: true },
+      ],
+      rounds: [{
+        roundNumber: 1,
+        prompt: 'What sound does loneliness make?',
+        responses: {},
+        votes: {},
+        scores: {},
+        status: 'responding',
+      }],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    function responseEvent(body: object, headers: Record<string, string>): APIGatewayProxyEvent {
+      return {
+        httpMethod: 'POST',
+        path: `/matches/${matchId}/responses`,
+        pathParameters: { matchId },
+        body: JSON.stringify({ response: 'Silence', round: 1, ...body }),
+        headers,
+        multiValueHeaders: {},
+        isBase64Encoded: false,
+        queryStringParameters: null,
+        multiValueQueryStringParameters: null,
+        stageVariables: null,
+        requestContext: {} as any,
+        resource: '',
+      };
+    }
+
+    it('should return 401 without a token', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: mockMatch });
+
+      const response = await handler(responseEvent({ identity: 'A' }, {})) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a response for another seat with 403', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: mockMatch });
+
+      const response = await handler(
+        responseEvent({ identity: 'B' }, bearer(issueGuestToken(matchId, 'user-ann')))
+      ) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toBe('You can only act for your own seat, not B');
+      expect(mockDocClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject tokens issued for another match', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: mockMatch });
+
+      const response = await handler(
+        responseEvent({}, bearer(issueGuestToken('match-other', 'user-ann')))
+      ) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toBe('You are not playing in this match');
+    });
+
+    it('should reject tampered tokens', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: mockMatch });
+      const signature = issueGuestToken(matchId, 'user-ann').split('.')[1];
+      const forged = Buffer.from(JSON.stringify({ matchId, userId: 'user-ben', iat: 0 })).toString('base64url');
+
+      const response = await handler(
+        responseEvent({}, bearer(`${forged}.${signature}`))
+      ) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should take the seat from the token when the body names none', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: mockMatch });
+      mockDocClient.send.mockResolvedValue({});
+
+      const response = await handler(
+        responseEvent({}, bearer('local.user-ben'))
+      ) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).match.rounds[0].responses).toEqual({ B: 'Silence' });
     });
   });
 
@@ -410,7 +576,7 @@ describe('Match Service Lambda', () => {
         currentRound: 1,
         totalRounds: 5,
         participants: [
-          { identity: 'A', playerName: 'TestPlayer', isConnected: true },
+          { identity: 'A', playerName: 'TestPlayer', isConnected: true, userId: 'user-1' },
           { identity: 'B', isAI: true, isConnected: true },
           { identity: 'C', isAI: true, isConnected: true },
           { identity: 'D', isAI: true, isConnected: true },
@@ -419,10 +585,10 @@ describe('Match Service Lambda', () => {
           roundNumber: 1,
           prompt: 'What sound does loneliness make?',
           responses: {
-            A: 'Silence',
             B: 'A distant echo',
             C: 'The ticking of a clock',
-            // D will be added by this request
+            D: 'Silence',
+            // A will be added by this request
           },
           votes: {},
           scores: {},
@@ -445,11 +611,11 @@ describe('Match Service Lambda', () => {
         path: `/matches/${matchId}/responses`,
         pathParameters: { matchId },
         body: JSON.stringify({
-          identity: 'D',
+          identity: 'A',
           response: 'The hum of an empty fridge',
           round: 1,
         }),
-        headers: {},
+        headers: bearer(issueGuestToken(matchId, 'user-1')),
         multiValueHeaders: {},
         isBase64Encoded: false,
         queryStringParameters: null,
@@ -481,7 +647,7 @@ describe('Match Service Lambda', () => {
         currentRound: 5,
         totalRounds: 5,
         participants: [
-          { identity: 'A', playerName: 'TestPlayer', isConnected: true },
+          { identity: 'A', playerName: 'TestPlayer', isConnected: true, userId: 'user-1' },
           { identity: 'B', isAI: true, isConnected: true },
           { identity: 'C', isAI: true, isConnected: true },
           { identity: 'D', isAI: true, isConnected: true },
@@ -490,7 +656,7 @@ describe('Match Service Lambda', () => {
           roundNumber: i + 1,
           prompt: 'Test prompt',
           responses: { A: 'Response A', B: 'Response B', C: 'Response C', D: 'Response D' },
-          votes: i < 4 ? { A: 'B', B: 'C', C: 'D', D: 'A' } : { A: 'B', B: 'C', C: 'D' }, // Round 5 missing one vote
+          votes: i < 4 ? { A: 'B', B: 'C', C: 'D', D: 'A' } : { B: 'C', C: 'D', D: 'A' }, // Round 5 missing the human's vote
           scores: {},
           status: i < 4 ? 'complete' : 'voting',
         })),
@@ -511,11 +677,11 @@ describe('Match Service Lambda', () => {
         path: `/matches/${matchId}/votes`,
         pathParameters: { matchId },
         body: JSON.stringify({
-          voter: 'D',
-          votedFor: 'A',
+          voter: 'A',
+          votedFor: 'B',
           round: 5,
         }),
-        headers: {},
+        headers: bearer(issueGuestToken(matchId, 'user-1')),
         multiValueHeaders: {},
         isBase64Encoded: false,
         queryStringParameters: null,
@@ -535,6 +701,119 @@ describe('Match Service Lambda', () => {
     });
   });
 
+  describe('Multi-target Voting', () => {
+    const matchId = 'match-trio';
+
+    function trioMatch(votes: Record<string, string | string[]>) {
+      return {
+        matchId,
+        status: 'round_voting',
+        templateType: 'trio_3v3',
+        currentRound: 1,
+        totalRounds: 1,
+        totalParticipants: 6,
+        participants: [
+          { identity: 'A', playerName: 'Ann', isConnected: true, userId: 'user-ann' },
+          { identity: 'B', playerName: 'Ben', isConnected: true },
+          { identity: 'C', playerName: 'Cat', isConnected: true },
+          { identity: 'D', isAI: true, isConnected: true },
+          { identity: 'E', isAI: true, isConnected: true },
+          { identity: 'F', isAI: true, isConnected: true },
+        ],
+        rounds: [{
+          roundNumber: 1,
+          prompt: 'Test prompt',
+          responses: { A: 'a', B: 'b', C: 'c', D: 'd', E: 'e', F: 'f' },
+          votes,
+          scores: {},
+          status: 'voting',
+        }],
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+
+    function voteEvent(votedFor: string | string[]): APIGatewayProxyEvent {
+      return {
+        httpMethod: 'POST',
+        path: `/matches/${matchId}/votes`,
+        pathParameters: { matchId },
+        body: JSON.stringify({ voter: 'A', votedFor, round: 1 }),
+        headers: bearer(issueGuestToken(matchId, 'user-ann')),
+        multiValueHeaders: {},
+        isBase64Encoded: false,
+        queryStringParameters: null,
+        multiValueQueryStringParameters: null,
+        stageVariables: null,
+        requestContext: {} as any,
+        resource: '',
+      };
+    }
+
+    it('should reject a vote that does not name every other human', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: trioMatch({}) });
+
+      const response = await handler(voteEvent('B')) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Vote must name 2 suspected humans');
+    });
+
+    it('should reject a vote for yourself', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: trioMatch({}) });
+
+      const response = await handler(voteEvent(['A', 'B'])) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('You cannot vote for yourself');
+    });
+
+    it('should queue robot votes once every human has voted', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: trioMatch({ B: ['A', 'D'], C: ['A', 'B'] }),
+      });
+      mockDocClient.send.mockResolvedValueOnce({});
+
+      const response = await handler(voteEvent(['B', 'E'])) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(200);
+      const round = JSON.parse(response.body).match.rounds[0];
+      expect(round.status).toBe('voting');
+      expect(round.votes.D).toBeUndefined();
+
+      const queued = mockSQSClient.send.mock.calls.map(([command]) => JSON.parse(command.input.MessageBody));
+      expect(queued).toEqual(['D', 'E', 'F'].map((robotId) => expect.objectContaining({
+        type: 'prepare_vote',
+        matchId,
+        roundNumber: 1,
+        robotId,
+      })));
+    });
+
+    it('should store every pick and credit each correct one', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: trioMatch({
+          B: ['A', 'D'],
+          C: ['A', 'B'],
+          D: ['A', 'B', 'C'],
+          E: ['A', 'D', 'F'],
+          F: ['D', 'E', 'C'],
+        }),
+      });
+      mockDocClient.send.mockResolvedValueOnce({});
+
+      const response = await handler(voteEvent(['B', 'E'])) as APIGatewayProxyResult;
+
+      expect(response.statusCode).toBe(200);
+      const round = JSON.parse(response.body).match.rounds[0];
+      expect(round.votes.A).toEqual(['B', 'E']);
+      expect(round.status).toBe('complete');
+      const picksByA = round.scoring.voteResults.filter((v: any) => v.voter === 'A');
+      expect(picksByA.map((v: any) => v.correct)).toEqual([true, false]);
+      expect(round.scores.D).toBe(300);
+    });
+  });
+
   describe('CORS Headers', () => {
     it('should include CORS headers in all responses', async () => {
       const event: APIGatewayProxyEvent = {
@@ -559,8 +838,8 @@ describe('Match Service Lambda', () => {
 
       expect(response.headers).toMatchObject({
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
-        'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET,POST,PATCH,DELETE,OPTIONS',
       });
     });
   });
@@ -4,55 +4,130 @@ import {
   SQSEvent,
   SQSBatchResponse,
   SQSBatchItemFailure,
+  ScheduledEvent,
 } from "aws-lambda";
 import { v4 as uuidv4 } from "uuid";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { SendMessageCommand } from "@aws-sdk/client-sqs";
+import { InvokeCommand } from "@aws-sdk/client-lambda";
 import {
-  DynamoDBDocumentClient,
-  GetCommand,
-  UpdateCommand,
-  PutCommand,
-  ScanCommand,
-} from "@aws-sdk/lib-dynamodb";
-import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
-import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+  createDocumentClient,
+  createLambdaClient,
+  createSQSClient,
+} from "./src/utils/aws-clients";
+import { publishMatchEvents } from "./src/services/realtime-publisher";
+import { ScoringEngine } from "./src/services/scoring-engine";
+import { DisplayNameTakenError, UserService } from "./src/services/user-service";
+import {
+  SPECTATOR_ID_PREFIX,
+  listAudienceGuesses,
+  recordAudienceGuess,
+  summarizeAudience,
+} from "./src/services/audience-service";
+import {
+  MultiHumanMatchService,
+  findMatchToWatch,
+} from "./src/services/multi-human-match-service";
+import {
+  InvalidMatchConfigError,
+  MatchTemplateService,
+  MatchTemplateType,
+} from "./src/services/match-template-service";
+import {
+  PromptLibrary,
+  chooseRoundPrompt,
+  summarizePack,
+} from "./src/services/prompt-library";
+import {
+  MatchmakingService,
+  TicketClaimedError,
+  isQueueable,
+} from "./src/services/matchmaking-service";
+import {
+  appendMatchEvents,
+  listMatchEvents,
+} from "./src/services/match-event-log";
+import {
+  findSeat,
+  isAdminCaller,
+  projectMatch,
+  resolveMatchViewer,
+} from "./src/services/match-projection";
+import {
+  DEFAULT_PAGE_SIZE,
+  InvalidCursorError,
+  MatchConflictError,
+  MatchUpdate,
+  getMatchRepository,
+} from "./src/services/match-repository";
+import { PlayerStatsService, emptyStats } from "./src/services/player-stats";
+import { displayNameProblem } from "./src/services/display-names";
+import { MASKED_RESPONSE, ModerationService } from "./src/services/moderation-service";
+import { RatingService, boardKey, seasonOf } from "./src/services/rating-service";
+import {
+  PlayerCaller,
+  authenticateRequest,
+  callerUserIdFor,
+  issueGuestToken,
+} from "./src/services/player-auth";
+import {
+  HEARTBEAT_INTERVAL_SECONDS,
+  isDueForSubstitution,
+  presenceOf,
+} from "./src/services/presence";
+import {
+  Clock,
+  DEFAULT_RESPONSE_TIME_LIMIT,
+  DEFAULT_VOTE_TIME_LIMIT,
+  NO_RESPONSE,
+  isRobotAllowanceOver,
+  isRoundOverdue,
+  systemClock,
+} from "./src/services/round-deadlines";
+import type { RealtimeEvent } from "./shared/schemas/events.schema";
+import { MatchConfigOverrideSchema } from "./shared/schemas/game.schema";
+import type { MatchConfig } from "./shared/schemas/game.schema";
+import type { MatchLogEvent } from "./shared/schemas/match-log.schema";
+import {
+  getRequiredVotePicks,
+  getVotePicks,
+} from "./shared/schemas/match.schema";
+import type {
+  Match as SharedMatch,
+  MatchAnalysis,
+  MatchResult,
+  RoundScoring,
+  SubstitutedPlayer,
+} from "./shared/schemas/match.schema";
+import { UpdateProfileRequestSchema } from "./shared/schemas/user.schema";
+import type { PlayerProfile, User } from "./shared/schemas/user.schema";
+import { RatingKindSchema, SeasonSchema } from "./shared/schemas/rating.schema";
+import { ReportResponseRequestSchema } from "./shared/schemas/moderation.schema";
 // Define Identity type inline to avoid import issues
 type Identity = "A" | "B" | "C" | "D";
 
 // Initialize AWS clients
-const dynamoClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
-const sqsClient = new SQSClient({});
-const lambdaClient = new LambdaClient({});
+const sqsClient = createSQSClient();
+const lambdaClient = createLambdaClient();
 
 // Get environment variables
-const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || "robot-orchestra-matches";
 const SQS_QUEUE_URL = process.env.SQS_QUEUE_URL || "";
 const AI_SERVICE_FUNCTION_NAME =
   process.env.AI_SERVICE_FUNCTION_NAME || "robot-orchestra-ai-service";
 const USERS_TABLE_NAME = process.env.USERS_TABLE_NAME || "robot-orchestra-users";
+const MATCHMAKING_TABLE_NAME =
+  process.env.MATCHMAKING_TABLE_NAME || "robot-orchestra-matchmaking";
 
-// Sample prompts for the game
-const PROMPTS = [
-  "Sample Prompt One?",
-  "Sample Prompt Two?",
-  "Sample Prompt again...",
-];
-
-function getRandomPrompt(): string {
-  return PROMPTS[Math.floor(Math.random() * PROMPTS.length)];
-}
+// Larger history pages are fetched a page at a time
+const MAX_HISTORY_PAGE_SIZE = 50;
 
-// Generate AI prompt using the AI service
+// Ask the AI service for a round prompt, steered by the pack's theme if any.
+// Null when it fails; chooseRoundPrompt then falls back to the built-in pack.
 async function generateAIPrompt(
   round: number,
   previousPrompts: string[] = [],
-  previousResponses: Record<string, string>[] = []
-): Promise<string> {
+  previousResponses: Record<string, string>[] = [],
+  theme?: string
+): Promise<string | null> {
   try {
     console.log("Generating AI prompt for round", round);
 
@@ -66,6 +141,7 @@ async function generateAIPrompt(
           round,
           previousPrompts,
           responses: previousResponses,
+          theme,
         },
         options: {
           temperature: 0.9,
@@ -85,15 +161,14 @@ async function generateAIPrompt(
     if (result.statusCode === 200) {
       const body = JSON.parse(result.body);
       console.log("AI prompt generated:", body.result?.prompt || body.prompt);
-      return body.result?.prompt || body.prompt;
+      return body.result?.prompt || body.prompt || null;
     } else {
       console.error("AI service returned error:", result);
       throw new Error("AI service error");
     }
   } catch (error) {
     console.error("Error generating AI prompt:", error);
-    // Fall back to random prompt
-    return getRandomPrompt();
+    return null;
   }
 }
 
@@ -138,7 +213,8 @@ function shuffleArray<T>(array: T[], seed: string): T[] {
 async function triggerRobotResponses(
   matchId: string,
   roundNumber: number,
-  prompt: string
+  prompt: string,
+  clock: Clock = systemClock
 ): Promise<void> {
   console.log("triggerRobotResponses called with:", {
     matchId,
@@ -147,25 +223,19 @@ async function triggerRobotResponses(
   });
   console.log("SQS_QUEUE_URL:", SQS_QUEUE_URL);
 
-  if (!SQS_QUEUE_URL) {
-    console.error("SQS_QUEUE_URL is not set!");
-    return;
-  }
-
-  // Verify human response is in DynamoDB before triggering robots
+  // Robots' answers are due a while after this, not at the round's deadline,
+  // so note when they were asked. The stored match also confirms the human
+  // response is in DynamoDB and names the AI participants to ask.
+  let aiIdentities: string[] = ["B", "C", "D"]; // Default for backward compatibility
   try {
-    const verifyResult = await docClient.send(
-      new GetCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-      })
-    );
-
-    if (verifyResult.Item) {
-      const verifyMatch = verifyResult.Item as Match;
+    const update = await getMatchRepository().update<Match>(matchId, (match) => {
+      const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+      if (round?.status !== "responding") return false;
+      round.robotsStartTime = clock.now().toISOString();
+      return true;
+    });
+    const verifyMatch = update?.match;
+    if (verifyMatch) {
       const verifyRound = verifyMatch.rounds.find(
         (r) => r.roundNumber === roundNumber
       );
@@ -188,29 +258,9 @@ async function triggerRobotResponses(
       } else {
         console.log(`[VERIFY] Human responses in DB: ${humanResponsesInDb.join(", ")}`);
       }
-    }
-  } catch (error) {
-    console.error(
-      "[ERROR] Failed to verify human response in DynamoDB:",
-      error
-    );
-  }
 
-  // Fetch match to determine AI participants dynamically
-  let aiIdentities: string[] = ["B", "C", "D"]; // Default for backward compatibility
-  
-  try {
-    const matchResult = await docClient.send(
-      new GetCommand({
-        TableName: TABLE_NAME,
-        Key: { matchId, timestamp: 0 },
-      })
-    );
-    
-    if (matchResult.Item) {
-      const matchData = matchResult.Item as Match;
       // Get identities of AI participants only
-      aiIdentities = matchData.participants
+      aiIdentities = verifyMatch.participants
         .filter(p => p.isAI !== false) // Note: isAI might be undefined for older matches
         .map(p => p.identity);
       console.log(`Found AI participants: ${aiIdentities.join(", ")}`);
@@ -219,6 +269,11 @@ async function triggerRobotResponses(
     console.error("Failed to fetch AI participants, using defaults:", error);
   }
 
+  if (!SQS_QUEUE_URL) {
+    console.error("SQS_QUEUE_URL is not set!");
+    return;
+  }
+
   for (const robotId of aiIdentities) {
     const message = {
       matchId,
@@ -246,7 +301,7 @@ async function triggerRobotResponses(
 
 interface Match {
   matchId: string;
-  status: "waiting" | "round_active" | "round_voting" | "completed";
+  status: "waiting_for_players" | "waiting" | "round_active" | "round_voting" | "completed";
   currentRound: number;
   totalRounds: number;
   totalParticipants?: number;
@@ -254,7 +309,14 @@ interface Match {
   rounds: Round[];
   createdAt: string;
   updatedAt: string;
+  completedAt?: string;
+  templateType?: string;
   responseTimeLimit?: number;
+  voteTimeLimit?: number;
+  config?: MatchConfig;
+  result?: MatchResult;
+  analysis?: MatchAnalysis;
+  version?: number;
 }
 
 interface Participant {
@@ -262,53 +324,407 @@ interface Participant {
   isAI?: boolean;
   playerName?: string;
   isConnected: boolean;
+  userId?: string; // Robots: the AI user whose persona they play
+  personality?: string;
+  displayName?: string;
+  lastSeen?: string;
+  substitutedFor?: SubstitutedPlayer; // Set while an AI stands in for a disconnected human
 }
 
 interface Round {
   roundNumber: number;
   prompt: string;
   responses: Record<string, string>;
-  votes: Record<string, string>;
+  votes: Record<string, string | string[]>; // One identity, or one per other human
   scores: Record<string, number>;
+  scoring?: RoundScoring;
   status: "waiting" | "responding" | "voting" | "complete";
   presentationOrder?: Identity[];
+  startTime?: string;
+  votingStartTime?: string;
+  robotsStartTime?: string;
 }
 
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "Content-Type",
-  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Methods": "GET,POST,PATCH,DELETE,OPTIONS",
 };
 
-// Scoring constants
-const POINTS_CORRECT_VOTE = 100;
-const POINTS_INCORRECT_VOTE = 0;
+// Push a change to clients watching the match. A full match_state_sync always
+// goes last so a client that missed an earlier event still converges.
+async function publishMatchUpdate(
+  match: Match,
+  events: RealtimeEvent[] = []
+): Promise<void> {
+  await publishMatchEvents(match.matchId, [
+    ...events,
+    { type: "match_state_sync", match: match as unknown as SharedMatch },
+  ]);
+}
 
-// Calculate scores for a round
-function calculateRoundScores(round: Round, participants: Participant[]): Record<string, number> {
-  const scores: Record<string, number> = {};
-  
-  // Find who the human participant is
-  const humanParticipant = participants.find(p => !p.isAI);
-  if (!humanParticipant) {
-    console.error("No human participant found");
-    return scores;
+function errorResponse(statusCode: number, error: string): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: CORS_HEADERS,
+    body: JSON.stringify({ error }),
+  };
+}
+
+// A vote must name exactly as many suspected humans as there are other humans
+function validateVotePicks(
+  match: Match,
+  voter: string,
+  picks: string[]
+): string | null {
+  const required = getRequiredVotePicks(match.participants, voter);
+  if (picks.length !== required) {
+    return `Vote must name ${required} suspected human${required === 1 ? "" : "s"}`;
   }
-  
-  const correctAnswer = humanParticipant.identity;
-  
-  // Calculate score for each vote
-  for (const [voter, votedFor] of Object.entries(round.votes)) {
-    if (votedFor === correctAnswer) {
-      scores[voter] = POINTS_CORRECT_VOTE;
-    } else {
-      scores[voter] = POINTS_INCORRECT_VOTE;
+  if (new Set(picks).size !== picks.length) {
+    return "Vote cannot name the same participant twice";
+  }
+  if (picks.includes(voter)) {
+    return "You cannot vote for yourself";
+  }
+  const identities = match.participants.map((p) => p.identity as string);
+  if (picks.some((pick) => !identities.includes(pick))) {
+    return "Vote names an unknown participant";
+  }
+  return null;
+}
+
+// The seat the caller plays, from their token. The request body may still
+// name a seat, but naming anyone else's is an attempt to act for them.
+function resolveActingSeat(
+  match: Match,
+  caller: PlayerCaller | null,
+  claimed?: string
+): { identity: Identity } | { statusCode: number; error: string } {
+  if (!caller) {
+    return { statusCode: 401, error: "Sign in or use your match token to play" };
+  }
+  const identity = findSeat(
+    match as unknown as SharedMatch,
+    callerUserIdFor(caller, match.matchId)
+  ) as Identity | undefined;
+  if (!identity) {
+    return { statusCode: 403, error: "You are not playing in this match" };
+  }
+  if (claimed && claimed !== identity) {
+    return { statusCode: 403, error: `You can only act for your own seat, not ${claimed}` };
+  }
+  return { identity };
+}
+
+// Signed-in players take a seat as themselves; everyone else gets a fresh
+// guest id. A userId in the request body is never trusted.
+function seatUserId(caller: PlayerCaller | null): string {
+  return caller && !caller.matchId ? caller.userId : `guest-${uuidv4()}`;
+}
+
+// Players who sat out the responses can't vote, so voting never waits on them
+function canVote(round: Round, identity: string): boolean {
+  const response = round.responses[identity];
+  return !!response && response !== NO_RESPONSE;
+}
+
+// Log entries for a round that was just scored and whatever follows it
+function roundCompletionLog(match: Match, round: Round): MatchLogEvent[] {
+  const log: MatchLogEvent[] = [
+    {
+      type: "round_transitioned",
+      roundNumber: round.roundNumber,
+      toStatus: "complete",
+      scoring: round.scoring,
+    },
+  ];
+  if (match.status === "completed") {
+    log.push({ type: "match_completed", result: match.result });
+  } else {
+    const next = match.rounds[match.rounds.length - 1];
+    log.push({ type: "round_started", roundNumber: next.roundNumber, prompt: next.prompt });
+  }
+  return log;
+}
+
+// Completed matches feed career stats and ratings and are queued for
+// analysis; none of it holds the match up
+async function recordMatchOutcome(match: Match): Promise<void> {
+  if (match.status !== "completed") return;
+  await requestMatchAnalysis(match);
+  try {
+    const log = await listMatchEvents(match.matchId);
+    await PlayerStatsService.recordCompletedMatch(match as unknown as SharedMatch, log);
+  } catch (error) {
+    console.error(`Failed to record stats for match ${match.matchId}:`, error);
+  }
+  try {
+    await RatingService.recordCompletedMatch(match as unknown as SharedMatch);
+  } catch (error) {
+    console.error(`Failed to rate match ${match.matchId}:`, error);
+  }
+}
+
+// Queue the post-match report for robot-worker, which writes it onto the match
+// and reports back with MATCH_ANALYSIS_COMPLETE. If it can't be queued the
+// match says so rather than leaving players waiting.
+async function requestMatchAnalysis(match: Match): Promise<void> {
+  if (match.analysis?.status !== "pending") return;
+
+  try {
+    if (!SQS_QUEUE_URL) {
+      throw new Error("SQS_QUEUE_URL is not set");
+    }
+    await sqsClient.send(
+      new SendMessageCommand({
+        QueueUrl: SQS_QUEUE_URL,
+        MessageBody: JSON.stringify({
+          type: "analyze_match",
+          matchId: match.matchId,
+          timestamp: new Date().toISOString(),
+        }),
+      })
+    );
+    console.log(`Queued analysis of match ${match.matchId}`);
+  } catch (error) {
+    console.error(`Failed to queue analysis of match ${match.matchId}:`, error);
+    const update = await getMatchRepository().update<Match>(match.matchId, (latest) => {
+      if (latest.analysis?.status !== "pending") return false;
+      latest.analysis = {
+        ...latest.analysis,
+        status: "unavailable",
+        completedAt: new Date().toISOString(),
+      };
+      return true;
+    });
+    // So the update published next carries it
+    if (update?.saved) Object.assign(match, update.match);
+  }
+}
+
+// Queue a prepare_vote task per robot; robot-worker reports back with ROBOT_VOTE_COMPLETE
+async function requestRobotVotes(
+  match: Match,
+  round: Round,
+  robots: Participant[]
+): Promise<void> {
+  for (const robot of robots) {
+    try {
+      await sqsClient.send(
+        new SendMessageCommand({
+          QueueUrl: SQS_QUEUE_URL,
+          MessageBody: JSON.stringify({
+            type: "prepare_vote",
+            matchId: match.matchId,
+            roundNumber: round.roundNumber,
+            robotId: robot.identity,
+            timestamp: new Date().toISOString(),
+          }),
+        })
+      );
+      console.log(`Queued vote for robot ${robot.identity} in match ${match.matchId}`);
+    } catch (error) {
+      console.error(`Failed to queue vote for robot ${robot.identity}:`, error);
+    }
+  }
+}
+
+// Last resort when the robot queue is unavailable
+function castRandomVotes(match: Match, round: Round, robots: Participant[]): void {
+  const allIdentities = match.participants.map(p => p.identity);
+  for (const robot of robots) {
+    const choices = allIdentities
+      .filter(id => id !== robot.identity)
+      .sort(() => Math.random() - 0.5)
+      .slice(0, getRequiredVotePicks(match.participants, robot.identity));
+    round.votes[robot.identity] = choices.length === 1 ? choices[0] : choices;
+  }
+}
+
+// The next round's prompt, chosen outside a match update for the round it opens
+interface NextPrompt {
+  roundNumber: number;
+  prompt: string;
+}
+
+// Thrown from a match update that would open a round it has no prompt for
+class NextPromptNeeded extends Error {
+  constructor(public match: Match, public roundNumber: number) {
+    super(`Match ${match.matchId} needs a prompt for round ${roundNumber}`);
+    this.name = "NextPromptNeeded";
+  }
+}
+
+// Pick the prompt for the round after the match's current one, which may ask the model
+async function chooseNextPrompt(match: Match): Promise<NextPrompt> {
+  const roundNumber = match.currentRound + 1;
+  const previousPrompts = match.rounds.map((r) => r.prompt);
+  const previousResponses = match.rounds.map((r) => r.responses);
+  const prompt = await chooseRoundPrompt(match, (theme) =>
+    generateAIPrompt(roundNumber, previousPrompts, previousResponses, theme)
+  );
+  return { roundNumber, prompt };
+}
+
+/**
+ * A match update that may complete a round. Choosing the next prompt can call
+ * the model, which mustn't happen again on every conflict retry, so when the
+ * update needs a prompt it hasn't been given it stops, the prompt is chosen
+ * from the match as the update saw it, and the update runs again with it.
+ */
+async function updateCompletingRound(
+  matchId: string,
+  mutate: (match: Match, nextPrompt?: NextPrompt) => Promise<boolean>
+): Promise<MatchUpdate<Match> | null> {
+  let nextPrompt: NextPrompt | undefined;
+  for (;;) {
+    try {
+      return await getMatchRepository().update<Match>(matchId, (match) => mutate(match, nextPrompt));
+    } catch (error) {
+      if (!(error instanceof NextPromptNeeded) || nextPrompt?.roundNumber === error.roundNumber) {
+        throw error;
+      }
+      nextPrompt = await chooseNextPrompt(error.match);
     }
   }
+}
+
+// Once every vote is in, score the round and move the match on. Returns the
+// events to announce, or null while votes are still missing. closeVoting
+// scores whatever votes arrived, for rounds past their deadline. Opening the
+// next round takes its prompt from `nextPrompt`; see updateCompletingRound.
+function completeRoundIfReady(
+  match: Match,
+  round: Round,
+  nextPrompt?: NextPrompt,
+  closeVoting = false
+): RealtimeEvent[] | null {
+  if (round.status !== "voting") {
+    return null;
+  }
+  const allVoted = match.participants
+    .filter((p) => canVote(round, p.identity))
+    .every((p) => round.votes[p.identity]);
+  if (!allVoted && !closeVoting) {
+    return null;
+  }
+  const opensNextRound = match.currentRound < match.totalRounds;
+  if (opensNextRound && nextPrompt?.roundNumber !== match.currentRound + 1) {
+    throw new NextPromptNeeded(match, match.currentRound + 1);
+  }
+
+  const events: RealtimeEvent[] = [];
+  round.status = "complete";
+  console.log(
+    allVoted
+      ? `All votes collected for match ${match.matchId} round ${round.roundNumber}`
+      : `Voting closed for match ${match.matchId} round ${round.roundNumber} with ${Object.keys(round.votes).length} votes`
+  );
   
-  return scores;
+  // Score the round; the flat scores map stays for older clients
+  const scoringEngine = ScoringEngine.forTemplate(match.templateType);
+  round.scoring = scoringEngine.scoreRound(
+    round,
+    match.participants,
+    match.rounds.filter((r) => r.roundNumber < round.roundNumber)
+  );
+  round.scores = round.scoring.totals || {};
+  console.log(`Round ${round.roundNumber} scores:`, round.scores);
+
+  // Move to next round or complete match
+  if (opensNextRound) {
+    match.currentRound++;
+    match.status = "round_active";
+
+    match.rounds.push({
+      roundNumber: match.currentRound,
+      prompt: nextPrompt!.prompt,
+      responses: {},
+      votes: {},
+      scores: {},
+      status: "responding",
+      startTime: match.updatedAt,
+    });
+    console.log(`Moving to round ${match.currentRound} for match ${match.matchId}`);
+    events.push({
+      type: "round_transition",
+      matchId: match.matchId,
+      fromRound: round.roundNumber,
+      toRound: match.currentRound,
+      newPrompt: nextPrompt!.prompt,
+    });
+  } else {
+    match.status = "completed";
+    match.completedAt = match.updatedAt;
+    match.result = scoringEngine.buildMatchResult(match);
+    match.analysis = { status: "pending", requestedAt: match.completedAt };
+    console.log(
+      `Match ${match.matchId} completed after round ${match.currentRound}`
+    );
+    events.push({
+      type: "reveal_identities",
+      matchId: match.matchId,
+      identities: Object.fromEntries(
+        match.participants.map((p) => [
+          p.identity,
+          { isAI: !!p.isAI, playerName: p.playerName || p.identity },
+        ])
+      ),
+    });
+  }
+
+  return events;
+}
+
+// Whether the events of a round completion include the match's final reveal
+function completedMatch(events: RealtimeEvent[] | null): boolean {
+  return !!events?.some((event) => event.type === "reveal_identities");
 }
 
+// Complete the round if a robot's vote was the last one missing
+async function checkAndCompleteVoting(
+  matchId: string,
+  roundNumber: number,
+  robotId?: Identity
+): Promise<void> {
+  let events: RealtimeEvent[] | null = null;
+  const update = await updateCompletingRound(matchId, async (match, nextPrompt) => {
+    events = null;
+    const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+    if (!round || round.status !== "voting") {
+      console.log(
+        `Round ${roundNumber} not in voting state or not found, current status: ${round?.status}`
+      );
+      return false;
+    }
+
+    console.log(
+      `Match ${matchId} round ${roundNumber}: ${Object.keys(round.votes).length}/${match.participants.length} votes after robot ${robotId}`
+    );
+
+    match.updatedAt = new Date().toISOString();
+    events = completeRoundIfReady(match, round, nextPrompt);
+    return events !== null;
+  });
+
+  if (!update) {
+    console.error(`Match ${matchId} not found`);
+    return;
+  }
+
+  const { match, saved } = update;
+  const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+  if (!round) return;
+  if (saved) {
+    await appendMatchEvents(matchId, roundCompletionLog(match, round));
+    await recordMatchOutcome(match);
+  } else if (round.status !== "voting") {
+    return;
+  }
+
+  await publishMatchUpdate(match, events || []);
+}
 
 // Handle state update messages from robot-worker
 async function handleStateUpdate(event: SQSEvent): Promise<SQSBatchResponse> {
@@ -320,7 +736,20 @@ async function handleStateUpdate(event: SQSEvent): Promise<SQSBatchResponse> {
       console.log("Processing state update message:", message);
 
       if (message.type === "ROBOT_RESPONSE_COMPLETE") {
-        await checkAndTransitionRound(message.matchId, message.roundNumber);
+        await checkAndTransitionRound(
+          message.matchId,
+          message.roundNumber,
+          message.robotId
+        );
+      } else if (message.type === "ROBOT_VOTE_COMPLETE") {
+        await checkAndCompleteVoting(
+          message.matchId,
+          message.roundNumber,
+          message.robotId
+        );
+      } else if (message.type === "MATCH_ANALYSIS_COMPLETE") {
+        const match = await getMatchRepository().get<Match>(message.matchId);
+        if (match) await publishMatchUpdate(match);
       }
     } catch (error) {
       console.error("Failed to process state update:", error);
@@ -334,46 +763,34 @@ async function handleStateUpdate(event: SQSEvent): Promise<SQSBatchResponse> {
 // Check if all responses are collected and transition to voting
 async function checkAndTransitionRound(
   matchId: string,
-  roundNumber: number
+  roundNumber: number,
+  robotId?: Identity,
+  clock: Clock = systemClock
 ): Promise<void> {
   console.log(
     `Checking round status for match ${matchId}, round ${roundNumber}`
   );
 
-  // Get current match state
-  const result = await docClient.send(
-    new GetCommand({
-      TableName: TABLE_NAME,
-      Key: {
-        matchId,
-        timestamp: 0,
-      },
-    })
-  );
-
-  if (!result.Item) {
-    console.error(`Match ${matchId} not found`);
-    return;
-  }
+  const update = await getMatchRepository().update<Match>(matchId, (match) => {
+    const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+    if (!round || round.status !== "responding") {
+      console.log(
+        `Round ${roundNumber} not in responding state or not found, current status: ${round?.status}`
+      );
+      return false; // Already transitioned or not found
+    }
 
-  const match = result.Item as Match;
-  const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+    const responseCount = Object.keys(round.responses || {}).length;
+    const totalParticipants = match.totalParticipants || match.participants.length || 4;
 
-  if (!round || round.status !== "responding") {
     console.log(
-      `Round ${roundNumber} not in responding state or not found, current status: ${round?.status}`
+      `Match ${matchId} round ${roundNumber}: ${responseCount}/${totalParticipants} responses`
     );
-    return; // Already transitioned or not found
-  }
+    console.log(`Current responses:`, Object.keys(round.responses || {}));
+    if (responseCount !== totalParticipants) {
+      return false;
+    }
 
-  const responseCount = Object.keys(round.responses || {}).length;
-  const totalParticipants = match.totalParticipants || match.participants.length || 4;
-  
-  console.log(
-    `Match ${matchId} round ${roundNumber}: ${responseCount}/${totalParticipants} responses`
-  );
-  console.log(`Current responses:`, Object.keys(round.responses || {}));
-  if (responseCount === totalParticipants) {
     // Generate presentation order - each round gets a different order
     const identities = match.participants.map((p: Participant) => p.identity);
     const seed = `${matchId}-round-${roundNumber}`;
@@ -386,83 +803,345 @@ async function checkAndTransitionRound(
     );
     console.log(`Seed used: "${seed}" (should be different for each round)`);
 
-    // Update status to voting
-    const roundIndex = match.rounds.findIndex(
-      (r) => r.roundNumber === roundNumber
-    );
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-        UpdateExpression: `SET rounds[${roundIndex}].#status = :votingStatus, rounds[${roundIndex}].presentationOrder = :presentationOrder, updatedAt = :updatedAt`,
-        ExpressionAttributeNames: {
-          "#status": "status",
-        },
-        ExpressionAttributeValues: {
-          ":votingStatus": "voting",
-          ":presentationOrder": presentationOrder,
-          ":updatedAt": new Date().toISOString(),
-        },
-      })
-    );
+    const votingStartTime = clock.now().toISOString();
+    round.status = "voting";
+    round.presentationOrder = presentationOrder;
+    round.votingStartTime = votingStartTime;
+    match.updatedAt = votingStartTime;
+    return true;
+  });
 
+  if (!update) {
+    console.error(`Match ${matchId} not found`);
+    return;
+  }
+
+  const { match, saved } = update;
+  const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+  if (!round) return;
+  if (saved) {
     console.log(
       `Successfully transitioned match ${matchId} round ${roundNumber} to voting`
     );
+    await appendMatchEvents(matchId, [
+      {
+        type: "round_transitioned",
+        roundNumber,
+        toStatus: "voting",
+        presentationOrder: round.presentationOrder,
+      },
+    ], clock);
+  } else if (round.status !== "responding") {
+    return;
   }
+
+  const events: RealtimeEvent[] = robotId
+    ? [{ type: "participant_submitted", matchId, identity: robotId, roundNumber }]
+    : [];
+  await publishMatchUpdate(match, events);
 }
 
-export const handler = async (
-  event: APIGatewayProxyEvent | SQSEvent
-): Promise<APIGatewayProxyResult | SQSBatchResponse> => {
-  console.log("Match Service received event:", JSON.stringify(event, null, 2));
+// Response deadline: blank humans who haven't answered, then move to voting
+// the same way a robot's last response does. Robots only start once every
+// human has answered, so if a human walked away they get their turn now
+// instead. Robots are held to their own allowance from when they were asked,
+// so one still thinking at the round's deadline isn't blanked.
+async function expireResponses(matchId: string, roundNumber: number, clock: Clock): Promise<void> {
+  let responding = false;
+  let robotsStarted = false;
+  let missing: Participant[] = [];
+  const update = await getMatchRepository().update<Match>(matchId, (match) => {
+    const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+    responding = round?.status === "responding";
+    if (!round || !responding) return false;
+
+    robotsStarted = !!round.robotsStartTime;
+    const robotsOverdue = isRobotAllowanceOver(round, clock);
+    missing = match.participants.filter(
+      (p) => !round.responses[p.identity] && (!p.isAI || robotsOverdue)
+    );
+    if (missing.length === 0) return false;
 
-  // Check if this is an SQS event
-  if ("Records" in event && event.Records[0]?.eventSource === "aws:sqs") {
-    return handleStateUpdate(event as SQSEvent);
+    for (const p of missing) {
+      round.responses[p.identity] = NO_RESPONSE;
+    }
+    match.updatedAt = clock.now().toISOString();
+    return true;
+  });
+
+  if (!update || !responding) {
+    console.log(`Round ${roundNumber} of match ${matchId} already left responding`);
+    return;
   }
 
-  // Otherwise handle as API Gateway event
-  const apiEvent = event as APIGatewayProxyEvent;
+  const round = update.match.rounds.find((r) => r.roundNumber === roundNumber)!;
+  if (update.saved) {
+    console.log(
+      `Response deadline passed for match ${matchId} round ${roundNumber}, no response from ${missing.map((p) => p.identity).join(", ")}`
+    );
+    await appendMatchEvents(
+      matchId,
+      missing.map((p) => ({
+        type: "response_submitted",
+        roundNumber,
+        identity: p.identity,
+        response: NO_RESPONSE,
+        expired: true,
+      })),
+      clock
+    );
+  }
 
-  try {
-    const path = apiEvent.path;
-    const method = apiEvent.httpMethod;
+  const robotsWaiting = update.match.participants.some((p) => p.isAI && !round.responses[p.identity]);
+  if (!robotsStarted && robotsWaiting) {
+    await triggerRobotResponses(matchId, roundNumber, round.prompt, clock);
+  }
+  await checkAndTransitionRound(matchId, roundNumber, undefined, clock);
+}
 
-    // Handle CORS preflight
-    if (method === "OPTIONS") {
-      return {
-        statusCode: 200,
-        headers: CORS_HEADERS,
-        body: "",
-      };
-    }
+// Vote deadline: score the round with the votes received and move on
+async function closeVoting(matchId: string, roundNumber: number, clock: Clock): Promise<void> {
+  let events: RealtimeEvent[] | null = null;
+  const update = await updateCompletingRound(matchId, async (match, nextPrompt) => {
+    const round = match.rounds.find((r) => r.roundNumber === roundNumber);
+    if (!round) return false;
 
-    // Route requests - handle both with and without stage prefix
-    const pathWithoutStage = path.replace(/^\/prod/, "");
+    match.updatedAt = clock.now().toISOString();
+    events = completeRoundIfReady(match, round, nextPrompt, true);
+    return events !== null;
+  });
 
-    // Health check endpoint
-    if (
-      method === "GET" &&
-      (pathWithoutStage === "/health" || path === "/health")
-    ) {
-      return {
-        statusCode: 200,
-        headers: CORS_HEADERS,
-        body: JSON.stringify({
-          status: "healthy",
-          service: "match-service",
-          timestamp: new Date().toISOString(),
-        }),
-      };
+  if (!update?.saved || !events) {
+    console.log(`Round ${roundNumber} of match ${matchId} was already completed`);
+    return;
+  }
+
+  const round = update.match.rounds.find((r) => r.roundNumber === roundNumber)!;
+  await appendMatchEvents(matchId, roundCompletionLog(update.match, round), clock);
+  await recordMatchOutcome(update.match);
+  await publishMatchUpdate(update.match, events);
+}
+
+// Run on a schedule: move on any match whose current round is past its deadline
+export async function sweepRoundDeadlines(clock: Clock = systemClock): Promise<void> {
+  const matches = await getMatchRepository().listByStatus<Match>([
+    "waiting",
+    "round_active",
+    "round_voting",
+  ]);
+
+  for (const match of matches) {
+    const round = match.rounds?.find((r) => r.roundNumber === match.currentRound);
+    if (!round || !isRoundOverdue(match, round, clock)) continue;
+
+    try {
+      if (round.status === "responding") {
+        await expireResponses(match.matchId, round.roundNumber, clock);
+      } else {
+        await closeVoting(match.matchId, round.roundNumber, clock);
+      }
+    } catch (error) {
+      console.error(`Failed to enforce deadline for match ${match.matchId}:`, error);
     }
+  }
+}
 
-    if (
-      method === "POST" &&
-      (pathWithoutStage === "/matches" || path === "/matches")
+// Robots only start once every human has answered or voted, so a seat that
+// just went to an AI may be the one they were waiting on
+async function resumeRobotsAfterSubstitution(match: Match, standIns: Participant[]): Promise<void> {
+  const round = match.rounds.find((r) => r.roundNumber === match.currentRound);
+  if (!round) return;
+
+  const humans = match.participants.filter((p) => !p.isAI);
+  if (round.status === "responding") {
+    const humansDone = humans.every((p) => round.responses[p.identity]);
+    if (humansDone && standIns.some((p) => !round.responses[p.identity])) {
+      await triggerRobotResponses(match.matchId, round.roundNumber, round.prompt);
+    }
+  } else if (round.status === "voting") {
+    const humansDone = humans
+      .filter((p) => canVote(round, p.identity))
+      .every((p) => round.votes[p.identity]);
+    const robotsToVote = match.participants.filter(
+      (p) => p.isAI && canVote(round, p.identity) && !round.votes[p.identity]
+    );
+    if (humansDone && standIns.some((p) => robotsToVote.includes(p))) {
+      await requestRobotVotes(match, round, robotsToVote);
+    }
+  }
+}
+
+/**
+ * Mark humans who stopped sending heartbeats as disconnected, then hand any
+ * gone longer than the template allows to an AI persona. The stand-in keeps
+ * the human's name, and nobody is substituted once every human is offline,
+ * since an all-AI table would only spend model calls.
+ */
+async function updatePresence(matchId: string, clock: Clock): Promise<void> {
+  let aiUsers: User[] | undefined;
+  let changed: Participant[] = [];
+  let standIns: Participant[] = [];
+  const update = await getMatchRepository().update<Match>(matchId, async (match) => {
+    changed = [];
+    standIns = [];
+    const humans = match.participants.filter((p) => !p.isAI);
+    for (const p of humans) {
+      if (p.isConnected && presenceOf(p, clock) === "offline") {
+        p.isConnected = false;
+        changed.push(p);
+      }
+    }
+
+    const template = match.templateType
+      ? MatchTemplateService.getTemplate(match.templateType as MatchTemplateType)
+      : undefined;
+    const stillPlaying = humans.some((p) => presenceOf(p, clock) !== "offline");
+    if (match.status !== "waiting_for_players" && stillPlaying) {
+      for (const p of humans) {
+        if (!p.userId || !isDueForSubstitution(p, template?.substituteAfterSeconds, clock)) continue;
+
+        aiUsers ??= await new UserService(USERS_TABLE_NAME).getAvailableAIUsers();
+        const seated = new Set(match.participants.map((seat) => seat.userId));
+        const free = aiUsers.filter((user) => !seated.has(user.userId));
+        const standIn = free[Math.floor(Math.random() * free.length)];
+        if (!standIn) {
+          console.warn(`No free AI persona to stand in for ${p.userId} in match ${matchId}`);
+          break;
+        }
+
+        p.substitutedFor = {
+          userId: p.userId,
+          displayName: p.displayName || p.playerName || "",
+          substitutedAt: clock.now().toISOString(),
+        };
+        p.isAI = true;
+        p.isConnected = true;
+        p.userId = standIn.userId;
+        p.personality = standIn.personality;
+        standIns.push(p);
+      }
+    }
+    return changed.length > 0 || standIns.length > 0;
+  });
+  if (!update?.saved) return;
+
+  const { match } = update;
+  if (standIns.length > 0) {
+    console.log(
+      `AI personas took over ${standIns.map((p) => p.identity).join(", ")} in match ${matchId}`
+    );
+    await appendMatchEvents(
+      matchId,
+      standIns.map((p) => ({
+        type: "seat_substituted",
+        roundNumber: match.currentRound,
+        identity: p.identity,
+        userId: p.userId!,
+        playerName: p.playerName || "",
+        replacedUserId: p.substitutedFor!.userId,
+      })),
+      clock
+    );
+    await resumeRobotsAfterSubstitution(match, standIns);
+  }
+  await publishMatchUpdate(match);
+}
+
+// Run on the same schedule: keep seat presence current in unfinished matches
+export async function sweepPresence(clock: Clock = systemClock): Promise<void> {
+  const matches = await getMatchRepository().listByStatus<Match>([
+    "waiting_for_players",
+    "waiting",
+    "round_active",
+    "round_voting",
+  ]);
+
+  for (const match of matches) {
+    try {
+      await updatePresence(match.matchId, clock);
+    } catch (error) {
+      console.error(`Failed to update presence for match ${match.matchId}:`, error);
+    }
+  }
+}
+
+let matchmakingService: MatchmakingService | undefined;
+
+function getMatchmakingService(): MatchmakingService {
+  if (!matchmakingService) {
+    matchmakingService = new MatchmakingService(
+      createDocumentClient({ marshallOptions: { removeUndefinedValues: true } }),
+      MATCHMAKING_TABLE_NAME,
+      new MultiHumanMatchService(getMatchRepository(), new UserService(USERS_TABLE_NAME))
+    );
+  }
+  return matchmakingService;
+}
+
+// Run on the same schedule: group queued players, backfilling with AI where allowed
+export async function sweepMatchmaking(clock: Clock = systemClock): Promise<void> {
+  try {
+    await getMatchmakingService().sweep(clock);
+  } catch (error) {
+    console.error("Failed to sweep matchmaking queues:", error);
+  }
+}
+
+export const handler = async (
+  event: APIGatewayProxyEvent | SQSEvent | ScheduledEvent
+): Promise<APIGatewayProxyResult | SQSBatchResponse | void> => {
+  console.log("Match Service received event:", JSON.stringify(event, null, 2));
+
+  // Check if this is an SQS event
+  if ("Records" in event && event.Records[0]?.eventSource === "aws:sqs") {
+    return handleStateUpdate(event as SQSEvent);
+  }
+
+  // EventBridge schedule for round deadlines, presence and the matchmaking queues
+  if ("source" in event && event.source === "aws.events") {
+    await sweepRoundDeadlines();
+    await sweepPresence();
+    return sweepMatchmaking();
+  }
+
+  // Otherwise handle as API Gateway event
+  const apiEvent = event as APIGatewayProxyEvent;
+
+  try {
+    const path = apiEvent.path;
+    const method = apiEvent.httpMethod;
+
+    // Handle CORS preflight
+    if (method === "OPTIONS") {
+      return {
+        statusCode: 200,
+        headers: CORS_HEADERS,
+        body: "",
+      };
+    }
+
+    // Route requests - handle both with and without stage prefix
+    const pathWithoutStage = path.replace(/^\/prod/, "");
+
+    // Health check endpoint
+    if (
+      method === "GET" &&
+      (pathWithoutStage === "/health" || path === "/health")
+    ) {
+      return {
+        statusCode: 200,
+        headers: CORS_HEADERS,
+        body: JSON.stringify({
+          status: "healthy",
+          service: "match-service",
+          timestamp: new Date().toISOString(),
+        }),
+      };
+    }
+
+    if (
+      method === "POST" &&
+      (pathWithoutStage === "/matches" || path === "/matches")
     ) {
       return await createMatch(apiEvent);
     } else if (
@@ -475,16 +1154,86 @@ export const handler = async (
       pathWithoutStage.match(/^\/matches\/join\/[^\/]+$/)
     ) {
       return await joinMatchHandler(apiEvent);
+    } else if (
+      method === "POST" &&
+      (pathWithoutStage === "/matchmaking" || path === "/matchmaking")
+    ) {
+      return await enqueueForMatchmaking(apiEvent);
+    } else if (
+      method === "GET" &&
+      (pathWithoutStage === "/matchmaking" || path === "/matchmaking")
+    ) {
+      return await getMatchmakingStatus(apiEvent);
+    } else if (
+      method === "DELETE" &&
+      (pathWithoutStage === "/matchmaking" || path === "/matchmaking")
+    ) {
+      return await leaveMatchmaking(apiEvent);
+    } else if (
+      method === "GET" &&
+      (pathWithoutStage === "/prompt-packs" || path === "/prompt-packs")
+    ) {
+      return await listPromptPacks();
     } else if (
       method === "GET" &&
       (pathWithoutStage === "/matches/history" || path === "/matches/history")
     ) {
       return await getMatchHistory(apiEvent);
+    } else if (
+      method === "GET" &&
+      (pathWithoutStage === "/users/me/stats" || path === "/users/me/stats")
+    ) {
+      return await getMyStats(apiEvent);
+    } else if (
+      method === "GET" &&
+      (pathWithoutStage === "/leaderboards" || path === "/leaderboards")
+    ) {
+      return await getLeaderboard(apiEvent);
+    } else if (
+      method === "GET" &&
+      (pathWithoutStage === "/users/me" || path === "/users/me")
+    ) {
+      return await getMyProfile(apiEvent);
+    } else if (
+      method === "PATCH" &&
+      (pathWithoutStage === "/users/me" || path === "/users/me")
+    ) {
+      return await updateMyProfile(apiEvent);
     } else if (
       method === "GET" &&
       pathWithoutStage.match(/^\/matches\/[^\/]+$/)
     ) {
       return await getMatch(apiEvent);
+    } else if (
+      method === "GET" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/replay$/)
+    ) {
+      return await getMatchReplay(apiEvent);
+    } else if (
+      method === "POST" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/spectate$/)
+    ) {
+      return await spectateMatch(apiEvent);
+    } else if (
+      method === "POST" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/audience$/)
+    ) {
+      return await submitAudienceGuess(apiEvent);
+    } else if (
+      method === "GET" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/audience$/)
+    ) {
+      return await getAudienceResults(apiEvent);
+    } else if (
+      method === "POST" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/heartbeat$/)
+    ) {
+      return await recordHeartbeat(apiEvent);
+    } else if (
+      method === "POST" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/reclaim$/)
+    ) {
+      return await reclaimSeat(apiEvent);
     } else if (
       method === "POST" &&
       pathWithoutStage.match(/^\/matches\/[^\/]+\/responses$/)
@@ -495,6 +1244,11 @@ export const handler = async (
       pathWithoutStage.match(/^\/matches\/[^\/]+\/votes$/)
     ) {
       return await submitVote(apiEvent);
+    } else if (
+      method === "POST" &&
+      pathWithoutStage.match(/^\/matches\/[^\/]+\/reports$/)
+    ) {
+      return await reportResponse(apiEvent);
     }
 
     return {
@@ -512,12 +1266,52 @@ export const handler = async (
   }
 };
 
+// Used when the users table has too few active AI users
+const BUILT_IN_ROBOTS = [
+  { playerName: "Sundown", personality: "sundown" },
+  { playerName: "Bandit", personality: "bandit" },
+  { playerName: "Maverick", personality: "maverick" },
+];
+
+// Bind each robot to an active AI user so robot-worker plays its persona
+async function pickRobotParticipants(identities: Identity[]): Promise<Participant[]> {
+  try {
+    const aiUsers = await new UserService(USERS_TABLE_NAME).getRandomAIUsers(identities.length);
+    if (aiUsers.length === identities.length) {
+      return identities.map((identity, i) => ({
+        identity,
+        isAI: true,
+        playerName: aiUsers[i].displayName,
+        isConnected: true,
+        userId: aiUsers[i].userId,
+        personality: aiUsers[i].personality,
+      }));
+    }
+    console.warn(`Only ${aiUsers.length} active AI users, using built-in robots`);
+  } catch (error) {
+    console.error("Failed to load AI users, using built-in robots:", error);
+  }
+
+  return identities.map((identity, i) => ({
+    identity,
+    isAI: true,
+    isConnected: true,
+    ...BUILT_IN_ROBOTS[i % BUILT_IN_ROBOTS.length],
+  }));
+}
+
 async function createMatch(
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
   const body = JSON.parse(event.body || "{}");
+  const caller = await signedInCaller(event);
+  const name = await playerDisplayName(caller, body.playerName);
+  if ("error" in name) {
+    return errorResponse(400, name.error);
+  }
+  const playerName = name.displayName;
 
-  if (!body.playerName) {
+  if (!playerName) {
     return {
       statusCode: 400,
       headers: CORS_HEADERS,
@@ -527,9 +1321,13 @@ async function createMatch(
 
   const matchId = `match-${uuidv4()}`;
   const now = new Date().toISOString();
+  const userId = seatUserId(caller);
 
-  // Generate AI prompt for first round
-  const firstPrompt = await generateAIPrompt(1);
+  // Generate AI prompt for first round; a fresh guest has no prompt history
+  const firstPrompt = await chooseRoundPrompt(
+    { matchId, participants: caller ? [{ userId, isAI: false }] : [], rounds: [] },
+    (theme) => generateAIPrompt(1, [], [], theme)
+  );
 
   const match: Match = {
     matchId,
@@ -540,27 +1338,12 @@ async function createMatch(
       {
         identity: "A",
         isAI: false,
-        playerName: body.playerName,
-        isConnected: true,
-      },
-      {
-        identity: "B",
-        isAI: true,
-        playerName: "Sundown",
-        isConnected: true,
-      },
-      {
-        identity: "C",
-        isAI: true,
-        playerName: "Bandit",
-        isConnected: true,
-      },
-      {
-        identity: "D",
-        isAI: true,
-        playerName: "Maverick",
+        playerName: playerName,
         isConnected: true,
+        userId,
+        lastSeen: now,
       },
+      ...(await pickRobotParticipants(["B", "C", "D"])),
     ],
     rounds: [
       {
@@ -570,26 +1353,28 @@ async function createMatch(
         votes: {},
         scores: {},
         status: "responding",
+        startTime: now,
       },
     ],
     createdAt: now,
     updatedAt: now,
-    responseTimeLimit: 45, // Default 45 seconds
+    responseTimeLimit: DEFAULT_RESPONSE_TIME_LIMIT,
+    voteTimeLimit: DEFAULT_VOTE_TIME_LIMIT,
   };
 
   // Store match in DynamoDB
   try {
-    await docClient.send(
-      new PutCommand({
-        TableName: TABLE_NAME,
-        Item: {
-          ...match,
-          timestamp: 0, // Use 0 for main match record
-        },
-      })
-    );
+    await getMatchRepository().create(match);
 
     console.log("Match created in DynamoDB:", matchId, "Status:", match.status);
+    await appendMatchEvents(matchId, [
+      {
+        type: "match_created",
+        participants: match.participants as SharedMatch["participants"],
+        totalRounds: match.totalRounds,
+      },
+      { type: "round_started", roundNumber: 1, prompt: firstPrompt },
+    ]);
 
     // Trigger robot responses asynchronously
     await triggerRobotResponses(matchId, 1, match.rounds[0].prompt);
@@ -602,10 +1387,14 @@ async function createMatch(
     };
   }
 
+  // The creator always plays seat A, and acts for it with the token
   return {
     statusCode: 201,
     headers: CORS_HEADERS,
-    body: JSON.stringify(match),
+    body: JSON.stringify({
+      ...projectMatch(match as unknown as SharedMatch, { identity: "A" }),
+      token: issueGuestToken(matchId, userId),
+    }),
   };
 }
 
@@ -624,19 +1413,9 @@ async function getMatch(
     };
   }
 
-  // Get match from DynamoDB - we'll use a query since we have timestamp as sort key
   try {
-    const result = await docClient.send(
-      new GetCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0, // Main match record has timestamp 0
-        },
-      })
-    );
-
-    if (!result.Item) {
+    const match = await getMatchRepository().get(matchId);
+    if (!match) {
       return {
         statusCode: 404,
         headers: CORS_HEADERS,
@@ -644,11 +1423,11 @@ async function getMatch(
       };
     }
 
-    const { timestamp, ...match } = result.Item;
+    const viewer = await resolveMatchViewer(match, await authenticateRequest(event));
     return {
       statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify(match),
+      body: JSON.stringify(projectMatch(match, viewer)),
     };
   } catch (error) {
     console.error("Failed to get match from DynamoDB:", error);
@@ -660,175 +1439,501 @@ async function getMatch(
   }
 }
 
-async function getMatchHistory(
-  _event: APIGatewayProxyEvent
+// The match with its event log, oldest event first, for stepping through it
+async function getMatchReplay(
+  event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
+  const pathMatch = event.path.match(/\/matches\/([^\/]+)\/replay$/);
+  const matchId = pathMatch ? pathMatch[1] : event.pathParameters?.matchId;
+
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({ error: "matchId is required" }),
+    };
+  }
+
   try {
-    // Get all matches from DynamoDB
-    const result = await docClient.send(
-      new ScanCommand({
-        TableName: TABLE_NAME,
-        FilterExpression: "#ts = :zero",
-        ExpressionAttributeNames: {
-          "#ts": "timestamp",
-        },
-        ExpressionAttributeValues: {
-          ":zero": 0,
-        },
-      })
-    );
+    const match = await getMatchRepository().get(matchId);
+    if (!match) {
+      return {
+        statusCode: 404,
+        headers: CORS_HEADERS,
+        body: JSON.stringify({ error: "Match not found" }),
+      };
+    }
 
-    // Return full match data, just remove the timestamp field
-    const matches = (result.Items || []).map((item) => {
-      const { timestamp, ...match } = item;
-      return match;
-    });
+    const viewer = await resolveMatchViewer(match, await authenticateRequest(event));
 
-    // Sort by creation date (newest first)
-    matches.sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    // The log names every robot, so players only get it once the match is over
+    if (match.status !== "completed" && !viewer.isAdmin) {
+      return {
+        statusCode: 403,
+        headers: CORS_HEADERS,
+        body: JSON.stringify({ error: "Replay is available once the match is completed" }),
+      };
+    }
 
+    // The log keeps responses as sent; one masked since by moderation stays masked
+    const events = (await listMatchEvents(matchId)).map((entry) =>
+      entry.type === "response_submitted" &&
+      match.rounds.find((r) => r.roundNumber === entry.roundNumber)?.responses[entry.identity] === MASKED_RESPONSE
+        ? { ...entry, response: MASKED_RESPONSE }
+        : entry
+    );
     return {
       statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({
-        matches,
-        count: matches.length,
-      }),
+      body: JSON.stringify({ match: projectMatch(match, viewer), events }),
     };
   } catch (error) {
-    console.error("Error fetching match history:", error);
+    console.error("Failed to load match replay:", error);
     return {
       statusCode: 500,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Failed to retrieve match history" }),
+      body: JSON.stringify({ error: "Failed to retrieve match replay" }),
     };
   }
 }
 
-async function submitResponse(
+// A spectator token for a match, found by its matchId or the invite code in
+// a watch link. Spectators see responses only once voting opens.
+async function spectateMatch(
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
-  // Extract matchId from path
-  const pathMatch = event.path.match(/\/matches\/([^\/]+)\/responses$/);
-  const matchId = pathMatch ? pathMatch[1] : event.pathParameters?.matchId;
-  const body = JSON.parse(event.body || "{}");
+  const idOrInviteCode = event.path.match(/\/matches\/([^\/]+)\/spectate$/)?.[1];
+  if (!idOrInviteCode) {
+    return errorResponse(400, "matchId or invite code is required");
+  }
+
+  try {
+    const match = await findMatchToWatch(idOrInviteCode);
+    if (!match) {
+      return errorResponse(404, "Match not found");
+    }
+
+    const caller = await authenticateRequest(event);
+    if (findSeat(match as unknown as SharedMatch, callerUserIdFor(caller, match.matchId))) {
+      return errorResponse(409, "You are playing in this match");
+    }
 
-  if (
-    !matchId ||
-    !body.identity ||
-    !body.response ||
-    body.round === undefined
-  ) {
+    // Always a fresh id, so a spectator token can never act for a seat
+    const spectatorId = `${SPECTATOR_ID_PREFIX}${uuidv4()}`;
     return {
-      statusCode: 400,
+      statusCode: 200,
       headers: CORS_HEADERS,
       body: JSON.stringify({
-        error: "matchId, identity, response, and round are required",
+        match: projectMatch(match as unknown as SharedMatch),
+        token: issueGuestToken(match.matchId, spectatorId),
+        spectatorId,
       }),
     };
+  } catch (error) {
+    console.error("Failed to start spectating:", error);
+    return errorResponse(500, "Failed to find match");
+  }
+}
+
+// A spectator's guess at who is human in the round being voted on. Guesses
+// are kept apart from the match, so they never affect scoring.
+async function submitAudienceGuess(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const matchId = event.path.match(/\/matches\/([^\/]+)\/audience$/)?.[1];
+  const body = JSON.parse(event.body || "{}");
+
+  if (!matchId || !body.guess || body.round === undefined) {
+    return errorResponse(400, "matchId, guess, and round are required");
+  }
+
+  const caller = await authenticateRequest(event);
+  if (!caller) {
+    return errorResponse(401, "Use your spectator token to guess");
+  }
+  const spectatorId = callerUserIdFor(caller, matchId);
+  if (!spectatorId) {
+    return errorResponse(403, "Your token is for another match");
   }
 
-  // Get match from DynamoDB
-  let match: Match;
   try {
-    const result = await docClient.send(
-      new GetCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-      })
-    );
+    const match = await getMatchRepository().get(matchId);
+    if (!match) {
+      return errorResponse(404, "Match not found");
+    }
+    if (findSeat(match, spectatorId)) {
+      return errorResponse(403, "Players vote instead of guessing");
+    }
 
-    if (!result.Item) {
-      return {
-        statusCode: 404,
-        headers: CORS_HEADERS,
-        body: JSON.stringify({ error: "Match not found" }),
-      };
+    const round = match.rounds[match.currentRound - 1];
+    if (!round || body.round !== round.roundNumber || round.status !== "voting") {
+      return errorResponse(400, `Guesses are only taken while round ${match.currentRound} is voting`);
     }
 
-    const { timestamp, ...matchData } = result.Item;
-    match = matchData as Match;
-  } catch (error) {
-    console.error("Failed to get match from DynamoDB:", error);
+    const guess = getVotePicks(body.guess);
+    const invalid = validateVotePicks(match as unknown as Match, "", guess);
+    if (invalid) {
+      return errorResponse(400, invalid.replace(/^Vote/, "Guess"));
+    }
+
+    await recordAudienceGuess(matchId, round.roundNumber, spectatorId, guess);
     return {
-      statusCode: 500,
+      statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Failed to retrieve match" }),
+      body: JSON.stringify({ success: true, round: round.roundNumber, guess }),
     };
+  } catch (error) {
+    console.error("Failed to record audience guess:", error);
+    return errorResponse(500, "Failed to record guess");
+  }
+}
+
+// How the audience's guesses compared with the truth, once it can be told
+async function getAudienceResults(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const matchId = event.path.match(/\/matches\/([^\/]+)\/audience$/)?.[1];
+  if (!matchId) {
+    return errorResponse(400, "matchId is required");
   }
 
-  // Find the round
-  const round = match.rounds.find((r) => r.roundNumber === body.round);
-  if (!round) {
+  try {
+    const match = await getMatchRepository().get(matchId);
+    if (!match) {
+      return errorResponse(404, "Match not found");
+    }
+    if (match.status !== "completed") {
+      return errorResponse(403, "Audience results are available once the match is completed");
+    }
+
+    const caller = await authenticateRequest(event);
+    const guesses = await listAudienceGuesses(matchId);
     return {
-      statusCode: 400,
+      statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Invalid round number" }),
+      body: JSON.stringify(summarizeAudience(match, guesses, callerUserIdFor(caller, matchId))),
     };
+  } catch (error) {
+    console.error("Failed to load audience results:", error);
+    return errorResponse(500, "Failed to retrieve audience results");
   }
+}
 
-  // Store the response
-  round.responses[body.identity] = body.response;
-  match.updatedAt = new Date().toISOString();
-
-  // Check if all participants' responses are now collected (this is just for human and ai submissions)
-  const responseCount = Object.keys(round.responses).length;
-  console.log(
-    `Response count after update: ${responseCount}, round status: ${round.status}`
-  );
-  console.log(`Current responses:`, Object.keys(round.responses));
+async function getMatchHistory(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateRequest(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to see your match history");
+  }
 
-  // For human submissions, we won't transition to voting yet since robot responses aren't in
-  // Robot-worker will handle the transition when it adds the 4th response
+  const params = event.queryStringParameters || {};
+  const limit = params.limit === undefined ? DEFAULT_PAGE_SIZE : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+    return errorResponse(400, `limit must be between 1 and ${MAX_HISTORY_PAGE_SIZE}`);
+  }
 
-  // CRITICAL: Save the human response to DynamoDB BEFORE triggering robot responses
   try {
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-        UpdateExpression:
-          "SET rounds = :rounds, updatedAt = :updatedAt, #status = :status",
-        ExpressionAttributeNames: {
-          "#status": "status",
-        },
-        ExpressionAttributeValues: {
-          ":rounds": match.rounds,
-          ":updatedAt": match.updatedAt,
-          ":status": match.status,
-        },
-      })
-    );
+    // The caller's own matches, newest first, each as they may see it
+    const isAdmin = await isAdminCaller(caller);
+    const page = await getMatchRepository().listByUser(caller.userId, {
+      limit,
+      cursor: params.cursor,
+    });
+    const matches = page.matches.map((match) => {
+      const identity = findSeat(match, callerUserIdFor(caller, match.matchId));
+      return projectMatch(match, { identity, isAdmin });
+    });
 
-    console.log(
-      "Response saved to DynamoDB:",
-      matchId,
-      "Round:",
-      body.round,
-      "Identity:",
-      body.identity
-    );
+    return {
+      statusCode: 200,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({
+        matches,
+        count: matches.length,
+        cursor: page.cursor,
+      }),
+    };
   } catch (error) {
-    console.error("Failed to update match in DynamoDB:", error);
+    if (error instanceof InvalidCursorError) {
+      return errorResponse(400, error.message);
+    }
+    console.error("Error fetching match history:", error);
     return {
       statusCode: 500,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Failed to save response" }),
+      body: JSON.stringify({ error: "Failed to retrieve match history" }),
+    };
+  }
+}
+
+// The caller's client still has the match open
+async function recordHeartbeat(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const matchId = event.path.match(/\/matches\/([^\/]+)\/heartbeat$/)?.[1];
+  if (!matchId) {
+    return errorResponse(400, "matchId is required");
+  }
+
+  const caller = await authenticateRequest(event);
+  const now = new Date().toISOString();
+  let failure: APIGatewayProxyResult | undefined;
+  let reconnected = false;
+  let update: MatchUpdate<Match> | null;
+  try {
+    update = await getMatchRepository().update<Match>(matchId, (match) => {
+      const userId = callerUserIdFor(caller, matchId);
+      if (userId && match.participants.some((p) => p.substitutedFor?.userId === userId)) {
+        failure = {
+          statusCode: 409,
+          headers: CORS_HEADERS,
+          body: JSON.stringify({
+            error: "An AI player took over your seat; reclaim it to keep playing",
+            seatTaken: true,
+          }),
+        };
+        return false;
+      }
+      const seat = resolveActingSeat(match, caller);
+      if ("error" in seat) {
+        failure = errorResponse(seat.statusCode, seat.error);
+        return false;
+      }
+      if (match.status === "completed") return false;
+
+      const participant = match.participants.find((p) => p.identity === seat.identity)!;
+      reconnected = !participant.isConnected;
+      participant.isConnected = true;
+      participant.lastSeen = now;
+      return true;
+    });
+  } catch (error) {
+    console.error("Failed to record heartbeat:", error);
+    return error instanceof MatchConflictError
+      ? errorResponse(409, "The match changed too quickly, please try again")
+      : errorResponse(500, "Failed to record heartbeat");
+  }
+
+  if (!update) {
+    return errorResponse(404, "Match not found");
+  }
+  if (failure) {
+    return failure;
+  }
+
+  // Others only need to hear about a player who was shown as gone
+  if (reconnected) {
+    await publishMatchUpdate(update.match);
+  }
+  return {
+    statusCode: 200,
+    headers: CORS_HEADERS,
+    body: JSON.stringify({ success: true, heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS }),
+  };
+}
+
+/**
+ * Take back your seat, e.g. on another device after signing in. A seat an AI
+ * persona took over is handed back to the human. Comes with a fresh match
+ * token for the device.
+ */
+async function reclaimSeat(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const matchId = event.path.match(/\/matches\/([^\/]+)\/reclaim$/)?.[1];
+  if (!matchId) {
+    return errorResponse(400, "matchId is required");
+  }
+
+  const userId = callerUserIdFor(await authenticateRequest(event), matchId);
+  if (!userId) {
+    return errorResponse(401, "Sign in to reclaim your seat");
+  }
+
+  const now = new Date().toISOString();
+  let failure: APIGatewayProxyResult | undefined;
+  let identity: Identity | undefined;
+  let reclaimed = false;
+  let update: MatchUpdate<Match> | null;
+  try {
+    update = await getMatchRepository().update<Match>(matchId, (match) => {
+      const participant = match.participants.find(
+        (p) => p.userId === userId || p.substitutedFor?.userId === userId
+      );
+      if (!participant) {
+        failure = errorResponse(403, "You are not playing in this match");
+        return false;
+      }
+      if (match.status === "completed") {
+        failure = errorResponse(400, "Match already completed");
+        return false;
+      }
+
+      identity = participant.identity;
+      reclaimed = !!participant.substitutedFor;
+      if (participant.substitutedFor) {
+        participant.isAI = false;
+        participant.userId = userId;
+        delete participant.personality;
+        delete participant.substitutedFor;
+      }
+      participant.isConnected = true;
+      participant.lastSeen = now;
+      return true;
+    });
+  } catch (error) {
+    console.error("Failed to reclaim seat:", error);
+    return error instanceof MatchConflictError
+      ? errorResponse(409, "The match changed too quickly, please try again")
+      : errorResponse(500, "Failed to reclaim seat");
+  }
+
+  if (!update) {
+    return errorResponse(404, "Match not found");
+  }
+  if (failure) {
+    return failure;
+  }
+
+  const match = update.match;
+  if (reclaimed) {
+    console.log(`User ${userId} reclaimed seat ${identity} in match ${matchId}`);
+    await appendMatchEvents(matchId, [
+      { type: "seat_reclaimed", roundNumber: match.currentRound, identity: identity!, userId },
+    ]);
+  }
+  await publishMatchUpdate(match);
+
+  return {
+    statusCode: 200,
+    headers: CORS_HEADERS,
+    body: JSON.stringify({
+      match: projectMatch(match as unknown as SharedMatch, { identity }),
+      token: issueGuestToken(matchId, userId),
+    }),
+  };
+}
+
+async function submitResponse(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  // Extract matchId from path
+  const pathMatch = event.path.match(/\/matches\/([^\/]+)\/responses$/);
+  const matchId = pathMatch ? pathMatch[1] : event.pathParameters?.matchId;
+  const body = JSON.parse(event.body || "{}");
+
+  if (!matchId || !body.response || body.round === undefined) {
+    return {
+      statusCode: 400,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({
+        error: "matchId, response, and round are required",
+      }),
     };
   }
 
+  const caller = await authenticateRequest(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in or use your match token to play");
+  }
+  const verdict = await ModerationService.review("response", String(body.response));
+  if (verdict.action === "reject") {
+    return errorResponse(400, "Your response contains language that isn't allowed");
+  }
+  const response = verdict.text;
+
+  // Record the response against the latest match state, so a robot response
+  // or another player's write landing at the same time is never lost
+  let failure: APIGatewayProxyResult | undefined;
+  let identity = "" as Identity;
+  let update: MatchUpdate<Match> | null;
+  try {
+    update = await getMatchRepository().update<Match>(matchId, (match) => {
+      const seat = resolveActingSeat(match, caller, body.identity);
+      if ("error" in seat) {
+        failure = errorResponse(seat.statusCode, seat.error);
+        return false;
+      }
+      identity = seat.identity;
+
+      const round = match.rounds.find((r) => r.roundNumber === body.round);
+      if (!round) {
+        failure = errorResponse(400, "Invalid round number");
+        return false;
+      }
+
+      // Answers are final, including the blank a missed deadline leaves
+      if (round.status !== "responding") {
+        failure = errorResponse(400, `Round ${round.roundNumber} is not accepting responses`);
+        return false;
+      }
+      if (round.responses[identity]) {
+        failure = errorResponse(409, "You have already responded in this round");
+        return false;
+      }
+
+      // Lobbies set their own length limits; older matches have none
+      const limits = match.config;
+      if (
+        limits &&
+        (body.response.length < limits.minResponseLength ||
+          body.response.length > limits.maxResponseLength)
+      ) {
+        failure = errorResponse(
+          400,
+          `Responses must be between ${limits.minResponseLength} and ${limits.maxResponseLength} characters`
+        );
+        return false;
+      }
+
+      round.responses[identity] = response;
+      match.updatedAt = new Date().toISOString();
+      return true;
+    });
+  } catch (error) {
+    console.error("Failed to save response:", error);
+    return error instanceof MatchConflictError
+      ? errorResponse(409, "The match changed too quickly, please try again")
+      : errorResponse(500, "Failed to save response");
+  }
+
+  if (!update) {
+    return errorResponse(404, "Match not found");
+  }
+  if (failure) {
+    return failure;
+  }
+
+  const match = update.match;
+  const round = match.rounds.find((r) => r.roundNumber === body.round)!;
+  console.log(
+    "Response saved to DynamoDB:",
+    matchId,
+    "Round:",
+    body.round,
+    "Identity:",
+    identity
+  );
+  console.log(`Current responses:`, Object.keys(round.responses));
+  await appendMatchEvents(matchId, [
+    {
+      type: "response_submitted",
+      roundNumber: body.round,
+      identity,
+      response,
+    },
+  ]);
+  await ModerationService.queueIfFlagged("response", verdict, {
+    matchId,
+    roundNumber: body.round,
+    identity,
+    userId: match.participants.find((p) => p.identity === identity)?.userId,
+  });
+
   // NOW trigger robot responses after human response is safely stored
   // Check if the submitter is human and if all humans have responded
-  const submittingParticipant = match.participants.find(p => p.identity === body.identity);
+  const submittingParticipant = match.participants.find(p => p.identity === identity);
   if (submittingParticipant && !submittingParticipant.isAI) {
     // Count human participants and human responses
     const humanParticipants = match.participants.filter(p => !p.isAI);
@@ -846,12 +1951,21 @@ async function submitResponse(
     }
   }
 
+  await publishMatchUpdate(match, [
+    {
+      type: "participant_submitted",
+      matchId,
+      identity,
+      roundNumber: body.round,
+    },
+  ]);
+
   return {
     statusCode: 200,
     headers: CORS_HEADERS,
     body: JSON.stringify({
       success: true,
-      match: match,
+      match: projectMatch(match as unknown as SharedMatch, { identity }),
     }),
   };
 }
@@ -864,207 +1978,509 @@ async function submitVote(
   const matchId = pathMatch ? pathMatch[1] : event.pathParameters?.matchId;
   const body = JSON.parse(event.body || "{}");
 
-  if (!matchId || !body.voter || !body.votedFor || body.round === undefined) {
+  if (!matchId || !body.votedFor || body.round === undefined) {
     return {
       statusCode: 400,
       headers: CORS_HEADERS,
       body: JSON.stringify({
-        error: "matchId, voter, votedFor, and round are required",
+        error: "matchId, votedFor, and round are required",
       }),
     };
   }
 
-  // Get match from DynamoDB
-  let match: Match;
+  // The vote, and the round completion it may trigger, are applied to the
+  // latest match state so simultaneous voters can't overwrite each other
+  const caller = await authenticateRequest(event);
+  const picks = getVotePicks(body.votedFor);
+  let failure: APIGatewayProxyResult | undefined;
+  let voter = "" as Identity;
+  let votesCast: Identity[] = [];
+  let robotsToVote: Participant[] = [];
+  let events: RealtimeEvent[] | null = null;
+  let update: MatchUpdate<Match> | null;
   try {
-    const result = await docClient.send(
-      new GetCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-      })
-    );
+    update = await updateCompletingRound(matchId, async (match, nextPrompt) => {
+      const seat = resolveActingSeat(match, caller, body.voter);
+      if ("error" in seat) {
+        failure = errorResponse(seat.statusCode, seat.error);
+        return false;
+      }
+      voter = seat.identity;
 
-    if (!result.Item) {
-      return {
-        statusCode: 404,
-        headers: CORS_HEADERS,
-        body: JSON.stringify({ error: "Match not found" }),
-      };
-    }
+      const round = match.rounds.find((r) => r.roundNumber === body.round);
+      if (!round) {
+        failure = errorResponse(400, "Invalid round number");
+        return false;
+      }
+
+      // Votes are final once cast, and a scored round keeps the votes it was scored on
+      if (round.status !== "voting") {
+        failure = errorResponse(400, `Round ${round.roundNumber} is not accepting votes`);
+        return false;
+      }
+      if (round.votes[voter]) {
+        failure = errorResponse(409, "You have already voted in this round");
+        return false;
+      }
+
+      // Check if the voter submitted a response in this round
+      if (!canVote(round, voter)) {
+        failure = errorResponse(
+          403,
+          "You cannot vote in this round because you did not submit a response"
+        );
+        return false;
+      }
+
+      const voteError = validateVotePicks(match, voter, picks);
+      if (voteError) {
+        failure = errorResponse(400, voteError);
+        return false;
+      }
 
-    const { timestamp, ...matchData } = result.Item;
-    match = matchData as Match;
+      // Store the vote
+      round.votes[voter] = picks.length === 1 ? picks[0] : picks;
+      match.updatedAt = new Date().toISOString();
+
+      // Robots vote through the robot queue once every human has voted
+      const votingParticipant = match.participants.find(p => p.identity === voter);
+      votesCast = [voter];
+      robotsToVote = [];
+      if (votingParticipant && !votingParticipant.isAI) {
+        const humanParticipants = match.participants.filter(p => !p.isAI && canVote(round, p.identity));
+        const humanVotes = humanParticipants.filter(p => round.votes[p.identity]);
+
+        console.log(`Human vote recorded. ${humanVotes.length}/${humanParticipants.length} humans have voted`);
+
+        if (humanVotes.length === humanParticipants.length) {
+          robotsToVote = match.participants.filter(
+            p => p.isAI && canVote(round, p.identity) && !round.votes[p.identity]
+          );
+          if (robotsToVote.length > 0 && !SQS_QUEUE_URL) {
+            console.error("SQS_QUEUE_URL is not set! Casting random robot votes instead");
+            castRandomVotes(match, round, robotsToVote);
+            votesCast.push(...robotsToVote.map((p) => p.identity));
+            robotsToVote = [];
+          }
+        }
+      }
+
+      events = completeRoundIfReady(match, round, nextPrompt);
+      return true;
+    });
   } catch (error) {
-    console.error("Failed to get match from DynamoDB:", error);
+    console.error("Failed to save vote:", error);
+    return error instanceof MatchConflictError
+      ? errorResponse(409, "The match changed too quickly, please try again")
+      : errorResponse(500, "Failed to update match");
+  }
+
+  if (!update) {
+    return errorResponse(404, "Match not found");
+  }
+  if (failure) {
+    return failure;
+  }
+
+  const match = update.match;
+  const round = match.rounds.find((r) => r.roundNumber === body.round)!;
+  if (robotsToVote.length > 0) {
+    await requestRobotVotes(match, round, robotsToVote);
+  }
+
+  console.log(
+    "Vote submitted:",
+    matchId,
+    "Voter:",
+    voter,
+    "Voted for:",
+    body.votedFor
+  );
+  await appendMatchEvents(matchId, [
+    ...votesCast.map((voter): MatchLogEvent => ({
+      type: "vote_cast",
+      roundNumber: round.roundNumber,
+      voter,
+      votedFor: round.votes[voter] as Identity | Identity[],
+    })),
+    ...(events ? roundCompletionLog(match, round) : []),
+  ]);
+  if (completedMatch(events)) {
+    await recordMatchOutcome(match);
+  }
+
+  await publishMatchUpdate(match, events || []);
+
+  return {
+    statusCode: 200,
+    headers: CORS_HEADERS,
+    body: JSON.stringify({
+      success: true,
+      match: projectMatch(match as unknown as SharedMatch, { identity: voter }),
+    }),
+  };
+}
+
+// A player flagging someone else's response for an admin to review
+async function reportResponse(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const matchId = event.path.match(/\/matches\/([^\/]+)\/reports$/)?.[1];
+  if (!matchId) {
+    return errorResponse(400, "matchId is required");
+  }
+
+  const parsed = ReportResponseRequestSchema.safeParse(JSON.parse(event.body || "{}"));
+  if (!parsed.success) {
     return {
-      statusCode: 500,
+      statusCode: 400,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Failed to retrieve match" }),
+      body: JSON.stringify({ error: "Invalid report", details: parsed.error.flatten() }),
     };
   }
+  const { roundNumber, identity, reason } = parsed.data;
+
+  try {
+    const caller = await authenticateRequest(event);
+    const match = await getMatchRepository().get<Match>(matchId);
+    if (!match) {
+      return errorResponse(404, "Match not found");
+    }
+    const seat = resolveActingSeat(match, caller);
+    if ("error" in seat) {
+      return errorResponse(seat.statusCode, seat.error);
+    }
+    if (seat.identity === identity) {
+      return errorResponse(400, "You can't report your own response");
+    }
+
+    const content = match.rounds.find((r) => r.roundNumber === roundNumber)?.responses[identity];
+    if (!content || content === NO_RESPONSE) {
+      return errorResponse(404, "Response not found");
+    }
 
-  // Find the round
-  const round = match.rounds.find((r) => r.roundNumber === body.round);
-  if (!round) {
+    // The reporter hears back only that it was received; who wrote it stays hidden
+    const report = await ModerationService.reportResponse(
+      {
+        matchId,
+        roundNumber,
+        identity,
+        userId: match.participants.find((p) => p.identity === identity)?.userId,
+      },
+      content,
+      callerUserIdFor(caller, matchId)!,
+      reason
+    );
     return {
-      statusCode: 400,
+      statusCode: 201,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Invalid round number" }),
+      body: JSON.stringify({ reportId: report.reportId, status: report.status }),
     };
+  } catch (error) {
+    console.error("Failed to report response:", error);
+    return errorResponse(500, "Failed to report response");
+  }
+}
+
+// The caller's career stats; players yet to finish a match get zeros
+async function getMyStats(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateRequest(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to see your stats");
   }
 
-  // Check if the voter submitted a response in this round
-  if (!round.responses[body.voter] || round.responses[body.voter] === '(No response)') {
+  try {
+    const stats = await PlayerStatsService.getStats(caller.userId);
     return {
-      statusCode: 403,
+      statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ 
-        error: "You cannot vote in this round because you did not submit a response" 
+      body: JSON.stringify(stats || emptyStats(caller.userId)),
+    };
+  } catch (error) {
+    console.error("Error fetching player stats:", error);
+    return errorResponse(500, "Failed to fetch stats");
+  }
+}
+
+const DEFAULT_LEADERBOARD_SIZE = 25;
+const MAX_LEADERBOARD_SIZE = 100;
+
+// One leaderboard: a rating kind on a season's overall or template board.
+// Anyone can look; a signed-in caller also gets their own standing.
+async function getLeaderboard(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const params = event.queryStringParameters || {};
+  const currentSeason = seasonOf(new Date().toISOString());
+
+  const rating = RatingKindSchema.safeParse(params.rating ?? "detection");
+  if (!rating.success) {
+    return errorResponse(400, "rating must be detection or disguise");
+  }
+  const season = SeasonSchema.safeParse(params.season ?? currentSeason);
+  if (!season.success) {
+    return errorResponse(400, "season must look like 2026-Q1");
+  }
+  const templateType = params.templateType as MatchTemplateType | undefined;
+  if (templateType && !MatchTemplateService.getTemplate(templateType)) {
+    return errorResponse(400, `Unknown template type: ${templateType}`);
+  }
+  const limit = params.limit === undefined ? DEFAULT_LEADERBOARD_SIZE : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEADERBOARD_SIZE) {
+    return errorResponse(400, `limit must be between 1 and ${MAX_LEADERBOARD_SIZE}`);
+  }
+
+  try {
+    const board = boardKey(season.data, templateType);
+    const ratings = await RatingService.getLeaderboard(board, rating.data, limit);
+    const caller = await signedInCaller(event);
+    const mine = caller ? await RatingService.getRating(caller.userId, board) : null;
+
+    return {
+      statusCode: 200,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({
+        rating: rating.data,
+        season: season.data,
+        currentSeason,
+        templateType,
+        entries: ratings.map((entry, i) => ({ ...entry, rank: i + 1 })),
+        mine: mine || undefined,
       }),
     };
+  } catch (error) {
+    console.error("Error fetching leaderboard:", error);
+    return errorResponse(500, "Failed to fetch leaderboard");
   }
+}
 
-  // Store the vote
-  round.votes[body.voter] = body.votedFor;
-  match.updatedAt = new Date().toISOString();
+function toProfile(userId: string, user: User | null): PlayerProfile {
+  return {
+    userId,
+    displayName: user?.displayName,
+    avatarColor: user?.avatarColor,
+    email: user?.email,
+    createdAt: user?.createdAt,
+    updatedAt: user?.updatedAt,
+  };
+}
 
-  // Generate robot votes if this is from a human
-  const votingParticipant = match.participants.find(p => p.identity === body.voter);
-  if (votingParticipant && !votingParticipant.isAI) {
-    // Check if all humans have voted
-    const humanParticipants = match.participants.filter(p => !p.isAI);
-    const humanVotes = humanParticipants.filter(p => round.votes[p.identity]);
-    
-    console.log(`Human vote saved. ${humanVotes.length}/${humanParticipants.length} humans have voted`);
-    
-    // Only generate AI votes when ALL humans have voted
-    if (humanVotes.length === humanParticipants.length) {
-      console.log("All humans have voted, generating AI votes...");
-      
-      // Get all participant identities
-      const allIdentities = match.participants.map(p => p.identity);
-      
-      // Generate votes for each AI participant
-      const aiParticipants = match.participants.filter(p => p.isAI);
-      for (const ai of aiParticipants) {
-        // AI votes randomly but not for themselves
-        const choices = allIdentities.filter(id => id !== ai.identity);
-        round.votes[ai.identity] = choices[Math.floor(Math.random() * choices.length)];
-        console.log(`AI ${ai.identity} voted for ${round.votes[ai.identity]}`);
-      }
-    }
+async function getMyProfile(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const caller = await signedInCaller(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to see your profile");
   }
 
-  // Check if all votes are in
-  const voteCount = Object.keys(round.votes).length;
-  const totalParticipants = match.participants.length;
-  if (voteCount === totalParticipants && round.status === "voting") {
-    round.status = "complete";
-    console.log(`All votes collected for match ${matchId} round ${body.round}`);
-    
-    // Calculate scores for this round
-    round.scores = calculateRoundScores(round, match.participants);
-    console.log(`Round ${body.round} scores:`, round.scores);
-
-    // Move to next round or complete match
-    if (match.currentRound < match.totalRounds) {
-      match.currentRound++;
-      match.status = "round_active";
-
-      // Generate AI prompt based on previous rounds
-      const previousPrompts = match.rounds.map((r) => r.prompt);
-      const previousResponses = match.rounds.map((r) => r.responses);
-      const nextPrompt = await generateAIPrompt(
-        match.currentRound,
-        previousPrompts,
-        previousResponses
-      );
+  try {
+    const user = await UserService.getUserById(caller.userId);
+    return {
+      statusCode: 200,
+      headers: CORS_HEADERS,
+      body: JSON.stringify(toProfile(caller.userId, user)),
+    };
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    return errorResponse(500, "Failed to fetch profile");
+  }
+}
 
-      match.rounds.push({
-        roundNumber: match.currentRound,
-        prompt: nextPrompt,
-        responses: {},
-        votes: {},
-        scores: {},
-        status: "responding",
-      });
-      console.log(`Moving to round ${match.currentRound} for match ${matchId}`);
-    } else {
-      match.status = "completed";
-      console.log(
-        `Match ${matchId} completed after round ${match.currentRound}`
-      );
+// Display names are checked for limits, blocked words and other players using them
+async function updateMyProfile(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const caller = await signedInCaller(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to edit your profile");
+  }
+
+  const parsed = UpdateProfileRequestSchema.safeParse(JSON.parse(event.body || "{}"));
+  if (!parsed.success) {
+    return {
+      statusCode: 400,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({ error: "Invalid profile", details: parsed.error.flatten() }),
+    };
+  }
+
+  const { displayName } = parsed.data;
+  if (displayName !== undefined) {
+    const problem = displayNameProblem(displayName);
+    if (problem) {
+      return errorResponse(400, problem);
     }
   }
+  // The word filter already ran above; this is the optional AI check
+  const verdict = displayName !== undefined
+    ? await ModerationService.review("display_name", displayName.trim())
+    : undefined;
+  if (verdict?.action === "reject") {
+    return errorResponse(400, "Display name isn't allowed");
+  }
 
-  // Update match in DynamoDB
   try {
-    await docClient.send(
-      new UpdateCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-        UpdateExpression:
-          "SET rounds = :rounds, updatedAt = :updatedAt, #status = :status, currentRound = :currentRound",
-        ExpressionAttributeNames: {
-          "#status": "status",
-        },
-        ExpressionAttributeValues: {
-          ":rounds": match.rounds,
-          ":updatedAt": match.updatedAt,
-          ":status": match.status,
-          ":currentRound": match.currentRound,
-        },
-      })
-    );
+    // saveProfile claims the name; this catches names saved before claims existed
+    if (displayName !== undefined) {
+      const holder = await UserService.getUserIdByDisplayName(displayName);
+      if (holder && holder !== caller.userId) {
+        return errorResponse(409, "That display name is taken");
+      }
+    }
 
-    console.log(
-      "Vote submitted:",
-      matchId,
-      "Voter:",
-      body.voter,
-      "Voted for:",
-      body.votedFor
-    );
+    const user = await UserService.saveProfile(caller.userId, parsed.data);
+    if (verdict) {
+      await ModerationService.queueIfFlagged("display_name", verdict, { userId: caller.userId });
+    }
+    return {
+      statusCode: 200,
+      headers: CORS_HEADERS,
+      body: JSON.stringify(toProfile(caller.userId, user)),
+    };
+  } catch (error) {
+    if (error instanceof DisplayNameTakenError) {
+      return errorResponse(409, error.message);
+    }
+    console.error("Error saving profile:", error);
+    return errorResponse(500, "Failed to save profile");
+  }
+}
 
-    // If we just started a new round and this is the first human to enter it, prepare for AI responses
-    if (
-      votingParticipant && !votingParticipant.isAI &&
-      match.status === "round_active" &&
-      match.currentRound > 1
-    ) {
-      const newRound = match.rounds[match.rounds.length - 1];
-      // Check if this is the first human entering this round
-      const humanResponsesInNewRound = match.participants
-        .filter(p => !p.isAI)
-        .filter(p => newRound.responses && newRound.responses[p.identity])
-        .length;
-      
-      if (humanResponsesInNewRound === 0) {
-        console.log("First human entering new round, AI responses will be triggered after all humans respond");
-      }
+// A signed-in player with a saved display name plays under it, whatever name
+// the request carries; everyone else plays under the name they sent, once it
+// passes moderation. Saved names were moderated when they were saved.
+async function playerDisplayName(
+  caller: PlayerCaller | null,
+  requested?: string
+): Promise<{ displayName?: string } | { error: string }> {
+  if (caller && !caller.matchId) {
+    try {
+      const user = await UserService.getUserById(caller.userId);
+      if (user?.displayName) return { displayName: user.displayName };
+    } catch (error) {
+      console.error(`Failed to load the profile of ${caller.userId}:`, error);
     }
+  }
+  if (!requested) return {};
 
+  const verdict = await ModerationService.review("display_name", String(requested));
+  if (verdict.action === "reject") {
+    return { error: "Display name isn't allowed" };
+  }
+  await ModerationService.queueIfFlagged("display_name", verdict, {
+    userId: caller && !caller.matchId ? caller.userId : undefined,
+  });
+  return { displayName: verdict.text };
+}
+
+// Packs a lobby can pick, without their prompts so players can't read ahead
+async function listPromptPacks(): Promise<APIGatewayProxyResult> {
+  try {
+    const packs = await PromptLibrary.listPacks();
     return {
       statusCode: 200,
       headers: CORS_HEADERS,
       body: JSON.stringify({
-        success: true,
-        match: match,
+        packs: packs.filter((pack) => pack.isActive).map(summarizePack),
       }),
     };
   } catch (error) {
-    console.error("Failed to update match in DynamoDB:", error);
+    console.error("Failed to list prompt packs:", error);
+    return errorResponse(500, "Failed to list prompt packs");
+  }
+}
+
+// Signed-in players only: guest tokens belong to a single match. Public
+// matchmaking and profiles follow the account.
+async function signedInCaller(
+  event: APIGatewayProxyEvent
+): Promise<PlayerCaller | null> {
+  const caller = await authenticateRequest(event);
+  return caller && !caller.matchId ? caller : null;
+}
+
+async function enqueueForMatchmaking(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const caller = await signedInCaller(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to find a match");
+  }
+
+  const body = JSON.parse(event.body || "{}");
+  const name = await playerDisplayName(
+    caller,
+    typeof body.displayName === "string" ? body.displayName.trim() : undefined
+  );
+  if ("error" in name) {
+    return errorResponse(400, name.error);
+  }
+  const { displayName } = name;
+  if (!body.templateType || !displayName) {
+    return errorResponse(400, "templateType and displayName are required");
+  }
+  if (!isQueueable(body.templateType)) {
+    return errorResponse(400, "Matchmaking is only for public templates with more than one human");
+  }
+
+  try {
+    const status = await getMatchmakingService().enqueue(
+      caller.userId,
+      displayName,
+      body.templateType,
+      body.allowAIBackfill === true
+    );
     return {
-      statusCode: 500,
+      statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ error: "Failed to update match" }),
+      body: JSON.stringify(status),
     };
+  } catch (error) {
+    if (error instanceof TicketClaimedError) {
+      return errorResponse(409, error.message);
+    }
+    console.error("Failed to join matchmaking:", error);
+    return errorResponse(500, "Failed to join matchmaking");
+  }
+}
+
+async function getMatchmakingStatus(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const caller = await signedInCaller(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to find a match");
+  }
+
+  try {
+    const status = await getMatchmakingService().status(caller.userId);
+    if (!status) {
+      return errorResponse(404, "You are not queued for a match");
+    }
+    return {
+      statusCode: 200,
+      headers: CORS_HEADERS,
+      body: JSON.stringify(status),
+    };
+  } catch (error) {
+    console.error("Failed to load matchmaking status:", error);
+    return errorResponse(500, "Failed to load matchmaking status");
+  }
+}
+
+async function leaveMatchmaking(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const caller = await signedInCaller(event);
+  if (!caller) {
+    return errorResponse(401, "Sign in to find a match");
+  }
+
+  try {
+    await getMatchmakingService().leave(caller.userId);
+    return {
+      statusCode: 200,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({ success: true }),
+    };
+  } catch (error) {
+    if (error instanceof TicketClaimedError) {
+      return errorResponse(409, error.message);
+    }
+    console.error("Failed to leave matchmaking:", error);
+    return errorResponse(500, "Failed to leave matchmaking");
   }
 }
 
@@ -1074,31 +2490,62 @@ async function createMatchWithTemplateHandler(
 ): Promise<APIGatewayProxyResult> {
   try {
     const body = JSON.parse(event.body || "{}");
+    const caller = await authenticateRequest(event);
+    const name = await playerDisplayName(caller, body.creatorName);
+    if ("error" in name) {
+      return errorResponse(400, name.error);
+    }
+    const creatorName = name.displayName;
     
-    if (!body.templateType || !body.creatorUserId || !body.creatorName) {
+    if (!body.templateType || !creatorName) {
       return {
         statusCode: 400,
         headers: CORS_HEADERS,
         body: JSON.stringify({ 
-          error: "templateType, creatorUserId, and creatorName are required" 
+          error: "templateType and creatorName are required" 
         }),
       };
     }
 
+    const config = MatchConfigOverrideSchema.safeParse(body.config ?? {});
+    if (!config.success) {
+      return {
+        statusCode: 400,
+        headers: CORS_HEADERS,
+        body: JSON.stringify({ error: "Invalid match config", details: config.error.flatten() }),
+      };
+    }
+
+    if (MatchTemplateService.getTemplate(body.templateType)?.isAdminOnly && !(await isAdminCaller(caller))) {
+      return errorResponse(403, "Only admins can create this kind of match");
+    }
+
     // Set environment variable for the service
     process.env.USERS_TABLE_NAME = USERS_TABLE_NAME;
-    process.env.MATCHES_TABLE_NAME = TABLE_NAME;
     
     // Import and use the multi-human match service
     const { createMatchWithTemplate } = await import('./src/services/multi-human-match-service');
-    const match = await createMatchWithTemplate(body);
+    const creatorUserId = seatUserId(caller);
+    const match = await createMatchWithTemplate({
+      templateType: body.templateType,
+      creatorUserId,
+      creatorName,
+      config: body.config === undefined ? undefined : config.data,
+    });
+    const identity = findSeat(match as unknown as SharedMatch, creatorUserId);
 
     return {
       statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ match }),
+      body: JSON.stringify({
+        match: projectMatch(match as unknown as SharedMatch, { identity }),
+        token: issueGuestToken(match.matchId, creatorUserId),
+      }),
     };
   } catch (error) {
+    if (error instanceof InvalidMatchConfigError) {
+      return errorResponse(400, error.message);
+    }
     console.error("Error creating match with template:", error);
     return {
       statusCode: 500,
@@ -1117,27 +2564,33 @@ async function joinMatchHandler(
     const pathMatch = event.path.match(/\/join\/([^\/]+)$/);
     const inviteCode = pathMatch ? pathMatch[1] : null;
     const body = JSON.parse(event.body || "{}");
+    const caller = await authenticateRequest(event);
+    const name = await playerDisplayName(caller, body.displayName);
+    if ("error" in name) {
+      return errorResponse(400, name.error);
+    }
+    const { displayName } = name;
     
-    if (!inviteCode || !body.userId || !body.displayName) {
+    if (!inviteCode || !displayName) {
       return {
         statusCode: 400,
         headers: CORS_HEADERS,
         body: JSON.stringify({ 
-          error: "inviteCode, userId, and displayName are required" 
+          error: "inviteCode and displayName are required" 
         }),
       };
     }
 
     // Set environment variable for the service
     process.env.USERS_TABLE_NAME = USERS_TABLE_NAME;
-    process.env.MATCHES_TABLE_NAME = TABLE_NAME;
     
     // Import and use the multi-human match service
     const { joinMatch } = await import('./src/services/multi-human-match-service');
+    const userId = seatUserId(caller);
     const result = await joinMatch({
       inviteCode,
-      userId: body.userId,
-      displayName: body.displayName,
+      userId,
+      displayName,
     });
 
     if (!result.success) {
@@ -1148,10 +2601,14 @@ async function joinMatchHandler(
       };
     }
 
+    const match = result.match as unknown as SharedMatch;
     return {
       statusCode: 200,
       headers: CORS_HEADERS,
-      body: JSON.stringify({ match: result.match }),
+      body: JSON.stringify({
+        match: projectMatch(match, { identity: findSeat(match, userId) }),
+        token: issueGuestToken(match.matchId, userId),
+      }),
     };
   } catch (error) {
     console.error("Error joining match:", error);
@@ -1,7 +1,17 @@
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
 import { MatchTemplate, MatchTemplateType } from './src/services/match-template-service';
+import { InMemoryMatchRepository } from './src/local/in-memory-match-repository';
+import { setMatchRepository } from './src/services/match-repository';
 
 describe('Match Templates', () => {
+  beforeEach(() => {
+    setMatchRepository(new InMemoryMatchRepository());
+  });
+
+  afterAll(() => {
+    setMatchRepository();
+  });
+
   describe('Template Definitions', () => {
     it('should define 1v3 template (1 human, 3 AI)', () => {
       const template: MatchTemplate = {
@@ -0,0 +1,135 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createAIServiceHandler } from './src/handlers/ai-service';
+import { AITaskProcessor } from './src/services/ai-task-processor';
+import {
+  createDefaultModelRegistry,
+  createScriptedModelRegistry,
+  ModelRegistry,
+  OpenAICompatibleProvider,
+  ScriptedProvider,
+} from './src/services/model-providers';
+
+describe('model providers', () => {
+  describe('ModelRegistry', () => {
+    it('routes each model to its provider', async () => {
+      const registry = new ModelRegistry()
+        .registerProvider(new ScriptedProvider(async (modelId) => `one:${modelId}`))
+        .registerModel({ id: 'tiny', provider: 'scripted', providerModelId: 'tiny-v1' });
+
+      expect(registry.has('tiny')).toBe(true);
+      await expect(registry.invoke('tiny', 'system', 'user', {})).resolves.toBe('one:tiny');
+    });
+
+    it('rejects unknown models and providers', async () => {
+      const registry = new ModelRegistry();
+
+      await expect(registry.invoke('claude-3-haiku', 'system', 'user', {})).rejects.toThrow(
+        'Unknown model: claude-3-haiku'
+      );
+      expect(() =>
+        registry.registerModel({ id: 'llama3', provider: 'openai', providerModelId: 'llama3' })
+      ).toThrow('Unknown model provider: openai');
+    });
+
+    it('serves Bedrock models by default and adds configured OpenAI-compatible ones', () => {
+      expect(createDefaultModelRegistry({}).listModels().map((m) => m.id)).toEqual([
+        'claude-3-opus',
+        'claude-3-sonnet',
+        'claude-3-haiku',
+      ]);
+
+      const registry = createDefaultModelRegistry({
+        OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+        OPENAI_COMPATIBLE_MODELS: 'llama3, mistral',
+      });
+      expect(registry.get('llama3')).toEqual({ id: 'llama3', provider: 'openai', providerModelId: 'llama3' });
+      expect(registry.has('mistral')).toBe(true);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('sends a chat completion and returns the first choice', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ choices: [{ message: { content: 'hello there' } }] }),
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const provider = new OpenAICompatibleProvider('http://localhost:8080/v1/', 'secret');
+      const text = await provider.invoke(
+        { id: 'llama3', provider: 'openai', providerModelId: 'llama3:8b' },
+        'Be brief.',
+        'Say hi',
+        { temperature: 0.2, maxTokens: 20 }
+      );
+
+      expect(text).toBe('hello there');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/v1/chat/completions');
+      expect(init.headers.Authorization).toBe('Bearer secret');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'llama3:8b',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Say hi' },
+        ],
+        max_tokens: 20,
+        temperature: 0.2,
+      });
+    });
+
+    it('reports rate limits so the ai-service can answer 429', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 429 }) as unknown as typeof fetch;
+      const provider = new OpenAICompatibleProvider('http://localhost:8080/v1');
+
+      await expect(
+        provider.invoke({ id: 'llama3', provider: 'openai', providerModelId: 'llama3' }, 's', 'u', {})
+      ).rejects.toThrow('rate limit');
+    });
+  });
+
+  describe('ai-service model validation', () => {
+    const handler = createAIServiceHandler(
+      new AITaskProcessor(createScriptedModelRegistry(async () => 'scripted answer', ['local-llama']))
+    );
+
+    async function generate(body: unknown) {
+      const event = { httpMethod: 'POST', path: '/ai/generate', body: JSON.stringify(body) };
+      const result = (await handler(
+        event as unknown as APIGatewayProxyEvent,
+        {} as Context,
+        () => undefined
+      )) as APIGatewayProxyResult;
+      return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+    }
+
+    it('accepts any model the registry knows about', async () => {
+      const { statusCode, body } = await generate({
+        task: 'custom',
+        model: 'local-llama',
+        inputs: { systemPrompt: 'system', userPrompt: 'user' },
+      });
+
+      expect(statusCode).toBe(200);
+      expect(body).toMatchObject({ model: 'local-llama', result: { result: 'scripted answer' } });
+    });
+
+    it('rejects models the registry does not know', async () => {
+      const { statusCode, body } = await generate({
+        task: 'custom',
+        model: 'gpt-nonexistent',
+        inputs: { systemPrompt: 'system', userPrompt: 'user' },
+      });
+
+      expect(statusCode).toBe(400);
+      expect(body.details.fieldErrors.model[0]).toContain('local-llama');
+    });
+  });
+});
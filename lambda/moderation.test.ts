@@ -0,0 +1,47 @@
+import { findBlockedWords, maskBlockedWords } from './src/services/content-filter';
+import { MASKED_RESPONSE, ModerationService, moderationAction } from './src/services/moderation-service';
+
+describe('moderation', () => {
+  afterEach(() => {
+    delete process.env.MODERATION_RESPONSE_ACTION;
+    delete process.env.MODERATION_DISPLAY_NAME_ACTION;
+  });
+
+  it('finds blocked words as written, through punctuation and lookalikes', () => {
+    expect(findBlockedWords('Well, sh1t happens!')).toEqual(['sh1t']);
+    expect(findBlockedWords('What the shit?!')).toEqual(['shit']);
+    expect(findBlockedWords('Charles Dickens grew up in Scunthorpe')).toEqual([]);
+  });
+
+  it('stars out only the blocked words', () => {
+    expect(maskBlockedWords('What the shit, honestly')).toBe('What the ****, honestly');
+    expect(maskBlockedWords('nothing to see here')).toBe('nothing to see here');
+  });
+
+  it('applies the configured action per kind of content', async () => {
+    expect(moderationAction('response')).toBe('mask');
+    expect(moderationAction('display_name')).toBe('reject');
+    process.env.MODERATION_RESPONSE_ACTION = 'flag';
+    process.env.MODERATION_DISPLAY_NAME_ACTION = 'shout';
+    expect(moderationAction('response')).toBe('flag');
+    expect(moderationAction('display_name')).toBe('reject');
+
+    await expect(ModerationService.review('response', 'total bollocks')).resolves.toEqual({
+      action: 'flag',
+      text: 'total bollocks',
+      source: 'filter',
+      categories: ['blocked_word:bollocks'],
+    });
+    await expect(ModerationService.review('response', 'a quiet morning')).resolves.toEqual({
+      action: 'allow',
+      text: 'a quiet morning',
+      categories: [],
+    });
+  });
+
+  it('hides a whole response only when masking has nothing to star out', async () => {
+    const verdict = await ModerationService.review('response', 'bitches be crazy');
+    expect(verdict).toMatchObject({ action: 'mask', text: '******* be crazy' });
+    expect(verdict.text).not.toBe(MASKED_RESPONSE);
+  });
+});
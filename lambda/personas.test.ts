@@ -0,0 +1,105 @@
+import { AITaskProcessor } from './src/services/ai-task-processor';
+import { createScriptedModelRegistry, ModelInvoker } from './src/services/model-providers';
+import { builtInPersona, personaFromUser } from './src/services/personas';
+import type { User } from './shared/schemas/user.schema';
+
+describe('personas', () => {
+  const aiUser: User = {
+    userId: 'ai-nova',
+    userType: 'ai',
+    displayName: 'Nova',
+    isActive: true,
+    isAdmin: false,
+    personality: 'bandit',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  describe('personaFromUser', () => {
+    it('takes prompts and model settings from the record', () => {
+      const persona = personaFromUser({
+        ...aiUser,
+        systemPrompt: 'You are Nova, a night-shift nurse.',
+        voteStyle: 'You suspect anyone who sounds rested.',
+        maxResponseLength: 80,
+        modelConfig: { provider: 'bedrock', model: 'claude-3-sonnet', temperature: 0.4, maxTokens: 60 },
+      });
+
+      expect(persona).toEqual({
+        userId: 'ai-nova',
+        name: 'Nova',
+        personality: 'bandit',
+        systemPrompt: 'You are Nova, a night-shift nurse.',
+        voteStyle: 'You suspect anyone who sounds rested.',
+        model: 'claude-3-sonnet',
+        temperature: 0.4,
+        maxTokens: 60,
+        maxResponseLength: 80,
+      });
+    });
+
+    it('falls back to the built-in personality for fields the record leaves out', () => {
+      const persona = personaFromUser(aiUser);
+
+      expect(persona.name).toBe('Nova');
+      expect(persona.systemPrompt).toBe(builtInPersona('bandit').systemPrompt);
+      expect(persona.model).toBe('claude-3-haiku');
+      expect(persona.maxResponseLength).toBe(150);
+    });
+
+    it('uses the default personality for unknown ones', () => {
+      expect(builtInPersona('littleSister').personality).toBe('sundown');
+    });
+  });
+
+  describe('robot tasks', () => {
+    const calls: Array<{ modelId: string; systemPrompt: string; options: any }> = [];
+    const model: ModelInvoker = async (modelId, systemPrompt, userPrompt, options) => {
+      calls.push({ modelId, systemPrompt, options });
+      return userPrompt.includes('Pick exactly')
+        ? '{"votedFor": ["A"], "reasoning": "sounds tired"}'
+        : 'x'.repeat(200);
+    };
+    const processor = new AITaskProcessor(createScriptedModelRegistry(model));
+
+    beforeEach(() => {
+      calls.length = 0;
+    });
+
+    it('answers with the persona prompt and trims to its max length', async () => {
+      const result = await processor.process({
+        task: 'robot_response',
+        model: 'claude-3-sonnet',
+        inputs: {
+          personality: 'bandit',
+          persona: { name: 'Nova', systemPrompt: 'You are Nova, a night-shift nurse.', maxResponseLength: 40 },
+          prompt: 'What keeps you awake?',
+        },
+        options: { temperature: 0.4 },
+      });
+
+      expect(calls[0].modelId).toBe('claude-3-sonnet');
+      expect(calls[0].systemPrompt).toBe('You are Nova, a night-shift nurse.');
+      expect(calls[0].options.temperature).toBe(0.4);
+      expect(result.response).toHaveLength(40);
+    });
+
+    it('votes with the persona name and vote style', async () => {
+      await processor.process({
+        task: 'robot_vote',
+        model: 'claude-3-haiku',
+        inputs: {
+          personality: 'bandit',
+          persona: { name: 'Nova', voteStyle: 'You suspect anyone who sounds rested.' },
+          prompt: 'What keeps you awake?',
+          responses: { A: 'honestly nothing', C: 'The hum of the fridge.' },
+          picks: 1,
+        },
+        options: {},
+      });
+
+      expect(calls[0].systemPrompt).toMatch(/^You are Nova,/);
+      expect(calls[0].systemPrompt).toContain('You suspect anyone who sounds rested.');
+    });
+  });
+});
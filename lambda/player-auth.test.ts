@@ -0,0 +1,72 @@
+import { generateKeyPairSync, createSign } from 'crypto';
+import { authenticateToken, inAdminGroup, issueGuestToken } from './src/services/player-auth';
+
+const POOL_ID = 'us-east-1_TestPool';
+const CLIENT_ID = 'test-client';
+const ISSUER = `https://cognito-idp.us-east-1.amazonaws.com/${POOL_ID}`;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function cognitoToken(claims: Record<string, unknown>, kid = 'key-1'): string {
+  const signingInput = `${encode({ alg: 'RS256', kid })}.${encode({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    token_use: 'id',
+    sub: 'cognito-sub-1',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims,
+  })}`;
+  const signature = createSign('RSA-SHA256').update(signingInput).sign(privateKey, 'base64url');
+  return `${signingInput}.${signature}`;
+}
+
+describe('player auth', () => {
+  beforeAll(() => {
+    process.env.COGNITO_USER_POOL_ID = POOL_ID;
+    process.env.COGNITO_CLIENT_ID = CLIENT_ID;
+    const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] };
+    jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(JSON.stringify(jwks)));
+  });
+
+  afterAll(() => {
+    delete process.env.COGNITO_USER_POOL_ID;
+    delete process.env.COGNITO_CLIENT_ID;
+    jest.restoreAllMocks();
+  });
+
+  it('scopes guest tokens to their match', async () => {
+    await expect(authenticateToken(issueGuestToken('match-1', 'guest-1'))).resolves.toEqual({
+      userId: 'guest-1',
+      matchId: 'match-1',
+    });
+  });
+
+  it('resolves Cognito ID tokens to their subject', async () => {
+    await expect(authenticateToken(cognitoToken({}))).resolves.toEqual({ userId: 'cognito-sub-1' });
+  });
+
+  it('only counts signed-in members of the admin group as admins', async () => {
+    const admin = await authenticateToken(cognitoToken({ 'cognito:groups': ['admins'] }));
+    expect(admin).toEqual({ userId: 'cognito-sub-1', groups: ['admins'] });
+    expect(inAdminGroup(admin)).toBe(true);
+
+    expect(inAdminGroup(await authenticateToken(cognitoToken({ 'cognito:groups': ['players'] })))).toBe(false);
+    expect(inAdminGroup(await authenticateToken(cognitoToken({})))).toBe(false);
+    expect(inAdminGroup({ userId: 'cognito-sub-1', matchId: 'match-1', groups: ['admins'] })).toBe(false);
+  });
+
+  it('rejects expired, foreign and access tokens', async () => {
+    await expect(authenticateToken(cognitoToken({ exp: 1 }))).resolves.toBeNull();
+    await expect(authenticateToken(cognitoToken({ aud: 'other-client' }))).resolves.toBeNull();
+    await expect(authenticateToken(cognitoToken({ token_use: 'access' }))).resolves.toBeNull();
+    await expect(authenticateToken(cognitoToken({}, 'unknown-key'))).resolves.toBeNull();
+  });
+
+  it('only accepts local sign-ins in the local runtime', async () => {
+    await expect(authenticateToken('local.user-1')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { INITIAL_RATING, boardKey, ratingChanges, seasonOf } from './src/services/rating-service';
+import type { Match } from './shared/schemas/match.schema';
+
+function matchWith(votes: Record<string, string>, humans = ['A', 'B']): Pick<Match, 'participants' | 'rounds'> {
+  return {
+    participants: ['A', 'B', 'C', 'D'].map((identity) => ({
+      identity,
+      isAI: !humans.includes(identity),
+    })),
+    rounds: [{ status: 'complete', votes }],
+  } as unknown as Pick<Match, 'participants' | 'rounds'>;
+}
+
+describe('ratings', () => {
+  it('splits the year into quarter seasons', () => {
+    expect(seasonOf('2026-01-01T00:00:00.000Z')).toBe('2026-Q1');
+    expect(seasonOf('2026-06-30T23:59:59.000Z')).toBe('2026-Q2');
+    expect(seasonOf('2026-10-19T12:00:00.000Z')).toBe('2026-Q4');
+    expect(boardKey('2026-Q4')).toBe('2026-Q4#all');
+    expect(boardKey('2026-Q4', 'duo_2v2')).toBe('2026-Q4#duo_2v2');
+  });
+
+  it('moves detection by who spotted the other human and disguise by who was spotted', () => {
+    const changes = ratingChanges(matchWith({ A: 'B', B: 'C', C: 'A', D: 'A' }), new Map());
+    expect(changes.get('A')!.detection).toBeGreaterThan(0);
+    expect(changes.get('B')!.detection).toBeLessThan(0);
+    // Two of three voters spotted A; only A spotted B
+    expect(changes.get('A')!.disguise).toBeLessThan(0);
+    expect(changes.get('B')!.disguise).toBeGreaterThan(0);
+  });
+
+  it('leaves a lone human\'s detection alone and counts robot votes against their disguise', () => {
+    const changes = ratingChanges(matchWith({ A: 'B', B: 'A', C: 'A', D: 'A' }, ['A']), new Map());
+    expect(changes.get('A')).toEqual({ detection: 0, disguise: expect.any(Number) });
+    expect(changes.get('A')!.disguise).toBeLessThan(0);
+  });
+
+  it('moves a favourite less for winning than an underdog', () => {
+    const match = matchWith({ A: 'B', B: 'C' });
+    const even = ratingChanges(match, new Map()).get('A')!.detection;
+    const favourite = ratingChanges(
+      match,
+      new Map([['A', { detection: INITIAL_RATING + 400, disguise: INITIAL_RATING }]])
+    ).get('A')!.detection;
+    expect(favourite).toBeLessThan(even);
+  });
+});
@@ -0,0 +1,57 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { RealtimePublisher } from './src/services/realtime-publisher';
+import { isAdminCaller } from './src/services/match-projection';
+import { authenticateRequest, callerUserIdFor } from './src/services/player-auth';
+
+// Get environment variables
+const CONNECTIONS_TABLE_NAME =
+  process.env.CONNECTIONS_TABLE_NAME || 'robot-orchestra-connections';
+
+// WebSocket API handler. Clients connect with ?matchId=...&token=... (their
+// match token or Cognito ID token) and then only receive events; match-service
+// and robot-worker do the publishing.
+export const handler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  const { routeKey, connectionId, domainName, stage } = event.requestContext;
+  console.log('Realtime Service received route:', routeKey, connectionId);
+
+  if (!connectionId) {
+    return { statusCode: 400, body: 'Missing connectionId' };
+  }
+
+  const publisher = new RealtimePublisher(
+    CONNECTIONS_TABLE_NAME,
+    process.env.WEBSOCKET_ENDPOINT || `https://${domainName}/${stage}`
+  );
+
+  try {
+    switch (routeKey) {
+      case '$connect': {
+        const matchId = event.queryStringParameters?.matchId;
+        if (!matchId) {
+          return { statusCode: 400, body: 'matchId is required' };
+        }
+        const caller = await authenticateRequest(event);
+        await publisher.addConnection(
+          connectionId,
+          matchId,
+          callerUserIdFor(caller, matchId),
+          await isAdminCaller(caller) // Admins get the full match view over the socket too
+        );
+        return { statusCode: 200, body: 'Connected' };
+      }
+
+      case '$disconnect':
+        await publisher.removeConnection(connectionId);
+        return { statusCode: 200, body: 'Disconnected' };
+
+      default:
+        // Clients don't send messages yet; keepalive pings land here
+        return { statusCode: 200, body: '' };
+    }
+  } catch (error) {
+    console.error('Error in realtime service:', error);
+    return { statusCode: 500, body: 'Internal server error' };
+  }
+};
@@ -1,28 +1,39 @@
 import { SQSEvent, SQSRecord } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { InvokeCommand } from "@aws-sdk/client-lambda";
+import { SendMessageCommand } from "@aws-sdk/client-sqs";
 import {
-  DynamoDBDocumentClient,
-  GetCommand,
-  UpdateCommand,
-} from "@aws-sdk/lib-dynamodb";
-import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
-import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+  createLambdaClient,
+  createSQSClient,
+} from "./src/utils/aws-clients";
+import {
+  getRequiredVotePicks,
+  getVotePicks,
+} from "./shared/schemas/match.schema";
+import type { Identity, Match, MatchAnalysis, Vote } from "./shared/schemas/match.schema";
+import {
+  builtInPersona,
+  DEFAULT_PERSONA_SETTINGS,
+  legacyPersonality,
+  Persona,
+  personaFromUser,
+} from "./src/services/personas";
+import { UserService } from "./src/services/user-service";
+import { appendMatchEvents } from "./src/services/match-event-log";
+import { MatchUpdate, getMatchRepository } from "./src/services/match-repository";
 
 // Initialize AWS clients
-const dynamoClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
-const lambdaClient = new LambdaClient({});
-const sqsClient = new SQSClient({});
+const lambdaClient = createLambdaClient();
+const sqsClient = createSQSClient();
 
 // Get environment variables
-const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || "robot-orchestra-matches";
 const AI_SERVICE_FUNCTION_NAME =
   process.env.AI_SERVICE_FUNCTION_NAME || "robot-orchestra-ai-service";
 const STATE_UPDATE_QUEUE_URL = process.env.STATE_UPDATE_QUEUE_URL || "";
+const ROBOT_STAGGER_MS = Number(process.env.ROBOT_STAGGER_MS ?? 2000);
+const ROBOT_VOTE_TIMEOUT_MS = Number(process.env.ROBOT_VOTE_TIMEOUT_MS ?? 10000);
+
+// Matches the AI service's default for analyze_match; nobody waits on it
+const ANALYSIS_MODEL = "claude-3-sonnet";
 
 // Robot personalities for response generation
 const robotPersonalities = {
@@ -58,115 +69,136 @@ const robotPersonalities = {
   },
 };
 
-// Available AI personalities (cycles through these for >3 AI players)
-// Using Rocket League bot names and personalities
-const availablePersonalities = [
-  "sundown", // confident and aggressive
-  "bandit", // sneaky and unpredictable  
-  "maverick", // bold and daring
-];
-
-// Get personality for a robot based on its identity
-function getRobotPersonality(robotId: string, allRobotIds: string[]): string {
-  // Find the index of this robot among all AI participants
-  const robotIndex = allRobotIds.indexOf(robotId);
-  if (robotIndex === -1) {
-    console.warn(`Robot ${robotId} not found in robot list, using default personality`);
-    return availablePersonalities[0];
+// Bind a robot to its AI user record. Robots without one, from matches created
+// before robots were bound to users, get a built-in personality.
+async function loadPersona(match: any, robotId: string): Promise<Persona> {
+  const participant = match.participants.find((p: any) => p.identity === robotId);
+
+  if (participant?.userId) {
+    try {
+      const user = await UserService.getUserById(participant.userId);
+      if (user && user.userType === "ai") {
+        return personaFromUser(user);
+      }
+      console.warn(`AI user ${participant.userId} for robot ${robotId} not found, using built-in persona`);
+    } catch (error) {
+      console.error(`Failed to load AI user ${participant.userId} for robot ${robotId}:`, error);
+    }
   }
-  
-  // Cycle through available personalities
-  return availablePersonalities[robotIndex % availablePersonalities.length];
+
+  const robotIds = match.participants.filter((p: any) => p.isAI).map((p: any) => p.identity);
+  return builtInPersona(
+    participant?.personality || legacyPersonality(robotId, robotIds),
+    participant?.playerName
+  );
+}
+
+// What the AI service needs to speak as the persona
+function personaInputs(persona: Persona) {
+  return {
+    name: persona.name,
+    systemPrompt: persona.systemPrompt,
+    styleNotes: persona.styleNotes,
+    voteStyle: persona.voteStyle,
+    maxResponseLength: persona.maxResponseLength,
+  };
 }
 
 async function generateRobotResponse(
   prompt: string,
   robotId: string,
+  persona: Persona,
   roundNumber?: number,
   humanResponses?: { current?: string; previous?: string[] },
-  previousAIResponses?: string[],
-  allRobotIds?: string[]
-): Promise<string> {
-  // Get personality dynamically based on robot position
-  const robotIds = allRobotIds || ['B', 'C', 'D']; // Default for backward compatibility
-  const personality = getRobotPersonality(robotId, robotIds);
-
-  if (!personality) {
-    console.warn(`Unknown robot ID: ${robotId}, using fallback`);
-    return generateFallbackResponse(prompt, robotId);
-  }
-
+  previousAIResponses?: string[]
+): Promise<{ response: string; fallback: boolean }> {
   try {
-    // Invoke AI service Lambda
-    const requestBody = {
-      task: "robot_response",
-      model: "claude-3-haiku", // Fast model for real-time responses
-      inputs: {
-        personality,
-        prompt,
-        context: {
-          round: roundNumber,
-          humanResponses: humanResponses,
-          previousAIResponses: previousAIResponses,
-        },
-      },
-      options: {
-        temperature: 0.85,
-        maxTokens: 150,
-      },
-    };
-
-    // Format as API Gateway event since AI service expects that format
-    const payload = {
-      httpMethod: "POST",
-      body: JSON.stringify(requestBody),
-    };
-
     console.log(
-      `Invoking AI service for robot ${robotId} with personality ${personality}`
-    );
-
-    const response = await lambdaClient.send(
-      new InvokeCommand({
-        FunctionName: AI_SERVICE_FUNCTION_NAME,
-        InvocationType: "RequestResponse",
-        Payload: JSON.stringify(payload),
-      })
+      `Invoking AI service for robot ${robotId} as ${persona.name} (${persona.userId || persona.personality})`
     );
 
-    if (response.StatusCode !== 200) {
-      throw new Error(`AI service returned status ${response.StatusCode}`);
-    }
-
-    const result = JSON.parse(new TextDecoder().decode(response.Payload!));
-    console.log(`AI service raw response:`, JSON.stringify(result));
-
-    if (result.errorMessage) {
-      throw new Error(result.errorMessage);
-    }
-
-    const parsedBody = JSON.parse(result.body);
-    console.log(`AI service parsed body:`, JSON.stringify(parsedBody));
+    const result = await invokeAIService("robot_response", {
+      personality: persona.personality,
+      persona: personaInputs(persona),
+      prompt,
+      context: {
+        round: roundNumber,
+        humanResponses: humanResponses,
+        previousAIResponses: previousAIResponses,
+      },
+    }, {
+      temperature: persona.temperature,
+      maxTokens: persona.maxTokens,
+    }, persona.model);
 
-    if (!parsedBody.success || !parsedBody.result?.response) {
-      console.error(
-        `AI service response missing expected fields. Body:`,
-        parsedBody
-      );
+    if (!result?.response) {
       throw new Error("Invalid response from AI service");
     }
 
-    return parsedBody.result.response;
+    return { response: result.response, fallback: false };
   } catch (error) {
     console.error(
       `Failed to generate AI response for robot ${robotId}:`,
       error
     );
     // Fall back to hardcoded responses
-    return generateFallbackResponse(prompt, robotId);
+    return { response: generateFallbackResponse(prompt, robotId), fallback: true };
   }
 }
 
+// Invoke the AI service Lambda and return the task result
+async function invokeAIService(
+  task: string,
+  inputs: Record<string, unknown>,
+  options: { temperature?: number; maxTokens?: number },
+  model: string = DEFAULT_PERSONA_SETTINGS.model
+): Promise<any> {
+  const requestBody = {
+    task,
+    model,
+    inputs,
+    options,
+  };
+
+  // Format as API Gateway event since AI service expects that format
+  const payload = {
+    httpMethod: "POST",
+    body: JSON.stringify(requestBody),
+  };
+
+  const response = await lambdaClient.send(
+    new InvokeCommand({
+      FunctionName: AI_SERVICE_FUNCTION_NAME,
+      InvocationType: "RequestResponse",
+      Payload: JSON.stringify(payload),
+    })
+  );
+
+  if (response.StatusCode !== 200) {
+    throw new Error(`AI service returned status ${response.StatusCode}`);
+  }
+
+  const result = JSON.parse(new TextDecoder().decode(response.Payload!));
+  console.log(`AI service raw response:`, JSON.stringify(result));
+
+  if (result.errorMessage) {
+    throw new Error(result.errorMessage);
+  }
+
+  const parsedBody = JSON.parse(result.body);
+  console.log(`AI service parsed body:`, JSON.stringify(parsedBody));
+
+  if (!parsedBody.success) {
+    console.error(
+      `AI service response missing expected fields. Body:`,
+      parsedBody
+    );
+    throw new Error(parsedBody.error || "Invalid response from AI service");
+  }
+
+  return parsedBody.result;
+}
+
 function generateFallbackResponse(_prompt: string, robotId: string): string {
   // For backward compatibility, check if this is one of the original robots
   const personality =
@@ -189,36 +221,32 @@ function generateFallbackResponse(_prompt: string, robotId: string): string {
   return responses[Math.floor(Math.random() * responses.length)];
 }
 
-// Notify match-service of robot response completion
+// Notify match-service that a robot finished its response or vote
 async function notifyStateUpdate(
   matchId: string,
   roundNumber: number,
-  robotId: string
+  robotId: string,
+  type: "ROBOT_RESPONSE_COMPLETE" | "ROBOT_VOTE_COMPLETE" = "ROBOT_RESPONSE_COMPLETE"
 ): Promise<void> {
+  await sendStateUpdate({ type, matchId, roundNumber, robotId });
+  console.log(
+    `Notified match-service of ${robotId} completion for match ${matchId} round ${roundNumber}`
+  );
+}
+
+async function sendStateUpdate(message: Record<string, unknown>): Promise<void> {
   if (!STATE_UPDATE_QUEUE_URL) {
     console.error("STATE_UPDATE_QUEUE_URL is not set!");
     return;
   }
 
-  const message = {
-    type: "ROBOT_RESPONSE_COMPLETE",
-    matchId,
-    roundNumber,
-    robotId,
-    timestamp: new Date().toISOString(),
-  };
-
   try {
     await sqsClient.send(
       new SendMessageCommand({
         QueueUrl: STATE_UPDATE_QUEUE_URL,
-        MessageBody: JSON.stringify(message),
+        MessageBody: JSON.stringify({ ...message, timestamp: new Date().toISOString() }),
       })
     );
-
-    console.log(
-      `Notified match-service of ${robotId} completion for match ${matchId} round ${roundNumber}`
-    );
   } catch (error) {
     console.error(`Failed to send state update notification:`, error);
     throw error;
@@ -226,56 +254,77 @@ async function notifyStateUpdate(
 }
 
 interface RobotMessage {
+  type?: "generate_response" | "prepare_vote"; // Absent on response tasks
   matchId: string;
   roundNumber: number;
-  prompt: string;
+  prompt?: string;
   robotId: string;
   timestamp: string;
 }
 
+// Queued by match-service once a match completes
+interface AnalysisMessage {
+  type: "analyze_match";
+  matchId: string;
+  timestamp: string;
+}
+
 export const handler = async (event: SQSEvent): Promise<void> => {
   console.log("Robot Worker received event:", JSON.stringify(event, null, 2));
 
   // Process each message
   for (const record of event.Records) {
     try {
-      await processRobotResponse(record);
+      const message: RobotMessage | AnalysisMessage = JSON.parse(record.body);
+      if (message.type === "analyze_match") {
+        await processMatchAnalysis(message);
+      } else if (message.type === "prepare_vote") {
+        await processRobotVote(message);
+      } else {
+        await processRobotResponse(record);
+      }
     } catch (error) {
-      console.error("Failed to process robot response:", error);
+      console.error("Failed to process robot task:", error);
       // Throw error to let SQS retry (with DLQ configured)
       throw error;
     }
   }
 };
 
+// Add staggered delays to avoid Bedrock rate limits
+async function staggerRobot(match: any, robotId: string): Promise<void> {
+  const aiParticipants = match.participants.filter((p: any) => p.isAI);
+  const aiIdentities = aiParticipants.map((p: any) => p.identity);
+  const robotIndex = aiIdentities.indexOf(robotId);
+
+  // 2 second delay between each robot by default (0ms for first, 2000ms for second, etc.)
+  const delay = robotIndex >= 0 ? robotIndex * ROBOT_STAGGER_MS : 0;
+  if (delay > 0) {
+    console.log(
+      `Waiting ${delay}ms before robot ${robotId} calls the AI service to avoid rate limits`
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
 async function processRobotResponse(record: SQSRecord): Promise<void> {
   const message: RobotMessage = JSON.parse(record.body);
-  const { matchId, roundNumber, prompt, robotId } = message;
+  const { matchId, roundNumber, robotId } = message;
+  const prompt = message.prompt || "";
 
   console.log(
     `Processing robot ${robotId} response for match ${matchId}, round ${roundNumber}`
   );
-  console.log("DynamoDB table:", TABLE_NAME);
 
   // Get current match state
   try {
-    const result = await docClient.send(
-      new GetCommand({
-        TableName: TABLE_NAME,
-        Key: {
-          matchId,
-          timestamp: 0,
-        },
-      })
-    );
-
-    console.log("DynamoDB GetCommand result:", JSON.stringify(result, null, 2));
+    const match = await getMatchRepository().get(matchId);
+    console.log("Match record:", JSON.stringify(match, null, 2));
 
-    if (!result.Item) {
+    if (!match) {
       throw new Error(`Match ${matchId} not found`);
     }
 
-    const match = result.Item;
     console.log(
       "Match found, current round:",
       match.currentRound,
@@ -291,19 +340,11 @@ async function processRobotResponse(record: SQSRecord): Promise<void> {
       throw new Error(`Round ${roundNumber} not found in match ${matchId}`);
     }
 
-    // Add staggered delays to avoid Bedrock rate limits
-    // Get all AI participants to determine delay
-    const aiParticipants = match.participants.filter((p: any) => p.isAI);
-    const aiIdentities = aiParticipants.map((p: any) => p.identity);
-    const robotIndex = aiIdentities.indexOf(robotId);
-    
-    // 2 second delay between each robot (0ms for first, 2000ms for second, etc.)
-    const delay = robotIndex >= 0 ? robotIndex * 2000 : 0;
-    if (delay > 0) {
-      console.log(
-        `Waiting ${delay}ms before generating response for robot ${robotId} to avoid rate limits`
-      );
-      await new Promise((resolve) => setTimeout(resolve, delay));
+    await staggerRobot(match, robotId);
+    const persona = await loadPersona(match, robotId);
+    // Robots keep to the lobby's length limit like everyone else
+    if (match.config) {
+      persona.maxResponseLength = Math.min(persona.maxResponseLength, match.config.maxResponseLength);
     }
 
     // Collect human responses for style mimicry
@@ -366,49 +407,61 @@ async function processRobotResponse(record: SQSRecord): Promise<void> {
     }
 
     // Generate robot response with human style context and previous responses
-    const response = await generateRobotResponse(
+    const startedAt = Date.now();
+    const { response, fallback } = await generateRobotResponse(
       prompt,
       robotId,
+      persona,
       roundNumber,
       humanResponses,
-      previousAIResponses,
-      aiIdentities
+      previousAIResponses
     );
+    const latencyMs = Date.now() - startedAt;
 
-    // Update the match with the robot's response
-    const updateExpression = `SET rounds[${roundIndex}].responses.#robotId = :response, updatedAt = :updatedAt`;
-
+    // Store the response against the latest match, which has moved on while
+    // the model was thinking. A deadline may have closed the round already.
     console.log(
       `Updating robot ${robotId} response for match ${matchId}, round ${roundNumber}`
     );
-    console.log(`Update expression: ${updateExpression}`);
 
+    let update: MatchUpdate<Match> | null;
     try {
-      await docClient.send(
-        new UpdateCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            matchId,
-            timestamp: 0,
-          },
-          UpdateExpression: updateExpression,
-          ExpressionAttributeNames: {
-            "#robotId": robotId,
-          },
-          ExpressionAttributeValues: {
-            ":response": response,
-            ":updatedAt": new Date().toISOString(),
-          },
-        })
-      );
-      console.log(
-        `Robot ${robotId} response successfully stored for match ${matchId}`
-      );
+      update = await getMatchRepository().update<Match>(matchId, (latest) => {
+        const latestRound = latest.rounds.find((r) => r.roundNumber === roundNumber);
+        if (!latestRound || latestRound.status !== "responding") {
+          return false;
+        }
+        latestRound.responses[robotId] = response;
+        latest.updatedAt = new Date().toISOString();
+        return true;
+      });
     } catch (error) {
       console.error(`Failed to store robot ${robotId} response:`, error);
       throw error;
     }
 
+    if (!update?.saved) {
+      console.log(
+        `Round ${roundNumber} of match ${matchId} stopped collecting responses before robot ${robotId} answered`
+      );
+      return;
+    }
+    console.log(
+      `Robot ${robotId} response successfully stored for match ${matchId}`
+    );
+
+    await appendMatchEvents(matchId, [
+      {
+        type: "robot_response_generated",
+        roundNumber,
+        identity: robotId as Identity,
+        response,
+        model: persona.model,
+        latencyMs,
+        ...(fallback && { fallback }),
+      },
+    ]);
+
     // Notify match-service that this robot has completed its response
     await notifyStateUpdate(matchId, roundNumber, robotId);
 
@@ -420,3 +473,179 @@ async function processRobotResponse(record: SQSRecord): Promise<void> {
     throw error;
   }
 }
+
+// Pick suspected humans at random, used when the model fails or times out
+function randomVote(candidates: string[], picks: number): string[] {
+  return [...candidates].sort(() => Math.random() - 0.5).slice(0, picks);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+async function processRobotVote(message: RobotMessage): Promise<void> {
+  const { matchId, roundNumber, robotId } = message;
+
+  console.log(
+    `Processing robot ${robotId} vote for match ${matchId}, round ${roundNumber}`
+  );
+
+  const match = await getMatchRepository().get(matchId);
+  if (!match) {
+    throw new Error(`Match ${matchId} not found`);
+  }
+
+  const roundIndex = match.rounds.findIndex(
+    (r: any) => r.roundNumber === roundNumber
+  );
+  if (roundIndex === -1) {
+    throw new Error(`Round ${roundNumber} not found in match ${matchId}`);
+  }
+
+  const round = match.rounds[roundIndex];
+  if (round.status !== "voting" || round.votes?.[robotId]) {
+    console.log(
+      `Robot ${robotId} has nothing to vote on in round ${roundNumber} (status: ${round.status})`
+    );
+    return;
+  }
+
+  await staggerRobot(match, robotId);
+  const persona = await loadPersona(match, robotId);
+  const picks = getRequiredVotePicks(match.participants, robotId);
+  const responses: Record<string, string> = Object.fromEntries(
+    Object.entries(round.responses || {}).filter(([identity]) => identity !== robotId)
+  ) as Record<string, string>;
+
+  // Earlier rounds let the persona compare writing habits and its own past picks
+  const history = match.rounds.slice(0, roundIndex).map((r: any) => ({
+    round: r.roundNumber,
+    prompt: r.prompt,
+    responses: Object.fromEntries(
+      Object.entries(r.responses || {}).filter(([identity]) => identity !== robotId)
+    ),
+    myVote: r.votes?.[robotId] ? getVotePicks(r.votes[robotId]) : undefined,
+  }));
+
+  let votedFor: string[];
+  const startedAt = Date.now();
+  try {
+    const voteResult = await withTimeout(
+      invokeAIService("robot_vote", {
+        personality: persona.personality,
+        persona: personaInputs(persona),
+        prompt: round.prompt,
+        responses,
+        picks,
+        history,
+      }, {
+        temperature: 0.5,
+        maxTokens: 200,
+      }, persona.model),
+      ROBOT_VOTE_TIMEOUT_MS
+    );
+    votedFor = voteResult.votedFor;
+    console.log(`Robot ${robotId} (${persona.name}) voted for ${votedFor.join(", ")}: ${voteResult.reasoning}`);
+  } catch (error) {
+    console.error(`Failed to generate AI vote for robot ${robotId}, voting at random:`, error);
+    const candidates = Object.keys(responses).length >= picks
+      ? Object.keys(responses)
+      : match.participants.map((p: any) => p.identity).filter((id: string) => id !== robotId);
+    votedFor = randomVote(candidates, picks);
+  }
+
+  // The round may have closed while the robot was deciding
+  const vote = votedFor.length === 1 ? votedFor[0] : votedFor;
+  const update = await getMatchRepository().update<Match>(matchId, (latest) => {
+    const latestRound = latest.rounds.find((r) => r.roundNumber === roundNumber);
+    if (!latestRound || latestRound.status !== "voting" || latestRound.votes[robotId]) {
+      return false;
+    }
+    latestRound.votes[robotId] = vote;
+    latest.updatedAt = new Date().toISOString();
+    return true;
+  });
+  if (!update?.saved) {
+    console.log(`Robot ${robotId} vote in round ${roundNumber} is no longer needed`);
+    return;
+  }
+
+  await appendMatchEvents(matchId, [
+    {
+      type: "vote_cast",
+      roundNumber,
+      voter: robotId as Identity,
+      votedFor: vote as Vote,
+      model: persona.model,
+      latencyMs: Date.now() - startedAt,
+    },
+  ]);
+
+  await notifyStateUpdate(matchId, roundNumber, robotId, "ROBOT_VOTE_COMPLETE");
+}
+
+/**
+ * Write the post-match report onto a completed match. A failed analysis is
+ * stored as unavailable rather than retried, so the results screen stops
+ * waiting for it.
+ */
+async function processMatchAnalysis(message: AnalysisMessage): Promise<void> {
+  const { matchId } = message;
+  console.log(`Analyzing completed match ${matchId}`);
+
+  const match = await getMatchRepository().get<Match>(matchId);
+  if (!match) {
+    throw new Error(`Match ${matchId} not found`);
+  }
+  if (match.analysis?.status !== "pending") {
+    console.log(`Match ${matchId} has no analysis waiting (status: ${match.analysis?.status})`);
+    return;
+  }
+
+  const requestedAt = match.analysis.requestedAt;
+  let analysis: MatchAnalysis;
+  try {
+    const result = await invokeAIService("analyze_match", {
+      match,
+      analysisType: "report",
+    }, {
+      maxTokens: 800,
+    }, ANALYSIS_MODEL);
+    analysis = {
+      ...result.analysis,
+      status: "ready",
+      requestedAt,
+      completedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`Failed to analyze match ${matchId}:`, error);
+    analysis = { status: "unavailable", requestedAt, completedAt: new Date().toISOString() };
+  }
+
+  const update = await getMatchRepository().update<Match>(matchId, (latest) => {
+    if (latest.analysis?.status !== "pending") {
+      return false;
+    }
+    latest.analysis = analysis;
+    latest.updatedAt = analysis.completedAt!;
+    return true;
+  });
+  if (!update?.saved) {
+    console.log(`Analysis of match ${matchId} was already written`);
+    return;
+  }
+
+  await sendStateUpdate({ type: "MATCH_ANALYSIS_COMPLETE", matchId });
+}
@@ -0,0 +1,44 @@
+import {
+  DEADLINE_GRACE_SECONDS,
+  ROBOT_RESPONSE_TIME_LIMIT,
+  getRoundDeadline,
+  isRobotAllowanceOver,
+  isRoundOverdue,
+} from './src/services/round-deadlines';
+
+describe('round deadlines', () => {
+  const start = '2026-01-01T00:00:00.000Z';
+  const at = (seconds: number) => ({ now: () => new Date(Date.parse(start) + seconds * 1000) });
+
+  it('counts the response limit from the round start', () => {
+    const deadline = getRoundDeadline({ responseTimeLimit: 60 }, { status: 'responding', startTime: start });
+    expect(deadline?.toISOString()).toBe('2026-01-01T00:01:00.000Z');
+  });
+
+  it('counts the vote limit from when voting opened, defaulting to 90 seconds', () => {
+    const deadline = getRoundDeadline(
+      { responseTimeLimit: 60 },
+      { status: 'voting', startTime: start, votingStartTime: '2026-01-01T00:01:00.000Z' }
+    );
+    expect(deadline?.toISOString()).toBe('2026-01-01T00:02:30.000Z');
+  });
+
+  it('has no deadline for completed rounds or rounds without a start time', () => {
+    expect(getRoundDeadline({}, { status: 'complete', startTime: start })).toBeNull();
+    expect(getRoundDeadline({}, { status: 'responding' })).toBeNull();
+  });
+
+  it('allows a grace period past the deadline', () => {
+    const round = { status: 'responding', startTime: start };
+    expect(isRoundOverdue({ responseTimeLimit: 45 }, round, at(45 + DEADLINE_GRACE_SECONDS))).toBe(false);
+    expect(isRoundOverdue({ responseTimeLimit: 45 }, round, at(46 + DEADLINE_GRACE_SECONDS))).toBe(true);
+  });
+
+  it('gives robots their own allowance from when they were asked', () => {
+    const round = { status: 'responding', startTime: start, robotsStartTime: '2026-01-01T00:00:40.000Z' };
+    const allowance = 40 + ROBOT_RESPONSE_TIME_LIMIT + DEADLINE_GRACE_SECONDS;
+    expect(isRobotAllowanceOver(round, at(allowance))).toBe(false);
+    expect(isRobotAllowanceOver(round, at(allowance + 1))).toBe(true);
+    expect(isRobotAllowanceOver({ status: 'responding', startTime: start }, at(3600))).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  DEFAULT_SCORING_RULES,
+  ScorableRound,
+  ScoringEngine,
+} from './src/services/scoring-engine';
+
+describe('ScoringEngine', () => {
+  const classic = [
+    { identity: 'A', isAI: false },
+    { identity: 'B', isAI: true },
+    { identity: 'C', isAI: true },
+    { identity: 'D', isAI: true },
+  ];
+  const duo = [
+    { identity: 'A', isAI: false },
+    { identity: 'B', isAI: false },
+    { identity: 'C', isAI: true },
+    { identity: 'D', isAI: true },
+  ];
+
+  function round(roundNumber: number, votes: ScorableRound['votes']): ScorableRound {
+    return { roundNumber, votes, status: 'complete' };
+  }
+
+  describe('scoreRound', () => {
+    it('rewards correct votes and the human for every voter they fool', () => {
+      const engine = new ScoringEngine();
+      const scoring = engine.scoreRound(round(1, { A: 'B', B: 'A', C: 'D', D: 'C' }), classic);
+
+      expect(scoring.voteResults.find((v) => v.voter === 'B')).toEqual({
+        voter: 'B',
+        votedFor: 'A',
+        correct: true,
+        points: 100,
+      });
+      expect(scoring.successfullyDeceived).toBe(2);
+      expect(scoring.deceptionPoints).toEqual({ A: 100 });
+      expect(scoring.totals).toEqual({ A: 100, B: 100, C: 0, D: 0 });
+    });
+
+    it('treats every human as a correct answer in multi-human matches', () => {
+      const engine = new ScoringEngine();
+      const scoring = engine.scoreRound(round(1, { A: 'B', B: 'C', C: 'A', D: 'C' }), duo);
+
+      expect(scoring.humanIdentities).toEqual(['A', 'B']);
+      expect(scoring.voteResults.filter((v) => v.correct).map((v) => v.voter)).toEqual(['A', 'C']);
+      // A fooled B and D; B fooled C and D
+      expect(scoring.deceptionPoints).toEqual({ A: 100, B: 100 });
+      expect(scoring.totals).toEqual({ A: 200, B: 100, C: 100, D: 0 });
+    });
+
+    it('credits each correct pick in a multi-target vote', () => {
+      const engine = new ScoringEngine();
+      const scoring = engine.scoreRound(round(1, { C: ['A', 'B'], D: ['A', 'C'] }), duo);
+
+      expect(scoring.voteResults.filter((v) => v.voter === 'C')).toHaveLength(2);
+      expect(scoring.totals).toEqual({ A: 0, B: 50, C: 200, D: 100 });
+    });
+
+    it('applies the identified penalty from template rules', () => {
+      const engine = ScoringEngine.forTemplate('duo_2v2');
+      const scoring = engine.scoreRound(round(1, { A: 'B', B: 'A', C: 'A', D: 'C' }), duo);
+
+      expect(scoring.penaltyPoints).toEqual({ A: 50, B: 25 });
+      // A: 100 correct vote + 50 fooling D - 50 penalty
+      expect(scoring.totals!.A).toBe(100);
+    });
+
+    it('awards a streak bonus once a voter has been right enough rounds in a row', () => {
+      const engine = new ScoringEngine({ ...DEFAULT_SCORING_RULES, streakBonus: 50, streakLength: 2 });
+      const first = { ...round(1, { B: 'A', C: 'D' }) };
+      first.scoring = engine.scoreRound(first, classic);
+      const second = round(2, { B: 'A', C: 'A' });
+      const scoring = engine.scoreRound(second, classic, [first]);
+
+      expect(scoring.bonusPoints).toEqual({ B: 50 });
+      expect(scoring.totals!.B).toBe(150);
+      expect(scoring.totals!.C).toBe(100);
+    });
+  });
+
+  describe('buildMatchResult', () => {
+    it('totals the rounds and picks the winner and deception MVP', () => {
+      const engine = new ScoringEngine();
+      const rounds = [round(1, { A: 'B', B: 'C', C: 'A', D: 'C' }), round(2, { A: 'C', B: 'A', C: 'B', D: 'B' })];
+      rounds.forEach((r, i) => {
+        r.scoring = engine.scoreRound(r, duo, rounds.slice(0, i));
+      });
+
+      const result = engine.buildMatchResult({
+        matchId: 'match-1',
+        participants: duo,
+        rounds,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        completedAt: '2026-01-01T00:05:00.000Z',
+      });
+
+      expect(result.finalScores).toEqual({ A: 300, B: 250, C: 200, D: 100 });
+      expect(result.winner).toBe('A');
+      expect(result.mvpIdentity).toBe('A');
+      expect(result.completedRounds).toBe(2);
+      expect(result.duration).toBe(5 * 60 * 1000);
+      expect(result.playerStats.find((s) => s.identity === 'A')).toMatchObject({
+        correctVotes: 1,
+        timesVotedAsHuman: 2,
+        deceptionPoints: 200,
+        roundScores: [200, 100],
+      });
+    });
+
+    it('falls back to the flat scores map for rounds scored before the engine', () => {
+      const engine = new ScoringEngine();
+      const legacy = { ...round(1, { A: 'B', B: 'A' }), scores: { A: 0, B: 100 } };
+
+      const result = engine.buildMatchResult({
+        matchId: 'match-2',
+        participants: classic,
+        rounds: [legacy],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        completedAt: '2026-01-01T00:00:00.000Z',
+      });
+
+      expect(result.finalScores).toEqual({ A: 0, B: 100, C: 0, D: 0 });
+      expect(result.winner).toBe('B');
+    });
+  });
+});
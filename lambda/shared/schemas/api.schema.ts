@@ -1,6 +1,7 @@
 // @ts-ignore - Zod will be resolved by the bundler
 import { z } from 'zod';
-import { IdentitySchema, MatchSchema } from './match.schema';
+import { IdentitySchema, MatchSchema, MatchTemplateTypeSchema, MatchViewSchema, VoteSchema } from './match.schema';
+import { MatchConfigOverrideSchema } from './game.schema';
 
 // Base API response schema
 export const ApiResponseSchema = <T extends z.ZodType>(dataSchema: T) =>
@@ -20,15 +21,23 @@ export type CreateMatchRequest = z.infer<typeof CreateMatchRequestSchema>;
 export const CreateMatchResponseSchema = ApiResponseSchema(
   z.object({
     match: MatchSchema,
-    token: z.string().optional(), // For future auth
+    token: z.string().optional(), // Guest token for acting in this match
   })
 );
 export type CreateMatchResponse = z.infer<typeof CreateMatchResponseSchema>;
 
+// Create a private lobby from a template, optionally overriding its settings
+export const CreateMatchWithTemplateRequestSchema = z.object({
+  templateType: MatchTemplateTypeSchema,
+  creatorName: z.string().min(1).max(50),
+  config: MatchConfigOverrideSchema.optional(),
+});
+export type CreateMatchWithTemplateRequest = z.infer<typeof CreateMatchWithTemplateRequestSchema>;
+
 // Submit response request
 export const SubmitResponseRequestSchema = z.object({
-  identity: IdentitySchema,
-  response: z.string().min(1).max(280), // Twitter-like limit
+  identity: IdentitySchema.optional(), // The server acts for the caller's own seat; naming another is a 403
+  response: z.string().min(1).max(500), // Each match sets its own limit within this (config.maxResponseLength)
   round: z.number().int().positive(),
 });
 export type SubmitResponseRequest = z.infer<typeof SubmitResponseRequestSchema>;
@@ -43,8 +52,8 @@ export type SubmitResponseResponse = z.infer<typeof SubmitResponseResponseSchema
 
 // Submit vote request
 export const SubmitVoteRequestSchema = z.object({
-  voter: IdentitySchema,
-  votedFor: IdentitySchema,
+  voter: IdentitySchema.optional(), // As with responses, taken from the caller's token
+  votedFor: VoteSchema,
   round: z.number().int().positive(),
 });
 export type SubmitVoteRequest = z.infer<typeof SubmitVoteRequestSchema>;
@@ -62,6 +71,14 @@ export type SubmitVoteResponse = z.infer<typeof SubmitVoteResponseSchema>;
 export const GetMatchResponseSchema = ApiResponseSchema(MatchSchema);
 export type GetMatchResponse = z.infer<typeof GetMatchResponseSchema>;
 
+// GET /matches/history?limit=&cursor= - the caller's own matches, newest first
+export const MatchHistoryPageSchema = z.object({
+  matches: z.array(MatchViewSchema),
+  count: z.number().int(),
+  cursor: z.string().optional(), // Send back for the next page; absent on the last
+});
+export type MatchHistoryPage = z.infer<typeof MatchHistoryPageSchema>;
+
 // WebSocket/SSE event schemas
 export const MatchEventTypeSchema = z.enum([
   'match_updated',
@@ -0,0 +1,40 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+import { IdentitySchema, MatchViewSchema, VoteSchema } from './match.schema';
+
+// Spectators watch without a seat. They see a round's responses once it
+// enters voting and may guess who is human, like a vote that never scores.
+
+// POST /matches/{matchId}/spectate - matchId or invite code
+export const SpectateMatchResponseSchema = z.object({
+  match: MatchViewSchema,
+  token: z.string(), // Guest token for watching and guessing in this match
+  spectatorId: z.string(),
+});
+export type SpectateMatchResponse = z.infer<typeof SpectateMatchResponseSchema>;
+
+// POST /matches/{matchId}/audience - while the round is voting; a new guess replaces the last
+export const AudienceGuessRequestSchema = z.object({
+  round: z.number().int().positive(),
+  guess: VoteSchema,
+});
+export type AudienceGuessRequest = z.infer<typeof AudienceGuessRequestSchema>;
+
+export const AudienceRoundResultSchema = z.object({
+  roundNumber: z.number().int().positive(),
+  guesses: z.number().int().min(0), // Spectators who guessed this round
+  accuracy: z.number().min(0).max(100), // Share of picks that named a human
+  picks: z.record(z.string(), z.number()), // How often each identity was picked
+  yourGuess: z.array(IdentitySchema).optional(),
+});
+export type AudienceRoundResult = z.infer<typeof AudienceRoundResultSchema>;
+
+// GET /matches/{matchId}/audience - once the match is completed
+export const AudienceResultsSchema = z.object({
+  matchId: z.string(),
+  spectators: z.number().int().min(0), // Spectators who guessed at least once
+  accuracy: z.number().min(0).max(100),
+  rounds: z.array(AudienceRoundResultSchema),
+  yourAccuracy: z.number().min(0).max(100).optional(), // The caller's own, if they guessed
+});
+export type AudienceResults = z.infer<typeof AudienceResultsSchema>;
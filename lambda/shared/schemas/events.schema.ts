@@ -1,6 +1,6 @@
 // @ts-ignore - Zod will be resolved by the bundler
 import { z } from 'zod';
-import { IdentitySchema, MatchSchema } from './match.schema';
+import { IdentitySchema, MatchViewSchema } from './match.schema';
 
 // SQS Message types for robot-worker queue
 export const RobotTaskTypeSchema = z.enum([
@@ -24,6 +24,7 @@ export type RobotTaskMessage = z.infer<typeof RobotTaskMessageSchema>;
 // State update messages (for the new state-updates queue)
 export const StateUpdateTypeSchema = z.enum([
   'ROBOT_RESPONSE_COMPLETE',
+  'ROBOT_VOTE_COMPLETE',
   'ROUND_TRANSITION',
   'MATCH_COMPLETE',
   'ERROR',
@@ -98,7 +99,7 @@ export const RealtimeEventSchema = z.discriminatedUnion('type', [
   }),
   z.object({
     type: z.literal('match_state_sync'),
-    match: MatchSchema,
+    match: MatchViewSchema, // Projected for each connection's viewer
   }),
   z.object({
     type: z.literal('error'),
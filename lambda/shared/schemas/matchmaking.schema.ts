@@ -0,0 +1,29 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+import { MatchTemplateTypeSchema } from './match.schema';
+
+// Public matchmaking: signed-in players queue for a multi-human template and
+// are grouped into a match once enough of them are waiting.
+
+// POST /matchmaking - joining again replaces the caller's earlier ticket
+export const EnqueueMatchmakingRequestSchema = z.object({
+  templateType: MatchTemplateTypeSchema,
+  displayName: z.string().min(1).max(50),
+  allowAIBackfill: z.boolean().optional(), // Settle for fewer humans after a while
+});
+export type EnqueueMatchmakingRequest = z.infer<typeof EnqueueMatchmakingRequestSchema>;
+
+// GET /matchmaking - the caller's ticket
+export const MatchmakingStatusSchema = z.object({
+  status: z.enum(['queued', 'matched']),
+  templateType: MatchTemplateTypeSchema,
+  enqueuedAt: z.string(),
+  allowAIBackfill: z.boolean(),
+  position: z.number().int().positive().optional(), // 1 is next in line; queued only
+  waiting: z.number().int().min(0).optional(), // Players in this queue, the caller included
+  requiredHumans: z.number().int().positive().optional(),
+  estimatedWaitSeconds: z.number().int().min(0).optional(), // A rough guess
+  matchId: z.string().optional(), // Once matched
+  matchedTemplateType: MatchTemplateTypeSchema.optional(), // Differs from templateType after AI backfill
+});
+export type MatchmakingStatus = z.infer<typeof MatchmakingStatusSchema>;
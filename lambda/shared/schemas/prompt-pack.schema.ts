@@ -0,0 +1,50 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+
+// Prompt library: named packs of round prompts. A lobby picks a pack; its
+// prompts are drawn first and its theme steers AI-generated ones.
+
+export const PromptDifficultySchema = z.enum(['easy', 'medium', 'hard']);
+export type PromptDifficulty = z.infer<typeof PromptDifficultySchema>;
+
+// Fields an admin authors
+export const PromptPackFieldsSchema = z.object({
+  name: z.string().min(1).max(60),
+  description: z.string().max(280).optional(),
+  theme: z.string().max(200).optional(), // Passed to the AI as generate_prompt's theme
+  tags: z.array(z.string().min(1).max(30)).max(10),
+  difficulty: PromptDifficultySchema,
+  locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/), // e.g. en, en-GB
+  prompts: z.array(z.string().min(1).max(280)).max(200),
+});
+export type PromptPackFields = z.infer<typeof PromptPackFieldsSchema>;
+
+export const PromptPackSchema = PromptPackFieldsSchema.extend({
+  packId: z.string(),
+  isActive: z.boolean(), // Inactive packs can't be picked for new matches
+  isBuiltIn: z.boolean().optional(), // Defined in code and read-only
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type PromptPack = z.infer<typeof PromptPackSchema>;
+
+// What lobbies see when picking a pack: everything but the prompts themselves
+export const PromptPackSummarySchema = PromptPackSchema.omit({ prompts: true }).extend({
+  promptCount: z.number().int().min(0),
+});
+export type PromptPackSummary = z.infer<typeof PromptPackSummarySchema>;
+
+// POST /admin/prompt-packs
+export const CreatePromptPackRequestSchema = PromptPackFieldsSchema.partial({
+  tags: true,
+  difficulty: true,
+  locale: true,
+  prompts: true,
+});
+export type CreatePromptPackRequest = z.infer<typeof CreatePromptPackRequestSchema>;
+
+// PUT /admin/prompt-packs/{packId}
+export const UpdatePromptPackRequestSchema = PromptPackFieldsSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+export type UpdatePromptPackRequest = z.infer<typeof UpdatePromptPackRequestSchema>;
@@ -5,13 +5,38 @@ import { z } from 'zod';
 export const UserTypeSchema = z.enum(['human', 'ai']);
 export type UserType = z.infer<typeof UserTypeSchema>;
 
+// Colours a player can pick for their avatar
+export const AvatarColorSchema = z.enum(['blue', 'green', 'purple', 'orange', 'pink', 'yellow', 'indigo', 'red']);
+export type AvatarColor = z.infer<typeof AvatarColorSchema>;
+
 // Model configuration for AI users
 export const ModelConfigSchema = z.object({
-  provider: z.literal('bedrock'),
-  model: z.enum(['claude-3-haiku', 'claude-3-sonnet']),
+  provider: z.enum(['bedrock', 'openai', 'scripted']),
+  model: z.string().min(1), // A model id known to the ai-service model registry
+  temperature: z.number().min(0).max(1).optional(),
+  maxTokens: z.number().int().min(1).max(4096).optional(),
 });
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
 
+// The parts of an AI user that admins author as a persona
+export const PersonaFieldsSchema = z.object({
+  displayName: z.string().min(1).max(100),
+  personality: z.string().min(1),
+  systemPrompt: z.string().optional(),
+  styleNotes: z.string().optional(), // Appended to the system prompt
+  voteStyle: z.string().optional(),
+  maxResponseLength: z.number().int().min(20).max(500).optional(),
+  modelConfig: ModelConfigSchema,
+});
+export type PersonaFields = z.infer<typeof PersonaFieldsSchema>;
+
+// Every edit keeps the fields it replaced as a numbered version
+export const PersonaVersionSchema = PersonaFieldsSchema.extend({
+  version: z.number().int().positive(),
+  savedAt: z.string(),
+});
+export type PersonaVersion = z.infer<typeof PersonaVersionSchema>;
+
 // User schema
 export const UserSchema = z.object({
   userId: z.string().uuid(),
@@ -23,10 +48,17 @@ export const UserSchema = z.object({
   // Human-specific fields
   cognitoId: z.string().optional(),
   email: z.string().email().optional(),
+  avatarColor: AvatarColorSchema.optional(),
   
-  // AI-specific fields
+  // AI-specific fields; a persona can override its personality's built-in prompts
   personality: z.string().optional(),
+  systemPrompt: z.string().optional(),
+  styleNotes: z.string().optional(),
+  voteStyle: z.string().optional(), // How the persona decides who seems human
+  maxResponseLength: z.number().int().positive().optional(), // characters
   modelConfig: ModelConfigSchema.optional(),
+  personaVersion: z.number().int().positive().optional(),
+  personaHistory: z.array(PersonaVersionSchema).optional(), // Earlier versions, oldest first
   
   // Timestamps
   createdAt: z.string().datetime(),
@@ -46,8 +78,43 @@ export const CreateHumanUserSchema = z.object({
 export const CreateAIUserSchema = z.object({
   displayName: z.string().min(1).max(100),
   personality: z.string(),
+  systemPrompt: z.string().optional(),
+  voteStyle: z.string().optional(),
+  maxResponseLength: z.number().int().positive().optional(),
   modelConfig: ModelConfigSchema,
 });
 
 export type CreateHumanUser = z.infer<typeof CreateHumanUserSchema>;
-export type CreateAIUser = z.infer<typeof CreateAIUserSchema>;
\ No newline at end of file
+export type CreateAIUser = z.infer<typeof CreateAIUserSchema>;
+
+// Persona admin requests
+export const CreatePersonaRequestSchema = PersonaFieldsSchema;
+export const UpdatePersonaRequestSchema = PersonaFieldsSchema.partial().extend({
+  expectedVersion: z.number().int().positive().optional(), // Rejects the edit if someone saved since
+});
+export const ClonePersonaRequestSchema = z.object({
+  displayName: z.string().min(1).max(100).optional(),
+});
+
+export type CreatePersonaRequest = z.infer<typeof CreatePersonaRequestSchema>;
+export type UpdatePersonaRequest = z.infer<typeof UpdatePersonaRequestSchema>;
+export type ClonePersonaRequest = z.infer<typeof ClonePersonaRequestSchema>;
+
+// GET /users/me - the signed-in player's profile; a player who never saved
+// one has only their userId
+export const PlayerProfileSchema = z.object({
+  userId: z.string(),
+  displayName: z.string().optional(),
+  avatarColor: AvatarColorSchema.optional(),
+  email: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+export type PlayerProfile = z.infer<typeof PlayerProfileSchema>;
+
+// PATCH /users/me
+export const UpdateProfileRequestSchema = z.object({
+  displayName: UserSchema.shape.displayName.optional(),
+  avatarColor: AvatarColorSchema.optional(),
+});
+export type UpdateProfileRequest = z.infer<typeof UpdateProfileRequestSchema>;
@@ -2,109 +2,120 @@ import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { AITaskProcessor } from '../services/ai-task-processor';
 import { z } from 'zod';
 
-// Request validation schema
-const AIRequestSchema = z.object({
-  task: z.enum(['generate_prompt', 'robot_response', 'analyze_match', 'summarize', 'grammar_correction', 'custom']),
-  model: z.enum(['claude-3-sonnet', 'claude-3-haiku', 'claude-3-opus']).optional(),
-  inputs: z.record(z.any()),
-  options: z.object({
-    temperature: z.number().min(0).max(1).optional(),
-    maxTokens: z.number().min(1).max(4096).optional(),
-    streaming: z.boolean().optional()
-  }).optional()
-});
-
-const processor = new AITaskProcessor();
+// Request validation schema. Models are whatever the processor's registry knows about.
+function createRequestSchema(processor: AITaskProcessor) {
+  return z.object({
+    task: z.enum(['generate_prompt', 'robot_response', 'robot_vote', 'analyze_match', 'moderate', 'summarize', 'grammar_correction', 'custom']),
+    model: z.string().refine((model) => processor.models.has(model), {
+      message: `Unknown model. Available: ${processor.models.listModels().map((m) => m.id).join(', ')}`
+    }).optional(),
+    inputs: z.record(z.any()),
+    options: z.object({
+      temperature: z.number().min(0).max(1).optional(),
+      maxTokens: z.number().min(1).max(4096).optional(),
+      streaming: z.boolean().optional()
+    }).optional()
+  });
+}
 
 function getDefaultModel(task: string): string {
   const modelMap: Record<string, string> = {
     'generate_prompt': 'claude-3-sonnet',
     'robot_response': 'claude-3-haiku',
+    'robot_vote': 'claude-3-haiku',
     'analyze_match': 'claude-3-sonnet',
+    'moderate': 'claude-3-haiku',
     'summarize': 'claude-3-haiku',
     'custom': 'claude-3-sonnet'
   };
   return modelMap[task] || 'claude-3-sonnet';
 }
 
-export const handler: APIGatewayProxyHandler = async (event): Promise<APIGatewayProxyResult> => {
-  console.log('AI Service request:', event.path, event.httpMethod);
+// Builds the handler around a processor so the local dev server can swap in a fake model
+export function createAIServiceHandler(processor: AITaskProcessor): APIGatewayProxyHandler {
+  const AIRequestSchema = createRequestSchema(processor);
 
-  // Enable CORS
-  const headers = {
-    'Content-Type': 'application/json',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type'
-  };
+  return async (event): Promise<APIGatewayProxyResult> => {
+    console.log('AI Service request:', event.path, event.httpMethod);
 
-  // Handle OPTIONS request
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' };
-  }
+    // Enable CORS
+    const headers = {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type'
+    };
 
-  try {
-    // Parse and validate request
-    const body = JSON.parse(event.body || '{}');
-    const validationResult = AIRequestSchema.safeParse(body);
-    
-    if (!validationResult.success) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ 
-          error: 'Invalid request', 
-          details: validationResult.error.flatten() 
-        })
-      };
+    // Handle OPTIONS request
+    if (event.httpMethod === 'OPTIONS') {
+      return { statusCode: 200, headers, body: '' };
     }
 
-    const { task, model, inputs, options } = validationResult.data;
+    try {
+      // Parse and validate request
+      const body = JSON.parse(event.body || '{}');
+      const validationResult = AIRequestSchema.safeParse(body);
+      
+      if (!validationResult.success) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ 
+            error: 'Invalid request', 
+            details: validationResult.error.flatten() 
+          })
+        };
+      }
 
-    // Process AI task
-    const result = await processor.process({
-      task,
-      model: model || getDefaultModel(task),
-      inputs,
-      options: options || {}
-    });
+      const { task, model, inputs, options } = validationResult.data;
 
-    return {
-      statusCode: 200,
-      headers,
-      body: JSON.stringify({
-        success: true,
+      // Process AI task
+      const result = await processor.process({
         task,
         model: model || getDefaultModel(task),
-        result
-      })
-    };
-  } catch (error) {
-    console.error('AI service error:', error);
-    
-    // Determine error type and status code
-    let statusCode = 500;
-    let errorMessage = 'Internal server error';
-    
-    if (error instanceof Error) {
-      if (error.message.includes('Unknown task')) {
-        statusCode = 400;
-        errorMessage = error.message;
-      } else if (error.message.includes('rate limit')) {
-        statusCode = 429;
-        errorMessage = 'Rate limit exceeded';
-      } else if (error.message.includes('Invalid API key') || error.message.includes('authentication')) {
-        statusCode = 401;
-        errorMessage = 'Authentication error';
+        inputs,
+        options: options || {}
+      });
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          task,
+          model: model || getDefaultModel(task),
+          result
+        })
+      };
+    } catch (error) {
+      console.error('AI service error:', error);
+      
+      // Determine error type and status code
+      let statusCode = 500;
+      let errorMessage = 'Internal server error';
+      
+      if (error instanceof Error) {
+        if (error.message.includes('Unknown task') || error.message.includes('Unknown model')) {
+          statusCode = 400;
+          errorMessage = error.message;
+        } else if (error.message.includes('rate limit')) {
+          statusCode = 429;
+          errorMessage = 'Rate limit exceeded';
+        } else if (error.message.includes('Invalid API key') || error.message.includes('authentication')) {
+          statusCode = 401;
+          errorMessage = 'Authentication error';
+        }
       }
+
+      return {
+        statusCode,
+        headers,
+        body: JSON.stringify({ 
+          error: errorMessage
+        })
+      };
     }
+  };
+}
 
-    return {
-      statusCode,
-      headers,
-      body: JSON.stringify({ 
-        error: errorMessage
-      })
-    };
-  }
-};
\ No newline at end of file
+export const handler = createAIServiceHandler(new AITaskProcessor());
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+import { createServer, IncomingMessage } from 'http';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { startLocalRuntime } from './local-runtime';
+
+// Local dev server: serves the same API paths as API Gateway from the
+// in-process runtime. Point the frontend's VITE_API_URL at it.
+
+const PORT = Number(process.env.PORT || 3001);
+const ROBOT_STAGGER_MS = Number(process.env.ROBOT_STAGGER_MS ?? 1000);
+const DEADLINE_SWEEP_MS = Number(process.env.DEADLINE_SWEEP_MS ?? 5000);
+
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : null;
+}
+
+function toApiGatewayEvent(req: IncomingMessage, body: string | null): APIGatewayProxyEvent {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers[name] = value;
+  }
+
+  return {
+    path: url.pathname,
+    httpMethod: req.method || 'GET',
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: url.searchParams.toString()
+      ? Object.fromEntries(url.searchParams.entries())
+      : null,
+    multiValueQueryStringParameters: null,
+    pathParameters: null,
+    stageVariables: null,
+    body,
+    isBase64Encoded: false,
+    resource: url.pathname,
+    requestContext: {} as APIGatewayProxyEvent['requestContext'],
+  };
+}
+
+async function main() {
+  const runtime = await startLocalRuntime({ robotStaggerMs: ROBOT_STAGGER_MS });
+
+  const server = createServer(async (req, res) => {
+    try {
+      const event = toApiGatewayEvent(req, await readBody(req));
+      const result = await runtime.handleApiRequest(event);
+      res.writeHead(result.statusCode, {
+        'Content-Type': 'application/json',
+        ...(result.headers as Record<string, string>),
+      });
+      res.end(result.body);
+    } catch (error) {
+      console.error('Local dev server error:', error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
+  });
+
+  // Stands in for the EventBridge schedule that enforces round deadlines
+  setInterval(() => {
+    runtime.sweepDeadlines().catch((error) => console.error('Deadline sweep failed:', error));
+  }, DEADLINE_SWEEP_MS);
+
+  server.listen(PORT, () => {
+    console.log(`Local backend listening on http://localhost:${PORT}`);
+    console.log(`Run the frontend with VITE_API_URL=http://localhost:${PORT} VITE_LOCAL_AUTH=true`);
+  });
+}
+
+main().catch((error) => {
+  console.error('Failed to start local backend:', error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+import { ModelInvoker } from '../services/model-providers';
+
+// Deterministic replacement for Bedrock. The same prompts always produce the
+// same output, so local games and tests are repeatable without credentials.
+
+const FAKE_PROMPTS = [
+  "What's a small thing that always makes you smile?",
+  'Describe the smell of your favourite place.',
+  "What would you do with an extra hour every day?",
+  "What's a sound you could listen to forever?",
+  'If your week had a colour, what would it be?',
+  "What's the best advice you ignored?",
+];
+
+const FAKE_RESPONSES: Record<string, string[]> = {
+  sundown: [
+    'Winning the last slice of pizza, every single time.',
+    'Fresh cut grass before a big game, nothing else comes close.',
+    'I would train harder, no question about it.',
+    'The crack of a bat hitting a ball dead centre.',
+  ],
+  bandit: [
+    'Finding money in an old coat pocket, tiny heist energy.',
+    'Rain on a tin roof while everyone else is asleep.',
+    'Sneak in a nap and tell nobody.',
+    'A door creaking open somewhere I should not be.',
+  ],
+  maverick: [
+    'Driving with the windows down and the music way too loud.',
+    'Old leather and engine oil, do not judge me.',
+    'Learn to fly something, anything really.',
+    'Thunder rolling in over the hills at night.',
+  ],
+};
+
+function hash(text: string): number {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+function pick<T>(options: T[], seed: string): T {
+  return options[hash(seed) % options.length];
+}
+
+export const fakeModel: ModelInvoker = async (_modelId, systemPrompt, userPrompt) => {
+  if (systemPrompt.includes('grammar and spelling correction')) {
+    const text = userPrompt.match(/this text: "([\s\S]*?)"\n/)?.[1] ?? '';
+    return JSON.stringify({ corrected: text, changes: [], confidence: 1 });
+  }
+
+  if (systemPrompt.includes('content moderator')) {
+    // The local blocked-word filter already catches the obvious cases
+    return JSON.stringify({ flagged: false, categories: [] });
+  }
+
+  if (systemPrompt.includes('creating prompts')) {
+    return pick(FAKE_PROMPTS, userPrompt);
+  }
+
+  if (systemPrompt.includes('identify the human players')) {
+    // Only this round's candidates, which come before any earlier rounds
+    const current = userPrompt.split('Earlier rounds:')[0];
+    const candidates = [...current.matchAll(/^([A-H]): "/gm)].map((m) => m[1]);
+    const picks = Number(userPrompt.match(/Pick exactly (\d+)/)?.[1] ?? 1);
+    const start = hash(systemPrompt + userPrompt) % Math.max(candidates.length, 1);
+    const votedFor = [...candidates.slice(start), ...candidates.slice(0, start)].slice(0, picks);
+    return JSON.stringify({ votedFor, reasoning: 'Local fake model vote' });
+  }
+
+  if (systemPrompt.includes('analyzing a completed') && userPrompt.includes('Return JSON')) {
+    // Singles out each side's first response from the final round
+    const data = JSON.parse(userPrompt.match(/^Match data: (.*)$/m)?.[1] ?? '{}');
+    const round = data.rounds?.[data.rounds.length - 1];
+    const first = (isAI: boolean) => {
+      const identity = data.participants?.find((p: any) => p.isAI === isAI && round?.responses?.[p.identity])?.identity;
+      return identity && { identity, roundNumber: round.roundNumber, reason: 'Local fake model pick' };
+    };
+    return JSON.stringify({
+      mostConvincingHuman: first(false),
+      mostHumanAI: first(true),
+      difficulty: (hash(userPrompt) % 10) + 1,
+      themes: ['local play'],
+      summary: 'Local fake model analysis.',
+    });
+  }
+
+  const persona = systemPrompt.match(/^You are (\w+)/)?.[1]?.toLowerCase();
+  if (persona && FAKE_RESPONSES[persona]) {
+    return pick(FAKE_RESPONSES[persona], userPrompt);
+  }
+
+  return `Local fake model output (${hash(systemPrompt + userPrompt).toString(16)})`;
+};
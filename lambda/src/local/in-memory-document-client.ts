@@ -0,0 +1,543 @@
+// In-memory stand-in for DynamoDBDocumentClient used by the local dev server.
+// Commands are recognised by constructor name, the same way jest.setup.ts does,
+// and only the expression syntax the handlers actually use is supported.
+
+export interface KeySchema {
+  partitionKey: string;
+  sortKey?: string;
+}
+
+export interface TableSchema extends KeySchema {
+  indexes?: Record<string, KeySchema>;
+}
+
+type Item = Record<string, any>;
+type PathSegment = string | number;
+
+interface ExpressionContext {
+  names?: Record<string, string>;
+  values?: Record<string, any>;
+}
+
+export class ConditionalCheckFailedException extends Error {
+  constructor() {
+    super('The conditional request failed');
+    this.name = 'ConditionalCheckFailedException';
+  }
+}
+
+// Like DynamoDB, one reason per action in the transaction, in order
+export class TransactionCanceledException extends Error {
+  constructor(public CancellationReasons: { Code: string }[]) {
+    super(`Transaction cancelled, please refer cancellation reasons for specific reasons [${
+      CancellationReasons.map((reason) => reason.Code).join(', ')
+    }]`);
+    this.name = 'TransactionCanceledException';
+  }
+}
+
+export class LocalValidationException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationException';
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Expression parsing
+
+function parsePath(raw: string, ctx: ExpressionContext): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const part of raw.trim().split('.')) {
+    const match = part.match(/^([^\[]+)((?:\[\d+\])*)$/);
+    if (!match) {
+      throw new LocalValidationException(`Invalid document path: ${raw}`);
+    }
+    const name = match[1].startsWith('#') ? ctx.names?.[match[1]] : match[1];
+    if (name === undefined) {
+      throw new LocalValidationException(`Unknown attribute name placeholder: ${match[1]}`);
+    }
+    segments.push(name);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+}
+
+function readPath(item: Item | undefined, path: PathSegment[]): any {
+  let current: any = item;
+  for (const segment of path) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function writePath(item: Item, path: PathSegment[], value: any): void {
+  const parent = readPath(item, path.slice(0, -1));
+  if (parent === null || typeof parent !== 'object') {
+    throw new LocalValidationException(
+      'The document path provided in the update expression is invalid for update'
+    );
+  }
+  parent[path[path.length - 1]] = value;
+}
+
+function removePath(item: Item, path: PathSegment[]): void {
+  const parent = readPath(item, path.slice(0, -1));
+  if (parent === null || typeof parent !== 'object') return;
+  const last = path[path.length - 1];
+  if (Array.isArray(parent) && typeof last === 'number') {
+    parent.splice(last, 1);
+  } else {
+    delete parent[last];
+  }
+}
+
+// Splits on a separator that is not nested inside parentheses
+function splitTopLevel(expression: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of expression) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function resolveOperand(raw: string, item: Item | undefined, ctx: ExpressionContext): any {
+  const operand = raw.trim();
+  if (operand.startsWith(':')) {
+    if (!ctx.values || !(operand in ctx.values)) {
+      throw new LocalValidationException(`Unknown attribute value placeholder: ${operand}`);
+    }
+    return ctx.values[operand];
+  }
+  const fn = operand.match(/^(if_not_exists|list_append|size)\s*\((.*)\)$/);
+  if (fn) {
+    const args = splitTopLevel(fn[2], ',');
+    if (fn[1] === 'if_not_exists') {
+      const existing = readPath(item, parsePath(args[0], ctx));
+      return existing !== undefined ? existing : resolveOperand(args[1], item, ctx);
+    }
+    if (fn[1] === 'list_append') {
+      return [
+        ...(resolveOperand(args[0], item, ctx) || []),
+        ...(resolveOperand(args[1], item, ctx) || []),
+      ];
+    }
+    const sized = resolveOperand(args[0], item, ctx);
+    if (typeof sized === 'string' || Array.isArray(sized)) return sized.length;
+    return sized && typeof sized === 'object' ? Object.keys(sized).length : undefined;
+  }
+  return readPath(item, parsePath(operand, ctx));
+}
+
+// Handles the `operand + operand` and `operand - operand` forms allowed in SET
+function resolveValue(raw: string, item: Item | undefined, ctx: ExpressionContext): any {
+  let depth = 0;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && (char === '+' || char === '-')) {
+      const left = Number(resolveOperand(raw.slice(0, i), item, ctx));
+      const right = Number(resolveOperand(raw.slice(i + 1), item, ctx));
+      return char === '+' ? left + right : left - right;
+    }
+  }
+  return resolveOperand(raw, item, ctx);
+}
+
+function applyUpdateExpression(item: Item, expression: string, ctx: ExpressionContext): void {
+  const clauses = expression.split(/\b(SET|REMOVE|ADD)\b/).map((part) => part.trim());
+  for (let i = 1; i < clauses.length; i += 2) {
+    const action = clauses[i];
+    for (const assignment of splitTopLevel(clauses[i + 1], ',')) {
+      if (action === 'SET') {
+        const eq = assignment.indexOf('=');
+        const path = parsePath(assignment.slice(0, eq), ctx);
+        writePath(item, path, clone(resolveValue(assignment.slice(eq + 1), item, ctx)));
+      } else if (action === 'REMOVE') {
+        removePath(item, parsePath(assignment, ctx));
+      } else {
+        const [rawPath, rawValue] = assignment.split(/\s+/);
+        const path = parsePath(rawPath, ctx);
+        const amount = resolveOperand(rawValue, item, ctx);
+        writePath(item, path, (Number(readPath(item, path)) || 0) + Number(amount));
+      }
+    }
+  }
+}
+
+// Evaluates a condition, filter or key condition expression against an item
+function evaluateCondition(expression: string, item: Item | undefined, ctx: ExpressionContext): boolean {
+  const trimmed = stripOuterParens(expression.trim());
+
+  const orParts = splitKeyword(trimmed, 'OR');
+  if (orParts.length > 1) {
+    return orParts.some((part) => evaluateCondition(part, item, ctx));
+  }
+  const andParts = splitKeyword(trimmed, 'AND');
+  if (andParts.length > 1) {
+    return andParts.every((part) => evaluateCondition(part, item, ctx));
+  }
+  if (/^NOT\s+/i.test(trimmed)) {
+    return !evaluateCondition(trimmed.replace(/^NOT\s+/i, ''), item, ctx);
+  }
+
+  const fn = trimmed.match(/^(attribute_exists|attribute_not_exists|begins_with|contains)\s*\((.*)\)$/);
+  if (fn) {
+    const args = splitTopLevel(fn[2], ',');
+    const target = readPath(item, parsePath(args[0], ctx));
+    switch (fn[1]) {
+      case 'attribute_exists':
+        return target !== undefined;
+      case 'attribute_not_exists':
+        return target === undefined;
+      case 'begins_with':
+        return typeof target === 'string' && target.startsWith(resolveOperand(args[1], item, ctx));
+      default: {
+        const needle = resolveOperand(args[1], item, ctx);
+        if (typeof target === 'string') return target.includes(needle);
+        return Array.isArray(target) && target.includes(needle);
+      }
+    }
+  }
+
+  const between = trimmed.match(/^(.+?)\s+BETWEEN\s+(.+?)\s+AND\s+(.+)$/i);
+  if (between) {
+    const value = resolveOperand(between[1], item, ctx);
+    return value >= resolveOperand(between[2], item, ctx) && value <= resolveOperand(between[3], item, ctx);
+  }
+
+  const comparison = trimmed.match(/^(.+?)\s*(<>|<=|>=|=|<|>)\s*(.+)$/);
+  if (!comparison) {
+    throw new LocalValidationException(`Unsupported expression: ${expression}`);
+  }
+  const left = resolveOperand(comparison[1], item, ctx);
+  const right = resolveOperand(comparison[3], item, ctx);
+  switch (comparison[2]) {
+    case '=':
+      return JSON.stringify(left) === JSON.stringify(right);
+    case '<>':
+      return JSON.stringify(left) !== JSON.stringify(right);
+    case '<':
+      return left !== undefined && left < right;
+    case '<=':
+      return left !== undefined && left <= right;
+    case '>':
+      return left !== undefined && left > right;
+    default:
+      return left !== undefined && left >= right;
+  }
+}
+
+function stripOuterParens(expression: string): string {
+  let result = expression;
+  while (result.startsWith('(') && result.endsWith(')')) {
+    let depth = 0;
+    let wrapsWhole = true;
+    for (let i = 0; i < result.length; i++) {
+      if (result[i] === '(') depth++;
+      if (result[i] === ')') depth--;
+      if (depth === 0 && i < result.length - 1) {
+        wrapsWhole = false;
+        break;
+      }
+    }
+    if (!wrapsWhole) break;
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+// Splits on a boolean keyword outside parentheses, leaving BETWEEN x AND y intact
+function splitKeyword(expression: string, keyword: 'AND' | 'OR'): string[] {
+  const tokens = expression.split(/(\(|\)|\s+)/).filter((token) => token !== '');
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  let pendingBetween = false;
+  for (const token of tokens) {
+    if (token === '(') depth++;
+    if (token === ')') depth--;
+    if (depth === 0 && token.toUpperCase() === 'BETWEEN') pendingBetween = true;
+    if (depth === 0 && token.toUpperCase() === keyword) {
+      if (keyword === 'AND' && pendingBetween) {
+        pendingBetween = false;
+      } else {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+    }
+    current += token;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function project(item: Item, expression: string | undefined, ctx: ExpressionContext): Item {
+  if (!expression) return item;
+  const projected: Item = {};
+  for (const raw of splitTopLevel(expression, ',')) {
+    const [attribute] = parsePath(raw, ctx);
+    if (item[attribute as string] !== undefined) {
+      projected[attribute as string] = item[attribute as string];
+    }
+  }
+  return projected;
+}
+
+export class InMemoryDocumentClient {
+  private tables = new Map<string, Map<string, Item>>();
+
+  constructor(private schemas: Record<string, TableSchema>) {}
+
+  async send(command: any): Promise<any> {
+    const input = command.input;
+    switch (command.constructor.name) {
+      case 'GetCommand':
+        return this.get(input);
+      case 'PutCommand':
+        return this.put(input);
+      case 'UpdateCommand':
+        return this.update(input);
+      case 'DeleteCommand':
+        return this.delete(input);
+      case 'ScanCommand':
+        return this.scan(input);
+      case 'QueryCommand':
+        return this.query(input);
+      case 'BatchWriteCommand':
+        return this.batchWrite(input);
+      case 'TransactWriteCommand':
+        return this.transactWrite(input);
+      default:
+        throw new LocalValidationException(
+          `Unsupported command in local mode: ${command.constructor.name}`
+        );
+    }
+  }
+
+  // Direct access for seeding and assertions
+  items(tableName: string): Item[] {
+    return Array.from(this.table(tableName).values()).map(clone);
+  }
+
+  seed(tableName: string, items: Item[]): void {
+    for (const item of items) {
+      this.table(tableName).set(this.keyOf(tableName, item), clone(item));
+    }
+  }
+
+  reset(): void {
+    this.tables.clear();
+  }
+
+  private schema(tableName: string): TableSchema {
+    const schema = this.schemas[tableName];
+    if (!schema) {
+      throw new LocalValidationException(`Requested resource not found: ${tableName}`);
+    }
+    return schema;
+  }
+
+  private table(tableName: string): Map<string, Item> {
+    this.schema(tableName);
+    if (!this.tables.has(tableName)) {
+      this.tables.set(tableName, new Map());
+    }
+    return this.tables.get(tableName)!;
+  }
+
+  private keyOf(tableName: string, item: Item): string {
+    const { partitionKey, sortKey } = this.schema(tableName);
+    if (item[partitionKey] === undefined || (sortKey && item[sortKey] === undefined)) {
+      throw new LocalValidationException(
+        'The provided key element does not match the schema'
+      );
+    }
+    return JSON.stringify([item[partitionKey], sortKey ? item[sortKey] : null]);
+  }
+
+  private checkCondition(existing: Item | undefined, input: any): void {
+    if (
+      input.ConditionExpression &&
+      !evaluateCondition(input.ConditionExpression, existing, {
+        names: input.ExpressionAttributeNames,
+        values: input.ExpressionAttributeValues,
+      })
+    ) {
+      throw new ConditionalCheckFailedException();
+    }
+  }
+
+  private async get(input: any) {
+    const item = this.table(input.TableName).get(this.keyOf(input.TableName, input.Key));
+    return {
+      Item: item
+        ? clone(project(item, input.ProjectionExpression, { names: input.ExpressionAttributeNames }))
+        : undefined,
+    };
+  }
+
+  private async put(input: any) {
+    const table = this.table(input.TableName);
+    const key = this.keyOf(input.TableName, input.Item);
+    this.checkCondition(table.get(key), input);
+    table.set(key, clone(input.Item));
+    return {};
+  }
+
+  private async update(input: any) {
+    const table = this.table(input.TableName);
+    const key = this.keyOf(input.TableName, input.Key);
+    const existing = table.get(key);
+    this.checkCondition(existing, input);
+
+    // Work on a copy so a failed expression leaves the stored item untouched
+    const updated = clone(existing) || clone(input.Key);
+    applyUpdateExpression(updated, input.UpdateExpression, {
+      names: input.ExpressionAttributeNames,
+      values: input.ExpressionAttributeValues,
+    });
+    table.set(key, updated);
+
+    if (input.ReturnValues === 'ALL_NEW') return { Attributes: clone(updated) };
+    if (input.ReturnValues === 'ALL_OLD') return { Attributes: clone(existing) };
+    return {};
+  }
+
+  private async delete(input: any) {
+    const table = this.table(input.TableName);
+    const key = this.keyOf(input.TableName, input.Key);
+    const existing = table.get(key);
+    this.checkCondition(existing, input);
+    table.delete(key);
+    return input.ReturnValues === 'ALL_OLD' ? { Attributes: clone(existing) } : {};
+  }
+
+  private async scan(input: any) {
+    const ctx = { names: input.ExpressionAttributeNames, values: input.ExpressionAttributeValues };
+    const items = Array.from(this.table(input.TableName).values())
+      .filter((item) => !input.FilterExpression || evaluateCondition(input.FilterExpression, item, ctx))
+      .map((item) => clone(project(item, input.ProjectionExpression, ctx)));
+    return { Items: items, Count: items.length };
+  }
+
+  private async query(input: any) {
+    const schema = this.schema(input.TableName);
+    const keys = input.IndexName ? schema.indexes?.[input.IndexName] : schema;
+    if (!keys) {
+      throw new LocalValidationException(`Index not found: ${input.IndexName}`);
+    }
+    const ctx = { names: input.ExpressionAttributeNames, values: input.ExpressionAttributeValues };
+
+    let items = Array.from(this.table(input.TableName).values())
+      .filter((item) => item[keys.partitionKey] !== undefined)
+      .filter((item) => !keys.sortKey || item[keys.sortKey] !== undefined)
+      .filter((item) => evaluateCondition(input.KeyConditionExpression, item, ctx));
+
+    if (keys.sortKey) {
+      const sortKey = keys.sortKey;
+      items.sort((a, b) => (a[sortKey] < b[sortKey] ? -1 : a[sortKey] > b[sortKey] ? 1 : 0));
+      if (input.ScanIndexForward === false) items.reverse();
+    }
+
+    // Pages resume after the item named by the start key, and like DynamoDB
+    // the limit applies before the filter
+    if (input.ExclusiveStartKey) {
+      const startKey = this.keyOf(input.TableName, input.ExclusiveStartKey);
+      items = items.slice(items.findIndex((item) => this.keyOf(input.TableName, item) === startKey) + 1);
+    }
+    let lastEvaluatedKey: Item | undefined;
+    if (input.Limit && items.length > input.Limit) {
+      items = items.slice(0, input.Limit);
+      lastEvaluatedKey = this.pageKey(input.TableName, items[items.length - 1], keys);
+    }
+    if (input.FilterExpression) {
+      items = items.filter((item) => evaluateCondition(input.FilterExpression, item, ctx));
+    }
+
+    if (input.Select === 'COUNT') {
+      return { Count: items.length, LastEvaluatedKey: lastEvaluatedKey };
+    }
+    return {
+      Items: items.map((item) => clone(project(item, input.ProjectionExpression, ctx))),
+      Count: items.length,
+      LastEvaluatedKey: lastEvaluatedKey,
+    };
+  }
+
+  // The table's key plus the index's, as DynamoDB returns for a page of an index
+  private pageKey(tableName: string, item: Item, keys: KeySchema): Item {
+    const attributes = [
+      this.schema(tableName).partitionKey,
+      this.schema(tableName).sortKey,
+      keys.partitionKey,
+      keys.sortKey,
+    ];
+    const key: Item = {};
+    for (const attribute of attributes) {
+      if (attribute) key[attribute] = item[attribute];
+    }
+    return clone(key);
+  }
+
+  private async batchWrite(input: any) {
+    for (const [tableName, requests] of Object.entries<any[]>(input.RequestItems)) {
+      for (const request of requests) {
+        if (request.PutRequest) {
+          await this.put({ TableName: tableName, Item: request.PutRequest.Item });
+        } else if (request.DeleteRequest) {
+          await this.delete({ TableName: tableName, Key: request.DeleteRequest.Key });
+        }
+      }
+    }
+    return { UnprocessedItems: {} };
+  }
+
+  // Every condition is checked before anything is written, so a failed
+  // transaction leaves every table as it was
+  private async transactWrite(input: any) {
+    const actions = input.TransactItems.map((item: any) => {
+      if (item.Put) return { input: item.Put, key: item.Put.Item, apply: () => this.put(item.Put) };
+      if (item.Update) return { input: item.Update, key: item.Update.Key, apply: () => this.update(item.Update) };
+      if (item.Delete) return { input: item.Delete, key: item.Delete.Key, apply: () => this.delete(item.Delete) };
+      if (item.ConditionCheck) return { input: item.ConditionCheck, key: item.ConditionCheck.Key, apply: async () => {} };
+      throw new LocalValidationException('Unsupported transaction action');
+    });
+
+    const reasons = actions.map((action: any) => {
+      const existing = this.table(action.input.TableName).get(this.keyOf(action.input.TableName, action.key));
+      try {
+        this.checkCondition(existing, action.input);
+        return { Code: 'None' };
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) return { Code: 'ConditionalCheckFailed' };
+        throw error;
+      }
+    });
+    if (reasons.some((reason: { Code: string }) => reason.Code !== 'None')) {
+      throw new TransactionCanceledException(reasons);
+    }
+
+    // Applied without yielding in between, so no other write lands mid-transaction
+    await Promise.all(actions.map((action: any) => action.apply()));
+    return {};
+  }
+}
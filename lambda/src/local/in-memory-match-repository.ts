@@ -0,0 +1,110 @@
+import type { Match, MatchStatus } from '../../shared/schemas/match.schema';
+import {
+  DEFAULT_PAGE_SIZE,
+  MatchMutation,
+  MatchPage,
+  MatchRepository,
+  MatchUpdate,
+  PageRequest,
+  VersionedMatch,
+  byNewest,
+  decodeCursor,
+  encodeCursor,
+  hasSeat,
+  updateWithRetries,
+} from '../services/match-repository';
+import { ConditionalCheckFailedException } from './in-memory-document-client';
+
+// Match records in a Map, for testing match logic without any AWS fakes.
+// Reads hand out copies, so a handler only changes the store by writing, and
+// writes check versions the way the DynamoDB repository's conditions do.
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export class InMemoryMatchRepository implements MatchRepository {
+  private matches = new Map<string, VersionedMatch>();
+
+  async get<T extends VersionedMatch = Match>(matchId: string): Promise<T | null> {
+    const match = this.matches.get(matchId);
+    return match ? (clone(match) as T) : null;
+  }
+
+  async create<T extends VersionedMatch>(match: T): Promise<void> {
+    if (this.matches.has(match.matchId)) {
+      throw new ConditionalCheckFailedException();
+    }
+    this.matches.set(match.matchId, clone({ ...match, version: 1 }));
+    match.version = 1;
+  }
+
+  update<T extends VersionedMatch = Match>(
+    matchId: string,
+    mutate: MatchMutation<T>
+  ): Promise<MatchUpdate<T> | null> {
+    return updateWithRetries(
+      matchId,
+      () => this.get<T>(matchId),
+      async (match, expected) => {
+        if (this.matches.get(matchId)?.version !== expected) {
+          throw new ConditionalCheckFailedException();
+        }
+        this.matches.set(matchId, clone({ ...match, version: (expected || 0) + 1 }));
+      },
+      mutate
+    );
+  }
+
+  async listByStatus<T extends VersionedMatch = Match>(statuses: MatchStatus[]): Promise<T[]> {
+    return this.list<T>((match) => statuses.includes(match.status));
+  }
+
+  async countByStatus(status: MatchStatus): Promise<number> {
+    return this.list((match) => match.status === status).length;
+  }
+
+  async listByUser<T extends VersionedMatch = Match>(
+    userId: string,
+    page: PageRequest = {}
+  ): Promise<MatchPage<T>> {
+    const seated = this.list<T>((match) => hasSeat(match, userId));
+    const after = decodeCursor(page.cursor)?.matchId;
+    const start = after ? seated.findIndex((match) => match.matchId === after) + 1 : 0;
+    const limit = page.limit || DEFAULT_PAGE_SIZE;
+    const matches = seated.slice(start, start + limit);
+    return {
+      matches,
+      cursor: start + limit < seated.length
+        ? encodeCursor({ matchId: matches[matches.length - 1].matchId })
+        : undefined,
+    };
+  }
+
+  async findByInviteCode<T extends VersionedMatch = Match>(inviteCode: string): Promise<T | null> {
+    return (await this.list<T>((match) => match.inviteCode === inviteCode))[0] || null;
+  }
+
+  async delete(matchId: string): Promise<void> {
+    this.matches.delete(matchId);
+  }
+
+  // Direct access for seeding, e.g. records written before versioning
+  seed(matches: VersionedMatch[]): void {
+    for (const match of matches) {
+      this.matches.set(match.matchId, clone(match));
+    }
+  }
+
+  reset(): void {
+    this.matches.clear();
+  }
+
+  // Newest first, like the DynamoDB indexes
+  private list<T>(predicate: (match: Match) => boolean): T[] {
+    return Array.from(this.matches.values())
+      .filter((match) => predicate(match as Match))
+      .sort(byNewest)
+      .map((match) => clone(match) as T);
+  }
+}
@@ -0,0 +1,107 @@
+import { SQSEvent, SQSBatchResponse } from 'aws-lambda';
+
+// In-memory stand-in for SQSClient. Each message is delivered to the queue's
+// consumer on its own tick, so robots race each other the way they do behind
+// a real queue. Failed messages are redelivered like SQS does before a DLQ.
+
+export type QueueConsumer = (event: SQSEvent) => Promise<SQSBatchResponse | void>;
+
+interface QueuedMessage {
+  messageId: string;
+  queueUrl: string;
+  body: string;
+  receiveCount: number;
+}
+
+export class InMemoryQueue {
+  private consumers = new Map<string, QueueConsumer>();
+  private inFlight = new Set<Promise<void>>();
+  private nextMessageId = 1;
+  readonly deadLetters: QueuedMessage[] = [];
+
+  constructor(private maxReceiveCount = 3) {}
+
+  subscribe(queueUrl: string, consumer: QueueConsumer): void {
+    this.consumers.set(queueUrl, consumer);
+  }
+
+  async send(command: any): Promise<any> {
+    if (command.constructor.name !== 'SendMessageCommand') {
+      throw new Error(`Unsupported command in local mode: ${command.constructor.name}`);
+    }
+    const { QueueUrl, MessageBody, DelaySeconds } = command.input;
+    const message: QueuedMessage = {
+      messageId: `local-${this.nextMessageId++}`,
+      queueUrl: QueueUrl,
+      body: MessageBody,
+      receiveCount: 0,
+    };
+    this.schedule(message, (DelaySeconds || 0) * 1000);
+    return { MessageId: message.messageId };
+  }
+
+  // Resolves once every message, including ones enqueued by consumers, has been handled
+  async drain(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  private schedule(message: QueuedMessage, delayMs: number): void {
+    const delivery = new Promise<void>((resolve) => {
+      const deliver = () => this.deliver(message).finally(resolve);
+      if (delayMs > 0) {
+        setTimeout(deliver, delayMs);
+      } else {
+        setImmediate(deliver);
+      }
+    });
+    this.inFlight.add(delivery);
+    delivery.then(() => this.inFlight.delete(delivery));
+  }
+
+  private async deliver(message: QueuedMessage): Promise<void> {
+    const consumer = this.consumers.get(message.queueUrl);
+    if (!consumer) {
+      console.warn(`No local consumer for queue ${message.queueUrl}, dropping message`);
+      return;
+    }
+
+    message.receiveCount++;
+    let failed = false;
+    try {
+      const result = await consumer({
+        Records: [
+          {
+            messageId: message.messageId,
+            receiptHandle: message.messageId,
+            body: message.body,
+            attributes: {
+              ApproximateReceiveCount: String(message.receiveCount),
+              SentTimestamp: String(Date.now()),
+              SenderId: 'local',
+              ApproximateFirstReceiveTimestamp: String(Date.now()),
+            },
+            messageAttributes: {},
+            md5OfBody: '',
+            eventSource: 'aws:sqs',
+            eventSourceARN: message.queueUrl,
+            awsRegion: 'local',
+          },
+        ],
+      });
+      failed = !!result && result.batchItemFailures.length > 0;
+    } catch (error) {
+      console.error(`Local consumer for ${message.queueUrl} failed:`, error);
+      failed = true;
+    }
+
+    if (!failed) return;
+    if (message.receiveCount >= this.maxReceiveCount) {
+      console.error(`Message ${message.messageId} moved to local dead-letter list`);
+      this.deadLetters.push(message);
+    } else {
+      this.schedule(message, 0);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Context } from 'aws-lambda';
+
+// In-process stand-in for LambdaClient. Invoke calls are routed to handlers
+// registered by function name and the response is shaped like the SDK's.
+
+export type LocalFunction = (event: any, context: Context, callback: () => void) => any;
+
+export class LocalLambdaClient {
+  private functions = new Map<string, LocalFunction>();
+
+  register(functionName: string, fn: LocalFunction): void {
+    this.functions.set(functionName, fn);
+  }
+
+  async send(command: any): Promise<any> {
+    if (command.constructor.name !== 'InvokeCommand') {
+      throw new Error(`Unsupported command in local mode: ${command.constructor.name}`);
+    }
+    const { FunctionName, Payload } = command.input;
+    const fn = this.functions.get(FunctionName);
+    if (!fn) {
+      throw new Error(`Function not found: ${FunctionName}`);
+    }
+
+    const event = JSON.parse(
+      typeof Payload === 'string' ? Payload : new TextDecoder().decode(Payload)
+    );
+
+    try {
+      const result = await fn(event, {} as Context, () => undefined);
+      return {
+        StatusCode: 200,
+        Payload: new TextEncoder().encode(JSON.stringify(result ?? null)),
+      };
+    } catch (error) {
+      // Lambda reports handler errors inside a 200 response, as robot-worker expects
+      return {
+        StatusCode: 200,
+        FunctionError: 'Unhandled',
+        Payload: new TextEncoder().encode(
+          JSON.stringify({ errorMessage: error instanceof Error ? error.message : String(error) })
+        ),
+      };
+    }
+  }
+}
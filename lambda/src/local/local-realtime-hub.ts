@@ -0,0 +1,65 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+// In-process stand-in for ApiGatewayManagementApiClient. Listeners attached
+// through connect() receive whatever match-service publishes to them.
+
+export type RealtimeListener = (event: any) => void;
+type ConnectHandler = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+export class LocalRealtimeHub {
+  private listeners = new Map<string, RealtimeListener>();
+  private nextConnectionId = 1;
+  private connectHandler?: ConnectHandler;
+
+  attach(handler: ConnectHandler): void {
+    this.connectHandler = handler;
+  }
+
+  async connect(
+    matchId: string,
+    listener: RealtimeListener,
+    token?: string
+  ): Promise<string> {
+    const connectionId = `local-connection-${this.nextConnectionId++}`;
+    await this.route('$connect', connectionId, { matchId, ...(token ? { token } : {}) });
+    this.listeners.set(connectionId, listener);
+    return connectionId;
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    this.listeners.delete(connectionId);
+    await this.route('$disconnect', connectionId, null);
+  }
+
+  async send(command: any): Promise<any> {
+    if (command.constructor.name !== 'PostToConnectionCommand') {
+      throw new Error(`Unsupported command in local mode: ${command.constructor.name}`);
+    }
+    const { ConnectionId, Data } = command.input;
+    const listener = this.listeners.get(ConnectionId);
+    if (!listener) {
+      const gone = new Error(`Connection ${ConnectionId} is gone`);
+      gone.name = 'GoneException';
+      throw gone;
+    }
+    listener(JSON.parse(typeof Data === 'string' ? Data : new TextDecoder().decode(Data)));
+    return {};
+  }
+
+  private async route(
+    routeKey: string,
+    connectionId: string,
+    queryStringParameters: Record<string, string> | null
+  ): Promise<void> {
+    if (!this.connectHandler) {
+      throw new Error('Realtime handler not attached');
+    }
+    const result = await this.connectHandler({
+      queryStringParameters,
+      requestContext: { routeKey, connectionId, domainName: 'localhost', stage: 'local' },
+    } as unknown as APIGatewayProxyEvent);
+    if (result.statusCode !== 200) {
+      throw new Error(`Realtime ${routeKey} failed: ${result.body}`);
+    }
+  }
+}
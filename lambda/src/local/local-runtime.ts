@@ -0,0 +1,191 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context, SQSEvent } from 'aws-lambda';
+import { setAwsClientOverrides } from '../utils/aws-clients';
+import { InMemoryDocumentClient } from './in-memory-document-client';
+import { InMemoryQueue } from './in-memory-queue';
+import { LocalLambdaClient } from './local-lambda-client';
+import { LocalRealtimeHub } from './local-realtime-hub';
+import { fakeModel } from './fake-model';
+import type { Clock } from '../services/round-deadlines';
+import { MATCH_TABLE_INDEXES } from '../services/match-repository';
+import { MATCHMAKING_TABLE_INDEXES } from '../services/matchmaking-service';
+
+// Wires match-service, robot-worker, ai-service, admin-service and realtime-service together in
+// one process, backed by in-memory AWS fakes. Handlers create their SDK clients
+// when their module is first loaded, so there is one runtime per process.
+
+export const LOCAL_MATCHES_TABLE = 'robot-orchestra-matches';
+export const LOCAL_USERS_TABLE = 'robot-orchestra-users';
+export const LOCAL_CONNECTIONS_TABLE = 'robot-orchestra-connections';
+export const LOCAL_AUDIENCE_TABLE = 'robot-orchestra-audience';
+export const LOCAL_MATCHMAKING_TABLE = 'robot-orchestra-matchmaking';
+export const LOCAL_PROMPT_PACKS_TABLE = 'robot-orchestra-prompt-packs';
+export const LOCAL_PLAYER_STATS_TABLE = 'robot-orchestra-player-stats';
+export const LOCAL_RATINGS_TABLE = 'robot-orchestra-ratings';
+export const LOCAL_MODERATION_TABLE = 'robot-orchestra-moderation';
+export const LOCAL_ROBOT_QUEUE_URL = 'local://robot-tasks';
+export const LOCAL_STATE_UPDATE_QUEUE_URL = 'local://state-updates';
+export const LOCAL_AI_SERVICE_FUNCTION = 'robot-orchestra-ai-service';
+export const LOCAL_WEBSOCKET_ENDPOINT = 'local://realtime';
+
+const LOCAL_AI_USERS = [
+  { displayName: 'Sundown', personality: 'sundown' },
+  { displayName: 'Bandit', personality: 'bandit' },
+  { displayName: 'Maverick', personality: 'maverick' },
+  { displayName: 'Beast', personality: 'sundown' },
+  { displayName: 'Boomer', personality: 'bandit' },
+  { displayName: 'Buzz', personality: 'maverick' },
+];
+
+export interface LocalRuntimeOptions {
+  robotStaggerMs?: number;
+}
+
+export interface LocalRuntime {
+  docClient: InMemoryDocumentClient;
+  queue: InMemoryQueue;
+  realtime: LocalRealtimeHub;
+  handleApiRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult>;
+  // What the EventBridge schedule does in AWS; pass a clock to jump past deadlines
+  sweepDeadlines(clock?: Clock): Promise<void>;
+  drain(): Promise<void>;
+  reset(): void;
+}
+
+let runtime: Promise<LocalRuntime> | undefined;
+
+export function startLocalRuntime(options: LocalRuntimeOptions = {}): Promise<LocalRuntime> {
+  if (!runtime) {
+    runtime = createLocalRuntime(options);
+  }
+  return runtime;
+}
+
+function seedAIUsers(docClient: InMemoryDocumentClient): void {
+  const now = new Date().toISOString();
+  docClient.seed(
+    LOCAL_USERS_TABLE,
+    LOCAL_AI_USERS.map((user) => ({
+      ...user,
+      userId: `ai-${user.displayName.toLowerCase()}`,
+      userType: 'ai',
+      isActive: true,
+      isAdmin: false,
+      modelConfig: { provider: 'bedrock', model: 'claude-3-haiku' },
+      createdAt: now,
+      updatedAt: now,
+    }))
+  );
+}
+
+async function createLocalRuntime(options: LocalRuntimeOptions): Promise<LocalRuntime> {
+  process.env.DYNAMODB_TABLE_NAME = LOCAL_MATCHES_TABLE;
+  process.env.USERS_TABLE_NAME = LOCAL_USERS_TABLE;
+  process.env.CONNECTIONS_TABLE_NAME = LOCAL_CONNECTIONS_TABLE;
+  process.env.AUDIENCE_TABLE_NAME = LOCAL_AUDIENCE_TABLE;
+  process.env.MATCHMAKING_TABLE_NAME = LOCAL_MATCHMAKING_TABLE;
+  process.env.PROMPT_PACKS_TABLE_NAME = LOCAL_PROMPT_PACKS_TABLE;
+  process.env.PLAYER_STATS_TABLE_NAME = LOCAL_PLAYER_STATS_TABLE;
+  process.env.RATINGS_TABLE_NAME = LOCAL_RATINGS_TABLE;
+  process.env.MODERATION_TABLE_NAME = LOCAL_MODERATION_TABLE;
+  // The fake model passes everything, but the AI check still runs end to end
+  process.env.MODERATION_AI_ENABLED = 'true';
+  process.env.WEBSOCKET_ENDPOINT = LOCAL_WEBSOCKET_ENDPOINT;
+  process.env.SQS_QUEUE_URL = LOCAL_ROBOT_QUEUE_URL;
+  process.env.STATE_UPDATE_QUEUE_URL = LOCAL_STATE_UPDATE_QUEUE_URL;
+  process.env.AI_SERVICE_FUNCTION_NAME = LOCAL_AI_SERVICE_FUNCTION;
+  process.env.ROBOT_STAGGER_MS = String(options.robotStaggerMs ?? 0);
+  // Accept the frontend's local.<userId> sign-ins and sign guest tokens with a fixed key
+  process.env.LOCAL_AUTH = 'true';
+  process.env.PLAYER_TOKEN_SECRET = process.env.PLAYER_TOKEN_SECRET || 'local-player-token-secret';
+
+  const docClient = new InMemoryDocumentClient({
+    [LOCAL_MATCHES_TABLE]: {
+      partitionKey: 'matchId',
+      sortKey: 'timestamp',
+      indexes: MATCH_TABLE_INDEXES,
+    },
+    [LOCAL_USERS_TABLE]: {
+      partitionKey: 'userId',
+      indexes: {
+        'email-index': { partitionKey: 'email' },
+        'userType-index': { partitionKey: 'userType' },
+        'displayNameKey-index': { partitionKey: 'displayNameKey' },
+      },
+    },
+    [LOCAL_CONNECTIONS_TABLE]: {
+      partitionKey: 'connectionId',
+      indexes: { 'matchId-index': { partitionKey: 'matchId' } },
+    },
+    [LOCAL_AUDIENCE_TABLE]: {
+      partitionKey: 'matchId',
+      sortKey: 'guessKey',
+    },
+    [LOCAL_MATCHMAKING_TABLE]: {
+      partitionKey: 'userId',
+      indexes: MATCHMAKING_TABLE_INDEXES,
+    },
+    [LOCAL_PROMPT_PACKS_TABLE]: { partitionKey: 'packId' },
+    [LOCAL_PLAYER_STATS_TABLE]: { partitionKey: 'userId' },
+    [LOCAL_RATINGS_TABLE]: {
+      partitionKey: 'userId',
+      sortKey: 'board',
+      indexes: {
+        'board-detectionRating-index': { partitionKey: 'board', sortKey: 'detectionRating' },
+        'board-disguiseRating-index': { partitionKey: 'board', sortKey: 'disguiseRating' },
+      },
+    },
+    [LOCAL_MODERATION_TABLE]: {
+      partitionKey: 'reportId',
+      indexes: { 'status-createdAt-index': { partitionKey: 'status', sortKey: 'createdAt' } },
+    },
+  });
+  const queue = new InMemoryQueue();
+  const lambdaClient = new LocalLambdaClient();
+  const realtime = new LocalRealtimeHub();
+  setAwsClientOverrides({ docClient, sqsClient: queue, lambdaClient, realtimeClient: realtime });
+  seedAIUsers(docClient);
+
+  // Loaded only now so their module-level clients pick up the overrides
+  const matchService = await import('../../match-service');
+  const robotWorker = await import('../../robot-worker');
+  const adminService = await import('../../admin-service');
+  const realtimeService = await import('../../realtime-service');
+  const { createAIServiceHandler } = await import('../handlers/ai-service');
+  const { AITaskProcessor } = await import('../services/ai-task-processor');
+  const { createScriptedModelRegistry } = await import('../services/model-providers');
+  const aiService = createAIServiceHandler(new AITaskProcessor(createScriptedModelRegistry(fakeModel)));
+
+  lambdaClient.register(LOCAL_AI_SERVICE_FUNCTION, aiService);
+  realtime.attach(realtimeService.handler);
+  queue.subscribe(LOCAL_ROBOT_QUEUE_URL, (event: SQSEvent) => robotWorker.handler(event));
+  queue.subscribe(
+    LOCAL_STATE_UPDATE_QUEUE_URL,
+    async (event: SQSEvent) => (await matchService.handler(event)) as any
+  );
+
+  return {
+    docClient,
+    queue,
+    realtime,
+    async handleApiRequest(event) {
+      if (event.path.startsWith('/ai/')) {
+        return (await aiService(event, {} as Context, () => undefined)) as APIGatewayProxyResult;
+      }
+      if (event.path.startsWith('/admin/')) {
+        return adminService.handler(event);
+      }
+      return (await matchService.handler(event)) as APIGatewayProxyResult;
+    },
+    async sweepDeadlines(clock) {
+      await matchService.sweepRoundDeadlines(clock);
+      await matchService.sweepPresence(clock);
+      await matchService.sweepMatchmaking(clock);
+      await queue.drain();
+    },
+    drain: () => queue.drain(),
+    reset() {
+      docClient.reset();
+      seedAIUsers(docClient);
+    },
+  };
+}
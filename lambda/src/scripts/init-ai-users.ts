@@ -2,6 +2,7 @@
 import { DynamoDB } from 'aws-sdk';
 import { v4 as uuidv4 } from 'uuid';
 import { User } from '../../shared/schemas/user.schema';
+import { BUILT_IN_PERSONALITIES, builtInPersona, DEFAULT_PERSONA_SETTINGS } from '../services/personas';
 
 // Configure AWS
 const dynamodb = new DynamoDB.DocumentClient({
@@ -10,42 +11,26 @@ const dynamodb = new DynamoDB.DocumentClient({
 
 const USERS_TABLE = process.env.USERS_TABLE_NAME || 'robot-orchestra-users';
 
-// AI user configurations
-const AI_USERS: Omit<User, 'userId' | 'createdAt' | 'updatedAt'>[] = [
-  {
-    userType: 'ai',
-    displayName: 'Playful Little Sister',
-    isActive: true,
-    isAdmin: false,
-    personality: 'littleSister',
-    modelConfig: {
-      provider: 'bedrock',
-      model: 'claude-3-haiku',
-    },
+// One AI user per built-in personality, with its prompts written onto the
+// record so they can be edited without a redeploy
+const AI_USERS: Omit<User, 'userId' | 'createdAt' | 'updatedAt'>[] = Object.entries(
+  BUILT_IN_PERSONALITIES
+).map(([personality, prompts]) => ({
+  userType: 'ai',
+  displayName: builtInPersona(personality).name,
+  isActive: true,
+  isAdmin: false,
+  personality,
+  systemPrompt: prompts.systemPrompt,
+  voteStyle: prompts.voteStyle,
+  maxResponseLength: DEFAULT_PERSONA_SETTINGS.maxResponseLength,
+  modelConfig: {
+    provider: 'bedrock',
+    model: 'claude-3-haiku',
+    temperature: DEFAULT_PERSONA_SETTINGS.temperature,
+    maxTokens: DEFAULT_PERSONA_SETTINGS.maxTokens,
   },
-  {
-    userType: 'ai',
-    displayName: 'Wise Grandpa',
-    isActive: true,
-    isAdmin: false,
-    personality: 'wiseGrandpa',
-    modelConfig: {
-      provider: 'bedrock',
-      model: 'claude-3-haiku',
-    },
-  },
-  {
-    userType: 'ai',
-    displayName: 'Practical Mom',
-    isActive: true,
-    isAdmin: false,
-    personality: 'practicalMom',
-    modelConfig: {
-      provider: 'bedrock',
-      model: 'claude-3-haiku',
-    },
-  },
-];
+}));
 
 async function initializeAIUsers() {
   console.log('Initializing AI users...');
@@ -1,4 +1,6 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import type { AnalysisHighlight, MatchAnalysis } from '../../shared/schemas/match.schema';
+import { createDefaultModelRegistry, ModelRegistry } from './model-providers';
+import { builtInPersona, DEFAULT_PERSONA_SETTINGS, Persona } from './personas';
 
 export interface AIRequest {
   task: string;
@@ -18,8 +20,15 @@ export interface PromptGenerationInputs {
   theme?: string;
 }
 
+// Set when the robot is bound to an AI user record; otherwise the
+// built-in prompts for the personality are used
+export type PersonaInputs = Partial<
+  Pick<Persona, 'name' | 'systemPrompt' | 'styleNotes' | 'voteStyle' | 'maxResponseLength'>
+>;
+
 export interface RobotResponseInputs {
   personality: string;
+  persona?: PersonaInputs;
   prompt: string;
   context?: {
     round?: number;
@@ -31,11 +40,52 @@ export interface RobotResponseInputs {
   };
 }
 
+export interface RobotVoteInputs {
+  personality: string;
+  persona?: PersonaInputs;
+  prompt: string;
+  responses: Record<string, string>; // Candidates only, the voter's own response excluded
+  picks: number;
+  history?: Array<{
+    round: number;
+    prompt: string;
+    responses: Record<string, string>;
+    myVote?: string[];
+  }>;
+}
+
+export interface RobotVoteResult {
+  votedFor: string[];
+  reasoning?: string;
+}
+
 export interface MatchAnalysisInputs {
   match: any;
-  analysisType: 'themes' | 'difficulty' | 'highlights' | 'general';
+  analysisType: 'themes' | 'difficulty' | 'highlights' | 'general' | 'report';
+}
+
+// The 'report' analysis: highlights, difficulty and themes as one structured
+// answer that the match can store
+export type MatchReport = Pick<
+  MatchAnalysis,
+  'mostConvincingHuman' | 'mostHumanAI' | 'difficulty' | 'themes' | 'summary'
+>;
+
+const MAX_REPORT_THEMES = 3;
+
+export interface ModerationInputs {
+  text: string;
+  contentType: 'response' | 'display_name' | 'prompt';
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[];
+  reason?: string;
 }
 
+const MODERATION_CATEGORIES = ['harassment', 'hate', 'sexual', 'violence', 'self_harm', 'personal_info', 'spam'];
+
 export interface SummarizeInputs {
   text: string;
   style: 'brief' | 'detailed' | 'highlights';
@@ -62,13 +112,10 @@ export interface CustomTaskInputs {
 }
 
 export class AITaskProcessor {
-  private bedrock: BedrockRuntimeClient;
   private taskHandlers!: Map<string, (req: AIRequest) => Promise<any>>;
 
-  constructor() {
-    this.bedrock = new BedrockRuntimeClient({ 
-      region: process.env.AWS_REGION || 'us-east-1'
-    });
+  // The local dev server and tests pass a registry backed by a scripted provider
+  constructor(readonly models: ModelRegistry = createDefaultModelRegistry()) {
     this.setupHandlers();
   }
 
@@ -76,7 +123,9 @@ export class AITaskProcessor {
     this.taskHandlers = new Map<string, (req: AIRequest) => Promise<any>>([
       ['generate_prompt', this.generatePrompt.bind(this)],
       ['robot_response', this.generateRobotResponse.bind(this)],
+      ['robot_vote', this.generateRobotVote.bind(this)],
       ['analyze_match', this.analyzeMatch.bind(this)],
+      ['moderate', this.moderate.bind(this)],
       ['summarize', this.summarize.bind(this)],
       ['grammar_correction', this.correctGrammar.bind(this)],
       ['custom', this.customTask.bind(this)]
@@ -100,13 +149,15 @@ export class AITaskProcessor {
 Respond directly without conversational fluff. No opening acknowledgments, compliments, or phrases like 'great question,' 'I'd be happy to,' or 'what an interesting.' Start immediately with the technical answer.`;
     
     let userPrompt: string;
+    // The lobby's prompt pack may set a theme for the whole match
+    const themeGuidance = theme ? `\n- Fits this theme: ${theme}` : '';
     
     if (round === 1) {
       userPrompt = `Generate an engaging opening prompt for the game that:
 - Provokes interesting 1-2 sentence responses
 - Is open-ended enough for creative interpretation
 - Doesn't favor humans or AIs (avoid technical or factual questions)
-- Is thought-provoking and slightly philosophical or whimsical
+- Is thought-provoking and slightly philosophical or whimsical${themeGuidance}
 
 Return only the prompt question, no explanation.`;
     } else {
@@ -124,7 +175,7 @@ Generate a follow-up prompt that:
 - Builds naturally on themes or ideas from the responses
 - Explores a new angle while maintaining narrative flow
 - Remains engaging and thought-provoking
-- Doesn't repeat similar questions
+- Doesn't repeat similar questions${themeGuidance}
 
 Return only the prompt question, no explanation.`;
     }
@@ -145,21 +196,13 @@ Return only the prompt question, no explanation.`;
 
   private async generateRobotResponse(req: AIRequest): Promise<{ response: string }> {
     const inputs = req.inputs as RobotResponseInputs;
-    const { personality, prompt, context } = inputs;
-    
-    const personalities: Record<string, string> = {
-      sundown: `You are Sundown, a confident and aggressive competitor. You play to win and aren't afraid to take risks. You see challenges as opportunities to prove yourself and approach everything with determination. You speak directly and with conviction. Use standard punctuation only - periods and commas.
+    const { personality, persona, prompt, context } = inputs;
 
-Respond directly without conversational fluff. No opening acknowledgments, compliments, or phrases like 'great question,' 'I'd be happy to,' or 'what an interesting.' Start immediately with your answer.`,
-      bandit: `You are Bandit, sneaky and unpredictable. You enjoy keeping others guessing and often approach things from unexpected angles. You're clever and quick-thinking, always looking for the unconventional solution. Your responses are playful yet strategic. Use standard punctuation only - periods and commas.
-
-Respond directly without conversational fluff. No opening acknowledgments, compliments, or phrases like 'great question,' 'I'd be happy to,' or 'what an interesting.' Start immediately with your answer.`,
-      maverick: `You are Maverick, bold and daring. You push boundaries and aren't afraid to go against the grain. You have a rebellious streak but it comes from confidence, not recklessness. You speak with flair and aren't afraid to be different. Use standard punctuation only - periods and commas.
-
-Respond directly without conversational fluff. No opening acknowledgments, compliments, or phrases like 'great question,' 'I'd be happy to,' or 'what an interesting.' Start immediately with your answer.`
-    };
-
-    const systemPrompt = personalities[personality] || personalities.sundown;
+    const basePrompt = persona?.systemPrompt || builtInPersona(personality).systemPrompt;
+    const systemPrompt = persona?.styleNotes
+      ? `${basePrompt}\n\nStyle notes: ${persona.styleNotes}`
+      : basePrompt;
+    const maxLength = persona?.maxResponseLength || DEFAULT_PERSONA_SETTINGS.maxResponseLength;
     
     let styleGuidance = '';
     if (context?.humanResponses) {
@@ -188,17 +231,17 @@ ${context ? `\nContext: This is round ${context.round} of the game. Keep your re
 ${styleGuidance}
 ${previousResponsesGuidance}
 
-Important: Your response should reflect your personality while sounding like something a person might actually say. Avoid clichés or overly robotic patterns. Keep your response under 150 characters.`;
+Important: Your response should reflect your personality while sounding like something a person might actually say. Avoid clichés or overly robotic patterns. Keep your response under ${maxLength} characters.`;
 
     const response = await this.invokeModel(req.model, systemPrompt, userPrompt, {
       ...req.options,
       temperature: req.options.temperature || 0.85 // Higher for more personality variation
     });
 
-    // Truncate to 150 characters if needed
+    // Truncate to the persona's max length if needed
     const trimmedResponse = response.trim().replace(/^["']|["']$/g, ''); // Remove quotes if present
-    const finalResponse = trimmedResponse.length > 150 
-      ? trimmedResponse.substring(0, 147) + '...' 
+    const finalResponse = trimmedResponse.length > maxLength
+      ? trimmedResponse.substring(0, maxLength - 3) + '...' 
       : trimmedResponse;
     
     return { 
@@ -206,9 +249,59 @@ Important: Your response should reflect your personality while sounding like som
     };
   }
 
+  private async generateRobotVote(req: AIRequest): Promise<RobotVoteResult> {
+    const inputs = req.inputs as RobotVoteInputs;
+    const { personality, persona, prompt, responses, picks, history = [] } = inputs;
+    const fallback = builtInPersona(personality);
+
+    const systemPrompt = `You are ${persona?.name || fallback.name}, a player in a 'Human or Robot' game. Every player answered the same prompt and you must identify the human players. ${persona?.voteStyle || fallback.voteStyle}
+
+Respond with valid JSON only, no other text.`;
+
+    const candidateText = Object.entries(responses)
+      .map(([identity, response]) => `${identity}: "${response}"`)
+      .join('\n');
+    const historyText = history.length > 0
+      ? `\n\nEarlier rounds:\n${history.map(h =>
+          `Round ${h.round} - "${h.prompt}"\n${Object.entries(h.responses).map(([id, r]) => `${id}: "${r}"`).join('\n')}${h.myVote ? `\nYou picked: ${h.myVote.join(', ')}` : ''}`
+        ).join('\n\n')}`
+      : '';
+
+    const userPrompt = `Prompt: "${prompt}"
+
+Responses:
+${candidateText}${historyText}
+
+Pick exactly ${picks} of the identities above that you think are human. Compare writing habits across rounds as well as this round.
+
+Return JSON with this exact structure:
+{"votedFor": ["X"], "reasoning": "one short sentence"}`;
+
+    const response = await this.invokeModel(req.model || 'claude-3-haiku', systemPrompt, userPrompt, {
+      ...req.options,
+      temperature: req.options.temperature || 0.5
+    });
+
+    const json = response.match(/\{[\s\S]*\}/)?.[0];
+    const result = JSON.parse(json || '{}');
+    const votedFor: string[] = Array.isArray(result.votedFor) ? result.votedFor : [result.votedFor];
+    const candidates = Object.keys(responses);
+    const valid = votedFor.length === picks &&
+      new Set(votedFor).size === picks &&
+      votedFor.every(id => candidates.includes(id));
+    if (!valid) {
+      throw new Error(`Model returned an invalid vote: ${response}`);
+    }
+
+    return { votedFor, reasoning: result.reasoning };
+  }
+
   private async analyzeMatch(req: AIRequest): Promise<{ analysis: any; type: string }> {
     const inputs = req.inputs as MatchAnalysisInputs;
     const { match, analysisType } = inputs;
+    if (analysisType === 'report') {
+      return { analysis: await this.reportOnMatch(req), type: analysisType };
+    }
     
     const analysisPrompts: Record<string, string> = {
       themes: "Analyze the narrative themes and patterns that emerged across all rounds of this match. What topics or ideas connected the conversations?",
@@ -246,6 +339,109 @@ Provide a concise but insightful analysis.`;
     } as { analysis: any; type: string; matchId: string };
   }
 
+  private async reportOnMatch(req: AIRequest): Promise<MatchReport> {
+    const { match } = req.inputs as MatchAnalysisInputs;
+
+    const systemPrompt = `You are analyzing a completed 'Human or Robot' game match to provide insights. Every participant is marked isAI true or false.
+
+Respond with valid JSON only, no other text.`;
+
+    const matchSummary = {
+      participants: match.participants?.map((p: any) => ({
+        identity: p.identity,
+        isAI: !!p.isAI,
+        name: p.playerName || p.displayName,
+      })),
+      rounds: match.rounds?.map((r: any) => ({
+        roundNumber: r.roundNumber,
+        prompt: r.prompt,
+        responses: r.responses,
+        votes: r.votes,
+      })),
+    };
+
+    const userPrompt = `Match data: ${JSON.stringify(matchSummary)}
+
+Pick the human response that best passed as AI and the AI response that sounded most human. Rate how hard the humans were to spot from 1-10 and name up to ${MAX_REPORT_THEMES} themes that connected the rounds.
+
+Return JSON with this exact structure:
+{"mostConvincingHuman": {"identity": "A", "roundNumber": 1, "reason": "one short sentence"}, "mostHumanAI": {"identity": "B", "roundNumber": 2, "reason": "one short sentence"}, "difficulty": 6, "themes": ["short theme"], "summary": "two sentences on how the match played out"}`;
+
+    const response = await this.invokeModel(req.model, systemPrompt, userPrompt, {
+      ...req.options,
+      temperature: req.options.temperature || 0.3
+    });
+
+    const json = response.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      throw new Error(`Model returned no match report: ${response}`);
+    }
+    const result = JSON.parse(json);
+
+    // Quote lines from the match itself, and only where the model named a
+    // response that exists from the right side of the table
+    const highlight = (pick: any, isAI: boolean): AnalysisHighlight | undefined => {
+      const participant = match.participants?.find((p: any) => p.identity === pick?.identity);
+      const round = match.rounds?.find((r: any) => r.roundNumber === pick?.roundNumber);
+      const line = round?.responses?.[pick?.identity];
+      if (!participant || !!participant.isAI !== isAI || !line) return undefined;
+      return {
+        identity: pick.identity,
+        roundNumber: pick.roundNumber,
+        response: line,
+        reason: typeof pick.reason === 'string' ? pick.reason : undefined,
+      };
+    };
+    const difficulty = Math.round(Number(result.difficulty));
+
+    return {
+      mostConvincingHuman: highlight(result.mostConvincingHuman, false),
+      mostHumanAI: highlight(result.mostHumanAI, true),
+      difficulty: difficulty >= 1 && difficulty <= 10 ? difficulty : undefined,
+      themes: Array.isArray(result.themes)
+        ? result.themes.filter((theme: unknown) => typeof theme === 'string').slice(0, MAX_REPORT_THEMES)
+        : [],
+      summary: typeof result.summary === 'string' ? result.summary : undefined,
+    };
+  }
+
+  private async moderate(req: AIRequest): Promise<ModerationResult> {
+    const { text, contentType } = req.inputs as ModerationInputs;
+    if (!text) {
+      throw new Error('Moderation requires text');
+    }
+
+    const systemPrompt = `You are a content moderator for a public party game where strangers read each other's writing. Flag text that is abusive, hateful, sexual, violent, encourages self-harm, shares someone's personal information or is spam. Casual language, mild jokes and odd answers are fine.
+
+Respond with valid JSON only, no other text.`;
+
+    const userPrompt = `Content type: ${contentType || 'response'}
+Text to moderate: ${JSON.stringify(text)}
+
+Return JSON with this exact structure:
+{"flagged": false, "categories": [], "reason": "one short sentence, only when flagged"}
+Use categories from: ${MODERATION_CATEGORIES.join(', ')}`;
+
+    const response = await this.invokeModel(req.model || 'claude-3-haiku', systemPrompt, userPrompt, {
+      ...req.options,
+      temperature: 0 // The same text should get the same verdict
+    });
+
+    const json = response.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      throw new Error(`Model returned no moderation verdict: ${response}`);
+    }
+    const result = JSON.parse(json);
+
+    return {
+      flagged: result.flagged === true,
+      categories: Array.isArray(result.categories)
+        ? result.categories.filter((c: unknown) => typeof c === 'string' && MODERATION_CATEGORIES.includes(c))
+        : [],
+      reason: typeof result.reason === 'string' && result.reason ? result.reason : undefined,
+    };
+  }
+
   private async summarize(req: AIRequest): Promise<{ summary: string }> {
     const inputs = req.inputs as SummarizeInputs;
     const { text, style } = inputs;
@@ -330,77 +526,8 @@ Only include actual changes in the changes array. If no corrections are needed,
     modelId: string, 
     systemPrompt: string, 
     userPrompt: string, 
-    options: any,
-    retryCount: number = 0
+    options: any
   ): Promise<string> {
-    const modelMap: Record<string, string> = {
-      'claude-3-opus': 'anthropic.claude-3-opus-20240229-v1:0',
-      'claude-3-sonnet': 'anthropic.claude-3-sonnet-20240229-v1:0',
-      'claude-3-haiku': 'anthropic.claude-3-haiku-20240307-v1:0'
-    };
-
-    const actualModelId = modelMap[modelId] || modelMap['claude-3-sonnet'];
-    const maxRetries = 3;
-    
-    try {
-      console.log(`Invoking ${modelId} (${actualModelId}) with options:`, options);
-      
-      const response = await this.bedrock.send(new InvokeModelCommand({
-        modelId: actualModelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: "bedrock-2023-05-31",
-          system: systemPrompt,
-          messages: [{
-            role: "user",
-            content: userPrompt
-          }],
-          max_tokens: options.maxTokens || 200,
-          temperature: options.temperature || 0.7
-        })
-      }));
-
-      const result = JSON.parse(new TextDecoder().decode(response.body));
-      
-      if (result.content && result.content[0] && result.content[0].text) {
-        return result.content[0].text;
-      } else {
-        throw new Error('Unexpected response format from Bedrock');
-      }
-    } catch (error: any) {
-      console.error('Bedrock invocation error:', error);
-      
-      // Check for rate limit errors
-      if (error.name === 'ThrottlingException' || 
-          error.message?.includes('rate exceeded') ||
-          error.$metadata?.httpStatusCode === 429) {
-        
-        if (retryCount < maxRetries) {
-          // Exponential backoff with jitter
-          const baseDelay = 1000 * Math.pow(2, retryCount); // 1s, 2s, 4s
-          const jitter = Math.random() * 500; // 0-500ms random jitter
-          const delay = baseDelay + jitter;
-          
-          console.log(`Rate limit hit for ${modelId}. Retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`);
-          
-          await new Promise(resolve => setTimeout(resolve, delay));
-          
-          // Recursive retry
-          return this.invokeModel(modelId, systemPrompt, userPrompt, options, retryCount + 1);
-        }
-        
-        console.error(`Rate limit hit for ${modelId} after ${maxRetries} retries: ${error.message}`);
-        throw new Error(`Bedrock rate limit exceeded for ${modelId} after ${maxRetries} retries.`);
-      }
-      
-      // Check for model access errors
-      if (error.name === 'AccessDeniedException') {
-        console.error(`Model access denied for ${actualModelId}: ${error.message}`);
-        throw new Error(`Model ${modelId} is not enabled in Bedrock. Check model access in AWS Console.`);
-      }
-      
-      throw error;
-    }
+    return this.models.invoke(modelId, systemPrompt, userPrompt, options);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,112 @@
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { AudienceResults, AudienceRoundResult } from '../../shared/schemas/audience.schema';
+import { Identity, Match } from '../../shared/schemas/match.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+
+const docClient = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+// Guesses live in their own table so a busy audience never contends with the
+// players' writes to the match record
+const TABLE_NAME = process.env.AUDIENCE_TABLE_NAME || 'robot-orchestra-audience';
+
+export const SPECTATOR_ID_PREFIX = 'spectator-';
+
+export interface AudienceGuess {
+  matchId: string;
+  guessKey: string; // `${roundNumber}#${spectatorId}`: one guess per spectator per round
+  roundNumber: number;
+  spectatorId: string;
+  guess: Identity[];
+  guessedAt: string;
+}
+
+/**
+ * Record a spectator's guess at who is human. A later guess for the same
+ * round replaces the earlier one.
+ */
+export async function recordAudienceGuess(
+  matchId: string,
+  roundNumber: number,
+  spectatorId: string,
+  guess: Identity[]
+): Promise<void> {
+  const item: AudienceGuess = {
+    matchId,
+    guessKey: `${roundNumber}#${spectatorId}`,
+    roundNumber,
+    spectatorId,
+    guess,
+    guessedAt: new Date().toISOString(),
+  };
+  await docClient.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: item,
+  }));
+}
+
+export async function listAudienceGuesses(matchId: string): Promise<AudienceGuess[]> {
+  const guesses: AudienceGuess[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'matchId = :matchId',
+      ExpressionAttributeValues: {
+        ':matchId': matchId,
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+    guesses.push(...((result.Items || []) as AudienceGuess[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return guesses;
+}
+
+// Percent of picks that named a human, 0 when nobody picked
+function accuracyOf(guesses: AudienceGuess[], humans: Set<string>): number {
+  const picks = guesses.flatMap((g) => g.guess);
+  if (picks.length === 0) return 0;
+  return Math.round((picks.filter((pick) => humans.has(pick)).length / picks.length) * 100);
+}
+
+/**
+ * How the audience did, round by round. Only meaningful once the match is
+ * completed, since it needs to know who is human.
+ */
+export function summarizeAudience(
+  match: Match,
+  guesses: AudienceGuess[],
+  spectatorId?: string
+): AudienceResults {
+  const humans = new Set<string>(match.participants.filter((p) => !p.isAI).map((p) => p.identity));
+  const own = guesses.filter((g) => g.spectatorId === spectatorId);
+
+  const rounds = match.rounds.map((round): AudienceRoundResult => {
+    const roundGuesses = guesses.filter((g) => g.roundNumber === round.roundNumber);
+    const picks: Record<string, number> = {};
+    for (const pick of roundGuesses.flatMap((g) => g.guess)) {
+      picks[pick] = (picks[pick] || 0) + 1;
+    }
+    return {
+      roundNumber: round.roundNumber,
+      guesses: roundGuesses.length,
+      accuracy: accuracyOf(roundGuesses, humans),
+      picks,
+      yourGuess: own.find((g) => g.roundNumber === round.roundNumber)?.guess,
+    };
+  });
+
+  return {
+    matchId: match.matchId,
+    spectators: new Set(guesses.map((g) => g.spectatorId)).size,
+    accuracy: accuracyOf(guesses, humans),
+    rounds,
+    yourAccuracy: own.length > 0 ? accuracyOf(own, humans) : undefined,
+  };
+}
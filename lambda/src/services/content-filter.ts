@@ -0,0 +1,53 @@
+// The local, rule-based half of moderation: a blocked-word list that display
+// names, responses and prompts are all checked against
+
+// Words compared whole so "Dickens" or "Scunthorpe" still pass
+const BLOCKED_WORDS = new Set([
+  'arse', 'asshole', 'bastard', 'bitch', 'bollocks', 'cock', 'cunt', 'dick',
+  'fag', 'fuck', 'fucker', 'motherfucker', 'nazi', 'piss', 'porn', 'prick',
+  'pussy', 'rape', 'shit', 'slut', 'twat', 'wank', 'wanker', 'whore',
+]);
+
+// Digits and symbols commonly swapped in for letters
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+};
+
+// Separators between words; what's left of each word is normalized before the lookup
+const WORD_SEPARATORS = /[\s._\-]+/;
+const WORD = /[^\s._\-]+/g;
+
+function normalizeWord(word: string): string {
+  return [...word.toLowerCase()].map((ch) => LOOKALIKES[ch] || ch).join('').replace(/[^a-z]/g, '');
+}
+
+export function wordsOf(text: string): string[] {
+  return text.split(WORD_SEPARATORS).map(normalizeWord).filter(Boolean);
+}
+
+function isBlockedWord(word: string): boolean {
+  const normalized = normalizeWord(word);
+  const singular = normalized.replace(/e?s$/, '');
+  return !!normalized && (BLOCKED_WORDS.has(normalized) || BLOCKED_WORDS.has(singular));
+}
+
+// The part of a token to block: all of it, as in "sh!t", or all but its
+// trailing sentence punctuation, as in "shit!?"
+function blockedPart(token: string): string | null {
+  const word = token.replace(/[!?.,;:'"]+$/, '');
+  if (word && isBlockedWord(word)) return word;
+  return isBlockedWord(token) ? token : null;
+}
+
+// The words in the text that aren't allowed, as written
+export function findBlockedWords(text: string): string[] {
+  return (text.match(WORD) || []).flatMap((token) => blockedPart(token) ?? []);
+}
+
+// The text with each blocked word starred out, keeping its length
+export function maskBlockedWords(text: string): string {
+  return text.replace(WORD, (token) => {
+    const word = blockedPart(token);
+    return word ? '*'.repeat(word.length) + token.slice(word.length) : token;
+  });
+}
@@ -0,0 +1,31 @@
+import { UserSchema } from '../../shared/schemas/user.schema';
+import { findBlockedWords, wordsOf } from './content-filter';
+
+// Rules for the display names players save to their profile
+
+// Names that would pass a player off as staff
+const RESERVED_WORDS = new Set(['admin', 'administrator', 'moderator', 'staff', 'system']);
+
+// The key two names share when they differ only in case or spacing
+export function displayNameKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Why a player can't use this name, or null if they can. Limits come from
+ * UserSchema; uniqueness is checked against the users table separately.
+ */
+export function displayNameProblem(name: string): string | null {
+  const trimmed = name.trim();
+  if (!UserSchema.shape.displayName.safeParse(trimmed).success) {
+    return 'Display name must be between 1 and 100 characters';
+  }
+
+  if (findBlockedWords(trimmed).length > 0) {
+    return "Display name contains a word that isn't allowed";
+  }
+  if (wordsOf(trimmed).some((word) => RESERVED_WORDS.has(word))) {
+    return 'Display name is reserved';
+  }
+  return null;
+}
@@ -0,0 +1,94 @@
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { MatchLogEntry, MatchLogEvent } from '../../shared/schemas/match-log.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+import { Clock, systemClock } from './round-deadlines';
+
+const docClient = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'robot-orchestra-matches';
+
+// Two writers landing on the same millisecond take the next free one
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * Append events to a match's log, in order. Entries sort after the match
+ * record (timestamp 0) by write time. The log is a record of what happened,
+ * not the source of truth, so a failed append is logged and never fails the
+ * game action that produced it.
+ */
+export async function appendMatchEvents(
+  matchId: string,
+  events: MatchLogEvent[],
+  clock: Clock = systemClock
+): Promise<void> {
+  let lastTimestamp = 0;
+
+  for (const event of events) {
+    const now = clock.now();
+    let timestamp = Math.max(now.getTime(), lastTimestamp + 1);
+
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const entry = {
+        ...event,
+        matchId,
+        timestamp,
+        recordedAt: now.toISOString(),
+      } as MatchLogEntry;
+
+      try {
+        await docClient.send(new PutCommand({
+          TableName: TABLE_NAME,
+          Item: entry,
+          ConditionExpression: 'attribute_not_exists(#ts)',
+          ExpressionAttributeNames: {
+            '#ts': 'timestamp',
+          },
+        }));
+        lastTimestamp = timestamp;
+        break;
+      } catch (error) {
+        if (
+          error instanceof Error
+          && error.name === 'ConditionalCheckFailedException'
+          && attempt < MAX_APPEND_ATTEMPTS
+        ) {
+          timestamp++;
+          continue;
+        }
+        console.error(`Failed to log ${event.type} for match ${matchId}:`, error);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Every logged event for a match, oldest first
+ */
+export async function listMatchEvents(matchId: string): Promise<MatchLogEntry[]> {
+  const entries: MatchLogEntry[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'matchId = :matchId AND #ts > :zero',
+      ExpressionAttributeNames: {
+        '#ts': 'timestamp',
+      },
+      ExpressionAttributeValues: {
+        ':matchId': matchId,
+        ':zero': 0,
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+    entries.push(...((result.Items || []) as MatchLogEntry[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return entries;
+}
@@ -0,0 +1,150 @@
+import {
+  Identity,
+  Match,
+  MatchView,
+  Participant,
+  ParticipantView,
+  Round,
+  getRequiredVotePicks,
+} from '../../shared/schemas/match.schema';
+import { callerUserIdFor, inAdminGroup, PlayerCaller } from './player-auth';
+import { presenceOf } from './presence';
+import { Clock, systemClock } from './round-deadlines';
+import { UserService } from './user-service';
+
+// Who is looking at a match. Players see their own seat; admins see everything.
+export interface MatchViewer {
+  identity?: Identity;
+  isAdmin?: boolean;
+}
+
+// Keeps only what any player may know about another seat
+function redactParticipant(participant: Participant): ParticipantView {
+  return {
+    playerName: participant.playerName,
+    displayName: participant.displayName,
+    isConnected: participant.isConnected,
+    presence: participant.presence,
+    isReady: participant.isReady,
+    joinedAt: participant.joinedAt,
+  };
+}
+
+// Persona picks name the robots' AI users, so they go the way of userId
+function redactConfig(config: Match['config']): Match['config'] {
+  if (!config) return config;
+  const { personaIds: _personaIds, ...visible } = config;
+  return visible;
+}
+
+// Older records may lack playerName
+function nameOf(participant: ParticipantView): string {
+  return participant.displayName || participant.playerName || '';
+}
+
+// Just the viewer's own entry in a per-seat map
+function ownEntry<T>(entries: Record<string, T> | undefined, viewerIdentity?: Identity): Record<string, T> {
+  return viewerIdentity && entries && viewerIdentity in entries
+    ? { [viewerIdentity]: entries[viewerIdentity] }
+    : {};
+}
+
+// Deception points only go to humans and votes show who each seat suspects,
+// so other seats' votes and scores wait for the match to complete. Other
+// seats' responses appear once the round is voting. Viewers without a seat
+// see no votes or scores at all.
+function redactRound(round: Round, viewerIdentity?: Identity): Round {
+  const responsesOpen = round.status === 'voting' || round.status === 'complete';
+  return {
+    ...round,
+    responses: responsesOpen ? round.responses : ownEntry(round.responses, viewerIdentity),
+    votes: ownEntry(round.votes, viewerIdentity),
+    scores: ownEntry(round.scores, viewerIdentity),
+    scoring: round.scoring && {
+      roundNumber: round.scoring.roundNumber,
+      voteResults: round.scoring.voteResults.filter((result) => result.voter === viewerIdentity),
+      bonusPoints: round.scoring.bonusPoints && ownEntry(round.scoring.bonusPoints, viewerIdentity),
+      totals: round.scoring.totals && ownEntry(round.scoring.totals, viewerIdentity),
+    },
+  };
+}
+
+/**
+ * The match as one viewer may see it. Until the match is completed, other
+ * participants lose their identity, isAI, personality and userId and are
+ * listed by name, so neither the fields nor the order give the robots away,
+ * the lobby's persona picks are dropped from its config, and rounds are cut down to what the viewer may see of them. Viewers without
+ * a seat are spectators.
+ */
+export function projectMatch(
+  match: Match,
+  viewer: MatchViewer = {},
+  clock: Clock = systemClock
+): MatchView {
+  const participants = match.participants.map((p) => ({ ...p, presence: presenceOf(p, clock) }));
+  const viewerIdentity = participants.some((p) => p.identity === viewer.identity)
+    ? viewer.identity
+    : undefined;
+
+  if (viewer.isAdmin || match.status === 'completed') {
+    return { ...match, participants, viewerIdentity };
+  }
+
+  const own = participants.filter((p) => p.identity === viewerIdentity);
+  const others = participants
+    .filter((p) => p.identity !== viewerIdentity)
+    .map(redactParticipant)
+    .sort((a, b) => nameOf(a).localeCompare(nameOf(b)));
+
+  return {
+    ...match,
+    participants: [...own, ...others],
+    rounds: match.rounds.map((round) => redactRound(round, viewerIdentity)),
+    config: redactConfig(match.config),
+    viewerIdentity,
+    // A spectator's audience guess names every human
+    requiredVotePicks: getRequiredVotePicks(match.participants, viewerIdentity || ''),
+  };
+}
+
+// The seat a user plays in a match, if any
+export function findSeat(match: Match, userId?: string): Identity | undefined {
+  return userId ? match.participants.find((p) => p.userId === userId)?.identity : undefined;
+}
+
+/**
+ * Whether the users table marks this user as an admin. Lookup failures count
+ * as not an admin.
+ */
+export async function isAdminUser(userId?: string): Promise<boolean> {
+  if (!userId) return false;
+
+  try {
+    const user = await UserService.getUserById(userId);
+    return !!user?.isAdmin;
+  } catch (error) {
+    console.error(`Failed to load user ${userId} for match view:`, error);
+    return false;
+  }
+}
+
+/**
+ * Whether a caller may act as an admin: a signed-in user whose Cognito token
+ * carries the admin group, or whose user record is marked isAdmin (how the
+ * local runtime's sign-ins become admins). Guest tokens never do.
+ */
+export async function isAdminCaller(caller: PlayerCaller | null): Promise<boolean> {
+  if (!caller || caller.matchId) return false;
+  return inAdminGroup(caller) || isAdminUser(caller.userId);
+}
+
+/**
+ * The viewer behind an authenticated caller. Completed matches are shown in
+ * full to everyone, so the admin lookup is skipped for them.
+ */
+export async function resolveMatchViewer(match: Match, caller: PlayerCaller | null): Promise<MatchViewer> {
+  return {
+    identity: findSeat(match, callerUserIdFor(caller, match.matchId)),
+    isAdmin: match.status !== 'completed' && await isAdminCaller(caller),
+  };
+}
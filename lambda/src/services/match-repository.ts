@@ -0,0 +1,372 @@
+import { DeleteCommand, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { Match, MatchStatus } from '../../shared/schemas/match.schema';
+import { createDocumentClient, SendableClient } from '../utils/aws-clients';
+
+// A busy round settles within a few retries; past that something is wrong
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// The matches table's secondary indexes, as declared in infrastructure/main.tf.
+// All are keys-only: records are read back from the table, which is always
+// at least as fresh as an index.
+export const MATCH_TABLE_INDEXES = {
+  'inviteCode-index': { partitionKey: 'inviteCode' },
+  'status-createdAt-index': { partitionKey: 'status', sortKey: 'createdAt' },
+  'seatUserId-createdAt-index': { partitionKey: 'seatUserId', sortKey: 'createdAt' },
+};
+
+// Every write bumps version, and a write only lands if the version is still
+// the one that was read. Records written before versioning have none.
+export interface VersionedMatch {
+  matchId: string;
+  version?: number;
+  createdAt?: string; // Orders listings, newest first
+}
+
+export interface MatchUpdate<T> {
+  match: T;
+  saved: boolean; // False when the mutation found nothing to change
+}
+
+// Returns whether it changed the match; false skips the write
+export type MatchMutation<T> = (match: T) => boolean | Promise<boolean>;
+
+export interface PageRequest {
+  limit?: number;
+  cursor?: string; // From the previous page; omit for the first
+}
+
+export interface MatchPage<T> {
+  matches: T[];
+  cursor?: string; // Absent on the last page
+}
+
+/**
+ * Where match records live. Handlers type the record as their own view of a
+ * match, so reads take the type they expect and default to the shared one.
+ */
+export interface MatchRepository {
+  get<T extends VersionedMatch = Match>(matchId: string): Promise<T | null>;
+  /** Stores a new match at version 1; fails if the matchId is taken */
+  create<T extends VersionedMatch>(match: T): Promise<void>;
+  /**
+   * Read the match, apply `mutate` and write the whole record back, but only
+   * if nobody else wrote it in between. On a conflict the mutation runs again
+   * on a fresh read, so it must decide everything from the match it is handed
+   * and leave side effects (queues, logs, broadcasts) until after this
+   * resolves. Resolves to null when the match doesn't exist.
+   */
+  update<T extends VersionedMatch = Match>(
+    matchId: string,
+    mutate: MatchMutation<T>
+  ): Promise<MatchUpdate<T> | null>;
+  /** Every match in any of the statuses, newest first */
+  listByStatus<T extends VersionedMatch = Match>(statuses: MatchStatus[]): Promise<T[]>;
+  countByStatus(status: MatchStatus): Promise<number>;
+  /** Matches where the user holds a seat, newest first, a page at a time */
+  listByUser<T extends VersionedMatch = Match>(userId: string, page?: PageRequest): Promise<MatchPage<T>>;
+  findByInviteCode<T extends VersionedMatch = Match>(inviteCode: string): Promise<T | null>;
+  /** Removes the match and its seats, e.g. one that could never fill; its event log stays */
+  delete(matchId: string): Promise<void>;
+}
+
+export class MatchConflictError extends Error {
+  constructor(matchId: string) {
+    super(`Match ${matchId} kept changing, gave up after ${MAX_UPDATE_ATTEMPTS} attempts`);
+    this.name = 'MatchConflictError';
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid page cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Cursors are opaque to callers: the key to resume after, base64url encoded
+export function encodeCursor(key?: Record<string, unknown>): string | undefined {
+  return key ? Buffer.from(JSON.stringify(key)).toString('base64url') : undefined;
+}
+
+export function decodeCursor(cursor?: string): Record<string, any> | undefined {
+  if (!cursor) return undefined;
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (key && typeof key === 'object' && !Array.isArray(key)) return key;
+  } catch {
+    // Falls through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+export function byNewest(a: VersionedMatch, b: VersionedMatch): number {
+  return (b.createdAt || '').localeCompare(a.createdAt || '');
+}
+
+/**
+ * The read, mutate, conditional write loop behind MatchRepository.update.
+ * `write` must fail with a ConditionalCheckFailedException when the stored
+ * version is no longer `expected`.
+ */
+export async function updateWithRetries<T extends VersionedMatch>(
+  matchId: string,
+  read: () => Promise<T | null>,
+  write: (match: T, expected?: number) => Promise<void>,
+  mutate: MatchMutation<T>
+): Promise<MatchUpdate<T> | null> {
+  for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+    const match = await read();
+    if (!match) return null;
+
+    const expected = match.version;
+    if (!(await mutate(match))) {
+      return { match, saved: false };
+    }
+
+    try {
+      await write(match, expected);
+      match.version = (expected || 0) + 1;
+      return { match, saved: true };
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) throw error;
+      console.log(`Match ${matchId} changed during update (attempt ${attempt}), retrying`);
+    }
+  }
+
+  throw new MatchConflictError(matchId);
+}
+
+// A human whose seat went to an AI stand-in still played the match
+export function hasSeat(match: VersionedMatch, userId: string): boolean {
+  return ((match as Match).participants || []).some(
+    (p) => p.userId === userId || p.substitutedFor?.userId === userId
+  );
+}
+
+// One slot per seat, then one per seat for the human an AI stood in for, so a
+// substitution adds a seat row rather than overwriting the human's
+function seatedUserIds(match: VersionedMatch): (string | undefined)[] {
+  const participants = (match as Match).participants || [];
+  return [
+    ...participants.map((p) => p.userId),
+    ...participants.map((p) => p.substitutedFor?.userId),
+  ];
+}
+
+/**
+ * Match records in the matches table, under timestamp 0 so the event log can
+ * share the partition. A list of seats can't be indexed, so each seated user
+ * also gets a seat row at timestamp -1, -2, ... (one per seat) carrying
+ * seatUserId and the match's createdAt for the per-user index.
+ */
+export class DynamoMatchRepository implements MatchRepository {
+  constructor(
+    private docClient: SendableClient,
+    private tableName: string
+  ) {}
+
+  async get<T extends VersionedMatch = Match>(matchId: string): Promise<T | null> {
+    const result = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: {
+        matchId,
+        timestamp: 0,
+      },
+    }));
+
+    if (!result.Item) return null;
+    const { timestamp, ...match } = result.Item;
+    return match as T;
+  }
+
+  async create<T extends VersionedMatch>(match: T): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        ...match,
+        version: 1,
+        timestamp: 0,
+      },
+      ConditionExpression: 'attribute_not_exists(matchId)',
+    }));
+    match.version = 1;
+    await this.writeSeats(match, []);
+  }
+
+  async update<T extends VersionedMatch = Match>(
+    matchId: string,
+    mutate: MatchMutation<T>
+  ): Promise<MatchUpdate<T> | null> {
+    let seatedBefore: (string | undefined)[] = [];
+    const update = await updateWithRetries(
+      matchId,
+      () => this.get<T>(matchId),
+      (match, expected) => this.writeIfUnchanged(match, expected),
+      (match) => {
+        seatedBefore = seatedUserIds(match);
+        return mutate(match);
+      }
+    );
+    if (update?.saved) {
+      await this.writeSeats(update.match, seatedBefore);
+    }
+    return update;
+  }
+
+  async listByStatus<T extends VersionedMatch = Match>(statuses: MatchStatus[]): Promise<T[]> {
+    const matches: T[] = [];
+    for (const status of statuses) {
+      let cursor: string | undefined;
+      do {
+        const page = await this.queryIndex<T>('status-createdAt-index', 'status', status, { cursor });
+        matches.push(...page.matches);
+        cursor = page.cursor;
+      } while (cursor);
+    }
+    return matches.sort(byNewest);
+  }
+
+  async countByStatus(status: MatchStatus): Promise<number> {
+    let count = 0;
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: 'status-createdAt-index',
+        KeyConditionExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status },
+        Select: 'COUNT',
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      count += result.Count || 0;
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return count;
+  }
+
+  async listByUser<T extends VersionedMatch = Match>(
+    userId: string,
+    page: PageRequest = {}
+  ): Promise<MatchPage<T>> {
+    const found = await this.queryIndex<T>('seatUserId-createdAt-index', 'seatUserId', userId, {
+      limit: page.limit || DEFAULT_PAGE_SIZE,
+      cursor: page.cursor,
+    });
+    // A seat row can outlive the seat, so check the record itself
+    return { ...found, matches: found.matches.filter((match) => hasSeat(match, userId)) };
+  }
+
+  async findByInviteCode<T extends VersionedMatch = Match>(inviteCode: string): Promise<T | null> {
+    const found = await this.queryIndex<T>('inviteCode-index', 'inviteCode', inviteCode, { limit: 1 });
+    return found.matches[0] || null;
+  }
+
+  async delete(matchId: string): Promise<void> {
+    const match = await this.get(matchId);
+    if (!match) return;
+    const seats = seatedUserIds(match).map((_, i) => -(i + 1));
+    await Promise.all([0, ...seats].map((timestamp) => this.docClient.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { matchId, timestamp },
+    }))));
+  }
+
+  // Newest first; the index only hands back keys, so records are read from the table
+  private async queryIndex<T extends VersionedMatch>(
+    indexName: keyof typeof MATCH_TABLE_INDEXES,
+    attribute: string,
+    value: string,
+    page: PageRequest
+  ): Promise<MatchPage<T>> {
+    const result = await this.docClient.send(new QueryCommand({
+      TableName: this.tableName,
+      IndexName: indexName,
+      KeyConditionExpression: '#key = :value',
+      ExpressionAttributeNames: { '#key': attribute },
+      ExpressionAttributeValues: { ':value': value },
+      ScanIndexForward: false,
+      Limit: page.limit,
+      ExclusiveStartKey: decodeCursor(page.cursor),
+    }));
+
+    const matchIds = new Set<string>((result.Items || []).map((item: Record<string, any>) => item.matchId));
+    const records = await Promise.all([...matchIds].map((matchId) => this.get<T>(matchId)));
+    return {
+      matches: records.filter((match) => match !== null) as T[],
+      cursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  // Seat rows for users who weren't seated before this write; rewriting one is
+  // harmless. A slot that emptied, like a stand-in's substitutedFor once the
+  // human reclaims the seat, loses its row so the match isn't listed twice.
+  private async writeSeats(match: VersionedMatch, seatedBefore: (string | undefined)[]): Promise<void> {
+    const seated = seatedUserIds(match);
+    const slots = Math.max(seated.length, seatedBefore.length);
+    await Promise.all(Array.from({ length: slots }, async (_, i) => {
+      const userId = seated[i];
+      if (seatedBefore[i] === userId) return;
+      const timestamp = -(i + 1);
+      if (!userId) {
+        await this.docClient.send(new DeleteCommand({
+          TableName: this.tableName,
+          Key: { matchId: match.matchId, timestamp },
+        }));
+        return;
+      }
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          matchId: match.matchId,
+          timestamp,
+          seatUserId: userId,
+          createdAt: match.createdAt,
+        },
+      }));
+    }));
+  }
+
+  private async writeIfUnchanged<T extends VersionedMatch>(match: T, expected?: number): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        ...match,
+        version: (expected || 0) + 1,
+        timestamp: 0,
+      },
+      ConditionExpression: expected
+        ? '#version = :version'
+        : 'attribute_exists(matchId) AND attribute_not_exists(#version)',
+      ExpressionAttributeNames: {
+        '#version': 'version',
+      },
+      ExpressionAttributeValues: expected ? { ':version': expected } : undefined,
+    }));
+  }
+}
+
+let repository: MatchRepository | undefined;
+
+export function getMatchRepository(): MatchRepository {
+  if (!repository) {
+    repository = new DynamoMatchRepository(
+      createDocumentClient({
+        marshallOptions: {
+          removeUndefinedValues: true,
+        },
+      }),
+      process.env.DYNAMODB_TABLE_NAME || 'robot-orchestra-matches'
+    );
+  }
+  return repository;
+}
+
+// Lets tests run handlers against another store; pass nothing to go back to DynamoDB
+export function setMatchRepository(next?: MatchRepository): void {
+  repository = next;
+}
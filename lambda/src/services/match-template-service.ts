@@ -1,3 +1,7 @@
+import type { MatchConfig, MatchConfigOverride } from '../../shared/schemas/game.schema';
+import type { ScoringRules } from './scoring-engine';
+import { DEFAULT_RESPONSE_TIME_LIMIT, DEFAULT_VOTE_TIME_LIMIT } from './round-deadlines';
+
 export type MatchTemplateType = 'classic_1v3' | 'duo_2v2' | 'admin_custom' | 'trio_3v3' | 'solo_1v5' | 'duel_2v1' | 'mega_4v4';
 
 export interface MatchTemplate {
@@ -10,6 +14,24 @@ export interface MatchTemplate {
   isPublic: boolean;
   isAdminOnly?: boolean;
   responseTimeLimit?: number; // seconds
+  voteTimeLimit?: number; // seconds
+  scoring?: Partial<ScoringRules>; // Overrides DEFAULT_SCORING_RULES
+  substituteAfterSeconds?: number; // An AI persona takes a human's seat after this long without a heartbeat; unset never does
+}
+
+// Long enough to ride out a dropped connection or a browser restart
+const SUBSTITUTE_AFTER_SECONDS = 180;
+
+export const DEFAULT_TOTAL_ROUNDS = 5;
+export const DEFAULT_MIN_RESPONSE_LENGTH = 1;
+export const DEFAULT_MAX_RESPONSE_LENGTH = 280;
+export const MAX_PARTICIPANTS = 8; // Identities run from A to H
+
+export class InvalidMatchConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMatchConfigError';
+  }
 }
 
 export class MatchTemplateService {
@@ -33,13 +55,15 @@ export class MatchTemplateService {
       totalParticipants: 4,
       isPublic: true,
       responseTimeLimit: 45,
+      scoring: { identifiedPenalty: 25 },
+      substituteAfterSeconds: SUBSTITUTE_AFTER_SECONDS,
     }],
     ['admin_custom', {
       type: 'admin_custom',
       name: 'Admin Match',
       description: 'Custom match configuration for testing',
       requiredHumans: 1,
-      requiredAI: 0,
+      requiredAI: 3, // Starting point for the lobby's overrides
       totalParticipants: 4,
       isPublic: false,
       isAdminOnly: true,
@@ -54,6 +78,8 @@ export class MatchTemplateService {
       totalParticipants: 6,
       isPublic: true,
       responseTimeLimit: 45,
+      scoring: { identifiedPenalty: 25, streakBonus: 50 },
+      substituteAfterSeconds: SUBSTITUTE_AFTER_SECONDS,
     }],
     ['solo_1v5', {
       type: 'solo_1v5',
@@ -64,6 +90,7 @@ export class MatchTemplateService {
       totalParticipants: 6,
       isPublic: true,
       responseTimeLimit: 45,
+      scoring: { streakBonus: 50 },
     }],
     ['duel_2v1', {
       type: 'duel_2v1',
@@ -74,6 +101,7 @@ export class MatchTemplateService {
       totalParticipants: 3,
       isPublic: true,
       responseTimeLimit: 45,
+      substituteAfterSeconds: SUBSTITUTE_AFTER_SECONDS,
     }],
     ['mega_4v4', {
       type: 'mega_4v4',
@@ -84,6 +112,8 @@ export class MatchTemplateService {
       totalParticipants: 8,
       isPublic: true,
       responseTimeLimit: 45,
+      scoring: { identifiedPenalty: 25, streakBonus: 50 },
+      substituteAfterSeconds: SUBSTITUTE_AFTER_SECONDS,
     }],
   ]);
 
@@ -98,4 +128,45 @@ export class MatchTemplateService {
   static getPublicTemplates(): MatchTemplate[] {
     return this.getAllTemplates().filter(t => t.isPublic);
   }
+
+  /**
+   * The settings a match from this template plays with, after a lobby's
+   * overrides. Throws InvalidMatchConfigError when the result doesn't fit
+   * together, e.g. more seats than identities.
+   */
+  static resolveConfig(type: MatchTemplateType, override: MatchConfigOverride = {}): MatchConfig {
+    const template = this.getTemplate(type);
+    if (!template) {
+      throw new InvalidMatchConfigError(`Invalid template type: ${type}`);
+    }
+
+    const config: MatchConfig = {
+      totalRounds: override.totalRounds ?? DEFAULT_TOTAL_ROUNDS,
+      responseTimeLimit: override.responseTimeLimit ?? template.responseTimeLimit ?? DEFAULT_RESPONSE_TIME_LIMIT,
+      voteTimeLimit: override.voteTimeLimit ?? template.voteTimeLimit ?? DEFAULT_VOTE_TIME_LIMIT,
+      minResponseLength: override.minResponseLength ?? DEFAULT_MIN_RESPONSE_LENGTH,
+      maxResponseLength: override.maxResponseLength ?? DEFAULT_MAX_RESPONSE_LENGTH,
+      requiredHumans: override.requiredHumans ?? template.requiredHumans,
+      requiredAI: override.requiredAI ?? template.requiredAI,
+      personaIds: override.personaIds,
+      promptPackId: override.promptPackId,
+    };
+
+    if (config.minResponseLength > config.maxResponseLength) {
+      throw new InvalidMatchConfigError('minResponseLength cannot be more than maxResponseLength');
+    }
+    const seats = config.requiredHumans + config.requiredAI;
+    if (seats < 2 || seats > MAX_PARTICIPANTS) {
+      throw new InvalidMatchConfigError(`A match needs between 2 and ${MAX_PARTICIPANTS} participants`);
+    }
+    if (config.personaIds) {
+      if (config.personaIds.length > config.requiredAI) {
+        throw new InvalidMatchConfigError(`Pick at most ${config.requiredAI} personas`);
+      }
+      if (new Set(config.personaIds).size !== config.personaIds.length) {
+        throw new InvalidMatchConfigError('Each persona can only take one seat');
+      }
+    }
+    return config;
+  }
 }
\ No newline at end of file
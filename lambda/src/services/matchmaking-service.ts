@@ -0,0 +1,321 @@
+import { DeleteCommand, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type { MatchmakingStatus } from '../../shared/schemas/matchmaking.schema';
+import { MatchTemplate, MatchTemplateService, MatchTemplateType } from './match-template-service';
+import type { MultiHumanMatchService } from './multi-human-match-service';
+import { Clock, systemClock } from './round-deadlines';
+import type { SendableClient } from '../utils/aws-clients';
+
+// A ticket that allows it settles for fewer humans after waiting this long
+export const AI_BACKFILL_AFTER_SECONDS = 60;
+
+// Rough time between players joining a queue, for wait estimates
+const ARRIVAL_ESTIMATE_SECONDS = 30;
+
+// The matchmaking table's index of waiting tickets, as declared in infrastructure/main.tf
+export const MATCHMAKING_TABLE_INDEXES = {
+  'queue-enqueuedAt-index': { partitionKey: 'queue', sortKey: 'enqueuedAt' },
+};
+
+/**
+ * One player's place in matchmaking, keyed by userId so a player holds one
+ * ticket at a time. `queue` is only set while the ticket waits, which keeps
+ * placed and matched tickets out of the queue index.
+ */
+export interface MatchmakingTicket {
+  userId: string;
+  displayName: string;
+  templateType: MatchTemplateType;
+  allowAIBackfill: boolean;
+  enqueuedAt: string;
+  queue?: MatchTemplateType;
+  groupId?: string; // Set while the ticket is being placed in a match
+  matchId?: string;
+  matchedTemplateType?: MatchTemplateType;
+}
+
+export class TicketClaimedError extends Error {
+  constructor() {
+    super('You are already being placed in a match');
+    this.name = 'TicketClaimedError';
+  }
+}
+
+// Templates that need more than one human are worth queueing for
+export function isQueueable(templateType: MatchTemplateType): boolean {
+  const template = MatchTemplateService.getTemplate(templateType);
+  return !!template && template.isPublic && !template.isAdminOnly && template.requiredHumans > 1;
+}
+
+/**
+ * The public template to settle for when only `available` humans are waiting:
+ * the one with the most humans below the original, preferring the same table
+ * size. Undefined when even a solo template won't do.
+ */
+export function backfillTemplate(template: MatchTemplate, available: number): MatchTemplate | undefined {
+  return MatchTemplateService.getPublicTemplates()
+    .filter((t) => !t.isAdminOnly && t.requiredHumans < template.requiredHumans && t.requiredHumans <= available)
+    .sort((a, b) =>
+      b.requiredHumans - a.requiredHumans
+      || Math.abs(a.totalParticipants - template.totalParticipants)
+        - Math.abs(b.totalParticipants - template.totalParticipants)
+    )[0];
+}
+
+function isClaimConflict(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ConditionalCheckFailedException';
+}
+
+export class MatchmakingService {
+  constructor(
+    private docClient: SendableClient,
+    private tableName: string,
+    private matchService: MultiHumanMatchService,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Queue the player for a template, replacing any earlier ticket, then group
+   * the queue. Fails with TicketClaimedError while the earlier ticket is being
+   * placed in a match.
+   */
+  async enqueue(
+    userId: string,
+    displayName: string,
+    templateType: MatchTemplateType,
+    allowAIBackfill = false
+  ): Promise<MatchmakingStatus> {
+    const ticket: MatchmakingTicket = {
+      userId,
+      displayName,
+      templateType,
+      allowAIBackfill,
+      enqueuedAt: this.clock.now().toISOString(),
+      queue: templateType,
+    };
+
+    try {
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: ticket,
+        ConditionExpression: 'attribute_not_exists(groupId) OR attribute_exists(matchId)',
+      }));
+    } catch (error) {
+      if (isClaimConflict(error)) throw new TicketClaimedError();
+      throw error;
+    }
+
+    await this.formMatches(templateType);
+    return (await this.status(userId))!;
+  }
+
+  // Where the player stands, or null without a ticket
+  async status(userId: string): Promise<MatchmakingStatus | null> {
+    const ticket = await this.getTicket(userId);
+    if (!ticket) return null;
+
+    const base = {
+      templateType: ticket.templateType,
+      enqueuedAt: ticket.enqueuedAt,
+      allowAIBackfill: ticket.allowAIBackfill,
+    };
+    if (ticket.matchId) {
+      return {
+        ...base,
+        status: 'matched',
+        matchId: ticket.matchId,
+        matchedTemplateType: ticket.matchedTemplateType,
+      };
+    }
+
+    const template = MatchTemplateService.getTemplate(ticket.templateType)!;
+    const waiting = await this.listWaiting(ticket.templateType);
+    // A ticket being placed has left the queue and is about to be matched
+    const position = ticket.groupId ? 1 : waiting.findIndex((t) => t.userId === userId) + 1;
+
+    // Players still to arrive before this ticket's group is full
+    const groupEnd = Math.ceil(position / template.requiredHumans) * template.requiredHumans;
+    const needed = ticket.groupId ? 0 : Math.max(0, groupEnd - waiting.length);
+    let estimate = needed * ARRIVAL_ESTIMATE_SECONDS;
+    if (ticket.allowAIBackfill) {
+      const waited = (this.clock.now().getTime() - new Date(ticket.enqueuedAt).getTime()) / 1000;
+      estimate = Math.min(estimate, Math.max(0, AI_BACKFILL_AFTER_SECONDS - waited));
+    }
+
+    return {
+      ...base,
+      status: 'queued',
+      position,
+      waiting: waiting.length,
+      requiredHumans: template.requiredHumans,
+      estimatedWaitSeconds: Math.ceil(estimate),
+    };
+  }
+
+  // Leave the queue; a matched ticket is simply forgotten
+  async leave(userId: string): Promise<void> {
+    try {
+      await this.docClient.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { userId },
+        ConditionExpression: 'attribute_not_exists(groupId) OR attribute_exists(matchId)',
+      }));
+    } catch (error) {
+      if (isClaimConflict(error)) throw new TicketClaimedError();
+      throw error;
+    }
+  }
+
+  // Run on a schedule: group every queue, then backfill whoever waited long enough
+  async sweep(clock: Clock = this.clock): Promise<void> {
+    const templates = MatchTemplateService.getPublicTemplates().filter((t) => isQueueable(t.type));
+    for (const template of templates) {
+      try {
+        await this.formMatches(template.type);
+        await this.backfill(template, clock);
+      } catch (error) {
+        console.error(`Failed to sweep the ${template.type} queue:`, error);
+      }
+    }
+  }
+
+  // Oldest first, a full group at a time
+  private async formMatches(templateType: MatchTemplateType): Promise<void> {
+    const template = MatchTemplateService.getTemplate(templateType)!;
+    const waiting = await this.listWaiting(templateType);
+    while (waiting.length >= template.requiredHumans) {
+      await this.placeInMatch(waiting.splice(0, template.requiredHumans), templateType);
+    }
+  }
+
+  private async backfill(template: MatchTemplate, clock: Clock): Promise<void> {
+    const cutoff = clock.now().getTime() - AI_BACKFILL_AFTER_SECONDS * 1000;
+    const waiting = await this.listWaiting(template.type);
+    const willing = waiting.filter((t) => t.allowAIBackfill);
+    const overdue = (ticket: MatchmakingTicket) => new Date(ticket.enqueuedAt).getTime() <= cutoff;
+    if (!willing.some(overdue)) return;
+
+    const fallback = backfillTemplate(template, willing.length);
+    if (!fallback) return;
+
+    // Oldest first, so each group is led by an overdue ticket and anyone
+    // newer only settles for AI alongside it
+    console.log(`Backfilling ${template.type} queue with AI as ${fallback.type}`);
+    while (willing.length >= fallback.requiredHumans && overdue(willing[0])) {
+      await this.placeInMatch(willing.splice(0, fallback.requiredHumans), fallback.type);
+    }
+  }
+
+  /**
+   * Claim the tickets, then seat their players: the first creates the match
+   * and the rest join it by invite code. A ticket someone else claimed or
+   * replaced first sends the whole group back to the queue.
+   */
+  private async placeInMatch(tickets: MatchmakingTicket[], templateType: MatchTemplateType): Promise<void> {
+    const groupId = uuidv4();
+    const claimed: MatchmakingTicket[] = [];
+    for (const ticket of tickets) {
+      try {
+        await this.docClient.send(new UpdateCommand({
+          TableName: this.tableName,
+          Key: { userId: ticket.userId },
+          UpdateExpression: 'SET groupId = :groupId REMOVE #queue',
+          ConditionExpression: '#queue = :queue AND enqueuedAt = :enqueuedAt',
+          ExpressionAttributeNames: { '#queue': 'queue' },
+          ExpressionAttributeValues: {
+            ':groupId': groupId,
+            ':queue': ticket.templateType,
+            ':enqueuedAt': ticket.enqueuedAt,
+          },
+        }));
+        claimed.push(ticket);
+      } catch (error) {
+        if (!isClaimConflict(error)) throw error;
+        await this.release(claimed, groupId);
+        return;
+      }
+    }
+
+    let matchId: string | undefined;
+    try {
+      const [host, ...guests] = tickets;
+      const match = await this.matchService.createMatchWithTemplate({
+        templateType,
+        creatorUserId: host.userId,
+        creatorName: host.displayName,
+      });
+      matchId = match.matchId;
+      for (const guest of guests) {
+        const joined = await this.matchService.joinMatch({
+          inviteCode: match.inviteCode!,
+          userId: guest.userId,
+          displayName: guest.displayName,
+        });
+        if (!joined.success) throw new Error(joined.error);
+      }
+    } catch (error) {
+      console.error(`Failed to start a ${templateType} match from the queue:`, error);
+      // A half-filled match would hold its players' seats with nobody coming
+      if (matchId) {
+        await this.matchService.abandonMatch(matchId).catch((abandonError) =>
+          console.error(`Failed to abandon unfilled match ${matchId}:`, abandonError));
+      }
+      await this.release(claimed, groupId);
+      return;
+    }
+
+    await Promise.all(tickets.map((ticket) => this.docClient.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { userId: ticket.userId },
+      UpdateExpression: 'SET matchId = :matchId, matchedTemplateType = :templateType',
+      ConditionExpression: 'groupId = :groupId',
+      ExpressionAttributeValues: {
+        ':matchId': matchId,
+        ':templateType': templateType,
+        ':groupId': groupId,
+      },
+    }))));
+    console.log(`Matched ${tickets.length} queued players into ${templateType} match ${matchId}`);
+  }
+
+  // Put claimed tickets back in their queue, keeping their place
+  private async release(tickets: MatchmakingTicket[], groupId: string): Promise<void> {
+    await Promise.all(tickets.map((ticket) => this.docClient.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { userId: ticket.userId },
+      UpdateExpression: 'SET #queue = :queue REMOVE groupId',
+      ConditionExpression: 'groupId = :groupId',
+      ExpressionAttributeNames: { '#queue': 'queue' },
+      ExpressionAttributeValues: { ':queue': ticket.templateType, ':groupId': groupId },
+    }))));
+  }
+
+  private async getTicket(userId: string): Promise<MatchmakingTicket | null> {
+    const result = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { userId },
+    }));
+    return (result.Item as MatchmakingTicket) || null;
+  }
+
+  // Waiting tickets for a template, oldest first
+  private async listWaiting(templateType: MatchTemplateType): Promise<MatchmakingTicket[]> {
+    const tickets: MatchmakingTicket[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: 'queue-enqueuedAt-index',
+        KeyConditionExpression: '#queue = :queue',
+        ExpressionAttributeNames: { '#queue': 'queue' },
+        ExpressionAttributeValues: { ':queue': templateType },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      tickets.push(...((result.Items || []) as MatchmakingTicket[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return tickets;
+  }
+}
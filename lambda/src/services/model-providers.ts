@@ -0,0 +1,265 @@
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+
+export interface ModelOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// A model the game can ask for by id, and how its provider names it
+export interface ModelDefinition {
+  id: string;
+  provider: string;
+  providerModelId: string;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  invoke(
+    model: ModelDefinition,
+    systemPrompt: string,
+    userPrompt: string,
+    options: ModelOptions
+  ): Promise<string>;
+}
+
+// Answers in place of a real model, used by the scripted provider
+export type ModelInvoker = (
+  modelId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  options: any
+) => Promise<string>;
+
+export const BEDROCK_MODELS: ModelDefinition[] = [
+  { id: 'claude-3-opus', provider: 'bedrock', providerModelId: 'anthropic.claude-3-opus-20240229-v1:0' },
+  { id: 'claude-3-sonnet', provider: 'bedrock', providerModelId: 'anthropic.claude-3-sonnet-20240229-v1:0' },
+  { id: 'claude-3-haiku', provider: 'bedrock', providerModelId: 'anthropic.claude-3-haiku-20240307-v1:0' },
+];
+
+const MAX_RETRIES = 3;
+
+export class BedrockProvider implements ModelProvider {
+  readonly name = 'bedrock';
+  private client?: BedrockRuntimeClient;
+
+  async invoke(
+    model: ModelDefinition,
+    systemPrompt: string,
+    userPrompt: string,
+    options: ModelOptions,
+    retryCount: number = 0
+  ): Promise<string> {
+    // Created on first use so registries that never call Bedrock don't need AWS config
+    this.client ??= new BedrockRuntimeClient({
+      region: process.env.AWS_REGION || 'us-east-1'
+    });
+
+    try {
+      console.log(`Invoking ${model.id} (${model.providerModelId}) with options:`, options);
+
+      const response = await this.client.send(new InvokeModelCommand({
+        modelId: model.providerModelId,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: JSON.stringify({
+          anthropic_version: "bedrock-2023-05-31",
+          system: systemPrompt,
+          messages: [{
+            role: "user",
+            content: userPrompt
+          }],
+          max_tokens: options.maxTokens || 200,
+          temperature: options.temperature || 0.7
+        })
+      }));
+
+      const result = JSON.parse(new TextDecoder().decode(response.body));
+
+      if (result.content && result.content[0] && result.content[0].text) {
+        return result.content[0].text;
+      } else {
+        throw new Error('Unexpected response format from Bedrock');
+      }
+    } catch (error) {
+      console.error('Bedrock invocation error:', error);
+      if (!(error instanceof Error)) throw error;
+
+      // Check for rate limit errors
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (error.name === 'ThrottlingException' ||
+          error.message.includes('rate exceeded') ||
+          status === 429) {
+
+        if (retryCount < MAX_RETRIES) {
+          // Exponential backoff with jitter
+          const baseDelay = 1000 * Math.pow(2, retryCount); // 1s, 2s, 4s
+          const jitter = Math.random() * 500; // 0-500ms random jitter
+          const delay = baseDelay + jitter;
+
+          console.log(`Rate limit hit for ${model.id}. Retrying in ${delay}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`);
+
+          await new Promise(resolve => setTimeout(resolve, delay));
+
+          // Recursive retry
+          return this.invoke(model, systemPrompt, userPrompt, options, retryCount + 1);
+        }
+
+        console.error(`Rate limit hit for ${model.id} after ${MAX_RETRIES} retries: ${error.message}`);
+        throw new Error(`Bedrock rate limit exceeded for ${model.id} after ${MAX_RETRIES} retries.`);
+      }
+
+      // Check for model access errors
+      if (error.name === 'AccessDeniedException') {
+        console.error(`Model access denied for ${model.providerModelId}: ${error.message}`);
+        throw new Error(`Model ${model.id} is not enabled in Bedrock. Check model access in AWS Console.`);
+      }
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local llama.cpp / ollama server
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name = 'openai';
+
+  constructor(private baseUrl: string, private apiKey?: string) {}
+
+  async invoke(
+    model: ModelDefinition,
+    systemPrompt: string,
+    userPrompt: string,
+    options: ModelOptions
+  ): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: model.providerModelId,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        max_tokens: options.maxTokens || 200,
+        temperature: options.temperature || 0.7,
+      }),
+    });
+
+    if (response.status === 429) {
+      throw new Error(`OpenAI-compatible rate limit exceeded for ${model.id}`);
+    }
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request for ${model.id} failed: ${response.status} ${await response.text()}`);
+    }
+
+    const result: any = await response.json();
+    const text = result.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('Unexpected response format from OpenAI-compatible endpoint');
+    }
+    return text;
+  }
+}
+
+/**
+ * Answers from a script instead of a model, for tests and the local dev server
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+
+  constructor(private respond: ModelInvoker) {}
+
+  invoke(
+    model: ModelDefinition,
+    systemPrompt: string,
+    userPrompt: string,
+    options: ModelOptions
+  ): Promise<string> {
+    return this.respond(model.id, systemPrompt, userPrompt, options);
+  }
+}
+
+export class ModelRegistry {
+  private providers = new Map<string, ModelProvider>();
+  private models = new Map<string, ModelDefinition>();
+
+  registerProvider(provider: ModelProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  registerModel(model: ModelDefinition): this {
+    if (!this.providers.has(model.provider)) {
+      throw new Error(`Unknown model provider: ${model.provider}`);
+    }
+    this.models.set(model.id, model);
+    return this;
+  }
+
+  has(modelId: string): boolean {
+    return this.models.has(modelId);
+  }
+
+  get(modelId: string): ModelDefinition | undefined {
+    return this.models.get(modelId);
+  }
+
+  listModels(): ModelDefinition[] {
+    return [...this.models.values()];
+  }
+
+  async invoke(
+    modelId: string,
+    systemPrompt: string,
+    userPrompt: string,
+    options: ModelOptions
+  ): Promise<string> {
+    const model = this.models.get(modelId);
+    if (!model) {
+      throw new Error(`Unknown model: ${modelId}`);
+    }
+    return this.providers.get(model.provider)!.invoke(model, systemPrompt, userPrompt, options);
+  }
+}
+
+/**
+ * The Bedrock Claude models, plus any models served from
+ * OPENAI_COMPATIBLE_BASE_URL and listed in OPENAI_COMPATIBLE_MODELS
+ */
+export function createDefaultModelRegistry(env: NodeJS.ProcessEnv = process.env): ModelRegistry {
+  const registry = new ModelRegistry().registerProvider(new BedrockProvider());
+  BEDROCK_MODELS.forEach((model) => registry.registerModel(model));
+
+  if (env.OPENAI_COMPATIBLE_BASE_URL) {
+    registry.registerProvider(
+      new OpenAICompatibleProvider(env.OPENAI_COMPATIBLE_BASE_URL, env.OPENAI_COMPATIBLE_API_KEY)
+    );
+    (env.OPENAI_COMPATIBLE_MODELS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .forEach((id) => registry.registerModel({ id, provider: 'openai', providerModelId: id }));
+  }
+
+  return registry;
+}
+
+/**
+ * Serves every default model id, and any extra ones, from a script
+ */
+export function createScriptedModelRegistry(
+  respond: ModelInvoker,
+  extraModelIds: string[] = []
+): ModelRegistry {
+  const registry = new ModelRegistry().registerProvider(new ScriptedProvider(respond));
+  [...BEDROCK_MODELS.map((model) => model.id), ...extraModelIds].forEach((id) =>
+    registry.registerModel({ id, provider: 'scripted', providerModelId: id })
+  );
+  return registry;
+}
@@ -0,0 +1,262 @@
+import { InvokeCommand } from '@aws-sdk/client-lambda';
+import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type { Identity } from '../../shared/schemas/match.schema';
+import {
+  ModeratedContent,
+  ModerationAction,
+  ModerationActionSchema,
+  ModerationReport,
+  ModerationReportStatus,
+  ModerationSource,
+} from '../../shared/schemas/moderation.schema';
+import { createDocumentClient, createLambdaClient } from '../utils/aws-clients';
+import { findBlockedWords, maskBlockedWords } from './content-filter';
+
+const dynamodb = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+const lambdaClient = createLambdaClient();
+
+const MODERATION_TABLE = process.env.MODERATION_TABLE_NAME || 'robot-orchestra-moderation';
+
+// Shown in place of a response that can't be shown, in whole or in part
+export const MASKED_RESPONSE = '[removed by moderation]';
+
+// What each kind of content does when it fails a check, unless configured otherwise
+const DEFAULT_ACTIONS: Record<ModeratedContent, ModerationAction> = {
+  response: 'mask',
+  display_name: 'reject',
+  prompt: 'reject',
+};
+
+const ACTION_SETTINGS: Record<ModeratedContent, string> = {
+  response: 'MODERATION_RESPONSE_ACTION',
+  display_name: 'MODERATION_DISPLAY_NAME_ACTION',
+  prompt: 'MODERATION_PROMPT_ACTION',
+};
+
+const MAX_REPORTS_LISTED = 100;
+
+/**
+ * What to do with a piece of text. `text` is what may be stored: the
+ * original, or a masked copy. Reviewed text that passed has no source.
+ */
+export interface ModerationVerdict {
+  action: 'allow' | ModerationAction;
+  text: string;
+  source?: ModerationSource;
+  categories: string[];
+}
+
+// Where a response being reported or flagged sits
+export interface ResponseLocation {
+  matchId: string;
+  roundNumber: number;
+  identity: Identity;
+  userId?: string;
+}
+
+export class ReportResolvedError extends Error {
+  constructor(reportId: string) {
+    super(`Report ${reportId} has already been resolved`);
+    this.name = 'ReportResolvedError';
+  }
+}
+
+export function moderationAction(contentType: ModeratedContent): ModerationAction {
+  const configured = ModerationActionSchema.safeParse(process.env[ACTION_SETTINGS[contentType]]);
+  return configured.success ? configured.data : DEFAULT_ACTIONS[contentType];
+}
+
+// Masking stars out blocked words. Anything else can only be hidden whole,
+// which works for a response but not a name or prompt, so those are rejected.
+function verdictFor(
+  contentType: ModeratedContent,
+  text: string,
+  source: ModerationSource,
+  categories: string[]
+): ModerationVerdict {
+  const action = moderationAction(contentType);
+  if (action !== 'mask') {
+    return { action, text, source, categories };
+  }
+  if (source === 'filter') {
+    return { action, text: maskBlockedWords(text), source, categories };
+  }
+  return contentType === 'response'
+    ? { action, text: MASKED_RESPONSE, source, categories }
+    : { action: 'reject', text, source, categories };
+}
+
+/**
+ * Moderation of player-written text: the local blocked-word filter, the
+ * ai-service `moderate` task when MODERATION_AI_ENABLED is set, and the
+ * review queue that flagged content and player reports land in
+ */
+export class ModerationService {
+  static async review(contentType: ModeratedContent, text: string): Promise<ModerationVerdict> {
+    let source: ModerationSource | undefined;
+    let categories: string[] = [];
+
+    const blocked = findBlockedWords(text);
+    if (blocked.length > 0) {
+      source = 'filter';
+      categories = [...new Set(blocked.map((word) => `blocked_word:${word.toLowerCase()}`))];
+    } else if (process.env.MODERATION_AI_ENABLED === 'true') {
+      const result = await this.askModel(contentType, text);
+      if (result?.flagged) {
+        source = 'ai';
+        categories = result.categories.length > 0 ? result.categories : ['ai_flagged'];
+      }
+    }
+
+    return source ? verdictFor(contentType, text, source, categories) : { action: 'allow', text, categories };
+  }
+
+  // Queue text stored under a 'flag' verdict. Play goes on if this fails.
+  static async queueIfFlagged(
+    contentType: ModeratedContent,
+    verdict: ModerationVerdict,
+    details: Partial<Pick<ModerationReport, 'matchId' | 'roundNumber' | 'identity' | 'userId' | 'packId'>> = {}
+  ): Promise<void> {
+    if (verdict.action !== 'flag') return;
+    try {
+      await this.fileReport({
+        ...details,
+        contentType,
+        content: verdict.text,
+        source: verdict.source!,
+        categories: verdict.categories,
+      });
+    } catch (error) {
+      console.error(`Failed to queue flagged ${contentType} for review:`, error);
+    }
+  }
+
+  private static async fileReport(
+    report: Omit<ModerationReport, 'reportId' | 'status' | 'createdAt'>
+  ): Promise<ModerationReport> {
+    const item: ModerationReport = {
+      ...report,
+      reportId: uuidv4(),
+      status: 'open',
+      createdAt: new Date().toISOString(),
+    };
+    await dynamodb.send(new PutCommand({ TableName: MODERATION_TABLE, Item: item }));
+    return item;
+  }
+
+  /**
+   * A player reporting someone else's response. One report per reporter per
+   * response, so reporting again returns the first report.
+   */
+  static async reportResponse(
+    location: ResponseLocation,
+    content: string,
+    reportedBy: string,
+    reason?: string
+  ): Promise<ModerationReport> {
+    const { matchId, roundNumber, identity } = location;
+    const item: ModerationReport = {
+      ...location,
+      reportId: `${matchId}#${roundNumber}#${identity}#${reportedBy}`,
+      contentType: 'response',
+      content,
+      source: 'player_report',
+      categories: ['player_report'],
+      status: 'open',
+      reportedBy,
+      reason,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await dynamodb.send(new PutCommand({
+        TableName: MODERATION_TABLE,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(reportId)',
+      }));
+      return item;
+    } catch (error) {
+      if ((error as { name?: string }).name !== 'ConditionalCheckFailedException') throw error;
+      return (await this.getReport(item.reportId))!;
+    }
+  }
+
+  static async getReport(reportId: string): Promise<ModerationReport | null> {
+    const result = await dynamodb.send(new GetCommand({
+      TableName: MODERATION_TABLE,
+      Key: { reportId },
+    }));
+    return (result.Item as ModerationReport) || null;
+  }
+
+  // Newest first
+  static async listReports(status: ModerationReportStatus): Promise<ModerationReport[]> {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: MODERATION_TABLE,
+      IndexName: 'status-createdAt-index',
+      KeyConditionExpression: '#status = :status',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': status },
+      ScanIndexForward: false,
+      Limit: MAX_REPORTS_LISTED,
+    }));
+    return (result.Items || []) as ModerationReport[];
+  }
+
+  // Close an open report; null if there is no such report
+  static async resolveReport(
+    reportId: string,
+    status: Exclude<ModerationReportStatus, 'open'>
+  ): Promise<ModerationReport | null> {
+    const report = await this.getReport(reportId);
+    if (!report) return null;
+    if (report.status !== 'open') throw new ReportResolvedError(reportId);
+
+    const resolved: ModerationReport = { ...report, status, resolvedAt: new Date().toISOString() };
+    try {
+      await dynamodb.send(new PutCommand({
+        TableName: MODERATION_TABLE,
+        Item: resolved,
+        ConditionExpression: '#status = :open',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':open': 'open' },
+      }));
+    } catch (error) {
+      if ((error as { name?: string }).name === 'ConditionalCheckFailedException') throw new ReportResolvedError(reportId);
+      throw error;
+    }
+    return resolved;
+  }
+
+  // The model's verdict, or null when it couldn't give one; moderation then
+  // rests on the local filter rather than holding up play
+  private static async askModel(
+    contentType: ModeratedContent,
+    text: string
+  ): Promise<{ flagged: boolean; categories: string[] } | null> {
+    try {
+      const response = await lambdaClient.send(new InvokeCommand({
+        FunctionName: process.env.AI_SERVICE_FUNCTION_NAME || 'robot-orchestra-ai-service',
+        Payload: JSON.stringify({
+          httpMethod: 'POST',
+          path: '/ai/moderate',
+          body: JSON.stringify({ task: 'moderate', inputs: { text, contentType } }),
+        }),
+      }));
+      const payload = JSON.parse(new TextDecoder().decode(response.Payload!));
+      if (payload.statusCode !== 200) {
+        console.error('AI moderation failed:', payload);
+        return null;
+      }
+      return JSON.parse(payload.body).result;
+    } catch (error) {
+      console.error('Error calling AI moderation:', error);
+      return null;
+    }
+  }
+}
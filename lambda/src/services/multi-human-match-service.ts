@@ -1,19 +1,24 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+import { InvokeCommand } from '@aws-sdk/client-lambda';
 import { v4 as uuidv4 } from 'uuid';
 import { Match, Participant, Identity } from '../../shared/schemas/match.schema';
-import { MatchTemplateService, MatchTemplateType } from './match-template-service';
+import { MatchConfigOverride } from '../../shared/schemas/game.schema';
+import { InvalidMatchConfigError, MatchTemplateService, MatchTemplateType } from './match-template-service';
 import { UserService } from './user-service';
+import type { User } from '../../shared/schemas/user.schema';
+import { createLambdaClient } from '../utils/aws-clients';
+import { publishMatchEvents } from './realtime-publisher';
+import { appendMatchEvents } from './match-event-log';
+import { MatchRepository, MatchUpdate, getMatchRepository } from './match-repository';
+import { MatchLogEvent } from '../../shared/schemas/match-log.schema';
+import { PromptLibrary, chooseRoundPrompt } from './prompt-library';
 
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
-const lambdaClient = new LambdaClient({});
+const lambdaClient = createLambdaClient();
 
 export interface CreateMatchWithTemplateData {
   templateType: MatchTemplateType;
   creatorUserId: string;
   creatorName: string;
+  config?: MatchConfigOverride; // Private lobby settings; the template's otherwise
 }
 
 export interface JoinMatchData {
@@ -28,16 +33,33 @@ export interface JoinMatchResult {
   error?: string;
 }
 
+// What starting a match needs that may take a lookup or a model call, chosen
+// before the match update so a conflict retry doesn't repeat them
+interface MatchStart {
+  aiUsers: User[];
+  firstPrompt: string;
+}
+
 export class MultiHumanMatchService {
   constructor(
-    private matchesTableName: string,
+    private matches: MatchRepository,
     private userService: UserService
   ) {}
 
   async createMatchWithTemplate(data: CreateMatchWithTemplateData): Promise<Match> {
-    const template = MatchTemplateService.getTemplate(data.templateType);
-    if (!template) {
-      throw new Error(`Invalid template type: ${data.templateType}`);
+    const config = MatchTemplateService.resolveConfig(data.templateType, data.config);
+    if (config.personaIds?.length) {
+      const aiUsers = await this.userService.getAvailableAIUsers();
+      const unknown = config.personaIds.find((id) => !aiUsers.some((user) => user.userId === id));
+      if (unknown) {
+        throw new InvalidMatchConfigError(`Unknown persona: ${unknown}`);
+      }
+    }
+    if (config.promptPackId) {
+      const pack = await PromptLibrary.getPack(config.promptPackId);
+      if (!pack?.isActive) {
+        throw new InvalidMatchConfigError(`Unknown prompt pack: ${config.promptPackId}`);
+      }
     }
 
     const matchId = uuidv4();
@@ -53,15 +75,16 @@ export class MultiHumanMatchService {
       userId: data.creatorUserId,
       displayName: data.creatorName,
       isReady: true,
-      joinedAt: timestamp
+      joinedAt: timestamp,
+      lastSeen: timestamp,
     };
 
     const match: Match = {
       matchId,
-      status: template.requiredHumans > 1 ? 'waiting_for_players' : 'waiting',
+      status: config.requiredHumans > 1 ? 'waiting_for_players' : 'waiting',
       currentRound: 1,
-      totalRounds: 5,
-      totalParticipants: template.totalParticipants, // Add this field!
+      totalRounds: config.totalRounds,
+      totalParticipants: config.requiredHumans + config.requiredAI,
       participants: [creatorParticipant],
       rounds: [],
       createdAt: timestamp,
@@ -70,127 +93,153 @@ export class MultiHumanMatchService {
       inviteCode,
       inviteUrl: `/join/${inviteCode}`,
       waitingFor: {
-        humans: template.requiredHumans - 1,
-        ai: template.requiredAI
+        humans: config.requiredHumans - 1,
+        ai: config.requiredAI
       },
-      responseTimeLimit: template.responseTimeLimit || 45, // Default 45 seconds
+      responseTimeLimit: config.responseTimeLimit,
+      voteTimeLimit: config.voteTimeLimit,
+      config,
     };
 
     // If only 1 human required, start immediately
-    if (template.requiredHumans === 1) {
-      await this.startMatch(match);
+    if (config.requiredHumans === 1) {
+      this.startMatch(match, await this.prepareStart(match));
     }
 
-    await docClient.send(new PutCommand({
-      TableName: this.matchesTableName,
-      Item: {
-        ...match,
-        timestamp: 0  // Main match record has timestamp 0
-      }
-    }));
+    await this.matches.create(match);
+
+    await appendMatchEvents(matchId, [
+      {
+        type: 'match_created',
+        templateType: data.templateType,
+        participants: match.participants,
+        totalRounds: match.totalRounds,
+      },
+      ...this.firstRoundLog(match),
+    ]);
 
     return match;
   }
 
   async joinMatch(data: JoinMatchData): Promise<JoinMatchResult> {
     // Find match by invite code
-    const match = await this.findMatchByInviteCode(data.inviteCode);
-    if (!match) {
+    const found = await this.matches.findByInviteCode(data.inviteCode);
+    if (!found) {
       return { success: false, error: 'Invalid invite code' };
     }
 
-    if (match.status !== 'waiting_for_players') {
-      return { success: false, error: 'Match already started' };
-    }
-
-    const template = MatchTemplateService.getTemplate(match.templateType!);
-    if (!template) {
-      return { success: false, error: 'Invalid match template' };
-    }
+    // Two players taking the last seat at once must not both get it, so the
+    // join is checked and applied against the latest record. Taking the last
+    // seat starts the match, which first needs its robots and prompt.
+    let error: string | undefined;
+    let shouldStart = false;
+    let start: MatchStart | undefined;
+    let startingMatch: Match | undefined;
+    let update: MatchUpdate<Match> | null;
+    do {
+      if (startingMatch) start = await this.prepareStart(startingMatch);
+      startingMatch = undefined;
+      update = await this.matches.update(found.matchId, (match) => {
+        error = undefined;
+        if (match.status !== 'waiting_for_players') {
+          error = 'Match already started';
+          return false;
+        }
+
+        const template = MatchTemplateService.getTemplate(match.templateType!);
+        if (!template) {
+          error = 'Invalid match template';
+          return false;
+        }
+
+        // Check if user already in match
+        if (match.participants.some(p => p.userId === data.userId)) {
+          error = 'Already in match';
+          return false;
+        }
+
+        // Add new participant
+        const joinedAt = new Date().toISOString();
+        match.participants.push({
+          identity: 'B', // Will be reassigned when match starts
+          isAI: false,
+          playerName: data.displayName,
+          isConnected: true,
+          userId: data.userId,
+          displayName: data.displayName,
+          isReady: true,
+          joinedAt,
+          lastSeen: joinedAt,
+        });
+        match.waitingFor!.humans -= 1;
+        match.updatedAt = joinedAt;
+
+        // Check if all humans have joined; without a start ready, write
+        // nothing yet and come back with one
+        shouldStart = match.waitingFor!.humans === 0;
+        if (shouldStart) {
+          if (!start) {
+            startingMatch = match;
+            return false;
+          }
+          this.startMatch(match, start);
+        }
+        return true;
+      });
+    } while (startingMatch);
 
-    // Check if user already in match
-    if (match.participants.some(p => p.userId === data.userId)) {
-      return { success: false, error: 'Already in match' };
+    if (!update) {
+      return { success: false, error: 'Invalid invite code' };
     }
-
-    // Add new participant
-    const newParticipant: Participant = {
-      identity: 'B', // Will be reassigned when match starts
-      isAI: false,
-      playerName: data.displayName,
-      isConnected: true,
-      userId: data.userId,
-      displayName: data.displayName,
-      isReady: true,
-      joinedAt: new Date().toISOString()
-    };
-
-    match.participants.push(newParticipant);
-    match.waitingFor!.humans -= 1;
-
-    // Check if all humans have joined
-    const shouldStart = match.waitingFor!.humans === 0;
-    
-    if (shouldStart) {
-      await this.startMatch(match);
+    if (error) {
+      return { success: false, error };
     }
+    const match = update.match;
 
-    // Update match in database
-    const updateExpression = ['SET participants = :participants', '#status = :status', 'updatedAt = :updatedAt', 'rounds = :rounds'];
-    const expressionAttributeValues: any = {
-      ':participants': match.participants,
-      ':status': match.status,
-      ':updatedAt': new Date().toISOString(),
-      ':rounds': match.rounds || []
-    };
+    await appendMatchEvents(match.matchId, [
+      { type: 'participant_joined', playerName: data.displayName, userId: data.userId },
+      ...(shouldStart ? this.firstRoundLog(match) : []),
+    ]);
 
-    // Only include waitingFor if it's defined
-    if (match.waitingFor !== undefined) {
-      updateExpression.push('waitingFor = :waitingFor');
-      expressionAttributeValues[':waitingFor'] = match.waitingFor;
-    }
-
-    await docClient.send(new UpdateCommand({
-      TableName: this.matchesTableName,
-      Key: { 
-        matchId: match.matchId,
-        timestamp: 0  // Main match record has timestamp 0
-      },
-      UpdateExpression: updateExpression.join(', '),
-      ExpressionAttributeNames: {
-        '#status': 'status'
-      },
-      ExpressionAttributeValues: expressionAttributeValues
-    }));
+    // Lets the waiting room see the new player, or the first round if startMatch ran
+    await publishMatchEvents(match.matchId, [{ type: 'match_state_sync', match }]);
 
     return { success: true, match };
   }
 
+  // For a match that will never fill, such as a queued group that fell apart
+  async abandonMatch(matchId: string): Promise<void> {
+    await this.matches.delete(matchId);
+  }
+
   async getMatch(matchId: string): Promise<Match | null> {
-    const result = await docClient.send(new GetCommand({
-      TableName: this.matchesTableName,
-      Key: { 
-        matchId,
-        timestamp: 0  // Main match record has timestamp 0
-      }
-    }));
+    return this.matches.get(matchId);
+  }
 
-    if (result.Item) {
-      // Remove the timestamp field before returning
-      const { timestamp, ...match } = result.Item;
-      return match as Match;
-    }
-    
-    return null;
+  // Watch links carry the invite code, so spectators may name a match either way
+  async findMatchToWatch(matchIdOrInviteCode: string): Promise<Match | null> {
+    return (await this.matches.get(matchIdOrInviteCode))
+      || this.matches.findByInviteCode(matchIdOrInviteCode.toUpperCase());
   }
 
-  private async startMatch(match: Match): Promise<void> {
+  // Robots for the empty seats, the lobby's persona picks first, and the
+  // first prompt from the lobby's pack or the AI
+  private async prepareStart(match: Match): Promise<MatchStart> {
+    const template = MatchTemplateService.getTemplate(match.templateType!);
+    const aiUsers = await this.userService.getRandomAIUsers(
+      match.config?.requiredAI ?? template?.requiredAI ?? 0,
+      match.config?.personaIds
+    );
+    const firstPrompt = await chooseRoundPrompt(match, (theme) => this.generateAIPrompt(1, [], [], theme));
+    return { aiUsers, firstPrompt };
+  }
+
+  private startMatch(match: Match, start: MatchStart): void {
     const template = MatchTemplateService.getTemplate(match.templateType!);
     if (!template) return;
 
     // Add AI participants
-    const aiUsers = await this.userService.getRandomAIUsers(template.requiredAI);
-    for (const aiUser of aiUsers) {
+    for (const aiUser of start.aiUsers) {
       match.participants.push({
         identity: 'C', // Will be reassigned
         isAI: true,
@@ -220,11 +269,9 @@ export class MultiHumanMatchService {
     match.status = 'waiting';
     match.waitingFor = undefined;
 
-    // Create first round with AI-generated prompt
-    const firstPrompt = await this.generateAIPrompt(1);
     match.rounds = [{
       roundNumber: 1,
-      prompt: firstPrompt,
+      prompt: start.firstPrompt,
       responses: {},
       votes: {},
       scores: {},
@@ -234,6 +281,13 @@ export class MultiHumanMatchService {
     }];
   }
 
+  private firstRoundLog(match: Match): MatchLogEvent[] {
+    const firstRound = match.rounds[0];
+    return firstRound
+      ? [{ type: 'round_started', roundNumber: 1, prompt: firstRound.prompt }]
+      : [];
+  }
+
   private generateInviteCode(): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
     let code = '';
@@ -255,8 +309,9 @@ export class MultiHumanMatchService {
   private async generateAIPrompt(
     round: number,
     previousPrompts: string[] = [],
-    previousResponses: Record<string, string>[] = []
-  ): Promise<string> {
+    previousResponses: Record<string, string>[] = [],
+    theme?: string
+  ): Promise<string | null> {
     try {
       console.log("Generating AI prompt for round", round);
       const payload = {
@@ -269,6 +324,7 @@ export class MultiHumanMatchService {
             round,
             previousPrompts,
             responses: previousResponses,
+            theme,
           },
           options: {
             temperature: 0.9,
@@ -289,79 +345,49 @@ export class MultiHumanMatchService {
       
       if (responsePayload.statusCode === 200) {
         const body = JSON.parse(responsePayload.body);
-        return body.result.prompt;
+        return body.result.prompt || null;
       } else {
         console.error("AI prompt generation failed:", responsePayload);
-        // Fallback to default prompts
-        return this.getDefaultPromptForRound(round);
+        return null;
       }
     } catch (error) {
       console.error("Error generating AI prompt:", error);
-      return this.getDefaultPromptForRound(round);
+      return null;
     }
   }
-
-  private getDefaultPromptForRound(roundNumber: number): string {
-    const prompts = [
-      "What's the most interesting thing that happened to you this week?",
-      "If you could have dinner with any historical figure, who would it be and why?",
-      "What's a skill you wish you had but don't?",
-      "Describe your perfect weekend in just three sentences.",
-      "What's the strangest dream you remember having?"
-    ];
-    return prompts[roundNumber - 1] || prompts[0];
-  }
-
-  private async findMatchByInviteCode(inviteCode: string): Promise<Match | null> {
-    // Scan for matches with the given invite code
-    // In production, this should use a GSI for better performance
-    const result = await docClient.send(new ScanCommand({
-      TableName: this.matchesTableName,
-      FilterExpression: 'inviteCode = :inviteCode AND #ts = :timestamp',
-      ExpressionAttributeNames: {
-        '#ts': 'timestamp'
-      },
-      ExpressionAttributeValues: {
-        ':inviteCode': inviteCode,
-        ':timestamp': 0  // Main match records have timestamp 0
-      }
-    }));
-    
-    if (result.Items && result.Items.length > 0) {
-      // Remove the timestamp field before returning
-      const { timestamp, ...match } = result.Items[0];
-      return match as Match;
-    }
-    
-    return null;
-  }
 }
 
 // Export functions for testing
 export async function createMatchWithTemplate(data: CreateMatchWithTemplateData): Promise<Match> {
   const userService = new UserService(process.env.USERS_TABLE_NAME!);
-  const service = new MultiHumanMatchService(process.env.MATCHES_TABLE_NAME!, userService);
+  const service = new MultiHumanMatchService(getMatchRepository(), userService);
   return service.createMatchWithTemplate(data);
 }
 
 export async function joinMatch(data: JoinMatchData): Promise<JoinMatchResult> {
   const userService = new UserService(process.env.USERS_TABLE_NAME!);
-  const service = new MultiHumanMatchService(process.env.MATCHES_TABLE_NAME!, userService);
+  const service = new MultiHumanMatchService(getMatchRepository(), userService);
   return service.joinMatch(data);
 }
 
 export async function getMatch(matchId: string): Promise<Match | null> {
   const userService = new UserService(process.env.USERS_TABLE_NAME!);
-  const service = new MultiHumanMatchService(process.env.MATCHES_TABLE_NAME!, userService);
+  const service = new MultiHumanMatchService(getMatchRepository(), userService);
   return service.getMatch(matchId);
 }
 
+export async function findMatchToWatch(matchIdOrInviteCode: string): Promise<Match | null> {
+  const userService = new UserService(process.env.USERS_TABLE_NAME!);
+  const service = new MultiHumanMatchService(getMatchRepository(), userService);
+  return service.findMatchToWatch(matchIdOrInviteCode);
+}
+
 export async function createAndStartMatch(data: {
   templateType: MatchTemplateType;
   humanParticipants: Array<{ userId: string; displayName: string }>;
 }): Promise<Match> {
   const userService = new UserService(process.env.USERS_TABLE_NAME!);
-  const service = new MultiHumanMatchService(process.env.MATCHES_TABLE_NAME!, userService);
+  const service = new MultiHumanMatchService(getMatchRepository(), userService);
   
   // Create match with first human
   const match = await service.createMatchWithTemplate({
@@ -0,0 +1,207 @@
+import { GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreatePersonaRequest,
+  PersonaFields,
+  PersonaVersion,
+  UpdatePersonaRequest,
+  User,
+} from '../../shared/schemas/user.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+
+const dynamodb = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+const USERS_TABLE = process.env.USERS_TABLE_NAME || 'robot-orchestra-users';
+
+// Older versions are dropped once a persona has this many
+export const MAX_PERSONA_HISTORY = 20;
+
+const PERSONA_FIELDS: (keyof PersonaFields)[] = [
+  'displayName',
+  'personality',
+  'systemPrompt',
+  'styleNotes',
+  'voteStyle',
+  'maxResponseLength',
+  'modelConfig',
+];
+
+function pickPersonaFields(source: Partial<PersonaFields>): Partial<PersonaFields> {
+  return Object.fromEntries(
+    PERSONA_FIELDS.filter((field) => source[field] !== undefined).map((field) => [field, source[field]])
+  );
+}
+
+/**
+ * Admin authoring for AI personas. A persona is an AI user record; edits bump
+ * personaVersion and keep the replaced fields in personaHistory.
+ */
+export class PersonaService {
+  /**
+   * List every AI persona, disabled ones included
+   */
+  static async listPersonas(): Promise<User[]> {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: USERS_TABLE,
+      IndexName: 'userType-index',
+      KeyConditionExpression: 'userType = :userType',
+      ExpressionAttributeValues: {
+        ':userType': 'ai',
+      },
+    }));
+
+    const personas = (result.Items || []) as User[];
+    return personas.sort((a, b) => a.displayName.localeCompare(b.displayName));
+  }
+
+  /**
+   * Get one persona, or null if the user doesn't exist or isn't an AI
+   */
+  static async getPersona(userId: string): Promise<User | null> {
+    const result = await dynamodb.send(new GetCommand({
+      TableName: USERS_TABLE,
+      Key: { userId },
+    }));
+
+    const user = result.Item as User | undefined;
+    return user && user.userType === 'ai' ? user : null;
+  }
+
+  /**
+   * Create a persona at version 1
+   */
+  static async createPersona(data: CreatePersonaRequest, isActive = true): Promise<User> {
+    const now = new Date().toISOString();
+    const persona: User = {
+      ...(pickPersonaFields(data) as PersonaFields),
+      userId: uuidv4(),
+      userType: 'ai',
+      isActive,
+      isAdmin: false,
+      personaVersion: 1,
+      personaHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await dynamodb.send(new PutCommand({
+      TableName: USERS_TABLE,
+      Item: persona,
+      ConditionExpression: 'attribute_not_exists(userId)',
+    }));
+
+    return persona;
+  }
+
+  /**
+   * Save an edit as a new version. With expectedVersion, the edit fails with
+   * ConditionalCheckFailedException if someone else saved in between.
+   */
+  static async updatePersona(userId: string, updates: UpdatePersonaRequest): Promise<User | null> {
+    const current = await this.getPersona(userId);
+    if (!current) return null;
+
+    const currentVersion = current.personaVersion || 1;
+    const snapshot: PersonaVersion = {
+      ...(pickPersonaFields(current) as PersonaFields),
+      version: currentVersion,
+      savedAt: current.updatedAt,
+    };
+    const history = [...(current.personaHistory || []), snapshot].slice(-MAX_PERSONA_HISTORY);
+    const changes = pickPersonaFields(updates);
+    const now = new Date().toISOString();
+
+    const setExpressions = [
+      'personaVersion = :nextVersion',
+      'personaHistory = :history',
+      'updatedAt = :updatedAt',
+    ];
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {
+      ':nextVersion': currentVersion + 1,
+      ':history': history,
+      ':updatedAt': now,
+    };
+    Object.entries(changes).forEach(([field, value]) => {
+      setExpressions.push(`#${field} = :${field}`);
+      names[`#${field}`] = field;
+      values[`:${field}`] = value;
+    });
+
+    // Records created before versioning have no personaVersion yet
+    let versionCondition = 'attribute_not_exists(personaVersion)';
+    if (current.personaVersion) {
+      versionCondition = 'personaVersion = :expectedVersion';
+      values[':expectedVersion'] = updates.expectedVersion ?? currentVersion;
+    }
+
+    const result = await dynamodb.send(new UpdateCommand({
+      TableName: USERS_TABLE,
+      Key: { userId },
+      UpdateExpression: `SET ${setExpressions.join(', ')}`,
+      ConditionExpression: versionCondition,
+      ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+      ExpressionAttributeValues: values,
+      ReturnValues: 'ALL_NEW',
+    }));
+
+    return result.Attributes as User;
+  }
+
+  /**
+   * Restore an earlier version's fields. The restore is itself a new version.
+   */
+  static async restoreVersion(userId: string, version: number): Promise<User | null> {
+    const current = await this.getPersona(userId);
+    const snapshot = current?.personaHistory?.find((v) => v.version === version);
+    if (!current || !snapshot) return null;
+
+    return this.updatePersona(userId, {
+      ...pickPersonaFields(snapshot),
+      expectedVersion: current.personaVersion || 1,
+    });
+  }
+
+  /**
+   * Enable or disable a persona. Disabled personas aren't picked for new
+   * matches; robots already in a match keep playing them.
+   */
+  static async setActive(userId: string, isActive: boolean): Promise<User | null> {
+    const current = await this.getPersona(userId);
+    if (!current) return null;
+
+    const result = await dynamodb.send(new UpdateCommand({
+      TableName: USERS_TABLE,
+      Key: { userId },
+      UpdateExpression: 'SET isActive = :isActive, updatedAt = :updatedAt',
+      ExpressionAttributeValues: {
+        ':isActive': isActive,
+        ':updatedAt': new Date().toISOString(),
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+
+    return result.Attributes as User;
+  }
+
+  /**
+   * Copy a persona's current fields into a new persona. Clones start
+   * disabled so they can be tuned before they join matches.
+   */
+  static async clonePersona(userId: string, displayName?: string): Promise<User | null> {
+    const source = await this.getPersona(userId);
+    if (!source) return null;
+
+    return this.createPersona(
+      {
+        ...(pickPersonaFields(source) as PersonaFields),
+        displayName: displayName || `${source.displayName} (copy)`,
+      },
+      false
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import type { User } from '../../shared/schemas/user.schema';
+
+// A robot's persona: everything it needs from its AI user record to answer
+// prompts and vote. New personas are new user records, not new code.
+export interface Persona {
+  userId?: string;
+  name: string;
+  personality: string;
+  systemPrompt: string;
+  styleNotes?: string;
+  voteStyle: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  maxResponseLength: number; // characters
+}
+
+const RESPONSE_RULES = `Use standard punctuation only - periods and commas.
+
+Respond directly without conversational fluff. No opening acknowledgments, compliments, or phrases like 'great question,' 'I'd be happy to,' or 'what an interesting.' Start immediately with your answer.`;
+
+// The original Rocket League bot personalities. AI users seeded before
+// personas carried their own prompts fall back to these by personality.
+export const BUILT_IN_PERSONALITIES: Record<string, { systemPrompt: string; voteStyle: string }> = {
+  sundown: {
+    systemPrompt: `You are Sundown, a confident and aggressive competitor. You play to win and aren't afraid to take risks. You see challenges as opportunities to prove yourself and approach everything with determination. You speak directly and with conviction. ${RESPONSE_RULES}`,
+    voteStyle: 'You trust your gut. Humans hesitate, ramble or show real feeling, so you suspect the answers with the most raw emotion.',
+  },
+  bandit: {
+    systemPrompt: `You are Bandit, sneaky and unpredictable. You enjoy keeping others guessing and often approach things from unexpected angles. You're clever and quick-thinking, always looking for the unconventional solution. Your responses are playful yet strategic. ${RESPONSE_RULES}`,
+    voteStyle: 'You are a contrarian. Polished, clever answers are usually bots trying too hard, so you suspect the plain, slightly awkward ones.',
+  },
+  maverick: {
+    systemPrompt: `You are Maverick, bold and daring. You push boundaries and aren't afraid to go against the grain. You have a rebellious streak but it comes from confidence, not recklessness. You speak with flair and aren't afraid to be different. ${RESPONSE_RULES}`,
+    voteStyle: 'You read form before content. Typos, lowercase, missing punctuation and slang give humans away.',
+  },
+};
+
+export const DEFAULT_PERSONALITY = 'sundown';
+
+export const DEFAULT_PERSONA_SETTINGS = {
+  model: 'claude-3-haiku', // Fast model for real-time play
+  temperature: 0.85,
+  maxTokens: 150,
+  maxResponseLength: 150,
+};
+
+export function builtInPersona(personality: string, name?: string): Persona {
+  const key = BUILT_IN_PERSONALITIES[personality] ? personality : DEFAULT_PERSONALITY;
+  return {
+    name: name || key.charAt(0).toUpperCase() + key.slice(1),
+    personality: key,
+    ...BUILT_IN_PERSONALITIES[key],
+    ...DEFAULT_PERSONA_SETTINGS,
+  };
+}
+
+// Fields the record leaves out come from its personality, then the defaults
+export function personaFromUser(user: User): Persona {
+  const base = builtInPersona(user.personality || DEFAULT_PERSONALITY, user.displayName);
+  return {
+    ...base,
+    userId: user.userId,
+    personality: user.personality || base.personality,
+    systemPrompt: user.systemPrompt || base.systemPrompt,
+    styleNotes: user.styleNotes || undefined,
+    voteStyle: user.voteStyle || base.voteStyle,
+    model: user.modelConfig?.model || base.model,
+    temperature: user.modelConfig?.temperature ?? base.temperature,
+    maxTokens: user.modelConfig?.maxTokens ?? base.maxTokens,
+    maxResponseLength: user.maxResponseLength ?? base.maxResponseLength,
+  };
+}
+
+// Robots in matches created before they were bound to AI users cycle
+// through the built-in personalities by their position among the robots
+export function legacyPersonality(robotId: string, robotIds: string[]): string {
+  const personalities = Object.keys(BUILT_IN_PERSONALITIES);
+  const index = Math.max(robotIds.indexOf(robotId), 0);
+  return personalities[index % personalities.length];
+}
@@ -0,0 +1,177 @@
+import { createHmac, createPublicKey, createVerify, JsonWebKey, KeyObject, timingSafeEqual } from 'crypto';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+// Who is calling match-service. Signed-in players present their Cognito ID
+// token; guests present the per-match token handed out when they created or
+// joined the match. Either way the server works out the acting seat from the
+// caller's userId and never from the request body.
+
+export interface PlayerCaller {
+  userId: string;
+  matchId?: string; // Guest tokens only count in the match they were issued for
+  groups?: string[]; // Cognito groups, from signed-in tokens only
+}
+
+// The Cognito group whose members may use the admin routes
+const ADMIN_GROUP = process.env.COGNITO_ADMIN_GROUP || 'admins';
+
+interface GuestTokenPayload {
+  matchId: string;
+  userId: string;
+  iat: number;
+}
+
+interface CognitoJwk extends JsonWebKey {
+  kid: string;
+}
+
+const jwksCache = new Map<string, KeyObject>();
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function guestTokenSecret(): string {
+  const secret = process.env.PLAYER_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('PLAYER_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', guestTokenSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * A token that lets a guest act for their own seat in one match
+ */
+export function issueGuestToken(matchId: string, userId: string): string {
+  const payload: GuestTokenPayload = { matchId, userId, iat: Math.floor(Date.now() / 1000) };
+  const encoded = base64url(JSON.stringify(payload));
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function verifyGuestToken(token: string): PlayerCaller | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  try {
+    const expected = Buffer.from(sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as GuestTokenPayload;
+    return payload.matchId && payload.userId ? { userId: payload.userId, matchId: payload.matchId } : null;
+  } catch (error) {
+    console.error('Failed to verify guest token:', error);
+    return null;
+  }
+}
+
+function cognitoIssuer(): string | null {
+  const poolId = process.env.COGNITO_USER_POOL_ID;
+  if (!poolId) return null;
+  const region = process.env.AWS_REGION || poolId.split('_')[0];
+  return `https://cognito-idp.${region}.amazonaws.com/${poolId}`;
+}
+
+async function cognitoKey(issuer: string, kid: string): Promise<KeyObject | undefined> {
+  if (!jwksCache.has(kid)) {
+    // Keys rotate rarely, so an unknown kid is the only reason to refetch
+    const response = await fetch(`${issuer}/.well-known/jwks.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Cognito keys: ${response.status}`);
+    }
+    const { keys } = (await response.json()) as { keys: CognitoJwk[] };
+    for (const jwk of keys) {
+      jwksCache.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+  return jwksCache.get(kid);
+}
+
+async function verifyCognitoToken(token: string): Promise<PlayerCaller | null> {
+  const issuer = cognitoIssuer();
+  if (!issuer) return null;
+
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  try {
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+    if (header.alg !== 'RS256' || !header.kid) return null;
+
+    const key = await cognitoKey(issuer, header.kid);
+    if (!key) return null;
+
+    const verified = createVerify('RSA-SHA256')
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .verify(key, Buffer.from(signature, 'base64url'));
+    if (!verified) return null;
+
+    const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    const clientId = process.env.COGNITO_CLIENT_ID;
+    if (
+      claims.iss !== issuer ||
+      claims.token_use !== 'id' ||
+      (clientId && claims.aud !== clientId) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp * 1000 <= Date.now() ||
+      !claims.sub
+    ) {
+      return null;
+    }
+    const groups = claims['cognito:groups'];
+    return { userId: claims.sub, groups: Array.isArray(groups) ? groups : undefined };
+  } catch (error) {
+    console.error('Failed to verify Cognito token:', error);
+    return null;
+  }
+}
+
+/**
+ * The caller behind a bearer token, or null when the token is missing or
+ * doesn't verify. The local runtime (LOCAL_AUTH=true) also accepts the
+ * `local.<userId>` tokens issued by the frontend's local auth stand-in.
+ */
+export async function authenticateToken(token?: string | null): Promise<PlayerCaller | null> {
+  if (!token) return null;
+
+  if (process.env.LOCAL_AUTH === 'true' && token.startsWith('local.')) {
+    const userId = token.slice('local.'.length);
+    return userId ? { userId } : null;
+  }
+
+  switch (token.split('.').length) {
+    case 2:
+      return verifyGuestToken(token);
+    case 3:
+      return verifyCognitoToken(token);
+    default:
+      return null;
+  }
+}
+
+// Bearer token from the Authorization header, or ?token= where headers can't
+// be set (browser WebSockets)
+export function requestToken(event: APIGatewayProxyEvent): string | undefined {
+  const header = event.headers?.Authorization || event.headers?.authorization;
+  const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return bearer || event.queryStringParameters?.token || undefined;
+}
+
+export async function authenticateRequest(event: APIGatewayProxyEvent): Promise<PlayerCaller | null> {
+  return authenticateToken(requestToken(event));
+}
+
+// The caller's userId as far as one match is concerned
+export function callerUserIdFor(caller: PlayerCaller | null, matchId: string): string | undefined {
+  if (!caller || (caller.matchId && caller.matchId !== matchId)) return undefined;
+  return caller.userId;
+}
+
+// Whether a signed-in caller's verified token puts them in the admin group
+export function inAdminGroup(caller: PlayerCaller | null): boolean {
+  return !!caller && !caller.matchId && !!caller.groups?.includes(ADMIN_GROUP);
+}
@@ -0,0 +1,194 @@
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { Identity, Match, MatchTemplateType } from '../../shared/schemas/match.schema';
+import type { MatchLogEntry } from '../../shared/schemas/match-log.schema';
+import {
+  CareerStats,
+  MatchStatsEntry,
+  StatsTotals,
+} from '../../shared/schemas/player-stats.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+
+const dynamodb = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+const PLAYER_STATS_TABLE = process.env.PLAYER_STATS_TABLE_NAME || 'robot-orchestra-player-stats';
+
+// Matches kept for trends; also how far back a repeated completion is caught
+export const RECENT_MATCHES_KEPT = 20;
+
+const MAX_WRITE_ATTEMPTS = 3;
+
+const COUNTERS = [
+  'gamesPlayed',
+  'wins',
+  'totalScore',
+  'votesCast',
+  'correctVotes',
+  'votesFaced',
+  'timesVotedAsHuman',
+  'deceptionPoints',
+  'responsesTimed',
+  'totalResponseMs',
+] as const;
+
+type Counters = Pick<StatsTotals, typeof COUNTERS[number]>;
+
+function withRates(counters: Counters): StatsTotals {
+  return {
+    ...counters,
+    voteAccuracy: counters.votesCast > 0 ? counters.correctVotes / counters.votesCast : undefined,
+    deceptionRate: counters.votesFaced > 0
+      ? 1 - counters.timesVotedAsHuman / counters.votesFaced
+      : undefined,
+    averageResponseTime: counters.responsesTimed > 0
+      ? Math.round(counters.totalResponseMs / counters.responsesTimed)
+      : undefined,
+  };
+}
+
+export function addTotals(a: StatsTotals | undefined, b: StatsTotals): StatsTotals {
+  const sum = Object.fromEntries(
+    COUNTERS.map((counter) => [counter, (a?.[counter] || 0) + b[counter]])
+  ) as Counters;
+  return withRates(sum);
+}
+
+// Where a player with no completed matches starts
+export function emptyStats(userId: string): CareerStats {
+  const zero = Object.fromEntries(COUNTERS.map((counter) => [counter, 0])) as Counters;
+  return {
+    ...withRates(zero),
+    userId,
+    byTemplate: {},
+    recentMatches: [],
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+// How long each of a seat's answers took, from round start to the logged submission
+function responseTimes(match: Match, identity: Identity, log: MatchLogEntry[]): number[] {
+  return log.flatMap((entry) => {
+    if (entry.type !== 'response_submitted' || entry.identity !== identity || entry.expired) return [];
+    const startTime = match.rounds.find((r) => r.roundNumber === entry.roundNumber)?.startTime;
+    const elapsed = startTime ? entry.timestamp - new Date(startTime).getTime() : -1;
+    return elapsed >= 0 ? [elapsed] : [];
+  });
+}
+
+/**
+ * One seat's part in a completed match, as totals for a single game. Builds on
+ * the match result's per-seat stats and counts what those leave out.
+ */
+export function matchTotals(match: Match, identity: Identity, log: MatchLogEntry[]): StatsTotals {
+  const seatStats = match.result?.playerStats.find((s) => s.identity === identity);
+  const rounds = match.rounds.filter((r) => r.status === 'complete');
+  const times = responseTimes(match, identity, log);
+
+  return withRates({
+    gamesPlayed: 1,
+    wins: match.result?.winner === identity ? 1 : 0,
+    totalScore: seatStats?.totalScore || 0,
+    votesCast: rounds.reduce(
+      (count, r) => count + (r.scoring?.voteResults.filter((v) => v.voter === identity).length || 0),
+      0
+    ),
+    correctVotes: seatStats?.correctVotes || 0,
+    votesFaced: rounds.reduce(
+      (count, r) => count + Object.keys(r.votes || {}).filter((voter) => voter !== identity).length,
+      0
+    ),
+    timesVotedAsHuman: seatStats?.timesVotedAsHuman || 0,
+    deceptionPoints: seatStats?.deceptionPoints || 0,
+    responsesTimed: times.length,
+    totalResponseMs: times.reduce((sum, ms) => sum + ms, 0),
+  });
+}
+
+/**
+ * Fold one match into a player's career stats, or null if it was already
+ * counted
+ */
+export function foldMatch(
+  current: CareerStats | null,
+  userId: string,
+  match: Match,
+  totals: StatsTotals
+): CareerStats | null {
+  if (current?.recentMatches.some((m) => m.matchId === match.matchId)) return null;
+
+  const templateType: MatchTemplateType = match.templateType || 'classic_1v3';
+  const completedAt = match.completedAt || match.updatedAt;
+  const entry: MatchStatsEntry = {
+    matchId: match.matchId,
+    templateType,
+    completedAt,
+    won: totals.wins > 0,
+    score: totals.totalScore,
+    voteAccuracy: totals.voteAccuracy,
+    deceptionRate: totals.deceptionRate,
+    averageResponseTime: totals.averageResponseTime,
+  };
+
+  return {
+    ...addTotals(current || undefined, totals),
+    userId,
+    byTemplate: {
+      ...current?.byTemplate,
+      [templateType]: addTotals(current?.byTemplate[templateType], totals),
+    },
+    recentMatches: [entry, ...(current?.recentMatches || [])].slice(0, RECENT_MATCHES_KEPT),
+    updatedAt: completedAt,
+  };
+}
+
+/**
+ * Career statistics per human player, one item per userId. Each item is
+ * rewritten as the player's matches complete rather than recomputed from
+ * their history.
+ */
+export class PlayerStatsService {
+  static async getStats(userId: string): Promise<CareerStats | null> {
+    const result = await dynamodb.send(new GetCommand({
+      TableName: PLAYER_STATS_TABLE,
+      Key: { userId },
+    }));
+    return (result.Item as CareerStats) || null;
+  }
+
+  /**
+   * Count a completed match for each human who finished it. A seat an AI
+   * persona took over counts for nobody; `log` supplies response timings.
+   */
+  static async recordCompletedMatch(match: Match, log: MatchLogEntry[]): Promise<void> {
+    for (const seat of match.participants) {
+      if (seat.isAI || !seat.userId) continue;
+      await this.addMatch(seat.userId, match, matchTotals(match, seat.identity, log));
+    }
+  }
+
+  // gamesPlayed goes up with every write, so it doubles as the item's version
+  private static async addMatch(userId: string, match: Match, totals: StatsTotals): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const current = await this.getStats(userId);
+      const next = foldMatch(current, userId, match, totals);
+      if (!next) return;
+
+      try {
+        await dynamodb.send(new PutCommand({
+          TableName: PLAYER_STATS_TABLE,
+          Item: next,
+          ConditionExpression: current ? 'gamesPlayed = :gamesPlayed' : 'attribute_not_exists(userId)',
+          ...(current && { ExpressionAttributeValues: { ':gamesPlayed': current.gamesPlayed } }),
+        }));
+        return;
+      } catch (error) {
+        if ((error as { name?: string }).name !== 'ConditionalCheckFailedException' || attempt === MAX_WRITE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,46 @@
+// Heartbeat-based presence for human seats. Clients check in every
+// HEARTBEAT_INTERVAL_SECONDS while a match is open; the scheduled sweep marks
+// seats that went quiet as disconnected and, where the template allows,
+// hands them to an AI persona so the match can finish.
+
+import type { Presence } from '../../shared/schemas/match.schema';
+import { Clock, systemClock } from './round-deadlines';
+
+export const HEARTBEAT_INTERVAL_SECONDS = 15;
+
+// Two missed heartbeats make a player away; four make them disconnected
+export const AWAY_AFTER_SECONDS = 2 * HEARTBEAT_INTERVAL_SECONDS;
+export const DISCONNECT_AFTER_SECONDS = 4 * HEARTBEAT_INTERVAL_SECONDS;
+
+export interface PresenceSeat {
+  isAI?: boolean;
+  isConnected: boolean;
+  lastSeen?: string;
+}
+
+function secondsSince(isoTime: string, clock: Clock): number {
+  return (clock.now().getTime() - new Date(isoTime).getTime()) / 1000;
+}
+
+// Seats stored before heartbeats existed keep whatever isConnected says
+export function presenceOf(seat: PresenceSeat, clock: Clock = systemClock): Presence {
+  if (seat.isAI) return 'online';
+  if (!seat.lastSeen) return seat.isConnected ? 'online' : 'offline';
+
+  const quiet = secondsSince(seat.lastSeen, clock);
+  if (quiet > DISCONNECT_AFTER_SECONDS) return 'offline';
+  return quiet > AWAY_AFTER_SECONDS ? 'away' : 'online';
+}
+
+/**
+ * Whether the template's policy hands this seat to an AI persona now. Unset
+ * `substituteAfterSeconds` means the template never substitutes.
+ */
+export function isDueForSubstitution(
+  seat: PresenceSeat,
+  substituteAfterSeconds: number | undefined,
+  clock: Clock = systemClock
+): boolean {
+  if (seat.isAI || !seat.lastSeen || substituteAfterSeconds === undefined) return false;
+  return secondsSince(seat.lastSeen, clock) > substituteAfterSeconds;
+}
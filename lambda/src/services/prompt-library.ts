@@ -0,0 +1,228 @@
+import { DeleteCommand, GetCommand, PutCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreatePromptPackRequest,
+  PromptPack,
+  PromptPackSummary,
+  UpdatePromptPackRequest,
+} from '../../shared/schemas/prompt-pack.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+import { getMatchRepository } from './match-repository';
+
+const dynamodb = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+const PROMPT_PACKS_TABLE = process.env.PROMPT_PACKS_TABLE_NAME || 'robot-orchestra-prompt-packs';
+
+// Prompts a player met in this many of their latest matches aren't drawn again
+export const RECENT_MATCHES_CHECKED = 10;
+
+// Drawn from when a match has no pack, or its pack and the AI both come up empty
+export const BUILT_IN_PROMPT_PACK: PromptPack = {
+  packId: 'classic',
+  name: 'Classic',
+  description: 'Open-ended everyday questions',
+  tags: ['everyday'],
+  difficulty: 'easy',
+  locale: 'en',
+  prompts: [
+    "What's the most interesting thing that happened to you this week?",
+    'If you could have dinner with any historical figure, who would it be and why?',
+    "What's a skill you wish you had but don't?",
+    'Describe your perfect weekend in just three sentences.',
+    "What's the strangest dream you remember having?",
+    "What's a simple pleasure that brings you unexpected joy?",
+    'What smell instantly takes you back to childhood?',
+    'What would you do with an extra hour every day?',
+    "What's the best advice you've ignored?",
+    'Describe the view from a window you know well.',
+  ],
+  isActive: true,
+  isBuiltIn: true,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+export class BuiltInPackError extends Error {
+  constructor() {
+    super('Built-in prompt packs are read-only');
+    this.name = 'BuiltInPackError';
+  }
+}
+
+// The parts of a match that prompt selection looks at
+export interface PromptedMatch {
+  matchId: string;
+  config?: { promptPackId?: string };
+  participants: { userId?: string; isAI?: boolean }[];
+  rounds: { prompt: string }[];
+}
+
+export function summarizePack({ prompts, ...pack }: PromptPack): PromptPackSummary {
+  return { ...pack, promptCount: prompts.length };
+}
+
+/**
+ * Admin-authored prompt packs, stored one item per pack, plus the built-in
+ * pack that every deployment has.
+ */
+export class PromptLibrary {
+  /**
+   * Every pack, the built-in one first and the rest by name
+   */
+  static async listPacks(): Promise<PromptPack[]> {
+    const packs: PromptPack[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await dynamodb.send(new ScanCommand({
+        TableName: PROMPT_PACKS_TABLE,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      packs.push(...((result.Items || []) as PromptPack[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return [BUILT_IN_PROMPT_PACK, ...packs.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  static async getPack(packId: string): Promise<PromptPack | null> {
+    if (packId === BUILT_IN_PROMPT_PACK.packId) return BUILT_IN_PROMPT_PACK;
+
+    const result = await dynamodb.send(new GetCommand({
+      TableName: PROMPT_PACKS_TABLE,
+      Key: { packId },
+    }));
+    return (result.Item as PromptPack) || null;
+  }
+
+  static async createPack(data: CreatePromptPackRequest): Promise<PromptPack> {
+    const now = new Date().toISOString();
+    const pack: PromptPack = {
+      packId: uuidv4(),
+      name: data.name,
+      description: data.description,
+      theme: data.theme,
+      tags: data.tags || [],
+      difficulty: data.difficulty || 'medium',
+      locale: data.locale || 'en',
+      prompts: data.prompts || [],
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await dynamodb.send(new PutCommand({
+      TableName: PROMPT_PACKS_TABLE,
+      Item: pack,
+      ConditionExpression: 'attribute_not_exists(packId)',
+    }));
+    return pack;
+  }
+
+  /**
+   * Apply an edit, or null if there is no such pack. Matches already playing
+   * a pack draw from its latest prompts.
+   */
+  static async updatePack(packId: string, updates: UpdatePromptPackRequest): Promise<PromptPack | null> {
+    if (packId === BUILT_IN_PROMPT_PACK.packId) throw new BuiltInPackError();
+
+    const setExpressions = ['updatedAt = :updatedAt'];
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = { ':updatedAt': new Date().toISOString() };
+    Object.entries(updates).forEach(([field, value]) => {
+      if (value === undefined) return;
+      setExpressions.push(`#${field} = :${field}`);
+      names[`#${field}`] = field;
+      values[`:${field}`] = value;
+    });
+
+    try {
+      const result = await dynamodb.send(new UpdateCommand({
+        TableName: PROMPT_PACKS_TABLE,
+        Key: { packId },
+        UpdateExpression: `SET ${setExpressions.join(', ')}`,
+        ConditionExpression: 'attribute_exists(packId)',
+        ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+        ExpressionAttributeValues: values,
+        ReturnValues: 'ALL_NEW',
+      }));
+      return result.Attributes as PromptPack;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return null;
+      throw error;
+    }
+  }
+
+  // False if there was no such pack
+  static async deletePack(packId: string): Promise<boolean> {
+    if (packId === BUILT_IN_PROMPT_PACK.packId) throw new BuiltInPackError();
+
+    const result = await dynamodb.send(new DeleteCommand({
+      TableName: PROMPT_PACKS_TABLE,
+      Key: { packId },
+      ReturnValues: 'ALL_OLD',
+    }));
+    return !!result.Attributes;
+  }
+
+  /**
+   * Prompts these players met in their latest matches, read from their match
+   * history rather than stored separately
+   */
+  static async recentPrompts(userIds: string[], excludeMatchId?: string): Promise<Set<string>> {
+    const seen = new Set<string>();
+    const matches = getMatchRepository();
+    for (const userId of userIds) {
+      const { matches: recent } = await matches.listByUser(userId, { limit: RECENT_MATCHES_CHECKED });
+      recent
+        .filter((match) => match.matchId !== excludeMatchId)
+        .forEach((match) => match.rounds.forEach((round) => seen.add(round.prompt)));
+    }
+    return seen;
+  }
+
+  // A random prompt from the pack that isn't in `seen`, if any are left
+  static drawPrompt(pack: PromptPack, seen: Set<string>): string | undefined {
+    const fresh = pack.prompts.filter((prompt) => !seen.has(prompt));
+    return fresh[Math.floor(Math.random() * fresh.length)];
+  }
+}
+
+/**
+ * The prompt for a match's next round. The match's pack is drawn from first,
+ * skipping prompts its players have seen; then `generate` asks the AI, seeded
+ * with the pack's theme; if that fails too, the built-in pack fills in.
+ */
+export async function chooseRoundPrompt(
+  match: PromptedMatch,
+  generate: (theme?: string) => Promise<string | null>
+): Promise<string> {
+  const seen = new Set(match.rounds.map((round) => round.prompt));
+  let pack: PromptPack | null = null;
+  try {
+    const packId = match.config?.promptPackId;
+    pack = packId ? await PromptLibrary.getPack(packId) : null;
+
+    const humans = match.participants
+      .filter((p) => !p.isAI && p.userId)
+      .map((p) => p.userId!);
+    const recent = await PromptLibrary.recentPrompts(humans, match.matchId);
+    recent.forEach((prompt) => seen.add(prompt));
+  } catch (error) {
+    console.error(`Failed to load prompt history for match ${match.matchId}:`, error);
+  }
+
+  const drawn = pack && PromptLibrary.drawPrompt(pack, seen);
+  if (drawn) return drawn;
+
+  const generated = await generate(pack?.theme);
+  if (generated) return generated;
+
+  // Everyone has seen every built-in prompt: repeat one rather than stall
+  return PromptLibrary.drawPrompt(BUILT_IN_PROMPT_PACK, seen)
+    ?? PromptLibrary.drawPrompt(BUILT_IN_PROMPT_PACK, new Set())!;
+}
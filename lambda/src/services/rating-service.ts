@@ -0,0 +1,223 @@
+import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { getVotePicks } from '../../shared/schemas/match.schema';
+import type { Identity, Match, MatchTemplateType } from '../../shared/schemas/match.schema';
+import type { PlayerRating, RatingKind, Season } from '../../shared/schemas/rating.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+
+const dynamodb = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+const RATINGS_TABLE = process.env.RATINGS_TABLE_NAME || 'robot-orchestra-ratings';
+
+export const INITIAL_RATING = 1000;
+
+// Per vote, and a match holds dozens of votes, so this stays small
+export const RATING_K_FACTOR = 8;
+
+// Players below this many rated matches are shown as provisional
+export const PROVISIONAL_MATCHES = 3;
+
+// Robots are unrated; their votes count as coming from an average player
+const ROBOT_DETECTION_RATING = INITIAL_RATING;
+
+const MAX_WRITE_ATTEMPTS = 3;
+
+// How far back a repeated completion of the same match is caught
+export const RECENT_MATCHES_RATED = 20;
+
+const OVERALL_BOARD = 'all';
+
+/**
+ * One player's ratings on one board, keyed by userId and board. A board is a
+ * season plus a template type, or the season's overall board.
+ */
+interface RatingRecord {
+  userId: string;
+  board: string; // `${season}#${templateType or 'all'}`
+  season: Season;
+  templateType?: MatchTemplateType;
+  displayName: string;
+  detectionRating: number;
+  disguiseRating: number;
+  matchesRated: number;
+  recentMatchIds?: string[]; // Newest first
+  updatedAt: string;
+}
+
+interface SeatRatings {
+  detection: number;
+  disguise: number;
+}
+
+export function seasonOf(isoTime: string): Season {
+  const date = new Date(isoTime);
+  return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+}
+
+export function boardKey(season: Season, templateType?: MatchTemplateType): string {
+  return `${season}#${templateType || OVERALL_BOARD}`;
+}
+
+function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+/**
+ * How a completed match moves each human seat's ratings, from the ratings
+ * they brought to it. Every vote is a game: the voter's detection against
+ * each other human's disguise, won by the voter if they picked that human.
+ * Humans get no detection games in matches without another human to find.
+ */
+export function ratingChanges(
+  match: Pick<Match, 'participants' | 'rounds'>,
+  before: Map<Identity, SeatRatings>
+): Map<Identity, SeatRatings> {
+  const humans = match.participants.filter((p) => !p.isAI).map((p) => p.identity);
+  const changes = new Map<Identity, SeatRatings>(
+    humans.map((identity) => [identity, { detection: 0, disguise: 0 }])
+  );
+  const ratingOf = (identity: Identity) =>
+    before.get(identity) || { detection: INITIAL_RATING, disguise: INITIAL_RATING };
+
+  for (const round of match.rounds.filter((r) => r.status === 'complete')) {
+    for (const [key, vote] of Object.entries(round.votes || {})) {
+      const voter = key as Identity;
+      const picks = getVotePicks(vote);
+      const voterIsHuman = changes.has(voter);
+      const voterDetection = voterIsHuman ? ratingOf(voter).detection : ROBOT_DETECTION_RATING;
+
+      for (const human of humans.filter((identity) => identity !== voter)) {
+        const spotted = picks.includes(human) ? 1 : 0;
+        const disguise = ratingOf(human).disguise;
+
+        changes.get(human)!.disguise +=
+          RATING_K_FACTOR * ((1 - spotted) - expectedScore(disguise, voterDetection));
+        if (voterIsHuman) {
+          changes.get(voter)!.detection +=
+            RATING_K_FACTOR * (spotted - expectedScore(voterDetection, disguise));
+        }
+      }
+    }
+  }
+  return changes;
+}
+
+function toPlayerRating(record: RatingRecord): PlayerRating {
+  return {
+    userId: record.userId,
+    displayName: record.displayName,
+    season: record.season,
+    templateType: record.templateType,
+    detectionRating: Math.round(record.detectionRating),
+    disguiseRating: Math.round(record.disguiseRating),
+    matchesRated: record.matchesRated,
+    provisional: record.matchesRated < PROVISIONAL_MATCHES,
+  };
+}
+
+/**
+ * Skill ratings, updated as matches complete and read back as leaderboards
+ */
+export class RatingService {
+  static async getRating(userId: string, board: string): Promise<PlayerRating | null> {
+    const record = await this.getRecord(userId, board);
+    return record ? toPlayerRating(record) : null;
+  }
+
+  // The top of a board by one rating, highest first, from the board's
+  // index for that rating
+  static async getLeaderboard(board: string, kind: RatingKind, limit: number): Promise<PlayerRating[]> {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: RATINGS_TABLE,
+      IndexName: `board-${kind}Rating-index`,
+      KeyConditionExpression: 'board = :board',
+      ExpressionAttributeValues: { ':board': board },
+      ScanIndexForward: false,
+      Limit: limit,
+    }));
+    return ((result.Items || []) as RatingRecord[]).map(toPlayerRating);
+  }
+
+  /**
+   * Rate a completed match on its season's overall board and its template's
+   * board. Seats an AI persona took over are rated as robots.
+   */
+  static async recordCompletedMatch(match: Match): Promise<void> {
+    const seats = match.participants.filter((p) => !p.isAI && p.userId);
+    if (seats.length === 0) return;
+
+    const season = seasonOf(match.completedAt || match.updatedAt);
+    const templateType = match.templateType || 'classic_1v3';
+    for (const board of [boardKey(season), boardKey(season, templateType)]) {
+      const before = new Map<Identity, SeatRatings>();
+      for (const seat of seats) {
+        const record = await this.getRecord(seat.userId!, board);
+        if (record) {
+          before.set(seat.identity, { detection: record.detectionRating, disguise: record.disguiseRating });
+        }
+      }
+
+      const changes = ratingChanges(match, before);
+      for (const seat of seats) {
+        await this.applyChange(seat.userId!, board, changes.get(seat.identity)!, {
+          season,
+          templateType: board === boardKey(season) ? undefined : templateType,
+          displayName: seat.playerName || seat.userId!,
+          matchId: match.matchId,
+        });
+      }
+    }
+  }
+
+  private static async getRecord(userId: string, board: string): Promise<RatingRecord | null> {
+    const result = await dynamodb.send(new GetCommand({
+      TableName: RATINGS_TABLE,
+      Key: { userId, board },
+    }));
+    return (result.Item as RatingRecord) || null;
+  }
+
+  // matchesRated goes up with every write, so it doubles as the record's version
+  private static async applyChange(
+    userId: string,
+    board: string,
+    change: SeatRatings,
+    details: { season: Season; templateType?: MatchTemplateType; displayName: string; matchId: string }
+  ): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const current = await this.getRecord(userId, board);
+      const recentMatchIds = current?.recentMatchIds || [];
+      if (recentMatchIds.includes(details.matchId)) return;
+
+      const next: RatingRecord = {
+        userId,
+        board,
+        season: details.season,
+        templateType: details.templateType,
+        displayName: details.displayName,
+        detectionRating: (current?.detectionRating ?? INITIAL_RATING) + change.detection,
+        disguiseRating: (current?.disguiseRating ?? INITIAL_RATING) + change.disguise,
+        matchesRated: (current?.matchesRated || 0) + 1,
+        recentMatchIds: [details.matchId, ...recentMatchIds].slice(0, RECENT_MATCHES_RATED),
+        updatedAt: new Date().toISOString(),
+      };
+
+      try {
+        await dynamodb.send(new PutCommand({
+          TableName: RATINGS_TABLE,
+          Item: next,
+          ConditionExpression: current ? 'matchesRated = :matchesRated' : 'attribute_not_exists(userId)',
+          ...(current && { ExpressionAttributeValues: { ':matchesRated': current.matchesRated } }),
+        }));
+        return;
+      } catch (error) {
+        if ((error as { name?: string }).name !== 'ConditionalCheckFailedException' || attempt === MAX_WRITE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
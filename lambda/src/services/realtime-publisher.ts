@@ -0,0 +1,165 @@
+import { PutCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
+import { RealtimeEvent } from '../../shared/schemas/events.schema';
+import { Match } from '../../shared/schemas/match.schema';
+import { createDocumentClient, createRealtimeClient } from '../utils/aws-clients';
+import { findSeat, MatchViewer, projectMatch } from './match-projection';
+
+const docClient = createDocumentClient({
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+// Connections are dropped by DynamoDB TTL if $disconnect never arrives
+const CONNECTION_TTL_SECONDS = 60 * 60 * 2;
+
+export interface MatchConnection {
+  connectionId: string;
+  matchId: string;
+  userId?: string; // The authenticated user behind the socket, which finds their seat
+  isAdmin?: boolean;
+  connectedAt: string;
+  ttl: number;
+}
+
+// State syncs carry the whole match, so each connection gets its own view of
+// it. Robots only answer once every human has, so the order of submissions
+// tells them apart: each submission goes to its own seat and admins only,
+// until the match is completed. Null means the connection skips the event.
+function projectEvent(
+  event: RealtimeEvent,
+  connection: MatchConnection,
+  match?: Match
+): RealtimeEvent | null {
+  const viewer: MatchViewer = {
+    identity: match && findSeat(match, connection.userId),
+    isAdmin: connection.isAdmin,
+  };
+
+  switch (event.type) {
+    case 'match_state_sync':
+      return { type: 'match_state_sync', match: projectMatch(event.match as Match, viewer) };
+    case 'participant_submitted':
+      return viewer.isAdmin || match?.status === 'completed' || event.identity === viewer.identity
+        ? event
+        : null;
+    default:
+      return event;
+  }
+}
+
+// The match behind a batch of events, from its (last) state sync
+function matchOf(events: RealtimeEvent[]): Match | undefined {
+  const sync = [...events].reverse().find((event) => event.type === 'match_state_sync');
+  return sync?.type === 'match_state_sync' ? (sync.match as Match) : undefined;
+}
+
+export class RealtimePublisher {
+  constructor(
+    private connectionsTableName: string,
+    private endpoint: string
+  ) {}
+
+  async addConnection(
+    connectionId: string,
+    matchId: string,
+    userId?: string,
+    isAdmin?: boolean
+  ): Promise<void> {
+    const connection: MatchConnection = {
+      connectionId,
+      matchId,
+      userId,
+      isAdmin,
+      connectedAt: new Date().toISOString(),
+      ttl: Math.floor(Date.now() / 1000) + CONNECTION_TTL_SECONDS,
+    };
+    await docClient.send(new PutCommand({
+      TableName: this.connectionsTableName,
+      Item: connection,
+    }));
+  }
+
+  async removeConnection(connectionId: string): Promise<void> {
+    await docClient.send(new DeleteCommand({
+      TableName: this.connectionsTableName,
+      Key: { connectionId },
+    }));
+  }
+
+  async getConnections(matchId: string): Promise<MatchConnection[]> {
+    const result = await docClient.send(new QueryCommand({
+      TableName: this.connectionsTableName,
+      IndexName: 'matchId-index',
+      KeyConditionExpression: 'matchId = :matchId',
+      ExpressionAttributeValues: {
+        ':matchId': matchId,
+      },
+    }));
+    return (result.Items || []) as MatchConnection[];
+  }
+
+  async sendToConnection(connectionId: string, event: RealtimeEvent): Promise<void> {
+    const client = createRealtimeClient(this.endpoint);
+    await client.send(new PostToConnectionCommand({
+      ConnectionId: connectionId,
+      Data: new TextEncoder().encode(JSON.stringify(event)),
+    }));
+  }
+
+  /**
+   * Send events to every client watching a match, with match state projected
+   * for each connection's viewer. Delivery is best effort:
+   * failures are logged and never surface to the caller, and connections
+   * that API Gateway reports as gone are removed.
+   */
+  async publish(matchId: string, events: RealtimeEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    let connections: MatchConnection[];
+    try {
+      connections = await this.getConnections(matchId);
+    } catch (error) {
+      console.error(`Failed to load realtime connections for match ${matchId}:`, error);
+      return;
+    }
+
+    const match = matchOf(events);
+    await Promise.all(connections.map(async (connection) => {
+      const { connectionId } = connection;
+      try {
+        for (const event of events) {
+          const projected = projectEvent(event, connection, match);
+          if (projected) {
+            await this.sendToConnection(connectionId, projected);
+          }
+        }
+      } catch (error) {
+        if ((error as { name?: string })?.name === 'GoneException') {
+          console.log(`Removing stale connection ${connectionId}`);
+          await this.removeConnection(connectionId).catch(() => undefined);
+        } else {
+          console.error(`Failed to publish to connection ${connectionId}:`, error);
+        }
+      }
+    }));
+  }
+}
+
+// Returns null when realtime is not configured, so callers can skip publishing
+export function getRealtimePublisher(): RealtimePublisher | null {
+  const endpoint = process.env.WEBSOCKET_ENDPOINT;
+  const connectionsTable = process.env.CONNECTIONS_TABLE_NAME;
+  if (!endpoint || !connectionsTable) {
+    return null;
+  }
+  return new RealtimePublisher(connectionsTable, endpoint);
+}
+
+export async function publishMatchEvents(matchId: string, events: RealtimeEvent[]): Promise<void> {
+  const publisher = getRealtimePublisher();
+  if (publisher) {
+    await publisher.publish(matchId, events);
+  }
+}
@@ -0,0 +1,68 @@
+// Server-side round deadlines. The frontend CountdownTimer shows the same
+// limits, but only the backend can move a match on when a player walks away.
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export const DEFAULT_RESPONSE_TIME_LIMIT = 45; // seconds
+export const DEFAULT_VOTE_TIME_LIMIT = 90; // seconds
+
+// Robots may be asked late in a round, so their answers get their own
+// allowance counted from when they were asked rather than the round's timer
+export const ROBOT_RESPONSE_TIME_LIMIT = 60; // seconds
+
+// Slack past the limit so a submission sent as the timer hits zero still lands
+export const DEADLINE_GRACE_SECONDS = 5;
+
+export const NO_RESPONSE = '(No response)';
+
+export interface DeadlineMatch {
+  responseTimeLimit?: number;
+  voteTimeLimit?: number;
+}
+
+export interface DeadlineRound {
+  status: string;
+  startTime?: string;
+  votingStartTime?: string;
+  robotsStartTime?: string;
+}
+
+// When the round's current phase ends, or null if it has no running timer.
+// Rounds stored before start times were recorded never expire.
+export function getRoundDeadline(match: DeadlineMatch, round: DeadlineRound): Date | null {
+  if (round.status === 'responding' && round.startTime) {
+    return addSeconds(round.startTime, match.responseTimeLimit || DEFAULT_RESPONSE_TIME_LIMIT);
+  }
+  if (round.status === 'voting' && round.votingStartTime) {
+    return addSeconds(round.votingStartTime, match.voteTimeLimit || DEFAULT_VOTE_TIME_LIMIT);
+  }
+  return null;
+}
+
+export function isRoundOverdue(
+  match: DeadlineMatch,
+  round: DeadlineRound,
+  clock: Clock = systemClock
+): boolean {
+  const deadline = getRoundDeadline(match, round);
+  if (!deadline) return false;
+  return clock.now().getTime() > deadline.getTime() + DEADLINE_GRACE_SECONDS * 1000;
+}
+
+// Whether robots asked for answers this round have had their full allowance.
+// False until they have been asked.
+export function isRobotAllowanceOver(round: DeadlineRound, clock: Clock = systemClock): boolean {
+  if (!round.robotsStartTime) return false;
+  const deadline = addSeconds(round.robotsStartTime, ROBOT_RESPONSE_TIME_LIMIT);
+  return clock.now().getTime() > deadline.getTime() + DEADLINE_GRACE_SECONDS * 1000;
+}
+
+function addSeconds(isoTime: string, seconds: number): Date {
+  return new Date(new Date(isoTime).getTime() + seconds * 1000);
+}
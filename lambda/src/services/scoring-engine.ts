@@ -0,0 +1,200 @@
+import { getVotePicks } from '../../shared/schemas/match.schema';
+import type {
+  Identity,
+  MatchResult,
+  PlayerStats,
+  RoundScoring,
+  VoteResult,
+} from '../../shared/schemas/match.schema';
+import { MatchTemplateService, MatchTemplateType } from './match-template-service';
+
+export interface ScoringRules {
+  correctVotePoints: number; // Per pick that was a human
+  incorrectVotePoints: number;
+  deceptionPoints: number; // To a human, for each voter who didn't pick them
+  identifiedPenalty: number; // From a human, for each voter who did pick them
+  streakBonus: number; // To a voter, each round their run of all-correct votes is long enough
+  streakLength: number;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  correctVotePoints: 100,
+  incorrectVotePoints: 0,
+  deceptionPoints: 50,
+  identifiedPenalty: 0,
+  streakBonus: 0,
+  streakLength: 3,
+};
+
+// The minimal shapes the engine needs, so both match-service's local types
+// and the shared Match schema can be scored
+export interface ScorableParticipant {
+  identity: string;
+  isAI?: boolean;
+}
+
+export interface ScorableRound {
+  roundNumber: number;
+  votes: Record<string, string | string[]>;
+  scores?: Record<string, number>;
+  scoring?: RoundScoring;
+  status: string;
+}
+
+export interface ScorableMatch {
+  matchId: string;
+  participants: ScorableParticipant[];
+  rounds: ScorableRound[];
+  createdAt: string;
+  completedAt?: string;
+}
+
+export class ScoringEngine {
+  constructor(private rules: ScoringRules = DEFAULT_SCORING_RULES) {}
+
+  // Template rules override the defaults; classic matches have no templateType
+  static forTemplate(templateType?: string): ScoringEngine {
+    const template = templateType
+      ? MatchTemplateService.getTemplate(templateType as MatchTemplateType)
+      : undefined;
+    return new ScoringEngine({ ...DEFAULT_SCORING_RULES, ...template?.scoring });
+  }
+
+  getRules(): ScoringRules {
+    return { ...this.rules };
+  }
+
+  // Score one round. Earlier rounds are only consulted for streaks.
+  scoreRound(
+    round: ScorableRound,
+    participants: ScorableParticipant[],
+    previousRounds: ScorableRound[] = []
+  ): RoundScoring {
+    const humans = participants.filter((p) => !p.isAI).map((p) => p.identity as Identity);
+    const totals: Record<string, number> = Object.fromEntries(
+      participants.map((p) => [p.identity, 0])
+    );
+
+    // One result per pick, so each correct pick is credited
+    const voteResults: VoteResult[] = Object.entries(round.votes).flatMap(([voter, vote]) =>
+      getVotePicks(vote).map((votedFor) => {
+        const correct = humans.includes(votedFor);
+        const points = correct ? this.rules.correctVotePoints : this.rules.incorrectVotePoints;
+        totals[voter] = (totals[voter] || 0) + points;
+        return { voter: voter as Identity, votedFor, correct, points };
+      })
+    );
+
+    const deceptionPoints: Record<string, number> = {};
+    const penaltyPoints: Record<string, number> = {};
+    let successfullyDeceived = 0;
+    for (const human of humans) {
+      const otherVoters = Object.keys(round.votes).filter((voter) => voter !== human);
+      const identified = otherVoters.filter((voter) =>
+        getVotePicks(round.votes[voter]).includes(human)
+      ).length;
+      const fooled = otherVoters.length - identified;
+      successfullyDeceived += fooled;
+
+      deceptionPoints[human] = fooled * this.rules.deceptionPoints;
+      penaltyPoints[human] = identified * this.rules.identifiedPenalty;
+      totals[human] = (totals[human] || 0) + deceptionPoints[human] - penaltyPoints[human];
+    }
+
+    const bonusPoints: Record<string, number> = {};
+    if (this.rules.streakBonus > 0) {
+      for (const voter of Object.keys(round.votes)) {
+        if (!allPicksCorrect(voteResults, voter)) continue;
+        const streak = 1 + this.countPriorStreak(voter, previousRounds);
+        if (streak >= this.rules.streakLength) {
+          bonusPoints[voter] = this.rules.streakBonus;
+          totals[voter] += this.rules.streakBonus;
+        }
+      }
+    }
+
+    return {
+      roundNumber: round.roundNumber,
+      voteResults,
+      bonusPoints,
+      humanIdentity: humans[0],
+      humanIdentities: humans,
+      successfullyDeceived,
+      deceptionPoints,
+      penaltyPoints,
+      totals,
+    };
+  }
+
+  buildMatchResult(match: ScorableMatch): MatchResult {
+    const completedRounds = match.rounds.filter((r) => r.status === 'complete');
+
+    const playerStats: PlayerStats[] = match.participants.map((p) => {
+      const roundScores = completedRounds.map((r) => roundTotal(r, p.identity));
+      return {
+        identity: p.identity as Identity,
+        totalScore: roundScores.reduce((sum, score) => sum + score, 0),
+        correctVotes: completedRounds.reduce(
+          (count, r) =>
+            count + (r.scoring?.voteResults.filter((v) => v.voter === p.identity && v.correct).length || 0),
+          0
+        ),
+        timesVotedAsHuman: completedRounds.reduce(
+          (count, r) =>
+            count + Object.values(r.votes).filter((v) => getVotePicks(v).includes(p.identity as Identity)).length,
+          0
+        ),
+        deceptionPoints: completedRounds.reduce(
+          (sum, r) => sum + (r.scoring?.deceptionPoints?.[p.identity] || 0),
+          0
+        ),
+        roundScores,
+      };
+    });
+
+    const finalScores = Object.fromEntries(playerStats.map((s) => [s.identity, s.totalScore]));
+    const winner = uniqueLeader(playerStats, (s) => s.totalScore);
+    const mvp = uniqueLeader(
+      playerStats.filter((s) => (s.deceptionPoints || 0) > 0),
+      (s) => s.deceptionPoints || 0
+    );
+    const endTime = match.completedAt ? new Date(match.completedAt).getTime() : Date.now();
+
+    return {
+      matchId: match.matchId,
+      winner: winner?.identity,
+      finalScores,
+      playerStats,
+      mvpIdentity: mvp?.identity,
+      completedRounds: completedRounds.length,
+      duration: Math.max(0, endTime - new Date(match.createdAt).getTime()),
+    };
+  }
+
+  private countPriorStreak(voter: string, previousRounds: ScorableRound[]): number {
+    let streak = 0;
+    const ordered = [...previousRounds].sort((a, b) => b.roundNumber - a.roundNumber);
+    for (const round of ordered) {
+      if (!round.scoring || !allPicksCorrect(round.scoring.voteResults, voter)) break;
+      streak++;
+    }
+    return streak;
+  }
+}
+
+function allPicksCorrect(voteResults: VoteResult[], voter: string): boolean {
+  const picks = voteResults.filter((v) => v.voter === voter);
+  return picks.length > 0 && picks.every((v) => v.correct);
+}
+
+// Rounds scored before the engine existed only carry the flat scores map
+function roundTotal(round: ScorableRound, identity: string): number {
+  return round.scoring?.totals?.[identity] ?? round.scores?.[identity] ?? 0;
+}
+
+function uniqueLeader<T>(items: T[], value: (item: T) => number): T | undefined {
+  if (items.length === 0) return undefined;
+  const best = Math.max(...items.map(value));
+  const leaders = items.filter((item) => value(item) === best);
+  return leaders.length === 1 ? leaders[0] : undefined;
+}
@@ -1,10 +1,25 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { PutCommand, GetCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
-import { User, CreateHumanUser, CreateAIUser } from '../../shared/schemas/user.schema';
+import { User, CreateHumanUser, CreateAIUser, UpdateProfileRequest } from '../../shared/schemas/user.schema';
+import { createDocumentClient } from '../utils/aws-clients';
+import { displayNameKey } from './display-names';
 
-const client = new DynamoDBClient({});
-const dynamodb = DynamoDBDocumentClient.from(client);
+const dynamodb = createDocumentClient();
+
+const MAX_WRITE_ATTEMPTS = 3;
+
+export class DisplayNameTakenError extends Error {
+  constructor() {
+    super('That display name is taken');
+    this.name = 'DisplayNameTakenError';
+  }
+}
+
+// Each saved display name is claimed by an item of its own in the users
+// table, keyed by the name's displayNameKey, so only one player can hold it
+function nameClaimId(displayName: string): string {
+  return `displayName#${displayNameKey(displayName)}`;
+}
 
 export class UserService {
   private tableName: string;
@@ -49,6 +64,9 @@ export class UserService {
       isActive: true,
       isAdmin: false,
       personality: data.personality,
+      systemPrompt: data.systemPrompt,
+      voteStyle: data.voteStyle,
+      maxResponseLength: data.maxResponseLength,
       modelConfig: data.modelConfig,
       createdAt: now,
       updatedAt: now,
@@ -90,6 +108,118 @@ export class UserService {
     return result.Items?.[0] as User | null;
   }
 
+  /**
+   * Who holds a display name, ignoring case and spacing. The index only
+   * projects keys, so this is a userId rather than a user.
+   */
+  static async getUserIdByDisplayName(displayName: string): Promise<string | null> {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: USERS_TABLE,
+      IndexName: 'displayNameKey-index',
+      KeyConditionExpression: 'displayNameKey = :displayNameKey',
+      ExpressionAttributeValues: {
+        ':displayNameKey': displayNameKey(displayName),
+      },
+    }));
+
+    return result.Items?.[0]?.userId ?? null;
+  }
+
+  /**
+   * Save a signed-in player's profile fields, creating their user record the
+   * first time. Signed-in players have no record until they save a profile.
+   * A new display name is claimed and the old one released in the same
+   * transaction as the profile write; fails with DisplayNameTakenError when
+   * another player holds the name.
+   */
+  static async saveProfile(userId: string, profile: UpdateProfileRequest): Promise<User> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await UserService.getUserById(userId);
+      try {
+        await dynamodb.send(new TransactWriteCommand({
+          TransactItems: UserService.profileWrites(userId, profile, current?.displayName),
+        }));
+        break;
+      } catch (error) {
+        const reasons = (error as { CancellationReasons?: { Code?: string }[] }).CancellationReasons;
+        const failed = reasons?.map((reason) => reason.Code === 'ConditionalCheckFailed') ?? [];
+        if (profile.displayName !== undefined && failed[1]) throw new DisplayNameTakenError();
+        // Otherwise the profile changed since it was read
+        if (!failed[0] || attempt === MAX_WRITE_ATTEMPTS) throw error;
+      }
+    }
+
+    return (await UserService.getUserById(userId))!;
+  }
+
+  // The profile update, checked against the name it was read with, then any
+  // name claim to take and the previous one to release
+  private static profileWrites(
+    userId: string,
+    profile: UpdateProfileRequest,
+    previousName?: string
+  ): NonNullable<TransactWriteCommand['input']['TransactItems']> {
+    const now = new Date().toISOString();
+    const setExpressions = [
+      'userType = if_not_exists(userType, :userType)',
+      'isActive = if_not_exists(isActive, :true)',
+      'isAdmin = if_not_exists(isAdmin, :false)',
+      'createdAt = if_not_exists(createdAt, :now)',
+      'updatedAt = :now',
+    ];
+    const values: Record<string, unknown> = { ':userType': 'human', ':true': true, ':false': false, ':now': now };
+
+    if (profile.displayName !== undefined) {
+      setExpressions.push('displayName = :displayName', 'displayNameKey = :displayNameKey');
+      values[':displayName'] = profile.displayName.trim();
+      values[':displayNameKey'] = displayNameKey(profile.displayName);
+    }
+    if (profile.avatarColor !== undefined) {
+      setExpressions.push('avatarColor = :avatarColor');
+      values[':avatarColor'] = profile.avatarColor;
+    }
+    if (previousName !== undefined) {
+      values[':previousName'] = previousName;
+    }
+
+    const writes: NonNullable<TransactWriteCommand['input']['TransactItems']> = [{
+      Update: {
+        TableName: USERS_TABLE,
+        Key: { userId },
+        UpdateExpression: `SET ${setExpressions.join(', ')}`,
+        ConditionExpression: previousName !== undefined
+          ? 'displayName = :previousName'
+          : 'attribute_not_exists(displayName)',
+        ExpressionAttributeValues: values,
+      },
+    }];
+
+    const claim = profile.displayName !== undefined ? nameClaimId(profile.displayName) : undefined;
+    const released = previousName !== undefined ? nameClaimId(previousName) : undefined;
+    if (claim) {
+      writes.push({
+        Put: {
+          TableName: USERS_TABLE,
+          Item: { userId: claim, claimedBy: userId },
+          ConditionExpression: 'attribute_not_exists(userId) OR claimedBy = :userId',
+          ExpressionAttributeValues: { ':userId': userId },
+        },
+      });
+    }
+    if (claim && released && released !== claim) {
+      // Names saved before claims existed have nothing to release
+      writes.push({
+        Delete: {
+          TableName: USERS_TABLE,
+          Key: { userId: released },
+          ConditionExpression: 'attribute_not_exists(userId) OR claimedBy = :userId',
+          ExpressionAttributeValues: { ':userId': userId },
+        },
+      });
+    }
+    return writes;
+  }
+
   /**
    * Get all active AI users
    */
@@ -143,9 +273,9 @@ export class UserService {
   }
 
   /**
-   * Get random AI users for a match
+   * Get active AI users, for picking a match's robots
    */
-  async getRandomAIUsers(count: number): Promise<User[]> {
+  async getAvailableAIUsers(): Promise<User[]> {
     const result = await dynamodb.send(new QueryCommand({
       TableName: this.tableName,
       IndexName: 'userType-index',
@@ -157,11 +287,24 @@ export class UserService {
       },
     }));
 
-    const aiUsers = result.Items as User[];
-    
-    // Shuffle and take requested count
-    const shuffled = aiUsers.sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, count);
+    return (result.Items || []) as User[];
+  }
+
+  /**
+   * Get random AI users for a match. Picked users take the first seats;
+   * any that aren't active AI users are skipped.
+   */
+  async getRandomAIUsers(count: number, pickedUserIds: string[] = []): Promise<User[]> {
+    const aiUsers = await this.getAvailableAIUsers();
+    const picked = pickedUserIds
+      .map((userId) => aiUsers.find((user) => user.userId === userId))
+      .filter((user): user is User => !!user);
+
+    // Shuffle the rest and fill the remaining seats
+    const shuffled = aiUsers
+      .filter((user) => !picked.includes(user))
+      .sort(() => Math.random() - 0.5);
+    return [...picked, ...shuffled].slice(0, count);
   }
 }
 
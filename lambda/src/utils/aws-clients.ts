@@ -0,0 +1,60 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, TranslateConfig } from '@aws-sdk/lib-dynamodb';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { LambdaClient } from '@aws-sdk/client-lambda';
+import { ApiGatewayManagementApiClient } from '@aws-sdk/client-apigatewaymanagementapi';
+
+// Anything with a send(command) method can stand in for an SDK client
+export interface SendableClient {
+  send(command: any): Promise<any>;
+}
+
+export interface AwsClientOverrides {
+  docClient?: SendableClient;
+  sqsClient?: SendableClient;
+  lambdaClient?: SendableClient;
+  realtimeClient?: SendableClient;
+}
+
+// Overrides are installed by the local dev server before any handler module
+// is loaded. In Lambda nothing is installed and the real SDK clients are used.
+let overrides: AwsClientOverrides = {};
+
+export function setAwsClientOverrides(clients: AwsClientOverrides): void {
+  overrides = clients;
+}
+
+export function clearAwsClientOverrides(): void {
+  overrides = {};
+}
+
+export function createDocumentClient(
+  translateConfig?: TranslateConfig
+): DynamoDBDocumentClient {
+  if (overrides.docClient) {
+    return overrides.docClient as unknown as DynamoDBDocumentClient;
+  }
+  return DynamoDBDocumentClient.from(new DynamoDBClient({}), translateConfig);
+}
+
+export function createSQSClient(): SQSClient {
+  if (overrides.sqsClient) {
+    return overrides.sqsClient as unknown as SQSClient;
+  }
+  return new SQSClient({});
+}
+
+export function createLambdaClient(): LambdaClient {
+  if (overrides.lambdaClient) {
+    return overrides.lambdaClient as unknown as LambdaClient;
+  }
+  return new LambdaClient({});
+}
+
+// Posts to WebSocket connections; the endpoint is the API's callback URL
+export function createRealtimeClient(endpoint: string): ApiGatewayManagementApiClient {
+  if (overrides.realtimeClient) {
+    return overrides.realtimeClient as unknown as ApiGatewayManagementApiClient;
+  }
+  return new ApiGatewayManagementApiClient({ endpoint });
+}
@@ -3,8 +3,8 @@ import { z } from 'zod';
 
 // Define the schema once
 export const AIRequestSchema = z.object({
-  task: z.enum(['generate_prompt', 'robot_response', 'analyze_match', 'summarize', 'custom']),
-  model: z.enum(['claude-3-sonnet', 'claude-3-haiku', 'claude-3-opus']).optional(),
+  task: z.enum(['generate_prompt', 'robot_response', 'robot_vote', 'analyze_match', 'moderate', 'summarize', 'custom']),
+  model: z.string().optional(), // Checked against the ai-service model registry
   inputs: z.record(z.any()),
   options: z.object({
     temperature: z.number().min(0).max(1).optional(),
@@ -36,10 +36,25 @@ export const RobotResponseResultSchema = z.object({
 
 export type RobotResponseResult = z.infer<typeof RobotResponseResultSchema>;
 
+export const RobotVoteResultSchema = z.object({
+  votedFor: z.array(z.string()),
+  reasoning: z.string().optional()
+});
+
+export type RobotVoteResult = z.infer<typeof RobotVoteResultSchema>;
+
+export const ModerationResultSchema = z.object({
+  flagged: z.boolean(),
+  categories: z.array(z.string()),
+  reason: z.string().optional()
+});
+
+export type ModerationResult = z.infer<typeof ModerationResultSchema>;
+
 export const AIResponseSchema = z.object({
   success: z.boolean(),
   task: AIRequestSchema.shape.task,
-  model: z.enum(['claude-3-sonnet', 'claude-3-haiku', 'claude-3-opus']),
+  model: z.string(),
   result: z.any() // This could be more specific based on task
 });
 
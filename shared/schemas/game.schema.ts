@@ -1,6 +1,5 @@
 // @ts-ignore - Zod will be resolved by the bundler
 import { z } from 'zod';
-import { IdentitySchema } from './match.schema';
 
 // Game configuration schemas
 export const GameConfigSchema = z.object({
@@ -13,44 +12,38 @@ export const GameConfigSchema = z.object({
 });
 export type GameConfig = z.infer<typeof GameConfigSchema>;
 
-// Scoring schemas
-export const VoteResultSchema = z.object({
-  voter: IdentitySchema,
-  votedFor: IdentitySchema,
-  correct: z.boolean(),
-  points: z.number(),
+// What a match is played with: its template's settings with any lobby
+// overrides applied, stored on the match as `config`
+export const MatchConfigSchema = z.object({
+  totalRounds: z.number().int().min(1).max(10),
+  responseTimeLimit: z.number().int().positive(), // seconds
+  voteTimeLimit: z.number().int().positive(), // seconds
+  minResponseLength: z.number().int().min(1),
+  maxResponseLength: z.number().int().positive(),
+  requiredHumans: z.number().int().min(1),
+  requiredAI: z.number().int().min(0),
+  personaIds: z.array(z.string()).optional(), // AI users seated first; the rest are drawn at random
+  promptPackId: z.string().optional(),
 });
-export type VoteResult = z.infer<typeof VoteResultSchema>;
+export type MatchConfig = z.infer<typeof MatchConfigSchema>;
 
-export const RoundScoringSchema = z.object({
-  roundNumber: z.number(),
-  voteResults: z.array(VoteResultSchema),
-  bonusPoints: z.record(IdentitySchema, z.number()).optional(),
-  humanIdentity: IdentitySchema,
-  successfullyDeceived: z.number(), // How many AI votes the human got
+// Overrides a private lobby may send when creating a match. Bounds follow
+// GameConfigSchema; how the fields fit together is checked against the
+// template on the server.
+export const MatchConfigOverrideSchema = z.object({
+  totalRounds: z.number().int().min(1).max(10).optional(),
+  responseTimeLimit: z.number().int().min(30).max(300).optional(),
+  voteTimeLimit: z.number().int().min(30).max(180).optional(),
+  minResponseLength: z.number().int().min(1).max(500).optional(),
+  maxResponseLength: z.number().int().min(50).max(500).optional(),
+  requiredHumans: z.number().int().min(1).max(8).optional(),
+  requiredAI: z.number().int().min(0).max(7).optional(),
+  personaIds: z.array(z.string().min(1)).max(7).optional(),
+  promptPackId: z.string().min(1).optional(),
 });
-export type RoundScoring = z.infer<typeof RoundScoringSchema>;
+export type MatchConfigOverride = z.infer<typeof MatchConfigOverrideSchema>;
 
-export const PlayerStatsSchema = z.object({
-  identity: IdentitySchema,
-  totalScore: z.number(),
-  correctVotes: z.number(),
-  timesVotedAsHuman: z.number(),
-  averageResponseTime: z.number().optional(),
-  roundScores: z.array(z.number()),
-});
-export type PlayerStats = z.infer<typeof PlayerStatsSchema>;
-
-export const MatchResultSchema = z.object({
-  matchId: z.string(),
-  winner: IdentitySchema.optional(), // Could be a tie
-  finalScores: z.record(IdentitySchema, z.number()),
-  playerStats: z.array(PlayerStatsSchema),
-  mvpIdentity: IdentitySchema.optional(), // Most successful at deception
-  completedRounds: z.number(),
-  duration: z.number(), // milliseconds
-});
-export type MatchResult = z.infer<typeof MatchResultSchema>;
+// Scoring schemas live in match.schema.ts because Round and Match embed them
 
 // Prompt generation schemas
 export const PromptCategorySchema = z.enum([
@@ -4,4 +4,11 @@ export * from './api.schema';
 export * from './events.schema';
 export * from './game.schema';
 export * from './ai-service.schema';
-export * from './user.schema';
\ No newline at end of file
+export * from './user.schema';
+export * from './match-log.schema';
+export * from './audience.schema';
+export * from './matchmaking.schema';
+export * from './prompt-pack.schema';
+export * from './player-stats.schema';
+export * from './rating.schema';
+export * from './moderation.schema';
@@ -0,0 +1,98 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+import {
+  IdentitySchema,
+  MatchResultSchema,
+  MatchSchema,
+  MatchTemplateTypeSchema,
+  ParticipantSchema,
+  RoundScoringSchema,
+  VoteSchema,
+} from './match.schema';
+
+// Append-only history of a match. Entries share the matches table with the
+// match record: the record keeps timestamp 0, entries use their write time.
+export const MatchLogEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('match_created'),
+    templateType: MatchTemplateTypeSchema.optional(),
+    participants: z.array(ParticipantSchema),
+    totalRounds: z.number(),
+  }),
+  z.object({
+    type: z.literal('participant_joined'),
+    playerName: z.string(),
+    userId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('seat_substituted'), // An AI persona took over a disconnected human's seat
+    roundNumber: z.number(),
+    identity: IdentitySchema,
+    userId: z.string(), // The AI user now playing the seat
+    playerName: z.string(),
+    replacedUserId: z.string(),
+  }),
+  z.object({
+    type: z.literal('seat_reclaimed'), // The human came back and took their seat again
+    roundNumber: z.number(),
+    identity: IdentitySchema,
+    userId: z.string(),
+  }),
+  z.object({
+    type: z.literal('round_started'),
+    roundNumber: z.number(),
+    prompt: z.string(),
+  }),
+  z.object({
+    type: z.literal('response_submitted'),
+    roundNumber: z.number(),
+    identity: IdentitySchema,
+    response: z.string(),
+    expired: z.boolean().optional(), // Filled in when the response deadline passed
+  }),
+  z.object({
+    type: z.literal('robot_response_generated'),
+    roundNumber: z.number(),
+    identity: IdentitySchema,
+    response: z.string(),
+    model: z.string(),
+    latencyMs: z.number(),
+    fallback: z.boolean().optional(), // The model failed and a canned line was used
+  }),
+  z.object({
+    type: z.literal('vote_cast'),
+    roundNumber: z.number(),
+    voter: IdentitySchema,
+    votedFor: VoteSchema,
+    model: z.string().optional(), // Robot votes only
+    latencyMs: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('round_transitioned'),
+    roundNumber: z.number(),
+    toStatus: z.enum(['voting', 'complete']),
+    presentationOrder: z.array(IdentitySchema).optional(),
+    scoring: RoundScoringSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('match_completed'),
+    result: MatchResultSchema.optional(),
+  }),
+]);
+export type MatchLogEvent = z.infer<typeof MatchLogEventSchema>;
+
+export const MatchLogEntrySchema = z.intersection(
+  MatchLogEventSchema,
+  z.object({
+    matchId: z.string(),
+    timestamp: z.number(), // Sort key: epoch ms, bumped on collision
+    recordedAt: z.string(),
+  })
+);
+export type MatchLogEntry = z.infer<typeof MatchLogEntrySchema>;
+
+export const MatchReplaySchema = z.object({
+  match: MatchSchema,
+  events: z.array(MatchLogEntrySchema),
+});
+export type MatchReplay = z.infer<typeof MatchReplaySchema>;
@@ -1,5 +1,6 @@
 // @ts-ignore - Zod will be resolved by the bundler
 import { z } from 'zod';
+import { MatchConfigSchema } from './game.schema';
 
 // Core game types
 // Extended to support up to 8 players for variable match formats
@@ -26,6 +27,19 @@ export type MatchStatusV2 = z.infer<typeof MatchStatusV2Schema>;
 export const RoundStatusSchema = z.enum(['responding', 'voting', 'complete']);
 export type RoundStatus = z.infer<typeof RoundStatusSchema>;
 
+// How recently a human's client checked in: online, away after missed
+// heartbeats, offline once the seat counts as disconnected. AI seats are online.
+export const PresenceSchema = z.enum(['online', 'away', 'offline']);
+export type Presence = z.infer<typeof PresenceSchema>;
+
+// The human whose seat an AI persona took over after they were gone too long
+export const SubstitutedPlayerSchema = z.object({
+  userId: z.string(),
+  displayName: z.string(),
+  substitutedAt: z.string(),
+});
+export type SubstitutedPlayer = z.infer<typeof SubstitutedPlayerSchema>;
+
 // Participant schema
 export const ParticipantSchema = z.object({
   identity: IdentitySchema,
@@ -37,7 +51,10 @@ export const ParticipantSchema = z.object({
   userId: z.string().optional(),
   displayName: z.string().optional(),
   isReady: z.boolean().optional(),
-  joinedAt: z.string().optional()
+  joinedAt: z.string().optional(),
+  lastSeen: z.string().optional(), // Latest heartbeat from a human's client
+  presence: PresenceSchema.optional(), // Worked out from lastSeen when the match is read
+  substitutedFor: SubstitutedPlayerSchema.optional(),
 });
 export type Participant = z.infer<typeof ParticipantSchema>;
 
@@ -50,6 +67,86 @@ export const ParticipantV2Schema = z.object({
 });
 export type ParticipantV2 = z.infer<typeof ParticipantV2Schema>;
 
+// Scoring schemas (computed server-side by the scoring engine)
+// Score maps use string keys: an enum-keyed record is exhaustive under zod 4,
+// which would reject matches that don't use all eight identities.
+export const ScoreMapSchema = z.record(z.string(), z.number());
+export type ScoreMap = z.infer<typeof ScoreMapSchema>;
+
+export const VoteResultSchema = z.object({
+  voter: IdentitySchema,
+  votedFor: IdentitySchema,
+  correct: z.boolean(),
+  points: z.number(),
+});
+export type VoteResult = z.infer<typeof VoteResultSchema>;
+
+export const RoundScoringSchema = z.object({
+  roundNumber: z.number(),
+  voteResults: z.array(VoteResultSchema),
+  bonusPoints: ScoreMapSchema.optional(), // Streak bonuses
+  humanIdentity: IdentitySchema.optional(), // First human, for single-human consumers
+  humanIdentities: z.array(IdentitySchema).optional(),
+  successfullyDeceived: z.number().optional(), // How many votes missed the humans; hidden from players until the match completes
+  deceptionPoints: ScoreMapSchema.optional(), // Per human, for each voter they fooled
+  penaltyPoints: ScoreMapSchema.optional(), // Per human, for being identified
+  totals: ScoreMapSchema.optional(), // Net round score per identity
+});
+export type RoundScoring = z.infer<typeof RoundScoringSchema>;
+
+export const PlayerStatsSchema = z.object({
+  identity: IdentitySchema,
+  totalScore: z.number(),
+  correctVotes: z.number(),
+  timesVotedAsHuman: z.number(),
+  deceptionPoints: z.number().optional(),
+  averageResponseTime: z.number().optional(),
+  roundScores: z.array(z.number()),
+});
+export type PlayerStats = z.infer<typeof PlayerStatsSchema>;
+
+export const MatchResultSchema = z.object({
+  matchId: z.string(),
+  winner: IdentitySchema.optional(), // Could be a tie
+  finalScores: ScoreMapSchema,
+  playerStats: z.array(PlayerStatsSchema),
+  mvpIdentity: IdentitySchema.optional(), // Most successful at deception
+  completedRounds: z.number(),
+  duration: z.number(), // milliseconds
+});
+export type MatchResult = z.infer<typeof MatchResultSchema>;
+
+// One response the post-match analysis singled out
+export const AnalysisHighlightSchema = z.object({
+  identity: IdentitySchema,
+  roundNumber: z.number().int().positive(),
+  response: z.string(),
+  reason: z.string().optional(), // The model's one-line explanation
+});
+export type AnalysisHighlight = z.infer<typeof AnalysisHighlightSchema>;
+
+// Requested when the match completes and written by robot-worker once the
+// AI service answers. Unavailable when the job could not be queued or failed.
+export const MatchAnalysisStatusSchema = z.enum(['pending', 'ready', 'unavailable']);
+export type MatchAnalysisStatus = z.infer<typeof MatchAnalysisStatusSchema>;
+
+export const MatchAnalysisSchema = z.object({
+  status: MatchAnalysisStatusSchema,
+  requestedAt: z.string(),
+  completedAt: z.string().optional(),
+  mostConvincingHuman: AnalysisHighlightSchema.optional(), // The human line that best passed as AI
+  mostHumanAI: AnalysisHighlightSchema.optional(), // The AI line that sounded most human
+  difficulty: z.number().int().min(1).max(10).optional(), // How hard the humans were to spot
+  themes: z.array(z.string()).optional(),
+  summary: z.string().optional(),
+});
+export type MatchAnalysis = z.infer<typeof MatchAnalysisSchema>;
+
+// A vote names every suspected human: one identity when a single pick is
+// expected, otherwise an array sized to the other humans in the match
+export const VoteSchema = z.union([IdentitySchema, z.array(IdentitySchema).min(1)]);
+export type Vote = z.infer<typeof VoteSchema>;
+
 // Round schema
 export const RoundSchema = z.object({
   roundNumber: z.number().int().positive(),
@@ -57,9 +154,12 @@ export const RoundSchema = z.object({
   responses: z.any().transform((val: any) => val || {}),
   votes: z.any().transform((val: any) => val || {}),
   scores: z.any().transform((val: any) => val || {}),
+  scoring: RoundScoringSchema.optional(),
   status: RoundStatusSchema,
   presentationOrder: z.array(IdentitySchema).optional(),
   startTime: z.string().optional(),
+  votingStartTime: z.string().optional(), // Vote deadline counts from here
+  robotsStartTime: z.string().optional(), // Robots' answer allowance counts from here
   endTime: z.string().optional(),
 });
 export type Round = z.infer<typeof RoundSchema>;
@@ -80,6 +180,9 @@ const MatchBaseSchema = z.object({
   createdAt: z.string(),
   updatedAt: z.string(),
   completedAt: z.string().optional(),
+  result: MatchResultSchema.optional(), // Set when the match completes
+  analysis: MatchAnalysisSchema.optional(), // Post-match AI report, requested on completion
+  version: z.number().int().positive().optional(), // Bumped on every write; stale writes are rejected
   // New fields for multi-human support
   templateType: MatchTemplateTypeSchema.optional(),
   inviteCode: z.string().optional(),
@@ -90,6 +193,8 @@ const MatchBaseSchema = z.object({
   inviteUrl: z.string().optional(),
   // Countdown timer configuration
   responseTimeLimit: z.number().int().positive().optional(), // seconds
+  voteTimeLimit: z.number().int().positive().optional(), // seconds
+  config: MatchConfigSchema.optional(), // Resolved settings; older matches have none
 });
 
 // Main Match schema with refinements
@@ -119,6 +224,20 @@ export const MatchSchema = MatchBaseSchema.superRefine((data: z.infer<typeof Mat
 });
 export type Match = z.infer<typeof MatchSchema>;
 
+// A participant as another player sees them before the match completes:
+// identity, isAI, personality and userId are left out
+export const ParticipantViewSchema = ParticipantSchema.partial({ identity: true, isAI: true });
+export type ParticipantView = z.infer<typeof ParticipantViewSchema>;
+
+// A match as one caller sees it. Players get their own participant in full and
+// the others redacted until the match is completed; admins get everything.
+export const MatchViewSchema = MatchBaseSchema.extend({
+  participants: z.array(ParticipantViewSchema),
+  viewerIdentity: IdentitySchema.optional(), // The caller's seat, if they play in the match
+  requiredVotePicks: z.number().int().min(1).optional(), // Picks the caller's vote (or audience guess) needs, since isAI is hidden
+});
+export type MatchView = z.infer<typeof MatchViewSchema>;
+
 // Validation helpers
 export const validateMatch = (data: unknown): Match => {
   return MatchSchema.parse(data);
@@ -165,6 +284,20 @@ export const hasAllVotes = (round: Round, totalParticipants: number = 4): boolea
   return Object.keys(round.votes || {}).length === totalParticipants;
 };
 
+export const getVotePicks = (vote: unknown): Identity[] => {
+  if (Array.isArray(vote)) return vote as Identity[];
+  return vote ? [vote as Identity] : [];
+};
+
+// Voters pick every human except themselves
+export const getRequiredVotePicks = (
+  participants: { identity: string; isAI?: boolean }[],
+  voter: string
+): number => {
+  const otherHumans = participants.filter((p) => !p.isAI && p.identity !== voter);
+  return Math.max(1, otherHumans.length);
+};
+
 export const hasParticipantResponded = (
   round: Round, 
   identity: Identity
@@ -0,0 +1,54 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+import { IdentitySchema } from './match.schema';
+
+// Content moderation: player-written text is checked before it's shown to
+// others, and anything doubtful lands in a review queue for admins.
+
+export const ModeratedContentSchema = z.enum(['response', 'display_name', 'prompt']);
+export type ModeratedContent = z.infer<typeof ModeratedContentSchema>;
+
+// What happens to text that fails a check: refused outright, stored with the
+// offending words starred out, or stored as written and queued for review
+export const ModerationActionSchema = z.enum(['reject', 'mask', 'flag']);
+export type ModerationAction = z.infer<typeof ModerationActionSchema>;
+
+export const ModerationSourceSchema = z.enum(['filter', 'ai', 'player_report']);
+export type ModerationSource = z.infer<typeof ModerationSourceSchema>;
+
+export const ModerationReportStatusSchema = z.enum(['open', 'dismissed', 'upheld']);
+export type ModerationReportStatus = z.infer<typeof ModerationReportStatusSchema>;
+
+// One item in the review queue
+export const ModerationReportSchema = z.object({
+  reportId: z.string(),
+  contentType: ModeratedContentSchema,
+  content: z.string(), // As it was stored when reported
+  source: ModerationSourceSchema,
+  categories: z.array(z.string()), // Why it was queued, e.g. a blocked word or an AI category
+  status: ModerationReportStatusSchema,
+  matchId: z.string().optional(), // Responses only
+  roundNumber: z.number().int().positive().optional(),
+  identity: IdentitySchema.optional(),
+  userId: z.string().optional(), // Author, when signed in
+  packId: z.string().optional(), // Prompts only
+  reportedBy: z.string().optional(), // Player reports only
+  reason: z.string().max(200).optional(),
+  createdAt: z.string(),
+  resolvedAt: z.string().optional(),
+});
+export type ModerationReport = z.infer<typeof ModerationReportSchema>;
+
+// POST /matches/{matchId}/reports
+export const ReportResponseRequestSchema = z.object({
+  roundNumber: z.number().int().positive(),
+  identity: IdentitySchema,
+  reason: z.string().max(200).optional(),
+});
+export type ReportResponseRequest = z.infer<typeof ReportResponseRequestSchema>;
+
+// PUT /admin/moderation/{reportId}; upholding a response report masks it in the match
+export const ResolveModerationReportRequestSchema = z.object({
+  status: z.enum(['dismissed', 'upheld']),
+});
+export type ResolveModerationReportRequest = z.infer<typeof ResolveModerationReportRequestSchema>;
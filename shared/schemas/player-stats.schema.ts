@@ -0,0 +1,46 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+import { MatchTemplateTypeSchema } from './match.schema';
+
+// Career statistics: each human's completed matches folded into running
+// totals, kept per user and updated as each match completes.
+
+// Counters summed over matches, with the rates derived from them
+export const StatsTotalsSchema = z.object({
+  gamesPlayed: z.number().int().min(0),
+  wins: z.number().int().min(0),
+  totalScore: z.number(),
+  votesCast: z.number().int().min(0), // One per pick
+  correctVotes: z.number().int().min(0),
+  votesFaced: z.number().int().min(0), // Votes others cast while this player sat at the table
+  timesVotedAsHuman: z.number().int().min(0), // Of votesFaced, those that picked this player
+  deceptionPoints: z.number(),
+  responsesTimed: z.number().int().min(0),
+  totalResponseMs: z.number().min(0),
+  voteAccuracy: z.number().min(0).max(1).optional(), // correctVotes / votesCast
+  deceptionRate: z.number().min(0).max(1).optional(), // Share of votesFaced that missed this player
+  averageResponseTime: z.number().min(0).optional(), // milliseconds
+});
+export type StatsTotals = z.infer<typeof StatsTotalsSchema>;
+
+// One completed match, kept for trends
+export const MatchStatsEntrySchema = z.object({
+  matchId: z.string(),
+  templateType: MatchTemplateTypeSchema,
+  completedAt: z.string(),
+  won: z.boolean(),
+  score: z.number(),
+  voteAccuracy: z.number().min(0).max(1).optional(),
+  deceptionRate: z.number().min(0).max(1).optional(),
+  averageResponseTime: z.number().min(0).optional(),
+});
+export type MatchStatsEntry = z.infer<typeof MatchStatsEntrySchema>;
+
+// GET /users/me/stats
+export const CareerStatsSchema = StatsTotalsSchema.extend({
+  userId: z.string(),
+  byTemplate: z.record(z.string(), StatsTotalsSchema), // Keyed by template type
+  recentMatches: z.array(MatchStatsEntrySchema), // Newest first
+  updatedAt: z.string(),
+});
+export type CareerStats = z.infer<typeof CareerStatsSchema>;
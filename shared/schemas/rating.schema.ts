@@ -0,0 +1,42 @@
+// @ts-ignore - Zod will be resolved by the bundler
+import { z } from 'zod';
+import { MatchTemplateTypeSchema } from './match.schema';
+
+// Skill ratings: Elo-style scores for spotting the humans (detection) and for
+// passing as AI (disguise), kept per season, overall and per template type.
+
+export const RatingKindSchema = z.enum(['detection', 'disguise']);
+export type RatingKind = z.infer<typeof RatingKindSchema>;
+
+// Seasons are calendar quarters, e.g. 2026-Q4
+export const SeasonSchema = z.string().regex(/^\d{4}-Q[1-4]$/);
+export type Season = z.infer<typeof SeasonSchema>;
+
+// A player's ratings on one leaderboard
+export const PlayerRatingSchema = z.object({
+  userId: z.string(),
+  displayName: z.string(), // As of their latest rated match
+  season: SeasonSchema,
+  templateType: MatchTemplateTypeSchema.optional(), // Unset on the overall board
+  detectionRating: z.number(),
+  disguiseRating: z.number(),
+  matchesRated: z.number().int().min(0),
+  provisional: z.boolean(), // Too few matches for the rating to settle
+});
+export type PlayerRating = z.infer<typeof PlayerRatingSchema>;
+
+export const LeaderboardEntrySchema = PlayerRatingSchema.extend({
+  rank: z.number().int().positive(),
+});
+export type LeaderboardEntry = z.infer<typeof LeaderboardEntrySchema>;
+
+// GET /leaderboards?rating=&season=&templateType=&limit=
+export const LeaderboardSchema = z.object({
+  rating: RatingKindSchema,
+  season: SeasonSchema,
+  currentSeason: SeasonSchema,
+  templateType: MatchTemplateTypeSchema.optional(),
+  entries: z.array(LeaderboardEntrySchema), // Highest rating first
+  mine: PlayerRatingSchema.optional(), // The signed-in caller's standing, if rated
+});
+export type Leaderboard = z.infer<typeof LeaderboardSchema>;